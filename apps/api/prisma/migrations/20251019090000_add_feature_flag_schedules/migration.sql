@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."FlagScheduleType" AS ENUM ('ENABLE', 'DISABLE', 'ROLLOUT_RAMP', 'ARCHIVE');
+
+-- CreateEnum
+CREATE TYPE "public"."FlagScheduleStatus" AS ENUM ('PENDING', 'ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED', 'ROLLED_BACK', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."feature_flag_schedules" (
+    "id" TEXT NOT NULL,
+    "feature_flag_id" TEXT NOT NULL,
+    "type" "public"."FlagScheduleType" NOT NULL,
+    "status" "public"."FlagScheduleStatus" NOT NULL DEFAULT 'PENDING',
+    "run_at" TIMESTAMP(3) NOT NULL,
+    "steps" JSONB,
+    "current_step" INTEGER NOT NULL DEFAULT 0,
+    "rollback_threshold" DOUBLE PRECISION,
+    "rollback_min_requests" INTEGER NOT NULL DEFAULT 100,
+    "previous_state" JSONB,
+    "metrics_baseline" JSONB,
+    "last_error" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "feature_flag_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "feature_flag_schedules_feature_flag_id_idx" ON "public"."feature_flag_schedules"("feature_flag_id");
+
+-- CreateIndex
+CREATE INDEX "feature_flag_schedules_status_run_at_idx" ON "public"."feature_flag_schedules"("status", "run_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."feature_flag_schedules" ADD CONSTRAINT "feature_flag_schedules_feature_flag_id_fkey" FOREIGN KEY ("feature_flag_id") REFERENCES "public"."feature_flags"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."feature_flag_schedules" ADD CONSTRAINT "feature_flag_schedules_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
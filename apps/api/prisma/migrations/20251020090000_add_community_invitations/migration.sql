@@ -0,0 +1,49 @@
+-- CreateEnum
+CREATE TYPE "public"."InvitationStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'REVOKED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "public"."InvitationType" AS ENUM ('DIRECT', 'LINK');
+
+-- CreateTable
+CREATE TABLE "public"."community_invitations" (
+    "id" TEXT NOT NULL,
+    "community_id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "type" "public"."InvitationType" NOT NULL,
+    "status" "public"."InvitationStatus" NOT NULL DEFAULT 'PENDING',
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "inviter_id" TEXT NOT NULL,
+    "invitee_id" TEXT,
+    "email" TEXT,
+    "max_uses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3),
+    "responded_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "revoked_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "community_invitations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "community_invitations_code_key" ON "public"."community_invitations"("code");
+
+-- CreateIndex
+CREATE INDEX "community_invitations_community_id_status_idx" ON "public"."community_invitations"("community_id", "status");
+
+-- CreateIndex
+CREATE INDEX "community_invitations_invitee_id_status_idx" ON "public"."community_invitations"("invitee_id", "status");
+
+-- CreateIndex
+CREATE INDEX "community_invitations_email_status_idx" ON "public"."community_invitations"("email", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."community_invitations" ADD CONSTRAINT "community_invitations_community_id_fkey" FOREIGN KEY ("community_id") REFERENCES "public"."communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."community_invitations" ADD CONSTRAINT "community_invitations_inviter_id_fkey" FOREIGN KEY ("inviter_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."community_invitations" ADD CONSTRAINT "community_invitations_invitee_id_fkey" FOREIGN KEY ("invitee_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
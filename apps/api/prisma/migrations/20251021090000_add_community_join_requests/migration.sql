@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."JoinRequestStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "public"."NotificationType" ADD VALUE 'COMMUNITY_JOIN_REVIEWED';
+
+-- AlterTable
+ALTER TABLE "public"."communities" ADD COLUMN     "auto_approve_domains" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "auto_approve_paid" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "join_questions" JSONB;
+
+-- CreateTable
+CREATE TABLE "public"."community_join_requests" (
+    "id" TEXT NOT NULL,
+    "community_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "status" "public"."JoinRequestStatus" NOT NULL DEFAULT 'PENDING',
+    "answers" JSONB,
+    "message" TEXT,
+    "auto_approved_by" TEXT,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "rejection_reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "community_join_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "community_join_requests_community_id_status_idx" ON "public"."community_join_requests"("community_id", "status");
+
+-- CreateIndex
+CREATE INDEX "community_join_requests_user_id_status_idx" ON "public"."community_join_requests"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."community_join_requests" ADD CONSTRAINT "community_join_requests_community_id_fkey" FOREIGN KEY ("community_id") REFERENCES "public"."communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."community_join_requests" ADD CONSTRAINT "community_join_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
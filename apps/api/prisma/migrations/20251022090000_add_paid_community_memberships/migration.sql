@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."community_members" ADD COLUMN     "grace_period_ends_at" TIMESTAMP(3),
+ADD COLUMN     "subscription_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."subscriptions" ADD COLUMN     "communityId" TEXT,
+ALTER COLUMN "tier" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "community_members_status_grace_period_ends_at_idx" ON "public"."community_members"("status", "grace_period_ends_at");
+
+-- CreateIndex
+CREATE INDEX "subscriptions_communityId_idx" ON "public"."subscriptions"("communityId");
+
+-- AddForeignKey
+ALTER TABLE "public"."subscriptions" ADD CONSTRAINT "subscriptions_communityId_fkey" FOREIGN KEY ("communityId") REFERENCES "public"."communities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookEventStatus" AS ENUM ('RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "public"."payment_webhook_events" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "payload" TEXT NOT NULL,
+    "status" "public"."WebhookEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" TIMESTAMP(3),
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payment_webhook_events_status_nextAttemptAt_idx" ON "public"."payment_webhook_events"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_webhook_events_provider_eventId_key" ON "public"."payment_webhook_events"("provider", "eventId");
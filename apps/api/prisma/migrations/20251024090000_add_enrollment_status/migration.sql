@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "public"."EnrollmentStatus" AS ENUM ('ACTIVE', 'REFUND_REVIEW', 'REVOKED');
+
+-- AlterTable
+ALTER TABLE "public"."enrollments" ADD COLUMN     "revokedAt" TIMESTAMP(3),
+ADD COLUMN     "status" "public"."EnrollmentStatus" NOT NULL DEFAULT 'ACTIVE';
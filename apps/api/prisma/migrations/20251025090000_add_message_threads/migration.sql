@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "public"."messages" ADD COLUMN     "last_reply_at" TIMESTAMP(3),
+ADD COLUMN     "parent_id" TEXT,
+ADD COLUMN     "reply_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."message_thread_reads" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "last_read_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_thread_reads_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "messages_parent_id_created_at_idx" ON "public"."messages"("parent_id", "created_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_thread_reads_message_id_user_id_key" ON "public"."message_thread_reads"("message_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."messages" ADD CONSTRAINT "messages_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_thread_reads" ADD CONSTRAINT "message_thread_reads_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_thread_reads" ADD CONSTRAINT "message_thread_reads_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
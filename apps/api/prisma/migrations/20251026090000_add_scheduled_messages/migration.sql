@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."MessageRecurrence" AS ENUM ('DAILY', 'WEEKDAYS', 'WEEKLY');
+
+-- CreateEnum
+CREATE TYPE "public"."ScheduledMessageStatus" AS ENUM ('PENDING', 'SENT', 'CANCELLED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."scheduled_messages" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "sender_id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "message_type" "public"."MessageType" NOT NULL DEFAULT 'text',
+    "attachments" TEXT[],
+    "parent_id" TEXT,
+    "send_at" TIMESTAMP(3) NOT NULL,
+    "recurrence" "public"."MessageRecurrence",
+    "recurrence_ends_at" TIMESTAMP(3),
+    "status" "public"."ScheduledMessageStatus" NOT NULL DEFAULT 'PENDING',
+    "occurrences" INTEGER NOT NULL DEFAULT 0,
+    "last_sent_at" TIMESTAMP(3),
+    "last_message_id" TEXT,
+    "last_error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_conversation_id_status_idx" ON "public"."scheduled_messages"("conversation_id", "status");
+
+-- CreateIndex
+CREATE INDEX "scheduled_messages_status_send_at_idx" ON "public"."scheduled_messages"("status", "send_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_messages" ADD CONSTRAINT "scheduled_messages_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."scheduled_messages" ADD CONSTRAINT "scheduled_messages_sender_id_fkey" FOREIGN KEY ("sender_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
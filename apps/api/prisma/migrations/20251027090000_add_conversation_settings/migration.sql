@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."conversation_participants" ADD COLUMN     "archived_at" TIMESTAMP(3),
+ADD COLUMN     "email_notifications" BOOLEAN,
+ADD COLUMN     "is_archived" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_muted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_starred" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "muted_until" TIMESTAMP(3),
+ADD COLUMN     "push_notifications" BOOLEAN;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "public"."user_preferences" ADD COLUMN     "show_read_receipts" BOOLEAN NOT NULL DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "public"."message_receipts" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "delivered_at" TIMESTAMP(3),
+    "read_at" TIMESTAMP(3),
+
+    CONSTRAINT "message_receipts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_receipts_user_id_read_at_idx" ON "public"."message_receipts"("user_id", "read_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_receipts_message_id_user_id_key" ON "public"."message_receipts"("message_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_receipts" ADD CONSTRAINT "message_receipts_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_receipts" ADD CONSTRAINT "message_receipts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- CreateIndex
+-- Backs the Postgres full-text fallback for message search; the expression
+-- must match the one used in searchService
+CREATE INDEX "messages_content_fts_idx" ON "public"."messages" USING GIN (to_tsvector('simple'::regconfig, "content"));
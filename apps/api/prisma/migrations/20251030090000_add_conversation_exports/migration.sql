@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."ConversationExportStatus" AS ENUM ('PENDING', 'PROCESSING', 'READY', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "public"."conversation_exports" (
+    "id" TEXT NOT NULL,
+    "conversation_id" TEXT NOT NULL,
+    "requested_by" TEXT NOT NULL,
+    "status" "public"."ConversationExportStatus" NOT NULL DEFAULT 'PENDING',
+    "message_count" INTEGER NOT NULL DEFAULT 0,
+    "file_key" TEXT,
+    "file_size" INTEGER,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "started_at" TIMESTAMP(3),
+    "completed_at" TIMESTAMP(3),
+    "expires_at" TIMESTAMP(3),
+
+    CONSTRAINT "conversation_exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "conversation_exports_requested_by_created_at_idx" ON "public"."conversation_exports"("requested_by", "created_at");
+
+-- CreateIndex
+CREATE INDEX "conversation_exports_status_created_at_idx" ON "public"."conversation_exports"("status", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."conversation_exports" ADD CONSTRAINT "conversation_exports_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."conversation_exports" ADD CONSTRAINT "conversation_exports_requested_by_fkey" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
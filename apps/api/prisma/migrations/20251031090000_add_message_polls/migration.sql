@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "public"."MessageType" ADD VALUE 'poll';
+
+-- CreateTable
+CREATE TABLE "public"."message_poll_votes" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "option_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_poll_votes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_poll_votes_message_id_idx" ON "public"."message_poll_votes"("message_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "message_poll_votes_message_id_user_id_option_id_key" ON "public"."message_poll_votes"("message_id", "user_id", "option_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_poll_votes" ADD CONSTRAINT "message_poll_votes_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_poll_votes" ADD CONSTRAINT "message_poll_votes_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
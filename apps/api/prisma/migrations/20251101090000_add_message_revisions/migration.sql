@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "public"."MessageRevisionAction" AS ENUM ('EDIT', 'DELETE');
+
+-- AlterTable
+ALTER TABLE "public"."conversations" ADD COLUMN     "edit_history_visible" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."message_revisions" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "editor_id" TEXT NOT NULL,
+    "action" "public"."MessageRevisionAction" NOT NULL,
+    "content" TEXT NOT NULL,
+    "attachments" TEXT[],
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "message_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "message_revisions_message_id_created_at_idx" ON "public"."message_revisions"("message_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "public"."message_revisions" ADD CONSTRAINT "message_revisions_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."message_revisions" ADD CONSTRAINT "message_revisions_editor_id_fkey" FOREIGN KEY ("editor_id") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
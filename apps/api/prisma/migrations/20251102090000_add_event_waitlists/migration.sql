@@ -0,0 +1,24 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "public"."EventStatus" ADD VALUE 'offered';
+ALTER TYPE "public"."EventStatus" ADD VALUE 'waitlisted';
+
+-- AlterTable
+ALTER TABLE "public"."event_attendees" ADD COLUMN     "offer_expires_at" TIMESTAMP(3),
+ADD COLUMN     "waitlist_position" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."events" ADD COLUMN     "claim_window_hours" INTEGER NOT NULL DEFAULT 24,
+ADD COLUMN     "waitlist_limit" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "event_attendees_event_id_status_waitlist_position_idx" ON "public"."event_attendees"("event_id", "status", "waitlist_position");
+
+-- CreateIndex
+CREATE INDEX "event_attendees_status_offer_expires_at_idx" ON "public"."event_attendees"("status", "offer_expires_at");
@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "public"."events" ADD COLUMN     "cancelled_at" TIMESTAMP(3),
+ADD COLUMN     "is_override" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "occurrence_start" TIMESTAMP(3),
+ADD COLUMN     "series_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."event_series" (
+    "id" TEXT NOT NULL,
+    "community_id" TEXT NOT NULL,
+    "creator_id" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT,
+    "location" TEXT,
+    "meeting_url" TEXT,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "ends_at" TIMESTAMP(3) NOT NULL,
+    "max_attendees" INTEGER,
+    "waitlist_limit" INTEGER,
+    "claim_window_hours" INTEGER NOT NULL DEFAULT 24,
+    "materialized_until" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "event_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "event_series_materialized_until_idx" ON "public"."event_series"("materialized_until");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "events_series_id_occurrence_start_key" ON "public"."events"("series_id", "occurrence_start");
+
+-- AddForeignKey
+ALTER TABLE "public"."event_series" ADD CONSTRAINT "event_series_community_id_fkey" FOREIGN KEY ("community_id") REFERENCES "public"."communities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."event_series" ADD CONSTRAINT "event_series_creator_id_fkey" FOREIGN KEY ("creator_id") REFERENCES "public"."users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."events" ADD CONSTRAINT "events_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "public"."event_series"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."event_attendees" ADD COLUMN     "custom_reminders" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reminder_minutes" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "public"."event_series" ADD COLUMN     "reminder_minutes" INTEGER[] DEFAULT ARRAY[1440]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "public"."events" DROP COLUMN "reminders_sent",
+ADD COLUMN     "reminder_minutes" INTEGER[] DEFAULT ARRAY[1440]::INTEGER[];
+
+-- CreateIndex
+CREATE INDEX "event_reminders_sent_remind_at_idx" ON "public"."event_reminders"("sent", "remind_at");
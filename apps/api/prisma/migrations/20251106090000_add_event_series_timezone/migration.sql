@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."event_series" ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'UTC';
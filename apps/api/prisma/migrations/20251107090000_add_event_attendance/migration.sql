@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."AttendanceStatus" AS ENUM ('attended', 'no_show');
+
+-- AlterTable
+ALTER TABLE "public"."event_attendees" ADD COLUMN     "attendance" "public"."AttendanceStatus",
+ADD COLUMN     "check_in_code" TEXT,
+ADD COLUMN     "checked_in_at" TIMESTAMP(3),
+ADD COLUMN     "registration" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "event_attendees_event_id_check_in_code_key" ON "public"."event_attendees"("event_id", "check_in_code");
@@ -0,0 +1,2 @@
+-- Reads used to record the read time as the delivery time as well
+UPDATE "public"."message_receipts" SET "delivered_at" = NULL WHERE "delivered_at" = "read_at";
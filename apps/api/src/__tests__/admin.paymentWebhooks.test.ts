@@ -0,0 +1,140 @@
+import request from 'supertest';
+import express from 'express';
+import paymentWebhookRoutes from '../routes/admin/payment-webhooks';
+import { logAdminAction } from '../utils/auditLogger';
+
+jest.mock('@sk-clone/payment', () => ({
+  webhookService: {
+    listEvents: jest.fn(),
+    getEvent: jest.fn(),
+    replayEvent: jest.fn(),
+  },
+}), { virtual: true });
+
+jest.mock('../utils/auditLogger', () => ({
+  logAdminAction: jest.fn(),
+}));
+
+const { webhookService } = jest.requireMock('@sk-clone/payment');
+
+const EVENT_ID = '0b9e7f3a-5c1d-4e2f-8a6b-7c9d0e1f2a3b';
+
+const createTestApp = (permissions: string[] = ['payments.manage']) => {
+  const app = express();
+  app.use(express.json());
+  app.use('/admin/payments/webhooks', (req: any, res: any, next: any) => {
+    req.admin = { id: 'admin-123', role: 'ADMIN', permissions };
+    next();
+  });
+  app.use('/admin/payments/webhooks', paymentWebhookRoutes);
+  return app;
+};
+
+describe('Admin Payment Webhook Routes', () => {
+  const app = createTestApp();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /admin/payments/webhooks', () => {
+    it('lists failed and dead events by default', async () => {
+      webhookService.listEvents.mockResolvedValue({ events: [{ id: EVENT_ID }], total: 1, page: 1, limit: 20 });
+
+      const response = await request(app).get('/admin/payments/webhooks').expect(200);
+
+      expect(webhookService.listEvents).toHaveBeenCalledWith({
+        status: ['FAILED', 'DEAD'],
+        type: undefined,
+        page: 1,
+        limit: 20,
+      });
+      expect(response.body.data).toEqual([{ id: EVENT_ID }]);
+      expect(response.body.pagination).toEqual({ page: 1, limit: 20, total: 1, pages: 1 });
+    });
+
+    it('filters by status and type', async () => {
+      webhookService.listEvents.mockResolvedValue({ events: [], total: 0, page: 2, limit: 10 });
+
+      await request(app)
+        .get('/admin/payments/webhooks?status=PROCESSED,RECEIVED&type=charge.refunded&page=2&limit=10')
+        .expect(200);
+
+      expect(webhookService.listEvents).toHaveBeenCalledWith({
+        status: ['PROCESSED', 'RECEIVED'],
+        type: 'charge.refunded',
+        page: 2,
+        limit: 10,
+      });
+    });
+
+    it('rejects unknown statuses', async () => {
+      const response = await request(app).get('/admin/payments/webhooks?status=FAILED,LOST').expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+      expect(webhookService.listEvents).not.toHaveBeenCalled();
+    });
+
+    it('requires the payments.manage permission', async () => {
+      await request(createTestApp(['users.view'])).get('/admin/payments/webhooks').expect(403);
+
+      expect(webhookService.listEvents).not.toHaveBeenCalled();
+    });
+
+    it('reports payments being disabled', async () => {
+      webhookService.listEvents.mockImplementation(() => {
+        throw new Error('Payments are not enabled');
+      });
+
+      const response = await request(app).get('/admin/payments/webhooks').expect(503);
+
+      expect(response.body.error).toBe('Payments are not enabled');
+    });
+  });
+
+  describe('GET /admin/payments/webhooks/:eventId', () => {
+    it('returns the event with its payload', async () => {
+      webhookService.getEvent.mockResolvedValue({ id: EVENT_ID, payload: '{}' });
+
+      const response = await request(app).get(`/admin/payments/webhooks/${EVENT_ID}`).expect(200);
+
+      expect(response.body.data).toEqual({ id: EVENT_ID, payload: '{}' });
+    });
+
+    it('returns 404 for unknown events', async () => {
+      webhookService.getEvent.mockResolvedValue(null);
+
+      await request(app).get(`/admin/payments/webhooks/${EVENT_ID}`).expect(404);
+    });
+
+    it('rejects ids that are not UUIDs', async () => {
+      await request(app).get('/admin/payments/webhooks/evt_123').expect(400);
+
+      expect(webhookService.getEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /admin/payments/webhooks/:eventId/replay', () => {
+    it('replays the event and records who did it', async () => {
+      webhookService.replayEvent.mockResolvedValue({ eventId: 'evt_1', type: 'charge.refunded', handled: true });
+
+      const response = await request(app).post(`/admin/payments/webhooks/${EVENT_ID}/replay`).expect(200);
+
+      expect(webhookService.replayEvent).toHaveBeenCalledWith(EVENT_ID);
+      expect(response.body.data).toEqual({ eventId: 'evt_1', type: 'charge.refunded', handled: true });
+      expect(logAdminAction).toHaveBeenCalledWith('admin-123', 'PAYMENT_WEBHOOK_REPLAYED', EVENT_ID, {
+        eventId: 'evt_1',
+        type: 'charge.refunded',
+        error: undefined,
+      });
+    });
+
+    it('returns 409 while the event is being processed', async () => {
+      webhookService.replayEvent.mockRejectedValue(new Error('Webhook event is being processed'));
+
+      await request(app).post(`/admin/payments/webhooks/${EVENT_ID}/replay`).expect(409);
+
+      expect(logAdminAction).not.toHaveBeenCalled();
+    });
+  });
+});
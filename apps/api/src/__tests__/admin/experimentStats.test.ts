@@ -0,0 +1,94 @@
+import {
+  analyzeVariants,
+  chiSquarePValue,
+  detectSampleRatioMismatch,
+  normalCdf,
+  normalQuantile,
+  twoProportionZTest,
+  wilsonInterval
+} from '../../services/admin/experimentStats';
+
+describe('experimentStats', () => {
+  describe('normal distribution', () => {
+    it('should compute the CDF and its inverse', () => {
+      expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+      expect(normalCdf(1.959964)).toBeCloseTo(0.975, 4);
+      expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 4);
+      expect(normalQuantile(0.01)).toBeCloseTo(-2.326348, 4);
+    });
+  });
+
+  describe('wilsonInterval', () => {
+    it('should bound the observed rate', () => {
+      const interval = wilsonInterval(50, 100);
+      expect(interval.lower).toBeCloseTo(0.4038, 3);
+      expect(interval.upper).toBeCloseTo(0.5962, 3);
+    });
+
+    it('should stay within [0, 1] for extreme rates', () => {
+      expect(wilsonInterval(0, 10).lower).toBe(0);
+      expect(wilsonInterval(10, 10).upper).toBe(1);
+      expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 0 });
+    });
+  });
+
+  describe('twoProportionZTest', () => {
+    it('should detect a significant difference', () => {
+      const result = twoProportionZTest(
+        { name: 'control', participants: 1000, conversions: 100 },
+        { name: 'treatment', participants: 1000, conversions: 150 }
+      );
+      expect(result.z).toBeCloseTo(3.385, 2);
+      expect(result.pValue).toBeLessThan(0.001);
+    });
+
+    it('should return p=1 without data', () => {
+      expect(twoProportionZTest(
+        { name: 'control', participants: 0, conversions: 0 },
+        { name: 'treatment', participants: 10, conversions: 1 }
+      ).pValue).toBe(1);
+    });
+  });
+
+  describe('chiSquarePValue', () => {
+    it('should match known critical values', () => {
+      expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+      expect(chiSquarePValue(5.991, 2)).toBeCloseTo(0.05, 3);
+      expect(chiSquarePValue(0, 1)).toBe(1);
+    });
+  });
+
+  describe('analyzeVariants', () => {
+    it('should compare each variant against the control', () => {
+      const [control, treatment] = analyzeVariants([
+        { name: 'control', participants: 1000, conversions: 100 },
+        { name: 'treatment', participants: 1000, conversions: 150 }
+      ]);
+
+      expect(control.isControl).toBe(true);
+      expect(control.pValue).toBeNull();
+      expect(treatment.conversionRate).toBe(0.15);
+      expect(treatment.uplift).toBeCloseTo(0.5, 6);
+      expect(treatment.significant).toBe(true);
+    });
+  });
+
+  describe('detectSampleRatioMismatch', () => {
+    it('should accept a split close to the configuration', () => {
+      const result = detectSampleRatioMismatch([
+        { variant: 'control', count: 5050, percentage: 50 },
+        { variant: 'treatment', count: 4950, percentage: 50 }
+      ]);
+      expect(result.detected).toBe(false);
+    });
+
+    it('should flag a skewed split', () => {
+      const result = detectSampleRatioMismatch([
+        { variant: 'control', count: 5400, percentage: 50 },
+        { variant: 'treatment', count: 4600, percentage: 50 }
+      ]);
+      expect(result.detected).toBe(true);
+      expect(result.expected[0].expectedCount).toBe(5000);
+    });
+  });
+});
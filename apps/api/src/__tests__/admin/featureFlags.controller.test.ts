@@ -536,7 +536,7 @@ describe('FeatureFlagsController', () => {
       expect(featureFlagsService.evaluateFeatureFlag).toHaveBeenCalledWith(
         'test-feature',
         'user1',
-        { userAgent: 'Mozilla/5.0', ipAddress: '192.168.1.1' }
+        { userAgent: 'Mozilla/5.0', ipAddress: '192.168.1.1', attributes: {} }
       );
 
       expect(mockResponse.status).toHaveBeenCalledWith(200);
@@ -573,7 +573,7 @@ describe('FeatureFlagsController', () => {
         'user1',
         'treatment',
         expect.any(Object),
-        { userAgent: 'Mozilla/5.0', ipAddress: '192.168.1.1' }
+        { userAgent: 'Mozilla/5.0', ipAddress: '192.168.1.1', attributes: {} }
       );
 
       expect(mockResponse.status).toHaveBeenCalledWith(200);
@@ -0,0 +1,383 @@
+import { buildRampSteps, errorRateSince, flagScheduleService } from '../../services/admin/flagSchedules.service';
+import { prisma } from '../../lib/prisma';
+import { getRequestTotals } from '../../lib/metrics';
+import { logAdminAction } from '../../utils/auditLogger';
+import { featureFlagsService } from '../../services/admin/featureFlags.service';
+
+jest.mock('../../lib/prisma', () => ({
+  prisma: {
+    featureFlag: {
+      findUnique: jest.fn(),
+    },
+    featureFlagSchedule: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+jest.mock('../../lib/metrics', () => ({ getRequestTotals: jest.fn() }));
+jest.mock('../../utils/auditLogger', () => ({ logAdminAction: jest.fn() }));
+jest.mock('../../services/admin/featureFlags.service', () => ({
+  featureFlagsService: {
+    toggleFeatureFlag: jest.fn(),
+    deleteFeatureFlag: jest.fn(),
+    updateFeatureFlag: jest.fn(),
+  },
+}));
+
+describe('flag schedules', () => {
+  const start = new Date('2025-10-20T09:00:00.000Z');
+
+  describe('buildRampSteps', () => {
+    it('should space percentages by the interval', () => {
+      const { steps, errors } = buildRampSteps({ percentages: [5, 25, 50, 100], intervalHours: 12 }, start);
+
+      expect(errors).toEqual([]);
+      expect(steps).toEqual([
+        { percentage: 5, at: '2025-10-20T09:00:00.000Z' },
+        { percentage: 25, at: '2025-10-20T21:00:00.000Z' },
+        { percentage: 50, at: '2025-10-21T09:00:00.000Z' },
+        { percentage: 100, at: '2025-10-21T21:00:00.000Z' },
+      ]);
+    });
+
+    it('should reject steps that do not increase', () => {
+      const { errors } = buildRampSteps({
+        steps: [
+          { percentage: 50, at: '2025-10-20T09:00:00.000Z' },
+          { percentage: 25, at: '2025-10-20T08:00:00.000Z' },
+        ],
+      }, start);
+
+      expect(errors).toEqual([
+        'steps[1].percentage must be greater than the previous step',
+        'steps[1].at must be after the previous step',
+      ]);
+    });
+
+    it('should require steps or percentages', () => {
+      expect(buildRampSteps({}, start).errors).toEqual(['A rollout ramp needs steps or percentages']);
+    });
+  });
+
+  describe('errorRateSince', () => {
+    const baseline = { total: 1000, errors: 10, takenAt: start.toISOString() };
+
+    it('should compute the error rate since the baseline', () => {
+      expect(errorRateSince(baseline, { total: 1200, errors: 30 }, 100)).toBeCloseTo(0.1);
+    });
+
+    it('should wait for enough requests', () => {
+      expect(errorRateSince(baseline, { total: 1050, errors: 40 }, 100)).toBeNull();
+    });
+
+    it('should ignore a baseline from before a restart', () => {
+      expect(errorRateSince(baseline, { total: 500, errors: 0 }, 100)).toBeNull();
+    });
+  });
+
+  describe('FlagScheduleService', () => {
+    const now = new Date('2025-10-21T09:00:00.000Z');
+    const flag = { id: 'flag-1', key: 'new-editor', isActive: false, rolloutPercentage: 0 };
+    const rampSteps = [
+      { percentage: 10, at: '2025-10-20T09:00:00.000Z' },
+      { percentage: 50, at: '2025-10-21T09:00:00.000Z' },
+      { percentage: 100, at: '2025-10-22T09:00:00.000Z' },
+    ];
+    const schedule = (overrides: Record<string, unknown> = {}) => ({
+      id: 'schedule-1',
+      featureFlagId: 'flag-1',
+      type: 'ROLLOUT_RAMP',
+      status: 'ACTIVE',
+      runAt: new Date(rampSteps[0].at),
+      steps: rampSteps,
+      currentStep: 1,
+      rollbackThreshold: null,
+      rollbackMinRequests: 100,
+      metricsBaseline: { total: 1000, errors: 10, takenAt: rampSteps[0].at },
+      previousState: { isActive: false, rolloutPercentage: 0 },
+      createdById: 'admin-1',
+      updatedAt: new Date(rampSteps[0].at),
+      ...overrides,
+    });
+    const due = (...schedules: unknown[]) =>
+      (prisma.featureFlagSchedule.findMany as jest.Mock).mockResolvedValue(schedules);
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.useFakeTimers({ now });
+      (prisma.featureFlag.findUnique as jest.Mock).mockResolvedValue(flag);
+      (prisma.featureFlagSchedule.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (getRequestTotals as jest.Mock).mockReturnValue({ total: 1000, errors: 10 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    describe('processDueSchedules', () => {
+      it('should pick up due pending schedules and active ramps', async () => {
+        due();
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.findMany).toHaveBeenCalledWith({
+          where: {
+            OR: [
+              { status: 'PENDING', runAt: { lte: now } },
+              { status: 'ACTIVE' },
+            ],
+          },
+          orderBy: { runAt: 'asc' },
+        });
+      });
+
+      it('should mark a schedule failed and carry on with the rest', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => {});
+        (prisma.featureFlag.findUnique as jest.Mock).mockResolvedValueOnce(null);
+        due(
+          schedule({ id: 'schedule-1', type: 'ENABLE', status: 'PENDING' }),
+          schedule({ id: 'schedule-2', type: 'ENABLE', status: 'PENDING' })
+        );
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.update).toHaveBeenCalledWith({
+          where: { id: 'schedule-1' },
+          data: { status: 'FAILED', lastError: 'Feature flag not found', completedAt: now },
+        });
+        expect(logAdminAction).toHaveBeenCalledWith('admin-1', 'FEATURE_FLAG_SCHEDULE_FAILED', 'flag-1', {
+          scheduleId: 'schedule-1',
+          error: 'Feature flag not found',
+        });
+        expect(featureFlagsService.toggleFeatureFlag).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('startSchedule', () => {
+      it('should claim a one-off schedule, apply it and remember the previous state', async () => {
+        due(schedule({ type: 'ENABLE', status: 'PENDING', steps: null, currentStep: 0 }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).toHaveBeenCalledWith({
+          where: { id: 'schedule-1', status: 'PENDING' },
+          data: {
+            status: 'COMPLETED',
+            previousState: { isActive: false, rolloutPercentage: 0 },
+            completedAt: now,
+          },
+        });
+        expect(featureFlagsService.toggleFeatureFlag).toHaveBeenCalledWith('flag-1', true, 'admin-1');
+        expect(logAdminAction).toHaveBeenCalledWith('admin-1', 'FEATURE_FLAG_SCHEDULE_EXECUTED', 'flag-1', expect.objectContaining({
+          type: 'ENABLE',
+        }));
+      });
+
+      it('should archive the flag for archive schedules', async () => {
+        due(schedule({ type: 'ARCHIVE', status: 'PENDING', steps: null, currentStep: 0 }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(featureFlagsService.deleteFeatureFlag).toHaveBeenCalledWith('flag-1', 'admin-1');
+      });
+
+      it('should skip schedules another instance claimed first', async () => {
+        (prisma.featureFlagSchedule.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+        due(schedule({ type: 'DISABLE', status: 'PENDING', steps: null, currentStep: 0 }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(featureFlagsService.toggleFeatureFlag).not.toHaveBeenCalled();
+        expect(logAdminAction).not.toHaveBeenCalled();
+      });
+
+      it('should start a ramp with its first step', async () => {
+        due(schedule({ status: 'PENDING', currentStep: 0, metricsBaseline: null }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+          data: expect.objectContaining({ status: 'ACTIVE', completedAt: null }),
+        }));
+        expect(featureFlagsService.updateFeatureFlag).toHaveBeenCalledWith('flag-1', {
+          isActive: true,
+          rolloutPercentage: 10,
+        }, 'admin-1');
+      });
+    });
+
+    describe('advanceRamp', () => {
+      it('should apply the next due step and take a new metrics baseline', async () => {
+        due(schedule());
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).toHaveBeenCalledWith({
+          where: { id: 'schedule-1', status: 'ACTIVE', currentStep: 1 },
+          data: {
+            currentStep: 2,
+            metricsBaseline: { total: 1000, errors: 10, takenAt: now.toISOString() },
+          },
+        });
+        expect(featureFlagsService.updateFeatureFlag).toHaveBeenCalledWith('flag-1', {
+          isActive: true,
+          rolloutPercentage: 50,
+        }, 'admin-1');
+        expect(logAdminAction).toHaveBeenCalledWith('admin-1', 'FEATURE_FLAG_RAMP_STEP', 'flag-1', expect.objectContaining({
+          step: 2,
+          totalSteps: 3,
+        }));
+      });
+
+      it('should wait for a step that is not due yet', async () => {
+        due(schedule({ currentStep: 2 }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).not.toHaveBeenCalled();
+        expect(featureFlagsService.updateFeatureFlag).not.toHaveBeenCalled();
+      });
+
+      it('should complete an unmonitored ramp with its last step', async () => {
+        due(schedule({ currentStep: 2, steps: rampSteps.slice(0, 2).concat({ ...rampSteps[2], at: now.toISOString() }) }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+          data: expect.objectContaining({ currentStep: 3, status: 'COMPLETED', completedAt: now }),
+        }));
+      });
+
+      it('should keep watching the final step of a monitored ramp until there is enough traffic', async () => {
+        due(schedule({
+          currentStep: 3,
+          rollbackThreshold: 0.05,
+          metricsBaseline: { total: 1000, errors: 10, takenAt: new Date(now.getTime() - 30 * 60 * 1000).toISOString() },
+        }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).not.toHaveBeenCalled();
+      });
+
+      it('should skip a step another instance already applied', async () => {
+        (prisma.featureFlagSchedule.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+        due(schedule());
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(featureFlagsService.updateFeatureFlag).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('rollBack', () => {
+      it('should restore the previous state when the error rate crosses the threshold', async () => {
+        (getRequestTotals as jest.Mock).mockReturnValue({ total: 1200, errors: 30 });
+        due(schedule({ rollbackThreshold: 0.05 }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(prisma.featureFlagSchedule.updateMany).toHaveBeenCalledWith({
+          where: { id: 'schedule-1', status: 'ACTIVE' },
+          data: {
+            status: 'ROLLED_BACK',
+            completedAt: now,
+            lastError: 'Error rate 10.00% exceeded threshold 5.00%',
+          },
+        });
+        expect(featureFlagsService.updateFeatureFlag).toHaveBeenCalledWith('flag-1', {
+          isActive: false,
+          rolloutPercentage: 0,
+        }, 'admin-1');
+        expect(logAdminAction).toHaveBeenCalledWith('admin-1', 'FEATURE_FLAG_RAMP_ROLLED_BACK', 'flag-1', expect.objectContaining({
+          errorRate: expect.closeTo(0.1),
+          threshold: 0.05,
+        }));
+      });
+
+      it('should keep ramping while the error rate stays below the threshold', async () => {
+        (getRequestTotals as jest.Mock).mockReturnValue({ total: 1200, errors: 12 });
+        due(schedule({ rollbackThreshold: 0.05 }));
+
+        await flagScheduleService.processDueSchedules();
+
+        expect(featureFlagsService.updateFeatureFlag).toHaveBeenCalledWith('flag-1', {
+          isActive: true,
+          rolloutPercentage: 50,
+        }, 'admin-1');
+      });
+    });
+
+    describe('pause and resume', () => {
+      it('should pause an open schedule', async () => {
+        (prisma.featureFlagSchedule.findUnique as jest.Mock).mockResolvedValue(schedule());
+
+        await flagScheduleService.pauseSchedule('schedule-1', 'admin-1');
+
+        expect(prisma.featureFlagSchedule.update).toHaveBeenCalledWith({
+          where: { id: 'schedule-1' },
+          data: { status: 'PAUSED' },
+        });
+        expect(logAdminAction).toHaveBeenCalledWith('admin-1', 'FEATURE_FLAG_SCHEDULE_PAUSED', 'flag-1', {
+          scheduleId: 'schedule-1',
+          currentStep: 1,
+        });
+      });
+
+      it('should not pause a paused or finished schedule', async () => {
+        (prisma.featureFlagSchedule.findUnique as jest.Mock).mockResolvedValueOnce(schedule({ status: 'PAUSED' }));
+        await expect(flagScheduleService.pauseSchedule('schedule-1', 'admin-1')).rejects.toThrow('Schedule is already paused');
+
+        (prisma.featureFlagSchedule.findUnique as jest.Mock).mockResolvedValueOnce(schedule({ status: 'ROLLED_BACK' }));
+        await expect(flagScheduleService.pauseSchedule('schedule-1', 'admin-1')).rejects.toThrow('Schedule is already rolled_back');
+      });
+
+      it('should push the remaining steps back by the time spent paused', async () => {
+        // Paused right after the first step, for a day
+        (prisma.featureFlagSchedule.findUnique as jest.Mock).mockResolvedValue(schedule({
+          status: 'PAUSED',
+          updatedAt: new Date('2025-10-20T09:00:00.000Z'),
+        }));
+
+        await flagScheduleService.resumeSchedule('schedule-1', 'admin-1');
+
+        expect(prisma.featureFlagSchedule.update).toHaveBeenCalledWith({
+          where: { id: 'schedule-1' },
+          data: {
+            status: 'ACTIVE',
+            runAt: new Date('2025-10-21T09:00:00.000Z'),
+            steps: [
+              rampSteps[0],
+              { percentage: 50, at: '2025-10-22T09:00:00.000Z' },
+              { percentage: 100, at: '2025-10-23T09:00:00.000Z' },
+            ],
+          },
+        });
+      });
+
+      it('should resume a ramp that never started as pending', async () => {
+        (prisma.featureFlagSchedule.findUnique as jest.Mock).mockResolvedValue(schedule({
+          status: 'PAUSED',
+          currentStep: 0,
+          updatedAt: now,
+        }));
+
+        await flagScheduleService.resumeSchedule('schedule-1', 'admin-1');
+
+        expect(prisma.featureFlagSchedule.update).toHaveBeenCalledWith(expect.objectContaining({
+          data: expect.objectContaining({ status: 'PENDING' }),
+        }));
+      });
+
+      it('should only resume paused schedules', async () => {
+        (prisma.featureFlagSchedule.findUnique as jest.Mock).mockResolvedValue(schedule());
+
+        await expect(flagScheduleService.resumeSchedule('schedule-1', 'admin-1')).rejects.toThrow('Schedule is not paused');
+        expect(prisma.featureFlagSchedule.update).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  evaluateSegmentRule,
+  parseUserAgent,
+  ruleRequiresUser,
+  validateSegmentRule,
+  SegmentContext
+} from '../../services/admin/segmentRules';
+
+describe('segmentRules', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+  const context: SegmentContext = {
+    user: {
+      id: 'user-1',
+      role: 'MODERATOR',
+      email: 'jane@Example.com',
+      createdAt: new Date('2025-05-01T00:00:00Z'),
+      subscriptionTier: 'PRO',
+      communityIds: ['community-1', 'community-2']
+    },
+    device: parseUserAgent('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 Mobile/15E148 Safari/604.1'),
+    country: 'de',
+    attributes: { plan: 'beta', seats: '12' },
+    now
+  };
+
+  describe('validateSegmentRule', () => {
+    it('should accept a composite rule tree', () => {
+      const errors = validateSegmentRule({
+        all: [
+          { attribute: 'user.role', operator: 'in', value: ['ADMIN', 'MODERATOR'] },
+          { not: { attribute: 'geo.country', operator: 'eq', value: 'US' } },
+          { any: [{ attribute: 'custom.plan', operator: 'exists' }] }
+        ]
+      });
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should report every invalid condition with its path', () => {
+      const errors = validateSegmentRule({
+        any: [
+          { attribute: 'user.shoeSize', operator: 'eq', value: 42 },
+          { attribute: 'user.accountAgeDays', operator: 'gte', value: '30' },
+          { attribute: 'user.role', operator: 'in', value: 'ADMIN' }
+        ]
+      });
+
+      expect(errors).toEqual([
+        'conditions.any[0].attribute: unknown attribute "user.shoeSize"',
+        'conditions.any[1].value: must be a number for operator "gte"',
+        'conditions.any[2].value: must be an array for operator "in"'
+      ]);
+    });
+
+    it('should reject empty composites and non-objects', () => {
+      expect(validateSegmentRule({ all: [] })).toEqual(['conditions.all: must be a non-empty array of rules']);
+      expect(validateSegmentRule('premium')).toEqual(['conditions: rule must be an object']);
+    });
+  });
+
+  describe('evaluateSegmentRule', () => {
+    it('should match user, device and geo conditions', () => {
+      const result = evaluateSegmentRule({
+        all: [
+          { attribute: 'user.role', operator: 'eq', value: 'moderator' },
+          { attribute: 'user.accountAgeDays', operator: 'gte', value: 30 },
+          { attribute: 'user.emailDomain', operator: 'eq', value: 'example.com' },
+          { attribute: 'user.subscriptionTier', operator: 'in', value: ['BASIC', 'PRO'] },
+          { attribute: 'user.communities', operator: 'contains', value: 'community-2' },
+          { attribute: 'device.type', operator: 'eq', value: 'mobile' },
+          { attribute: 'geo.country', operator: 'eq', value: 'DE' }
+        ]
+      }, context);
+
+      expect(result.matched).toBe(true);
+      expect(result.explanation).toContain('user.accountAgeDays gte 30 (was 31)');
+    });
+
+    it('should explain the failing condition of an AND', () => {
+      const result = evaluateSegmentRule({
+        all: [
+          { attribute: 'user.role', operator: 'eq', value: 'MODERATOR' },
+          { attribute: 'device.os', operator: 'eq', value: 'android' }
+        ]
+      }, context);
+
+      expect(result).toEqual({ matched: false, explanation: 'device.os eq android (was ios)' });
+    });
+
+    it('should support OR and NOT composition', () => {
+      const result = evaluateSegmentRule({
+        any: [
+          { attribute: 'custom.plan', operator: 'eq', value: 'ga' },
+          { not: { attribute: 'geo.country', operator: 'in', value: ['US', 'CA'] } }
+        ]
+      }, context);
+
+      expect(result).toEqual({ matched: true, explanation: 'NOT (geo.country in [US, CA] (was DE))' });
+    });
+
+    it('should not match user conditions for anonymous users', () => {
+      const result = evaluateSegmentRule(
+        { attribute: 'user.role', operator: 'eq', value: 'USER' },
+        { device: parseUserAgent(undefined) }
+      );
+
+      expect(result.matched).toBe(false);
+    });
+  });
+
+  describe('ruleRequiresUser', () => {
+    it('should only require a user lookup for user attributes', () => {
+      expect(ruleRequiresUser({ attribute: 'device.type', operator: 'eq', value: 'mobile' })).toBe(false);
+      expect(ruleRequiresUser({ attribute: 'user.id', operator: 'eq', value: 'user-1' })).toBe(false);
+      expect(ruleRequiresUser({ not: { attribute: 'user.role', operator: 'eq', value: 'ADMIN' } })).toBe(true);
+    });
+  });
+
+  describe('parseUserAgent', () => {
+    it('should classify common user agents', () => {
+      expect(parseUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0 Safari/537.36'))
+        .toEqual({ type: 'desktop', os: 'windows', browser: 'chrome' });
+      expect(parseUserAgent('Mozilla/5.0 (iPad; CPU OS 17_0 like Mac OS X) Safari/604.1'))
+        .toEqual({ type: 'tablet', os: 'ios', browser: 'safari' });
+      expect(parseUserAgent('Googlebot/2.1 (+http://www.google.com/bot.html)').type).toBe('bot');
+    });
+  });
+});
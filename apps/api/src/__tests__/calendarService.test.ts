@@ -0,0 +1,313 @@
+import { calendarService } from '../services/calendarService';
+import { prisma } from '../lib/prisma';
+import { eventService } from '../services/eventService';
+import { buildCalendar, foldLine } from '../utils/ical';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    event: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    eventSeries: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    eventAttendee: {
+      findMany: jest.fn(),
+    },
+    calendarFeed: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/eventService', () => ({
+  eventService: {
+    canViewEvents: jest.fn(),
+  },
+}));
+
+// Unfold continuation lines so assertions can match whole properties
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+describe('iCalendar output', () => {
+  it('folds long lines without splitting characters', () => {
+    const folded = foldLine(`DESCRIPTION:${'é'.repeat(60)}`);
+
+    for (const line of folded.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+
+  it('escapes text and anchors times to the UTC timezone', () => {
+    const lines = unfold(buildCalendar([{
+      uid: 'event-1@skool',
+      start: new Date('2025-11-04T17:00:00Z'),
+      end: new Date('2025-11-04T18:00:00Z'),
+      summary: 'Q&A; part 1, live',
+      description: 'Line one\nLine two',
+    }], { now: new Date('2025-11-01T00:00:00Z') }));
+
+    expect(lines).toEqual(expect.arrayContaining([
+      'BEGIN:VTIMEZONE',
+      'TZID:UTC',
+      'DTSTAMP:20251101T000000Z',
+      'DTSTART;TZID=UTC:20251104T170000',
+      'DTEND;TZID=UTC:20251104T180000',
+      'SUMMARY:Q&A\\; part 1\\, live',
+      'DESCRIPTION:Line one\\nLine two',
+    ]));
+    expect(lines[lines.length - 1]).toBe('');
+  });
+
+  it('writes times in the event time zone and declares its daylight saving rules', () => {
+    const ics = buildCalendar([{
+      uid: 'series-1@skool',
+      start: new Date('2030-01-07T14:00:00Z'),
+      end: new Date('2030-01-07T15:00:00Z'),
+      summary: 'Standup',
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      timeZone: 'America/New_York',
+    }], { now: new Date('2030-01-01T00:00:00Z') });
+    const lines = unfold(ics);
+
+    const vtimezone = lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1);
+    expect(vtimezone).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20290311T020000',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      'TZNAME:EDT',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20291104T020000',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      'TZNAME:EST',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ]);
+    expect(lines).toEqual(expect.arrayContaining([
+      'X-WR-TIMEZONE:America/New_York',
+      'DTSTART;TZID=America/New_York:20300107T090000',
+      'DTEND;TZID=America/New_York:20300107T100000',
+    ]));
+  });
+
+  it('declares each time zone once, with a fixed offset for zones without daylight saving', () => {
+    const event = (uid: string, timeZone?: string) => ({
+      uid,
+      start: new Date('2030-01-07T14:00:00Z'),
+      end: new Date('2030-01-07T15:00:00Z'),
+      summary: 'Standup',
+      timeZone,
+    });
+
+    const lines = unfold(buildCalendar([event('1', 'Asia/Kolkata'), event('2', 'Asia/Kolkata'), event('3')]));
+
+    expect(lines.filter(line => line.startsWith('TZID:'))).toEqual(['TZID:Asia/Kolkata', 'TZID:UTC']);
+    expect(lines).toEqual(expect.arrayContaining([
+      'X-WR-TIMEZONE:UTC',
+      'TZOFFSETTO:+0530',
+      'DTSTART;TZID=Asia/Kolkata:20300107T193000',
+      'DTSTART;TZID=UTC:20300107T140000',
+    ]));
+  });
+});
+
+describe('CalendarService', () => {
+  const community = { slug: 'builders' };
+  const event = (id: string, overrides: Record<string, any> = {}) => ({
+    id,
+    communityId: 'community-1',
+    title: 'Office hours',
+    description: null,
+    location: null,
+    meetingUrl: 'https://meet.example.com/office-hours',
+    startsAt: new Date('2030-01-08T17:00:00Z'),
+    endsAt: new Date('2030-01-08T18:00:00Z'),
+    createdAt: new Date('2029-12-01T00:00:00Z'),
+    seriesId: null,
+    occurrenceStart: null,
+    cancelledAt: null,
+    community,
+    ...overrides,
+  });
+  const feed = {
+    id: 'feed-1',
+    userId: 'user-1',
+    token: 'secret-token',
+    createdAt: new Date('2029-12-01T00:00:00Z'),
+    lastAccessedAt: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.calendarFeed.findUnique as jest.Mock).mockResolvedValue(feed);
+    (eventService.canViewEvents as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('exportEvent', () => {
+    it('exports a single event', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event('event-1'));
+
+      const { filename, content } = await calendarService.exportEvent('event-1', 'user-1');
+
+      expect(filename).toBe('office-hours.ics');
+      expect(unfold(content)).toEqual(expect.arrayContaining([
+        'UID:event-event-1@skool',
+        'LOCATION:https://meet.example.com/office-hours',
+        'STATUS:CONFIRMED',
+      ]));
+    });
+
+    it('exports a recurring series with its edited and cancelled occurrences', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event('event-1', { seriesId: 'series-1' }));
+      (prisma.eventSeries.findUnique as jest.Mock).mockResolvedValue({
+        ...event('series-1'),
+        rrule: 'FREQ=WEEKLY;COUNT=4',
+        startsAt: new Date('2030-01-01T17:00:00Z'),
+        endsAt: new Date('2030-01-01T18:00:00Z'),
+        occurrences: [
+          event('event-1', {
+            title: 'Office hours (late)',
+            startsAt: new Date('2030-01-08T19:00:00Z'),
+            endsAt: new Date('2030-01-08T20:00:00Z'),
+            occurrenceStart: new Date('2030-01-08T17:00:00Z'),
+          }),
+          event('event-2', {
+            occurrenceStart: new Date('2030-01-15T17:00:00Z'),
+            cancelledAt: new Date('2030-01-02T00:00:00Z'),
+          }),
+        ],
+      });
+
+      const { content } = await calendarService.exportEvent('event-1', 'user-1', { series: true });
+      const lines = unfold(content);
+
+      expect(lines.filter(line => line === 'UID:series-series-1@skool')).toHaveLength(3);
+      expect(lines).toEqual(expect.arrayContaining([
+        'RRULE:FREQ=WEEKLY;COUNT=4',
+        'RECURRENCE-ID;TZID=UTC:20300108T170000',
+        'DTSTART;TZID=UTC:20300108T190000',
+        'SUMMARY:Office hours (late)',
+        'RECURRENCE-ID;TZID=UTC:20300115T170000',
+        'STATUS:CANCELLED',
+      ]));
+    });
+
+    it('exports a series in its own time zone', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event('event-1', { seriesId: 'series-1' }));
+      (prisma.eventSeries.findUnique as jest.Mock).mockResolvedValue({
+        ...event('series-1'),
+        rrule: 'FREQ=WEEKLY',
+        timezone: 'Europe/Berlin',
+        startsAt: new Date('2030-03-19T17:00:00Z'),
+        endsAt: new Date('2030-03-19T18:00:00Z'),
+        occurrences: [
+          // The first occurrence after clocks go forward, cancelled
+          event('event-2', {
+            startsAt: new Date('2030-04-02T16:00:00Z'),
+            endsAt: new Date('2030-04-02T17:00:00Z'),
+            occurrenceStart: new Date('2030-04-02T16:00:00Z'),
+            cancelledAt: new Date('2030-03-01T00:00:00Z'),
+          }),
+        ],
+      });
+
+      const { content } = await calendarService.exportEvent('event-1', 'user-1', { series: true });
+
+      expect(unfold(content)).toEqual(expect.arrayContaining([
+        'TZID:Europe/Berlin',
+        'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+        'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+        'DTSTART;TZID=Europe/Berlin:20300319T180000',
+        'RECURRENCE-ID;TZID=Europe/Berlin:20300402T180000',
+      ]));
+    });
+
+    it('rejects unknown events', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(calendarService.exportEvent('missing', 'user-1')).rejects.toThrow('Event not found');
+    });
+
+    it('hides events the user can\'t see, series included', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event('event-1', { seriesId: 'series-1' }));
+      (eventService.canViewEvents as jest.Mock).mockResolvedValue(false);
+
+      await expect(calendarService.exportEvent('event-1', 'user-2', { series: true }))
+        .rejects.toThrow('Event not found');
+      expect(eventService.canViewEvents).toHaveBeenCalledWith('community-1', 'user-2');
+      expect(prisma.eventSeries.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('feeds', () => {
+    it('replaces the token when a feed is created again', async () => {
+      (prisma.calendarFeed.upsert as jest.Mock).mockImplementation(({ create }) => ({ ...feed, ...create }));
+
+      const result = await calendarService.createFeed('user-1');
+
+      const { create, update } = (prisma.calendarFeed.upsert as jest.Mock).mock.calls[0][0];
+      expect(update.token).toBe(create.token);
+      expect(create.token).not.toBe(feed.token);
+      expect(result.urls.rsvps).toMatch(new RegExp(`/api/calendar/feeds/${create.token}\\.ics$`));
+      expect(result.urls.communities).toMatch(/\?scope=communities$/);
+    });
+
+    it('rejects unknown or revoked tokens', async () => {
+      (prisma.calendarFeed.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(calendarService.renderFeed('revoked')).rejects.toThrow('Calendar feed not found');
+    });
+
+    it('lists RSVPs, marking unconfirmed ones tentative and cancelled ones cancelled', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        { status: 'confirmed', event: event('event-1') },
+        { status: 'waitlisted', event: event('event-2') },
+        { status: 'confirmed', event: event('event-3', { cancelledAt: new Date() }) },
+      ]);
+
+      const lines = unfold(await calendarService.renderFeed('secret-token'));
+
+      expect(prisma.eventAttendee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ userId: 'user-1', status: { not: 'declined' } }),
+      }));
+      expect(lines.filter(line => line.startsWith('STATUS:'))).toEqual([
+        'STATUS:CONFIRMED',
+        'STATUS:TENTATIVE',
+        'STATUS:CANCELLED',
+      ]);
+      expect(prisma.calendarFeed.update).toHaveBeenCalledWith({
+        where: { id: 'feed-1' },
+        data: { lastAccessedAt: expect.any(Date) },
+      });
+    });
+
+    it('lists community events, leaving out series that have ended', async () => {
+      (prisma.event.findMany as jest.Mock).mockResolvedValue([event('event-1')]);
+      (prisma.eventSeries.findMany as jest.Mock).mockResolvedValue([
+        { ...event('series-1'), rrule: 'FREQ=WEEKLY', occurrences: [] },
+        { ...event('series-2'), rrule: 'FREQ=WEEKLY;UNTIL=20200101', occurrences: [] },
+      ]);
+
+      const lines = unfold(await calendarService.renderFeed('secret-token', 'communities'));
+
+      expect(lines.filter(line => line.startsWith('UID:'))).toEqual([
+        'UID:event-event-1@skool',
+        'UID:series-series-1@skool',
+      ]);
+      expect(lines).toContain('X-WR-CALNAME:Community events');
+    });
+  });
+});
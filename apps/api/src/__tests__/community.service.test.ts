@@ -1,5 +1,6 @@
 import { communityService } from '../services/communityService';
 import { memberService } from '../services/memberService';
+import { invitationService } from '../services/invitationService';
 import { prisma } from '../lib/prisma';
 
 describe('Community Service', () => {
@@ -208,22 +209,22 @@ describe('Member Service', () => {
 
   describe('Invitations', () => {
     it('should return empty invitations list', async () => {
-      const invitations = await memberService.getPendingInvitations(testUser.id);
+      const invitations = await invitationService.getPendingInvitations(testUser.id);
 
       expect(Array.isArray(invitations)).toBe(true);
       expect(invitations.length).toBe(0);
     });
 
-    it('should return not implemented for accept invitation', async () => {
-      await expect(memberService.acceptInvitation('test-id', testUser.id))
+    it('should reject accepting an unknown invitation', async () => {
+      await expect(invitationService.acceptInvitation('test-id', testUser.id))
         .rejects
-        .toThrow('Invitation functionality not implemented');
+        .toThrow('Invitation not found');
     });
 
-    it('should return not implemented for decline invitation', async () => {
-      await expect(memberService.declineInvitation('test-id'))
+    it('should reject declining an unknown invitation', async () => {
+      await expect(invitationService.declineInvitation('test-id', testUser.id))
         .rejects
-        .toThrow('Invitation functionality not implemented');
+        .toThrow('Invitation not found');
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,232 @@
+import { communityMembershipService } from '../services/communityMembershipService';
+import { prisma } from '../lib/prisma';
+import { memberService } from '../services/memberService';
+import { notificationService } from '../services/notification.service';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    community: {
+      findUnique: jest.fn(),
+    },
+    communityMember: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    subscription: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/memberService', () => ({
+  memberService: {
+    joinCommunity: jest.fn(),
+    leaveCommunity: jest.fn(),
+  },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  notificationService: {
+    notifyMemberJoined: jest.fn(),
+    notifyCommunityMembershipStatus: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/auditLogger', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+const createSubscription = jest.fn();
+jest.mock('@sk-clone/payment', () => ({
+  subscriptionService: { createSubscription },
+}), { virtual: true });
+
+describe('CommunityMembershipService', () => {
+  const communityId = 'community-123';
+  const userId = 'user-123';
+  const paidCommunity = {
+    id: communityId,
+    name: 'Growth Club',
+    ownerId: 'owner-1',
+    isPaid: true,
+    priceMonthly: 19.99,
+    priceYearly: null,
+    currency: 'USD',
+  };
+
+  const subscriptionWithStatus = (status: string) => ({
+    id: 'sub-1',
+    status,
+    communityId,
+    customer: { userId },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createCheckout', () => {
+    it('starts a subscription checkout at the community price', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(paidCommunity);
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue(null);
+      createSubscription.mockResolvedValue({ id: 'cs-1', url: 'https://checkout.test/cs-1' });
+
+      const result = await communityMembershipService.createCheckout(
+        communityId,
+        { id: userId, email: 'user@example.com' },
+        'month'
+      );
+
+      expect(createSubscription).toHaveBeenCalledWith(expect.objectContaining({
+        userId,
+        communityId,
+        amount: 1999,
+        currency: 'USD',
+        interval: 'month',
+      }));
+      expect(result).toEqual({ sessionUrl: 'https://checkout.test/cs-1', sessionId: 'cs-1' });
+    });
+
+    it('rejects intervals without a price', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(paidCommunity);
+
+      await expect(
+        communityMembershipService.createCheckout(communityId, { id: userId, email: 'user@example.com' }, 'year')
+      ).rejects.toThrow('No price set for this billing interval');
+      expect(createSubscription).not.toHaveBeenCalled();
+    });
+
+    it('rejects free communities', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ ...paidCommunity, isPaid: false });
+
+      await expect(
+        communityMembershipService.createCheckout(communityId, { id: userId, email: 'user@example.com' }, 'month')
+      ).rejects.toThrow('Community is free to join');
+    });
+  });
+
+  describe('syncSubscription', () => {
+    it('adds the member when the subscription becomes active', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(subscriptionWithStatus('ACTIVE'));
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(paidCommunity);
+
+      await communityMembershipService.syncSubscription('sub-1');
+
+      expect(memberService.joinCommunity).toHaveBeenCalledWith(communityId, userId);
+      expect(prisma.communityMember.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { status: 'active', subscriptionId: 'sub-1', gracePeriodEndsAt: null },
+      }));
+    });
+
+    it('starts a grace period when payment is past due', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(subscriptionWithStatus('PAST_DUE'));
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({ role: 'member', status: 'active' });
+
+      await communityMembershipService.syncSubscription('sub-1');
+
+      const update = (prisma.communityMember.update as jest.Mock).mock.calls[0][0];
+      expect(update.data.status).toBe('past_due');
+      expect(update.data.gracePeriodEndsAt.getTime()).toBeGreaterThan(Date.now());
+      expect(notificationService.notifyCommunityMembershipStatus).toHaveBeenCalledWith(
+        userId, communityId, 'past_due', update.data.gracePeriodEndsAt
+      );
+    });
+
+    it('keeps an existing grace period on repeated failures', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(subscriptionWithStatus('PAST_DUE'));
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({ role: 'member', status: 'past_due' });
+
+      await communityMembershipService.syncSubscription('sub-1');
+
+      expect(prisma.communityMember.update).not.toHaveBeenCalled();
+    });
+
+    it('removes the member when the subscription is canceled', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(subscriptionWithStatus('CANCELED'));
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({ role: 'member', status: 'active' });
+
+      await communityMembershipService.syncSubscription('sub-1');
+
+      expect(memberService.leaveCommunity).toHaveBeenCalledWith(communityId, userId);
+      expect(notificationService.notifyCommunityMembershipStatus).toHaveBeenCalledWith(userId, communityId, 'removed');
+    });
+
+    it('never removes community staff', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue(subscriptionWithStatus('CANCELED'));
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({ role: 'admin', status: 'active' });
+
+      await communityMembershipService.syncSubscription('sub-1');
+
+      expect(memberService.leaveCommunity).not.toHaveBeenCalled();
+    });
+
+    it('ignores platform subscriptions', async () => {
+      (prisma.subscription.findUnique as jest.Mock).mockResolvedValue({
+        ...subscriptionWithStatus('ACTIVE'),
+        communityId: null,
+      });
+
+      expect(await communityMembershipService.syncSubscription('sub-1')).toBeNull();
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireGracePeriods', () => {
+    it('removes members whose grace period has ended', async () => {
+      (prisma.communityMember.findMany as jest.Mock).mockResolvedValue([{ communityId, userId }]);
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({ role: 'member', status: 'past_due' });
+
+      const removed = await communityMembershipService.expireGracePeriods();
+
+      expect(removed).toBe(1);
+      expect(memberService.leaveCommunity).toHaveBeenCalledWith(communityId, userId);
+    });
+  });
+
+  describe('checkAccess', () => {
+    it('allows anyone into free communities', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ id: communityId, isPaid: false });
+
+      expect(await communityMembershipService.checkAccess(communityId)).toEqual({ allowed: true });
+    });
+
+    it('requires a subscription for non-members of paid communities', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(paidCommunity);
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue(null);
+
+      expect(await communityMembershipService.checkAccess(communityId, userId)).toEqual({
+        allowed: false,
+        reason: 'subscription_required',
+      });
+    });
+
+    it('allows past-due members until the grace period ends', async () => {
+      const graceEndsAt = new Date(Date.now() + 60 * 60 * 1000);
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(paidCommunity);
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({
+        role: 'member',
+        status: 'past_due',
+        gracePeriodEndsAt: graceEndsAt,
+      });
+
+      expect(await communityMembershipService.checkAccess(communityId, userId)).toEqual({
+        allowed: true,
+        reason: 'payment_past_due',
+        graceEndsAt,
+      });
+    });
+
+    it('denies past-due members after the grace period', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(paidCommunity);
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({
+        role: 'member',
+        status: 'past_due',
+        gracePeriodEndsAt: new Date(Date.now() - 1000),
+      });
+
+      expect((await communityMembershipService.checkAccess(communityId, userId)).allowed).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { inflateRawSync } from 'zlib';
+import {
+  conversationExportService,
+  ExportedAttachment,
+  renderTranscript,
+  SYNC_EXPORT_MESSAGE_LIMIT,
+} from '../services/conversationExportService';
+import { prisma } from '../lib/prisma';
+import { s3Service } from '../services/s3.service';
+import { notificationService } from '../services/notification.service';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    conversationParticipant: {
+      findUnique: jest.fn(),
+    },
+    conversation: {
+      findUnique: jest.fn(),
+    },
+    message: {
+      count: jest.fn(),
+    },
+    conversationExport: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/s3.service', () => ({
+  s3Service: {
+    getFile: jest.fn(),
+    uploadBuffer: jest.fn(),
+    deleteFile: jest.fn(),
+    getPresignedDownloadUrl: jest.fn(),
+    getKeyFromUrl: jest.fn(),
+  },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  notificationService: {
+    notifyConversationExportReady: jest.fn(),
+  },
+}));
+
+// Read the files back out of an archive through its central directory
+const readZip = (archive: Buffer) => {
+  const end = archive.length - 22;
+  let offset = archive.readUInt32LE(end + 16);
+  const files: Record<string, string> = {};
+
+  for (let i = 0; i < archive.readUInt16LE(end + 10); i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const size = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = archive.subarray(dataStart, dataStart + size);
+
+    files[name] = (method === 8 ? inflateRawSync(data) : data).toString('utf8');
+    offset += 46 + nameLength;
+  }
+
+  return files;
+};
+
+describe('ConversationExportService', () => {
+  const conversationId = 'conversation-123';
+  const userId = 'user-123';
+  const sender = { id: userId, username: 'alice', firstName: 'Alice', lastName: null };
+
+  const conversation = {
+    id: conversationId,
+    type: 'group',
+    name: 'Project <Team>',
+    participants: [{ user: sender, joinedAt: new Date('2025-01-01T00:00:00Z') }],
+    messages: [
+      {
+        id: 'message-1',
+        sender,
+        content: 'Draft attached',
+        messageType: 'file',
+        isEdited: false,
+        isPinned: true,
+        attachments: [
+          'https://public-bucket.s3.us-east-1.amazonaws.com/uploads/user-123/draft.pdf',
+          'https://example.com/elsewhere.png',
+        ],
+        createdAt: new Date('2025-01-02T10:00:00Z'),
+        editedAt: null,
+      },
+      {
+        id: 'message-2',
+        sender,
+        content: '[Message deleted]',
+        messageType: 'deleted',
+        isEdited: true,
+        isPinned: false,
+        attachments: ['https://public-bucket.s3.us-east-1.amazonaws.com/uploads/user-123/secret.pdf'],
+        createdAt: new Date('2025-01-02T11:00:00Z'),
+        editedAt: new Date('2025-01-02T11:05:00Z'),
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue({ userId });
+    (prisma.conversation.findUnique as jest.Mock).mockResolvedValue(conversation);
+    (prisma.conversationExport.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.conversationExport.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'export-1', ...data }));
+    (prisma.conversationExport.update as jest.Mock).mockImplementation(({ data }) => ({
+      id: 'export-1',
+      conversationId,
+      requestedBy: userId,
+      ...data,
+    }));
+    (s3Service.getKeyFromUrl as jest.Mock).mockImplementation((url: string) => (
+      url.includes('public-bucket') ? { key: url.split('.com/')[1], bucket: 'public' } : null
+    ));
+    (s3Service.getFile as jest.Mock).mockResolvedValue(Buffer.from('%PDF-1.4'));
+    (s3Service.getPresignedDownloadUrl as jest.Mock).mockResolvedValue('https://signed.example/export.zip');
+  });
+
+  describe('requestExport', () => {
+    it('archives small conversations straight away', async () => {
+      (prisma.message.count as jest.Mock).mockResolvedValue(2);
+
+      const result = await conversationExportService.requestExport(conversationId, userId);
+
+      expect(prisma.conversationExport.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ status: 'PROCESSING', requestedBy: userId }),
+      });
+      expect(s3Service.uploadBuffer).toHaveBeenCalledWith(
+        expect.any(Buffer),
+        `exports/conversations/${conversationId}/export-1.zip`,
+        'application/zip',
+        'private'
+      );
+      expect(result.status).toBe('READY');
+      expect(result.downloadUrl).toBe('https://signed.example/export.zip');
+      expect(notificationService.notifyConversationExportReady).not.toHaveBeenCalled();
+    });
+
+    it('queues large conversations for the background job', async () => {
+      (prisma.message.count as jest.Mock).mockResolvedValue(SYNC_EXPORT_MESSAGE_LIMIT + 1);
+
+      const result = await conversationExportService.requestExport(conversationId, userId);
+
+      expect(result.status).toBe('PENDING');
+      expect(result.downloadUrl).toBeNull();
+      expect(s3Service.uploadBuffer).not.toHaveBeenCalled();
+    });
+
+    it('returns an export that is already in progress', async () => {
+      (prisma.conversationExport.findFirst as jest.Mock).mockResolvedValue({ id: 'export-0', status: 'PENDING' });
+
+      const result = await conversationExportService.requestExport(conversationId, userId);
+
+      expect(result.id).toBe('export-0');
+      expect(prisma.conversationExport.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-participants', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(conversationExportService.requestExport(conversationId, userId))
+        .rejects.toThrow('Conversation not found or access denied');
+    });
+  });
+
+  describe('archive contents', () => {
+    it('includes a transcript, JSON and the attachment files it can fetch', async () => {
+      (prisma.message.count as jest.Mock).mockResolvedValue(2);
+
+      await conversationExportService.requestExport(conversationId, userId);
+
+      const files = readZip((s3Service.uploadBuffer as jest.Mock).mock.calls[0][0]);
+      expect(Object.keys(files)).toEqual([
+        'transcript.html',
+        'conversation.json',
+        'attachments/message-1/1-draft.pdf',
+      ]);
+      expect(files['attachments/message-1/1-draft.pdf']).toBe('%PDF-1.4');
+      expect(files['transcript.html']).toContain('Project &lt;Team&gt;');
+
+      const json = JSON.parse(files['conversation.json']);
+      expect(json.messages[0].attachments).toEqual([
+        { url: conversation.messages[0].attachments[0], file: 'attachments/message-1/1-draft.pdf' },
+        { url: 'https://example.com/elsewhere.png', file: null },
+      ]);
+      // Files of deleted messages stay out of the export
+      expect(json.messages[1].attachments).toEqual([]);
+      expect(s3Service.getFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('only fetches files the sender uploaded', async () => {
+      (prisma.message.count as jest.Mock).mockResolvedValue(1);
+      (prisma.conversation.findUnique as jest.Mock).mockResolvedValue({
+        ...conversation,
+        messages: [{
+          ...conversation.messages[0],
+          attachments: [
+            'https://private-bucket.s3.us-east-1.amazonaws.com/exports/conversations/other/export-9.zip',
+            'https://private-bucket.s3.us-east-1.amazonaws.com/files/user-456/contract.pdf',
+            'https://private-bucket.s3.us-east-1.amazonaws.com/videos/user-123/lesson.mp4',
+          ],
+        }],
+      });
+      (s3Service.getKeyFromUrl as jest.Mock).mockImplementation((url: string) => ({
+        key: url.split('.com/')[1],
+        bucket: 'private',
+      }));
+
+      await conversationExportService.requestExport(conversationId, userId);
+
+      expect(s3Service.getFile).not.toHaveBeenCalled();
+      const files = readZip((s3Service.uploadBuffer as jest.Mock).mock.calls[0][0]);
+      expect(Object.keys(files)).toEqual(['transcript.html', 'conversation.json']);
+      expect(JSON.parse(files['conversation.json']).messages[0].attachments.map((attachment: ExportedAttachment) => attachment.file))
+        .toEqual([null, null, null]);
+    });
+
+    it('still builds the archive when an attachment cannot be fetched', async () => {
+      (prisma.message.count as jest.Mock).mockResolvedValue(2);
+      (s3Service.getFile as jest.Mock).mockRejectedValue(new Error('NoSuchKey'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await conversationExportService.requestExport(conversationId, userId);
+
+      expect(result.status).toBe('READY');
+      const files = readZip((s3Service.uploadBuffer as jest.Mock).mock.calls[0][0]);
+      expect(Object.keys(files)).toEqual(['transcript.html', 'conversation.json']);
+    });
+  });
+
+  describe('processPendingExports', () => {
+    it('builds claimed exports and notifies the requester', async () => {
+      (prisma.conversationExport.findMany as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'export-1', conversationId, requestedBy: userId, status: 'PENDING' }]);
+      (prisma.conversationExport.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await conversationExportService.processPendingExports();
+
+      expect(s3Service.uploadBuffer).toHaveBeenCalled();
+      expect(notificationService.notifyConversationExportReady).toHaveBeenCalledWith(userId, conversationId, 'export-1');
+    });
+
+    it('skips exports another instance already claimed', async () => {
+      (prisma.conversationExport.findMany as jest.Mock)
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ id: 'export-1', conversationId, requestedBy: userId, status: 'PENDING' }]);
+      (prisma.conversationExport.updateMany as jest.Mock)
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await conversationExportService.processPendingExports();
+
+      expect(s3Service.uploadBuffer).not.toHaveBeenCalled();
+      expect(notificationService.notifyConversationExportReady).not.toHaveBeenCalled();
+    });
+
+    it('removes expired archives', async () => {
+      (prisma.conversationExport.findMany as jest.Mock)
+        .mockResolvedValueOnce([{ id: 'export-0', fileKey: 'exports/old.zip', status: 'READY' }])
+        .mockResolvedValueOnce([]);
+      (prisma.conversationExport.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await conversationExportService.processPendingExports();
+
+      expect(s3Service.deleteFile).toHaveBeenCalledWith('exports/old.zip', 'private');
+      expect(prisma.conversationExport.update).toHaveBeenCalledWith({
+        where: { id: 'export-0' },
+        data: { status: 'EXPIRED', fileKey: null },
+      });
+    });
+  });
+
+  describe('getExport', () => {
+    it('only shows an export to the member who requested it', async () => {
+      (prisma.conversationExport.findUnique as jest.Mock).mockResolvedValue({ id: 'export-1', requestedBy: 'someone-else' });
+
+      await expect(conversationExportService.getExport('export-1', userId)).rejects.toThrow('Export not found');
+    });
+  });
+
+  describe('renderTranscript', () => {
+    it('escapes message content', () => {
+      const html = renderTranscript({
+        conversationId,
+        type: 'direct',
+        name: null,
+        participantCount: 1,
+        messageCount: 1,
+        exportedAt: '2025-01-03T00:00:00.000Z',
+        participants: [],
+        messages: [{
+          id: 'message-1',
+          parentId: null,
+          sender: { id: userId, username: 'alice', name: '' },
+          content: '<script>alert(1)</script>',
+          messageType: 'text',
+          isEdited: false,
+          isPinned: false,
+          reactions: [],
+          attachments: [],
+          createdAt: new Date('2025-01-02T10:00:00Z'),
+          editedAt: null,
+        }],
+      });
+
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;');
+    });
+  });
+});
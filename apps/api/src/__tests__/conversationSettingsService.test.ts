@@ -0,0 +1,89 @@
+import {
+  conversationSettingsService,
+  isMuted,
+  withViewerSettings,
+} from '../services/conversationSettingsService';
+import { prisma } from '../lib/prisma';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    conversationParticipant: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+describe('ConversationSettingsService', () => {
+  const conversationId = 'conversation-123';
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isMuted', () => {
+    it('treats a mute without an end time as permanent', () => {
+      expect(isMuted({ isMuted: true, mutedUntil: null })).toBe(true);
+    });
+
+    it('lets timed mutes lapse', () => {
+      expect(isMuted({ isMuted: true, mutedUntil: new Date(Date.now() - 1000) })).toBe(false);
+      expect(isMuted({ isMuted: true, mutedUntil: new Date(Date.now() + 60000) })).toBe(true);
+    });
+  });
+
+  describe('withViewerSettings', () => {
+    it('only exposes the viewer their own settings', () => {
+      const result = withViewerSettings({
+        id: conversationId,
+        participants: [
+          { userId, isMuted: false, isStarred: true, isArchived: false },
+          { userId: 'other-user', isMuted: true, isStarred: false, isArchived: true },
+        ],
+      }, userId);
+
+      expect(result.settings).toEqual(expect.objectContaining({ isStarred: true, isMuted: false }));
+      expect(result.participants![1]).toEqual({ userId: 'other-user' });
+    });
+  });
+
+  describe('updateSettings', () => {
+    beforeEach(() => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue({ userId });
+      (prisma.conversationParticipant.update as jest.Mock).mockImplementation(({ data }) => data);
+    });
+
+    it('mutes until the given time', async () => {
+      const mutedUntil = new Date(Date.now() + 60 * 60 * 1000);
+
+      const settings = await conversationSettingsService.updateSettings(conversationId, userId, { mutedUntil });
+
+      expect(prisma.conversationParticipant.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { isMuted: true, mutedUntil },
+      }));
+      expect(settings.isMuted).toBe(true);
+    });
+
+    it('clears the end time when unmuting', async () => {
+      await conversationSettingsService.updateSettings(conversationId, userId, { muted: false });
+
+      expect(prisma.conversationParticipant.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { isMuted: false, mutedUntil: null },
+      }));
+    });
+
+    it('rejects mute end times in the past', async () => {
+      await expect(conversationSettingsService.updateSettings(conversationId, userId, {
+        mutedUntil: new Date(Date.now() - 1000),
+      })).rejects.toThrow('mutedUntil must be a future date');
+    });
+
+    it('rejects non-participants', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(conversationSettingsService.updateSettings(conversationId, userId, { starred: true }))
+        .rejects.toThrow('Conversation not found or access denied');
+    });
+  });
+});
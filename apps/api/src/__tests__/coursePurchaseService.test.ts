@@ -0,0 +1,183 @@
+import { coursePurchaseService } from '../services/coursePurchaseService';
+import { prisma } from '../lib/prisma';
+import { courseService } from '../services/courseService';
+import { logAuditEvent } from '../utils/auditLogger';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    course: {
+      findUnique: jest.fn(),
+    },
+    communityMember: {
+      findUnique: jest.fn(),
+    },
+    enrollment: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    payment: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/courseService', () => ({
+  courseService: {
+    enrollInCourse: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/auditLogger', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+const createPaymentIntent = jest.fn();
+jest.mock('@sk-clone/payment', () => ({
+  paymentService: { createPaymentIntent },
+}), { virtual: true });
+
+describe('CoursePurchaseService', () => {
+  const courseId = 'course-123';
+  const userId = 'user-123';
+  const user = { id: userId, email: 'user@example.com' };
+  const paidCourse = {
+    id: courseId,
+    title: 'Copywriting 101',
+    communityId: 'community-1',
+    instructorId: 'instructor-1',
+    isPublished: true,
+    price: 49.99,
+    currency: 'USD',
+  };
+
+  const paymentWithStatus = (status: string) => ({
+    id: 'payment-1',
+    courseId,
+    status,
+    amount: 4999,
+    currency: 'usd',
+    refundAmount: status === 'SUCCEEDED' ? null : 4999,
+    customer: { userId },
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createCheckout', () => {
+    it('charges the price stored on the course', async () => {
+      (prisma.course.findUnique as jest.Mock).mockResolvedValue(paidCourse);
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue(null);
+      createPaymentIntent.mockResolvedValue({
+        payment: { id: 'payment-1', amount: 4999, currency: 'usd' },
+        clientSecret: 'secret',
+      });
+
+      const result = await coursePurchaseService.createCheckout(courseId, user);
+
+      expect(createPaymentIntent).toHaveBeenCalledWith(expect.objectContaining({
+        userId,
+        courseId,
+        amount: 4999,
+        currency: 'USD',
+      }));
+      expect(result).toEqual({ clientSecret: 'secret', paymentId: 'payment-1', amount: 4999, currency: 'usd' });
+    });
+
+    it('rejects free courses', async () => {
+      (prisma.course.findUnique as jest.Mock).mockResolvedValue({ ...paidCourse, price: 0 });
+
+      await expect(coursePurchaseService.createCheckout(courseId, user)).rejects.toThrow('Course is free');
+      expect(createPaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('rejects users who already own the course', async () => {
+      (prisma.course.findUnique as jest.Mock).mockResolvedValue(paidCourse);
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue({ status: 'ACTIVE' });
+
+      await expect(coursePurchaseService.createCheckout(courseId, user))
+        .rejects.toThrow('Already enrolled in this course');
+    });
+  });
+
+  describe('syncPayment', () => {
+    it('enrolls the buyer when the payment succeeds', async () => {
+      (prisma.payment.findUnique as jest.Mock).mockResolvedValue(paymentWithStatus('SUCCEEDED'));
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await coursePurchaseService.syncPayment('payment-1');
+
+      expect(courseService.enrollInCourse).toHaveBeenCalledWith(userId, courseId, 'payment-1');
+      expect(logAuditEvent).toHaveBeenCalledWith(userId, 'COURSE_PURCHASED', 'course', courseId, expect.any(Object));
+    });
+
+    it('does not enroll twice when the event is redelivered', async () => {
+      (prisma.payment.findUnique as jest.Mock).mockResolvedValue(paymentWithStatus('SUCCEEDED'));
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue({ status: 'ACTIVE', paymentId: 'payment-1' });
+
+      await coursePurchaseService.syncPayment('payment-1');
+
+      expect(courseService.enrollInCourse).not.toHaveBeenCalled();
+    });
+
+    it('revokes the enrollment on a full refund', async () => {
+      (prisma.payment.findUnique as jest.Mock).mockResolvedValue(paymentWithStatus('REFUNDED'));
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue({
+        id: 'enrollment-1',
+        status: 'ACTIVE',
+        paymentId: 'payment-1',
+      });
+
+      await coursePurchaseService.syncPayment('payment-1');
+
+      const update = (prisma.enrollment.update as jest.Mock).mock.calls[0][0];
+      expect(update.data.status).toBe('REVOKED');
+      expect(update.data.revokedAt).toBeInstanceOf(Date);
+    });
+
+    it('flags the enrollment for review on a partial refund', async () => {
+      (prisma.payment.findUnique as jest.Mock).mockResolvedValue(paymentWithStatus('PARTIALLY_REFUNDED'));
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue({
+        id: 'enrollment-1',
+        status: 'ACTIVE',
+        paymentId: 'payment-1',
+      });
+
+      await coursePurchaseService.syncPayment('payment-1');
+
+      expect(prisma.enrollment.update).toHaveBeenCalledWith({
+        where: { id: 'enrollment-1' },
+        data: { status: 'REFUND_REVIEW', revokedAt: null },
+      });
+    });
+
+    it('ignores payments that are not for a course', async () => {
+      (prisma.payment.findUnique as jest.Mock).mockResolvedValue({ ...paymentWithStatus('SUCCEEDED'), courseId: null });
+
+      expect(await coursePurchaseService.syncPayment('payment-1')).toBeNull();
+      expect(courseService.enrollInCourse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hasAccess', () => {
+    it('allows anyone into free courses', async () => {
+      (prisma.course.findUnique as jest.Mock).mockResolvedValue({ ...paidCourse, price: 0 });
+
+      expect(await coursePurchaseService.hasAccess(courseId, userId)).toBe(true);
+    });
+
+    it('denies users whose purchase was refunded', async () => {
+      (prisma.course.findUnique as jest.Mock).mockResolvedValue(paidCourse);
+      (prisma.communityMember.findUnique as jest.Mock).mockResolvedValue({ role: 'member' });
+      (prisma.enrollment.findUnique as jest.Mock).mockResolvedValue({ status: 'REVOKED' });
+
+      expect(await coursePurchaseService.hasAccess(courseId, userId)).toBe(false);
+    });
+
+    it('allows the instructor without a purchase', async () => {
+      (prisma.course.findUnique as jest.Mock).mockResolvedValue(paidCourse);
+
+      expect(await coursePurchaseService.hasAccess(courseId, 'instructor-1')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { eventReminderService, normalizeReminderMinutes } from '../services/eventReminderService';
+import { prisma } from '../lib/prisma';
+import { notificationService } from '../services/notification.service';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    event: {
+      findUnique: jest.fn(),
+    },
+    eventAttendee: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    eventReminder: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  notificationService: {
+    notifyEventReminder: jest.fn(),
+  },
+}));
+
+const MINUTE_MS = 60 * 1000;
+
+describe('EventReminderService', () => {
+  const now = new Date('2030-01-01T12:00:00Z');
+  const startsAt = new Date('2030-01-03T12:00:00Z');
+  const event = (overrides: Record<string, any> = {}) => ({
+    id: 'event-1',
+    startsAt,
+    reminderMinutes: [1440],
+    cancelledAt: null,
+    ...overrides,
+  });
+  const before = (minutes: number) => new Date(startsAt.getTime() - minutes * MINUTE_MS);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now });
+    (prisma.$transaction as jest.Mock).mockImplementation(operations => Promise.all(operations));
+    (prisma.event.findUnique as jest.Mock).mockResolvedValue(event());
+    (prisma.eventReminder.deleteMany as jest.Mock).mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('scheduleReminders', () => {
+    it('uses the attendee\'s own schedule or else the event\'s, skipping times already past', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        { userId: 'user-1', reminderMinutes: [], customReminders: false },
+        { userId: 'user-2', reminderMinutes: [10080, 60, 15], customReminders: true },
+        { userId: 'user-3', reminderMinutes: [], customReminders: true },
+      ]);
+
+      await eventReminderService.scheduleReminders('event-1');
+
+      expect(prisma.eventAttendee.findMany).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', status: { in: ['confirmed', 'maybe'] } },
+      });
+      expect(prisma.eventReminder.deleteMany).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', sent: false },
+      });
+      expect(prisma.eventReminder.createMany).toHaveBeenCalledWith({
+        data: [
+          { eventId: 'event-1', userId: 'user-1', remindAt: before(1440) },
+          { eventId: 'event-1', userId: 'user-2', remindAt: before(60) },
+          { eventId: 'event-1', userId: 'user-2', remindAt: before(15) },
+        ],
+        // Reminders that were already sent are never recreated
+        skipDuplicates: true,
+      });
+    });
+
+    it('clears pending reminders of cancelled events', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ cancelledAt: now }));
+
+      await eventReminderService.scheduleReminders('event-1', ['user-1']);
+
+      expect(prisma.eventAttendee.findMany).not.toHaveBeenCalled();
+      expect(prisma.eventReminder.deleteMany).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', sent: false, userId: { in: ['user-1'] } },
+      });
+      expect(prisma.eventReminder.createMany).toHaveBeenCalledWith({ data: [], skipDuplicates: true });
+    });
+  });
+
+  describe('setReminders', () => {
+    beforeEach(() => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        reminderMinutes: [],
+        customReminders: false,
+        event: event(),
+      });
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.eventReminder.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('saves a normalized schedule and reschedules the attendee', async () => {
+      await eventReminderService.setReminders('event-1', 'user-1', [15, 1440, 15, 10080]);
+
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith({
+        where: { eventId_userId: { eventId: 'event-1', userId: 'user-1' } },
+        data: { reminderMinutes: [10080, 1440, 15], customReminders: true },
+      });
+      expect(prisma.eventReminder.deleteMany).toHaveBeenCalledWith({
+        where: { eventId: 'event-1', sent: false, userId: { in: ['user-1'] } },
+      });
+    });
+
+    it('goes back to the event defaults', async () => {
+      await eventReminderService.setReminders('event-1', 'user-1', null);
+
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { reminderMinutes: [], customReminders: false },
+      }));
+    });
+
+    it('requires an RSVP', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(eventReminderService.setReminders('event-1', 'user-1', [15]))
+        .rejects.toThrow('You have not RSVPed to this event');
+    });
+
+    it('rejects invalid schedules', () => {
+      expect(() => normalizeReminderMinutes([1, 2, 3, 4, 5, 6])).toThrow('At most 5 reminders');
+      expect(() => normalizeReminderMinutes([0])).toThrow('between 1 and');
+      expect(() => normalizeReminderMinutes([50000])).toThrow('between 1 and');
+    });
+  });
+
+  describe('sendDueReminders', () => {
+    it('claims due reminders and sends one per attendee and event', async () => {
+      (prisma.eventReminder.findMany as jest.Mock).mockResolvedValue([
+        { id: 'reminder-1', eventId: 'event-1', userId: 'user-1' },
+        { id: 'reminder-2', eventId: 'event-1', userId: 'user-1' },
+        { id: 'reminder-3', eventId: 'event-1', userId: 'user-2' },
+      ]);
+      (prisma.eventReminder.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const result = await eventReminderService.sendDueReminders();
+
+      expect(prisma.eventReminder.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['reminder-1', 'reminder-2'] }, sent: false },
+        data: { sent: true, sentAt: now },
+      });
+      expect(notificationService.notifyEventReminder).toHaveBeenCalledTimes(2);
+      expect(notificationService.notifyEventReminder).toHaveBeenCalledWith('event-1', 'user-1');
+      expect(notificationService.notifyEventReminder).toHaveBeenCalledWith('event-1', 'user-2');
+      expect(result.sent).toBe(2);
+    });
+
+    it('skips reminders another run already claimed', async () => {
+      (prisma.eventReminder.findMany as jest.Mock).mockResolvedValue([
+        { id: 'reminder-1', eventId: 'event-1', userId: 'user-1' },
+      ]);
+      (prisma.eventReminder.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      const result = await eventReminderService.sendDueReminders();
+
+      expect(notificationService.notifyEventReminder).not.toHaveBeenCalled();
+      expect(result.sent).toBe(0);
+    });
+
+    it('releases a reminder to be retried when delivery fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      (prisma.eventReminder.findMany as jest.Mock).mockResolvedValue([
+        { id: 'reminder-1', eventId: 'event-1', userId: 'user-1' },
+      ]);
+      (prisma.eventReminder.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (notificationService.notifyEventReminder as jest.Mock).mockRejectedValueOnce(new Error('SMTP down'));
+
+      await eventReminderService.sendDueReminders();
+
+      expect(prisma.eventReminder.updateMany).toHaveBeenLastCalledWith({
+        where: { id: { in: ['reminder-1'] } },
+        data: { sent: false, sentAt: null },
+      });
+    });
+
+    it('drops pending reminders of events that started or were cancelled', async () => {
+      (prisma.eventReminder.findMany as jest.Mock).mockResolvedValue([]);
+
+      await eventReminderService.sendDueReminders();
+
+      expect(prisma.eventReminder.deleteMany).toHaveBeenCalledWith({
+        where: {
+          sent: false,
+          event: {
+            OR: [{ startsAt: { lte: now } }, { cancelledAt: { not: null } }],
+          },
+        },
+      });
+    });
+  });
+});
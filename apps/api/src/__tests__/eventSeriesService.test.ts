@@ -0,0 +1,276 @@
+import { eventSeriesService } from '../services/eventSeriesService';
+import { prisma } from '../lib/prisma';
+import { parseRRule, formatRRule, expandRRule } from '../utils/rrule';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    event: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    eventSeries: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('recurrence rules', () => {
+  // A Tuesday
+  const dtstart = new Date('2025-11-04T17:00:00Z');
+  const to = new Date('2026-06-01T00:00:00Z');
+
+  it('expands weekly rules on several days', () => {
+    expect(iso(expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4'), dtstart, { to }))).toEqual([
+      '2025-11-04T17:00:00.000Z',
+      '2025-11-06T17:00:00.000Z',
+      '2025-11-11T17:00:00.000Z',
+      '2025-11-13T17:00:00.000Z',
+    ]);
+  });
+
+  it('expands monthly rules by weekday position', () => {
+    expect(iso(expandRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20260131'), dtstart, { to }))).toEqual([
+      '2025-11-04T17:00:00.000Z',
+      '2025-11-28T17:00:00.000Z',
+      '2025-12-26T17:00:00.000Z',
+      '2026-01-30T17:00:00.000Z',
+    ]);
+  });
+
+  it('counts occurrences from the start even when listing later ones', () => {
+    const rule = parseRRule('FREQ=DAILY;INTERVAL=2;COUNT=5');
+
+    expect(iso(expandRRule(rule, dtstart, { from: new Date('2025-11-09T00:00:00Z'), to }))).toEqual([
+      '2025-11-10T17:00:00.000Z',
+      '2025-11-12T17:00:00.000Z',
+    ]);
+  });
+
+  it('keeps the local time of day across daylight saving changes', () => {
+    // 18:00 in Berlin, a week before clocks go back
+    const local = new Date('2025-10-21T16:00:00Z');
+    const rule = parseRRule('FREQ=WEEKLY;COUNT=3');
+
+    expect(iso(expandRRule(rule, local, { to, timeZone: 'Europe/Berlin' }))).toEqual([
+      '2025-10-21T16:00:00.000Z',
+      '2025-10-28T17:00:00.000Z',
+      '2025-11-04T17:00:00.000Z',
+    ]);
+    expect(iso(expandRRule(rule, local, { to }))).toEqual([
+      '2025-10-21T16:00:00.000Z',
+      '2025-10-28T16:00:00.000Z',
+      '2025-11-04T16:00:00.000Z',
+    ]);
+  });
+
+  it('picks weekdays in the local time zone', () => {
+    // Monday 20:00 in Los Angeles is already Tuesday in UTC
+    const local = new Date('2026-03-03T04:00:00Z');
+
+    expect(iso(expandRRule(parseRRule('FREQ=WEEKLY;BYDAY=MO;COUNT=2'), local, { to, timeZone: 'America/Los_Angeles' })))
+      .toEqual(['2026-03-03T04:00:00.000Z', '2026-03-10T03:00:00.000Z']);
+  });
+
+  it('moves times skipped by the clocks going forward past the gap', () => {
+    // 02:30 in New York doesn't exist on 2026-03-08
+    const local = new Date('2026-03-07T07:30:00Z');
+
+    expect(iso(expandRRule(parseRRule('FREQ=DAILY;COUNT=3'), local, { to, timeZone: 'America/New_York' }))).toEqual([
+      '2026-03-07T07:30:00.000Z',
+      '2026-03-08T07:30:00.000Z',
+      '2026-03-09T06:30:00.000Z',
+    ]);
+  });
+
+  it('normalizes and rejects rules', () => {
+    expect(formatRRule(parseRRule('RRULE:freq=weekly;interval=1;byday=mo'))).toBe('FREQ=WEEKLY;BYDAY=MO');
+    expect(() => parseRRule('FREQ=YEARLY')).toThrow('Invalid recurrence rule');
+    expect(() => parseRRule('FREQ=WEEKLY;COUNT=3;UNTIL=20260101')).toThrow('COUNT and UNTIL cannot be combined');
+    expect(() => parseRRule('FREQ=WEEKLY;BYDAY=2TU')).toThrow('BYDAY ordinals');
+  });
+});
+
+describe('EventSeriesService', () => {
+  const series = {
+    id: 'series-1',
+    communityId: 'community-1',
+    creatorId: 'creator-1',
+    rrule: 'FREQ=WEEKLY;COUNT=4',
+    timezone: 'UTC',
+    title: 'Office hours',
+    description: null,
+    location: null,
+    meetingUrl: null,
+    maxAttendees: null,
+    waitlistLimit: null,
+    claimWindowHours: 24,
+    startsAt: new Date('2030-01-01T17:00:00Z'),
+    endsAt: new Date('2030-01-01T18:00:00Z'),
+    materializedUntil: new Date('2030-04-01T00:00:00Z'),
+  };
+  const occurrence = (week: number, overrides: Record<string, any> = {}) => {
+    const start = new Date(series.startsAt.getTime() + week * 7 * 24 * 60 * 60 * 1000);
+    return {
+      id: `event-${week}`,
+      seriesId: series.id,
+      occurrenceStart: start,
+      startsAt: start,
+      endsAt: new Date(start.getTime() + 60 * 60 * 1000),
+      isOverride: false,
+      ...overrides,
+    };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(callback => callback(prisma));
+    (prisma.eventSeries.findUnique as jest.Mock).mockResolvedValue(series);
+    (prisma.eventSeries.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'series-2', ...data }));
+  });
+
+  describe('createSeries', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('materializes the occurrences of the rule', async () => {
+      jest.useFakeTimers({ now: new Date('2029-12-15T00:00:00Z') });
+      (prisma.eventSeries.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'series-1', ...data }));
+
+      await eventSeriesService.createSeries({
+        communityId: 'community-1',
+        creatorId: 'creator-1',
+        title: 'Office hours',
+        startsAt: series.startsAt,
+        endsAt: series.endsAt,
+        rrule: 'FREQ=WEEKLY;COUNT=3',
+      });
+
+      expect(prisma.event.createMany).toHaveBeenCalledWith({
+        data: [0, 1, 2].map(week => expect.objectContaining({
+          seriesId: 'series-1',
+          occurrenceStart: occurrence(week).startsAt,
+          endsAt: occurrence(week).endsAt,
+          title: 'Office hours',
+        })),
+        skipDuplicates: true,
+      });
+    });
+
+    it('always materializes the first occurrence', async () => {
+      jest.useFakeTimers({ now: new Date('2029-01-01T00:00:00Z') });
+      (prisma.eventSeries.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'series-1', ...data }));
+
+      await eventSeriesService.createSeries({
+        communityId: 'community-1',
+        creatorId: 'creator-1',
+        title: 'Office hours',
+        startsAt: series.startsAt,
+        endsAt: series.endsAt,
+        rrule: 'FREQ=WEEKLY',
+      });
+
+      expect((prisma.event.createMany as jest.Mock).mock.calls[0][0].data).toHaveLength(1);
+    });
+
+    it('materializes occurrences in the series time zone', async () => {
+      jest.useFakeTimers({ now: new Date('2030-03-01T00:00:00Z') });
+      (prisma.eventSeries.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'series-1', ...data }));
+
+      // 09:00 in New York, the week before clocks go forward
+      await eventSeriesService.createSeries({
+        communityId: 'community-1',
+        creatorId: 'creator-1',
+        title: 'Standup',
+        startsAt: new Date('2030-03-04T14:00:00Z'),
+        endsAt: new Date('2030-03-04T14:15:00Z'),
+        rrule: 'FREQ=WEEKLY;COUNT=2',
+        timezone: 'America/New_York',
+      });
+
+      expect(prisma.eventSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ timezone: 'America/New_York' }),
+      });
+      expect((prisma.event.createMany as jest.Mock).mock.calls[0][0].data).toEqual([
+        expect.objectContaining({ startsAt: new Date('2030-03-04T14:00:00Z'), endsAt: new Date('2030-03-04T14:15:00Z') }),
+        expect.objectContaining({ startsAt: new Date('2030-03-11T13:00:00Z'), endsAt: new Date('2030-03-11T13:15:00Z') }),
+      ]);
+    });
+
+    it('repeats at the same UTC time without a time zone', async () => {
+      jest.useFakeTimers({ now: new Date('2029-12-15T00:00:00Z') });
+
+      await eventSeriesService.createSeries({
+        communityId: 'community-1',
+        creatorId: 'creator-1',
+        title: 'Office hours',
+        startsAt: series.startsAt,
+        endsAt: series.endsAt,
+        rrule: 'FREQ=WEEKLY;COUNT=3',
+      });
+
+      expect(prisma.eventSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ timezone: 'UTC' }),
+      });
+    });
+  });
+
+  describe('updateFollowing', () => {
+    it('splits the series and moves later occurrences with their RSVPs', async () => {
+      const following = [occurrence(3, { isOverride: true }), occurrence(2)];
+      (prisma.event.findMany as jest.Mock)
+        .mockResolvedValueOnce(following)
+        .mockResolvedValueOnce([]);
+      const movedStart = new Date(occurrence(2).startsAt.getTime() + 60 * 60 * 1000);
+
+      const result = await eventSeriesService.updateFollowing(occurrence(2), {
+        title: 'Late office hours',
+        startsAt: movedStart,
+        endsAt: new Date(movedStart.getTime() + 60 * 60 * 1000),
+      });
+
+      // The earlier part keeps its rule, now ending before the split
+      expect(prisma.eventSeries.update).toHaveBeenCalledWith({
+        where: { id: 'series-1' },
+        data: expect.objectContaining({ rrule: 'FREQ=WEEKLY;UNTIL=20300115T165959Z' }),
+      });
+      expect(prisma.eventSeries.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ title: 'Late office hours', rrule: 'FREQ=WEEKLY;COUNT=2', startsAt: movedStart }),
+      });
+      expect(prisma.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-2' },
+        data: expect.objectContaining({ seriesId: 'series-2', title: 'Late office hours', startsAt: movedStart }),
+      });
+      // Individually edited occurrences keep their own details
+      expect(prisma.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-3' },
+        data: {
+          seriesId: 'series-2',
+          occurrenceStart: new Date(occurrence(3).startsAt.getTime() + 60 * 60 * 1000),
+        },
+      });
+      expect(result.updated).toEqual(['event-3', 'event-2']);
+    });
+
+    it('removes occurrences the new rule no longer has', async () => {
+      (prisma.event.findMany as jest.Mock)
+        .mockResolvedValueOnce([occurrence(2), occurrence(3)])
+        .mockResolvedValueOnce([{ id: 'event-3', attendees: [{ userId: 'user-1' }] }]);
+
+      const result = await eventSeriesService.updateFollowing(occurrence(2), {
+        rrule: 'FREQ=WEEKLY;INTERVAL=2',
+      });
+
+      expect(prisma.event.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['event-3'] } } });
+      expect(result.updated).toEqual(['event-2']);
+      expect(result.removed).toEqual([{ id: 'event-3', attendees: [{ userId: 'user-1' }] }]);
+    });
+  });
+});
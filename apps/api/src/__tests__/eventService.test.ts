@@ -0,0 +1,592 @@
+import { eventService } from '../services/eventService';
+import { prisma } from '../lib/prisma';
+import { memberService } from '../services/memberService';
+import { notificationService } from '../services/notification.service';
+import { eventReminderService } from '../services/eventReminderService';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    event: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    eventAttendee: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      aggregate: jest.fn(),
+      upsert: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    community: {
+      findUnique: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../services/memberService', () => ({
+  memberService: {
+    getMemberRole: jest.fn(),
+    isMember: jest.fn(),
+  },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  notificationService: {
+    create: jest.fn(),
+  },
+}));
+
+jest.mock('../services/eventReminderService', () => ({
+  eventReminderService: {
+    scheduleReminders: jest.fn(),
+  },
+  normalizeReminderMinutes: (minutes: number[]) => minutes,
+}));
+
+describe('EventService', () => {
+  const userId = 'user-123';
+  const communityId = 'community-1';
+  const event = (overrides: Record<string, any> = {}) => ({
+    id: 'event-1',
+    communityId,
+    creatorId: 'creator-1',
+    title: 'Office hours',
+    startsAt: new Date(Date.now() + 60 * 60 * 1000),
+    endsAt: new Date(Date.now() + 2 * 60 * 60 * 1000),
+    maxAttendees: null,
+    waitlistLimit: null,
+    claimWindowHours: 24,
+    community: { id: communityId, name: 'Makers', slug: 'makers' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(callback => callback(prisma));
+    (prisma.event.findUnique as jest.Mock).mockResolvedValue(event());
+    (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.community.findUnique as jest.Mock).mockResolvedValue({ isPublic: true });
+    (memberService.isMember as jest.Mock).mockResolvedValue(true);
+    (memberService.getMemberRole as jest.Mock).mockResolvedValue('member');
+  });
+
+  describe('createEvent', () => {
+    const input = {
+      communityId,
+      creatorId: userId,
+      title: 'Office hours',
+      startsAt: new Date('2030-01-01T10:00:00Z'),
+      endsAt: new Date('2030-01-01T11:00:00Z'),
+    };
+
+    it('lets community staff create events', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('moderator');
+
+      await eventService.createEvent(input);
+
+      expect(prisma.event.create).toHaveBeenCalledWith(expect.objectContaining({ data: input }));
+    });
+
+    it('rejects regular members', async () => {
+      await expect(eventService.createEvent(input))
+        .rejects.toThrow('Only community owners, admins and moderators can create events');
+      expect(prisma.event.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listEvents', () => {
+    it('lists events overlapping the range with the viewer\'s RSVP', async () => {
+      const from = new Date('2030-01-01T00:00:00Z');
+      const to = new Date('2030-02-01T00:00:00Z');
+      (prisma.event.findMany as jest.Mock).mockResolvedValue([
+        { id: 'event-1', _count: { attendees: 3 } },
+        { id: 'event-2', _count: { attendees: 0 } },
+      ]);
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([{ eventId: 'event-2', status: 'maybe' }]);
+
+      const events = await eventService.listEvents(userId, { communityId, from, to });
+
+      expect(prisma.event.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { communityId, endsAt: { gte: from }, startsAt: { lte: to }, cancelledAt: null },
+      }));
+      expect(events.map((item: any) => [item.id, item.attendeeCount, item.myStatus])).toEqual([
+        ['event-1', 3, null],
+        ['event-2', 0, 'maybe'],
+      ]);
+    });
+
+    it('defaults to upcoming events in the user\'s communities', async () => {
+      (prisma.event.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([]);
+
+      await eventService.listEvents(userId);
+
+      expect(prisma.event.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          community: { members: { some: { userId } } },
+          endsAt: { gte: expect.any(Date) },
+          cancelledAt: null,
+        },
+      }));
+    });
+  });
+
+  describe('visibility', () => {
+    beforeEach(() => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ isPublic: false });
+    });
+
+    it('hides events of private communities from non-members', async () => {
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+
+      await expect(eventService.listEvents(userId, { communityId })).rejects.toThrow('Community not found');
+      await expect(eventService.getEvent('event-1', userId)).rejects.toThrow('Event not found');
+      await expect(eventService.getEventAttendees('event-1', userId)).rejects.toThrow('Event not found');
+      expect(prisma.event.findMany).not.toHaveBeenCalled();
+      expect(prisma.eventAttendee.findMany).not.toHaveBeenCalled();
+      expect(memberService.isMember).toHaveBeenCalledWith(communityId, userId);
+    });
+
+    it('shows events of private communities to members', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([{ id: 'attendee-1', userId }]);
+
+      await expect(eventService.getEventAttendees('event-1', userId, 'confirmed'))
+        .resolves.toEqual([{ id: 'attendee-1', userId }]);
+      expect(prisma.eventAttendee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { eventId: 'event-1', status: 'confirmed' },
+      }));
+    });
+
+    it('shows events of public communities to anyone', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ isPublic: true });
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.event.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(eventService.listEvents(userId, { communityId })).resolves.toEqual([]);
+      expect(memberService.isMember).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attendEvent', () => {
+    it('records a confirmed RSVP by default', async () => {
+      await eventService.attendEvent('event-1', userId);
+
+      expect(prisma.eventAttendee.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: { eventId: 'event-1', userId, status: 'confirmed', waitlistPosition: null, offerExpiresAt: null },
+        update: { status: 'confirmed', waitlistPosition: null, offerExpiresAt: null },
+      }));
+      expect(eventReminderService.scheduleReminders).toHaveBeenCalledWith('event-1', [userId]);
+    });
+
+    it('waitlists confirmations once the event is full', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ maxAttendees: 2 }));
+      (prisma.eventAttendee.count as jest.Mock).mockResolvedValue(2);
+      (prisma.eventAttendee.aggregate as jest.Mock).mockResolvedValue({
+        _count: { _all: 3 },
+        _max: { waitlistPosition: 4 },
+      });
+
+      await eventService.attendEvent('event-1', userId);
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.eventAttendee.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { status: 'waitlisted', waitlistPosition: 5, offerExpiresAt: null },
+      }));
+    });
+
+    it('rejects confirmations once the waitlist is full too', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ maxAttendees: 2, waitlistLimit: 3 }));
+      (prisma.eventAttendee.count as jest.Mock).mockResolvedValue(2);
+      (prisma.eventAttendee.aggregate as jest.Mock).mockResolvedValue({
+        _count: { _all: 3 },
+        _max: { waitlistPosition: 3 },
+      });
+
+      await expect(eventService.attendEvent('event-1', userId))
+        .rejects.toThrow('This event and its waitlist are full');
+      expect(prisma.eventAttendee.upsert).not.toHaveBeenCalled();
+    });
+
+    it('claims a spot offer by confirming', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ maxAttendees: 1 }));
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue({
+        id: 'attendee-1',
+        status: 'offered',
+        waitlistPosition: null,
+        offerExpiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      await eventService.attendEvent('event-1', userId);
+
+      expect(prisma.eventAttendee.count).not.toHaveBeenCalled();
+      expect(prisma.eventAttendee.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: { status: 'confirmed', waitlistPosition: null, offerExpiresAt: null },
+      }));
+    });
+
+    it('only accepts RSVPs from community members', async () => {
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+
+      await expect(eventService.attendEvent('event-1', userId))
+        .rejects.toThrow('Join the community to RSVP to its events');
+    });
+
+    it('rejects RSVPs to past events', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ endsAt: new Date(Date.now() - 1000) }));
+
+      await expect(eventService.attendEvent('event-1', userId)).rejects.toThrow('This event has already ended');
+    });
+  });
+
+  describe('waitlist', () => {
+    it('offers a freed spot to the front of the waitlist', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ maxAttendees: 2 }));
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue({
+        id: 'attendee-1',
+        eventId: 'event-1',
+        userId,
+        status: 'confirmed',
+        offerExpiresAt: null,
+      });
+      (prisma.eventAttendee.count as jest.Mock).mockResolvedValue(1);
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        { id: 'attendee-2', userId: 'user-456', status: 'waitlisted', waitlistPosition: 1 },
+      ]);
+
+      await eventService.cancelAttendance('event-1', userId);
+
+      expect(prisma.eventAttendee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { eventId: 'event-1', status: 'waitlisted' },
+        take: 1,
+      }));
+      expect(prisma.eventAttendee.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['attendee-2'] } },
+        data: { status: 'offered', waitlistPosition: null, offerExpiresAt: expect.any(Date) },
+      });
+      expect(notificationService.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-456',
+        title: 'A spot opened up',
+      }));
+    });
+
+    it('releases expired offers and offers the spot onwards', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'attendee-2', eventId: 'event-1', userId: 'user-456', event: event() },
+      ]);
+      (prisma.eventAttendee.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      const result = await eventService.expireOffers();
+
+      expect(prisma.eventAttendee.updateMany).toHaveBeenCalledWith({
+        where: { id: 'attendee-2', status: 'offered', offerExpiresAt: { lte: expect.any(Date) } },
+        data: { status: 'declined', offerExpiresAt: null },
+      });
+      expect(notificationService.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-456',
+        title: 'Spot offer expired',
+      }));
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(result).toEqual({ released: 1 });
+    });
+
+    it('lets organizers reorder the waitlist', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({ creatorId: userId }));
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        { id: 'a', waitlistPosition: 1 },
+        { id: 'b', waitlistPosition: 2 },
+        { id: 'c', waitlistPosition: 4 },
+      ]);
+
+      await eventService.moveWaitlistEntry('event-1', userId, 'c', 1);
+
+      expect((prisma.eventAttendee.update as jest.Mock).mock.calls.map(([args]) => [args.where.id, args.data]))
+        .toEqual([
+          ['c', { waitlistPosition: 1 }],
+          ['a', { waitlistPosition: 2 }],
+          ['b', { waitlistPosition: 3 }],
+        ]);
+    });
+  });
+
+  describe('updateEvent', () => {
+    it('only lets the creator or community staff edit', async () => {
+      await expect(eventService.updateEvent('event-1', userId, { title: 'New title' }))
+        .rejects.toThrow('Only the event creator or community staff can manage this event');
+      expect(prisma.event.update).not.toHaveBeenCalled();
+    });
+
+    it('checks a new end time against the stored start time', async () => {
+      await expect(eventService.updateEvent('event-1', 'creator-1', { endsAt: new Date() }))
+        .rejects.toThrow('End time must be after start time');
+    });
+  });
+
+  describe('deleteEvent', () => {
+    it('cancels a single occurrence of a recurring event without ending the series', async () => {
+      (prisma.event.findUnique as jest.Mock).mockResolvedValue(event({
+        creatorId: userId,
+        seriesId: 'series-1',
+        occurrenceStart: new Date(),
+      }));
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([{ userId: 'user-456' }]);
+
+      await eventService.deleteEvent('event-1', userId);
+
+      expect(prisma.event.update).toHaveBeenCalledWith({
+        where: { id: 'event-1' },
+        data: { cancelledAt: expect.any(Date) },
+      });
+      expect(notificationService.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-456',
+        type: 'EVENT_CANCELLED',
+      }));
+    });
+  });
+
+  describe('attendee management', () => {
+    it('lets attendees change their own RSVP', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue({
+        id: 'attendee-1',
+        eventId: 'event-1',
+        userId,
+        event: event(),
+      });
+
+      await eventService.updateAttendeeStatus('attendee-1', userId, 'declined');
+
+      expect(prisma.eventAttendee.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        update: expect.objectContaining({ status: 'declined' }),
+      }));
+    });
+
+    it('does not let members remove other attendees', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue({
+        id: 'attendee-1',
+        eventId: 'event-1',
+        userId: 'user-456',
+        event: event(),
+      });
+
+      await expect(eventService.removeAttendee('attendee-1', userId))
+        .rejects.toThrow('Only the attendee or event managers can change this RSVP');
+      expect(prisma.eventAttendee.delete).not.toHaveBeenCalled();
+    });
+
+    it('exports the picked attendees as CSV for event managers', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'attendee-1',
+          status: 'waitlisted',
+          waitlistPosition: 2,
+          attendance: null,
+          checkInCode: null,
+          joinedAt: new Date('2030-01-01T10:00:00Z'),
+          user: { username: 'jane', firstName: 'Jane', lastName: 'Doe, Jr.' },
+        },
+      ]);
+
+      const { filename, content } = await eventService.exportAttendees('event-1', 'creator-1', ['attendee-1']);
+
+      expect(prisma.eventAttendee.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { eventId: 'event-1', id: { in: ['attendee-1'] } },
+      }));
+      expect(filename).toBe('event-event-1-attendees.csv');
+      expect((content as string).split('\r\n')).toEqual([
+        'Name,Username,Status,Attendance,Check-in code,Waitlist position,RSVPed at',
+        '"Jane Doe, Jr.",jane,waitlisted,,,2,2030-01-01T10:00:00.000Z',
+      ]);
+    });
+
+    it('exports attendees as an Excel workbook', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: 'attendee-1',
+          status: 'confirmed',
+          waitlistPosition: null,
+          attendance: 'attended',
+          checkInCode: 'K7QX2M',
+          joinedAt: new Date('2030-01-01T10:00:00Z'),
+          user: { username: 'jane', firstName: 'Jane', lastName: 'Doe' },
+        },
+      ]);
+
+      const { filename, contentType, content } = await eventService.exportAttendees('event-1', 'creator-1', undefined, 'xlsx');
+
+      expect(filename).toBe('event-event-1-attendees.xlsx');
+      expect(contentType).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      expect((content as Buffer).subarray(0, 4)).toEqual(Buffer.from([0x50, 0x4b, 0x03, 0x04]));
+      expect((content as Buffer).includes('xl/worksheets/sheet1.xml')).toBe(true);
+    });
+
+    it('hides other attendees\' check-in codes and registration details from members', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        { id: 'attendee-1', userId, checkInCode: 'K7QX2M', registration: { allergies: 'Peanuts' } },
+        { id: 'attendee-2', userId: 'user-456', checkInCode: 'P3WD9R', registration: { phone: '555-0100' } },
+      ]);
+
+      const attendees = await eventService.getEventAttendees('event-1', userId);
+
+      expect(attendees).toEqual([
+        { id: 'attendee-1', userId, checkInCode: 'K7QX2M', registration: { allergies: 'Peanuts' } },
+        { id: 'attendee-2', userId: 'user-456', checkInCode: null, registration: null },
+      ]);
+    });
+
+    it('messages the picked attendees', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([{ userId: 'user-456' }]);
+
+      const result = await eventService.messageAttendees('event-1', 'creator-1', ['attendee-1'], 'Doors open at 6');
+
+      expect(notificationService.create).toHaveBeenCalledWith(expect.objectContaining({
+        userId: 'user-456',
+        message: 'Doors open at 6',
+        actionUrl: '/communities/makers/events/event-1',
+      }));
+      expect(result).toEqual({ sent: 1 });
+    });
+
+    it('only lets event managers export or message attendees', async () => {
+      await expect(eventService.exportAttendees('event-1', userId))
+        .rejects.toThrow('Only the event creator or community staff can manage this event');
+      await expect(eventService.messageAttendees('event-1', userId, ['attendee-1'], 'Hi'))
+        .rejects.toThrow('Only the event creator or community staff can manage this event');
+      expect(notificationService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attendance', () => {
+    const attendee = (overrides: Record<string, any> = {}) => ({
+      id: 'attendee-1',
+      eventId: 'event-1',
+      userId: 'user-456',
+      status: 'confirmed',
+      attendance: null,
+      checkInCode: 'K7QX2M',
+      event: event(),
+      ...overrides,
+    });
+
+    it('lets event managers mark confirmed attendees as attended or no-show', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(attendee());
+
+      await eventService.updateAttendeeStatus('attendee-1', 'creator-1', 'no_show');
+
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'attendee-1' },
+        data: { attendance: 'no_show', checkedInAt: null },
+      }));
+      expect(prisma.eventAttendee.upsert).not.toHaveBeenCalled();
+    });
+
+    it('clears the mark when a manager sets the attendee back to their RSVP', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(attendee({ attendance: 'attended' }));
+
+      await eventService.updateAttendeeStatus('attendee-1', 'creator-1', 'confirmed');
+
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { attendance: null, checkedInAt: null },
+      }));
+    });
+
+    it('does not let attendees mark their own attendance', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(attendee({ userId }));
+
+      await expect(eventService.updateAttendeeStatus('attendee-1', userId, 'attended'))
+        .rejects.toThrow('Only event managers can record attendance');
+      expect(prisma.eventAttendee.update).not.toHaveBeenCalled();
+    });
+
+    it('only marks confirmed attendees', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(attendee({ status: 'waitlisted' }));
+
+      await expect(eventService.updateAttendeeStatus('attendee-1', 'creator-1', 'attended'))
+        .rejects.toThrow('Only confirmed attendees can be checked in or marked as no-show');
+    });
+
+    it('checks attendees in with their code', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(attendee());
+
+      await eventService.checkInAttendee('attendee-1', 'creator-1', ' k7qx2m ');
+
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { attendance: 'attended', checkedInAt: expect.any(Date) },
+      }));
+    });
+
+    it('rejects check-ins with the wrong code', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(attendee());
+
+      await expect(eventService.checkInAttendee('attendee-1', 'creator-1', 'P3WD9R'))
+        .rejects.toThrow('Invalid check-in code');
+      expect(prisma.eventAttendee.update).not.toHaveBeenCalled();
+    });
+
+    it('generates check-in codes for confirmed attendees without one', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          { id: 'attendee-1', checkInCode: 'K7QX2M' },
+          { id: 'attendee-2', checkInCode: null },
+        ])
+        .mockResolvedValueOnce([{ id: 'attendee-1', checkInCode: 'K7QX2M' }]);
+
+      const codes = await eventService.generateCheckInCodes('event-1', 'creator-1');
+
+      expect(codes).toEqual([
+        { attendeeId: 'attendee-1', checkInCode: 'K7QX2M' },
+        { attendeeId: 'attendee-2', checkInCode: expect.stringMatching(/^[A-HJ-NP-Z2-9]{6}$/) },
+      ]);
+      expect(prisma.eventAttendee.update).toHaveBeenCalledTimes(1);
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith({
+        where: { id: 'attendee-2' },
+        data: { checkInCode: codes[1].checkInCode },
+      });
+    });
+
+    it('counts attendees by status and attendance for event managers', async () => {
+      (prisma.eventAttendee.findMany as jest.Mock).mockResolvedValue([
+        { status: 'confirmed', attendance: 'attended' },
+        { status: 'confirmed', attendance: 'no_show' },
+        { status: 'confirmed', attendance: null },
+        { status: 'confirmed', attendance: 'attended' },
+        { status: 'waitlisted', attendance: null },
+      ]);
+
+      await expect(eventService.getAttendanceStats('event-1', userId))
+        .rejects.toThrow('Only the event creator or community staff can manage this event');
+      await expect(eventService.getAttendanceStats('event-1', 'creator-1')).resolves.toEqual({
+        total: 5,
+        confirmed: 4,
+        maybe: 0,
+        declined: 0,
+        offered: 0,
+        waitlisted: 1,
+        attended: 2,
+        noShow: 1,
+        checkInRate: 50,
+      });
+    });
+
+    it('keeps registration details with the RSVP', async () => {
+      (prisma.eventAttendee.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.eventAttendee.upsert as jest.Mock).mockResolvedValue({ id: 'attendee-1', status: 'confirmed' });
+
+      await eventService.completeRegistration('event-1', userId, { allergies: 'Peanuts' });
+
+      expect(prisma.eventAttendee.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        create: expect.objectContaining({ userId, status: 'confirmed' }),
+      }));
+      expect(prisma.eventAttendee.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'attendee-1' },
+        data: { registration: { allergies: 'Peanuts' } },
+      }));
+    });
+  });
+});
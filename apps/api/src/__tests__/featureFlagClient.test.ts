@@ -0,0 +1,106 @@
+import { FeatureFlagClient } from '../services/featureFlagClient';
+import { prisma } from '../lib/prisma';
+import { featureFlagsService } from '../services/admin/featureFlags.service';
+import { publishFlagChange } from '../services/admin/featureFlagEvents';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    featureFlag: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/admin/featureFlags.service', () => ({
+  featureFlagsService: {
+    loadSegmentUser: jest.fn(),
+  },
+}));
+
+const baseFlag = {
+  id: 'flag-1',
+  key: 'new_feed',
+  value: true,
+  defaultValue: false,
+  isActive: true,
+  isArchived: false,
+  rolloutPercentage: 0,
+  userIds: [],
+  segments: [],
+  experiments: [],
+};
+
+describe('FeatureFlagClient', () => {
+  let client: FeatureFlagClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    client = new FeatureFlagClient({ refreshIntervalMs: 0 });
+  });
+
+  afterEach(() => {
+    client.stop();
+  });
+
+  it('should load flags once and evaluate from memory', async () => {
+    (prisma.featureFlag.findMany as jest.Mock).mockResolvedValue([
+      { ...baseFlag, userIds: ['user-1'] },
+      { ...baseFlag, id: 'flag-2', key: 'dark_mode', isActive: false },
+    ]);
+
+    await expect(client.isEnabled('new_feed', { userId: 'user-1' })).resolves.toBe(true);
+    await expect(client.isEnabled('new_feed', { userId: 'user-2' })).resolves.toBe(false);
+    await expect(client.isEnabled('missing', { userId: 'user-1' })).resolves.toBe(false);
+
+    const all = await client.evaluateAll({ userId: 'user-1' });
+    expect(all.dark_mode).toEqual({ enabled: false, value: false, variant: null, reason: 'Flag disabled' });
+    expect(prisma.featureFlag.findMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return the experiment variant', async () => {
+    (prisma.featureFlag.findMany as jest.Mock).mockResolvedValue([
+      {
+        ...baseFlag,
+        experiments: [{ id: 'exp-1', name: 'Feed test', variants: [{ name: 'treatment', value: 'v2', percentage: 100 }] }],
+      },
+    ]);
+
+    await expect(client.getVariant('new_feed', { userId: 'user-1' })).resolves.toBe('treatment');
+  });
+
+  it('should load and cache user attributes only for user-based segments', async () => {
+    (prisma.featureFlag.findMany as jest.Mock).mockResolvedValue([
+      {
+        ...baseFlag,
+        segments: [{
+          id: 'segment-1',
+          name: 'Moderators',
+          priority: 0,
+          conditions: { attribute: 'user.role', operator: 'eq', value: 'MODERATOR' },
+        }],
+      },
+    ]);
+    (featureFlagsService.loadSegmentUser as jest.Mock).mockResolvedValue({ id: 'user-1', role: 'MODERATOR' });
+
+    await expect(client.isEnabled('new_feed', { userId: 'user-1' })).resolves.toBe(true);
+    await expect(client.isEnabled('new_feed', { userId: 'user-1' })).resolves.toBe(true);
+    await expect(client.isEnabled('new_feed', {})).resolves.toBe(false);
+
+    expect(featureFlagsService.loadSegmentUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reload flags when a change is published', async () => {
+    (prisma.featureFlag.findMany as jest.Mock)
+      .mockResolvedValueOnce([baseFlag])
+      .mockResolvedValueOnce([{ ...baseFlag, rolloutPercentage: 100 }]);
+
+    await client.start();
+    await expect(client.isEnabled('new_feed', { userId: 'user-1' })).resolves.toBe(false);
+
+    publishFlagChange({ key: 'new_feed', action: 'updated' });
+    await client.refresh();
+
+    await expect(client.isEnabled('new_feed', { userId: 'user-1' })).resolves.toBe(true);
+    expect(prisma.featureFlag.findMany).toHaveBeenCalledTimes(2);
+  });
+});
@@ -550,7 +550,7 @@ describe('FeatureFlagsController', () => {
 
       await featureFlagsController.getExperimentAnalytics(mockRequest, mockResponse);
 
-      expect(featureFlagsService.getExperimentAnalytics).toHaveBeenCalledWith('exp-1');
+      expect(featureFlagsService.getExperimentAnalytics).toHaveBeenCalledWith('exp-1', { confidence: undefined });
       expect(mockResponse.json).toHaveBeenCalledWith(mockAnalytics);
     });
   });
@@ -573,7 +573,8 @@ describe('FeatureFlagsController', () => {
 
       expect(featureFlagsService.evaluateFeatureFlag).toHaveBeenCalledWith('test_flag', 'user-1', {
         userAgent: 'Test/1.0',
-        ipAddress: '192.168.1.1'
+        ipAddress: '192.168.1.1',
+        attributes: {}
       });
       expect(mockResponse.json).toHaveBeenCalledWith(evaluationResult);
     });
@@ -0,0 +1,53 @@
+import request from 'supertest';
+import express from 'express';
+import flagRoutes from '../routes/flags';
+import { featureFlagClient } from '../services/featureFlagClient';
+
+jest.mock('../services/featureFlagClient', () => ({
+  featureFlagClient: {
+    evaluateAll: jest.fn(),
+  },
+}));
+
+const app = express();
+app.use('/api/flags', flagRoutes);
+
+describe('Flag Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /api/flags/bootstrap', () => {
+    it('should evaluate flags for the request and leave out reasons', async () => {
+      (featureFlagClient.evaluateAll as jest.Mock).mockResolvedValue({
+        new_editor: { enabled: true, value: true, variant: null, reason: 'rule:beta-testers' },
+      });
+
+      const response = await request(app)
+        .get('/api/flags/bootstrap')
+        .set('cf-ipcountry', 'de')
+        .expect(200);
+
+      expect(featureFlagClient.evaluateAll).toHaveBeenCalledWith(expect.objectContaining({ country: 'DE' }));
+      expect(response.headers['cache-control']).toBe('private, no-store');
+      expect(response.body.data.flags).toEqual({
+        new_editor: { enabled: true, value: true, variant: null },
+      });
+    });
+
+    it('should return no flags when evaluation fails', async () => {
+      (featureFlagClient.evaluateAll as jest.Mock).mockRejectedValue(new Error('cache unavailable'));
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const response = await request(app).get('/api/flags/bootstrap').expect(200);
+
+      expect(response.body.data.flags).toEqual({});
+    });
+  });
+
+  it('should not evaluate flags for other routes', async () => {
+    await request(app).get('/api/flags/unknown').expect(404);
+
+    expect(featureFlagClient.evaluateAll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,294 @@
+import { invitationService } from '../services/invitationService';
+import { prisma } from '../lib/prisma';
+import { memberService } from '../services/memberService';
+import { notificationService } from '../services/notification.service';
+import { emailService } from '../services/email.service';
+import { logAuditEvent } from '../utils/auditLogger';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    communityInvitation: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/memberService', () => ({
+  memberService: {
+    getMemberRole: jest.fn(),
+    isMember: jest.fn(),
+    joinCommunity: jest.fn(),
+  },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  notificationService: {
+    notifyCommunityInvite: jest.fn(),
+  },
+}));
+
+jest.mock('../services/email.service', () => ({
+  emailService: {
+    queueEmail: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/auditLogger', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+describe('InvitationService', () => {
+  const communityId = 'community-123';
+  const community = { id: communityId, name: 'Makers', slug: 'makers' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createInvitation', () => {
+    it('should invite an existing user by username and notify them', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('admin');
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-2', email: 'jane@example.com' });
+      (prisma.communityInvitation.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.communityInvitation.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'invite-1', ...data }));
+
+      const invitation = await invitationService.createInvitation(communityId, 'admin-1', {
+        username: 'jane',
+        role: 'moderator',
+      });
+
+      expect(prisma.communityInvitation.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          type: 'DIRECT',
+          role: 'moderator',
+          inviteeId: 'user-2',
+          email: 'jane@example.com',
+          maxUses: 1,
+        }),
+      }));
+      expect(invitation.code).toEqual(expect.any(String));
+      expect(notificationService.notifyCommunityInvite).toHaveBeenCalledWith('user-2', communityId, 'admin-1');
+      expect(logAuditEvent).toHaveBeenCalledWith('admin-1', 'COMMUNITY_INVITE_CREATED', 'community_invitation', 'invite-1', expect.any(Object));
+    });
+
+    it('should email people who do not have an account yet', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('owner');
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+      (prisma.communityInvitation.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.communityInvitation.create as jest.Mock).mockImplementation(({ data }) => ({
+        id: 'invite-1',
+        ...data,
+        community,
+        inviter: { username: 'owner' },
+      }));
+
+      await invitationService.createInvitation(communityId, 'owner-1', { email: 'New@Example.com' });
+
+      expect(emailService.queueEmail).toHaveBeenCalledWith(expect.objectContaining({
+        to: 'new@example.com',
+        template: 'community-invite',
+      }));
+      expect(notificationService.notifyCommunityInvite).not.toHaveBeenCalled();
+    });
+
+    it('should not let moderators hand out their own role', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('moderator');
+
+      await expect(invitationService.createInvitation(communityId, 'mod-1', { role: 'moderator' }))
+        .rejects.toThrow('Insufficient permissions');
+      expect(prisma.communityInvitation.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject members', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('member');
+
+      await expect(invitationService.createInvitation(communityId, 'user-1', {}))
+        .rejects.toThrow('Insufficient permissions');
+    });
+  });
+
+  describe('joinByCode', () => {
+    const link = {
+      id: 'invite-1',
+      code: 'abc',
+      communityId,
+      community,
+      type: 'LINK',
+      status: 'PENDING',
+      role: 'member',
+      inviterId: 'admin-1',
+      uses: 1,
+      maxUses: 2,
+      expiresAt: null,
+    };
+
+    it('should join with the invitation role and use up the last slot', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue(link);
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.communityInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (memberService.joinCommunity as jest.Mock).mockResolvedValue({ id: 'member-1' });
+
+      const result = await invitationService.joinByCode('abc', 'user-3');
+
+      expect(prisma.communityInvitation.updateMany).toHaveBeenCalledWith({
+        where: { id: 'invite-1', status: 'PENDING', uses: 1 },
+        data: { uses: { increment: 1 }, status: 'EXPIRED' },
+      });
+      expect(memberService.joinCommunity).toHaveBeenCalledWith(communityId, 'user-3', 'member');
+      expect(result).toEqual({ community, member: { id: 'member-1' } });
+    });
+
+    it('should give the use back when joining fails', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue(link);
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.communityInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (memberService.joinCommunity as jest.Mock).mockRejectedValue(new Error('Community not found'));
+
+      await expect(invitationService.joinByCode('abc', 'user-3')).rejects.toThrow('Community not found');
+      expect(prisma.communityInvitation.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'invite-1', status: 'EXPIRED' },
+        data: { uses: { decrement: 1 }, status: 'PENDING' },
+      });
+    });
+
+    it('should reject expired links', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue({
+        ...link,
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(invitationService.joinByCode('abc', 'user-3')).rejects.toThrow('Invitation expired');
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+
+    it('should re-check the link when another join claimed it first', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock)
+        .mockResolvedValueOnce(link)
+        .mockResolvedValueOnce({ ...link, uses: 2, status: 'EXPIRED' });
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.communityInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(invitationService.joinByCode('abc', 'user-3')).rejects.toThrow('Invitation is no longer valid');
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+
+    it('should only accept direct invitations for the invited user', async () => {
+      const direct = { ...link, type: 'DIRECT', inviteeId: 'user-2', email: 'jane@example.com', uses: 0, maxUses: 1 };
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue(direct);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-3', email: 'other@example.com' });
+
+      await expect(invitationService.joinByCode('abc', 'user-3')).rejects.toThrow('Invitation not found');
+    });
+
+    it('should send members of paid communities to checkout', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue({
+        ...link,
+        community: { ...community, isPaid: true },
+      });
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+
+      await expect(invitationService.joinByCode('abc', 'user-3'))
+        .rejects.toThrow('Payment required: start a checkout to join this community');
+      expect(prisma.communityInvitation.updateMany).not.toHaveBeenCalled();
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+
+    it('should let invited staff join paid communities without checkout', async () => {
+      const direct = {
+        ...link,
+        type: 'DIRECT',
+        role: 'moderator',
+        inviteeId: 'user-2',
+        uses: 0,
+        maxUses: 1,
+        community: { ...community, isPaid: true },
+      };
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue(direct);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-2', email: 'jane@example.com' });
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.communityInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (memberService.joinCommunity as jest.Mock).mockResolvedValue({ id: 'member-2' });
+
+      await invitationService.joinByCode('abc', 'user-2');
+
+      expect(memberService.joinCommunity).toHaveBeenCalledWith(communityId, 'user-2', 'moderator');
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should not let a member invitation skip checkout for a paid community', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue({
+        id: 'invite-2',
+        communityId,
+        community: { slug: 'makers', isPaid: true },
+        type: 'DIRECT',
+        status: 'PENDING',
+        role: 'member',
+        inviteeId: 'user-2',
+        expiresAt: null,
+      });
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-2', email: 'jane@example.com' });
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+
+      await expect(invitationService.acceptInvitation('invite-2', 'user-2'))
+        .rejects.toThrow('Payment required: start a checkout to join this community');
+      expect(prisma.communityInvitation.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should reopen the invitation when joining fails', async () => {
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue({
+        id: 'invite-2',
+        communityId,
+        community,
+        type: 'DIRECT',
+        status: 'PENDING',
+        role: 'member',
+        inviteeId: null,
+        email: 'jane@example.com',
+        uses: 0,
+        expiresAt: null,
+      });
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: 'user-2', email: 'jane@example.com' });
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+      (prisma.communityInvitation.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (memberService.joinCommunity as jest.Mock).mockRejectedValue(new Error('Community not found'));
+
+      await expect(invitationService.acceptInvitation('invite-2', 'user-2')).rejects.toThrow('Community not found');
+      expect(prisma.communityInvitation.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 'invite-2', status: 'ACCEPTED', inviteeId: 'user-2' },
+        data: { status: 'PENDING', inviteeId: null, uses: 0, respondedAt: null },
+      });
+    });
+  });
+
+  describe('revokeInvitation', () => {
+    it('should revoke a pending invitation and audit it', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('admin');
+      (prisma.communityInvitation.findUnique as jest.Mock).mockResolvedValue({
+        id: 'invite-1',
+        communityId,
+        status: 'PENDING',
+        type: 'LINK',
+        uses: 3,
+      });
+      (prisma.communityInvitation.update as jest.Mock).mockResolvedValue({ id: 'invite-1', status: 'REVOKED' });
+
+      await invitationService.revokeInvitation(communityId, 'invite-1', 'admin-1');
+
+      expect(prisma.communityInvitation.update).toHaveBeenCalledWith({
+        where: { id: 'invite-1' },
+        data: expect.objectContaining({ status: 'REVOKED', revokedById: 'admin-1' }),
+      });
+      expect(logAuditEvent).toHaveBeenCalledWith('admin-1', 'COMMUNITY_INVITE_REVOKED', 'community_invitation', 'invite-1', expect.any(Object));
+    });
+  });
+});
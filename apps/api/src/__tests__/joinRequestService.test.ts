@@ -0,0 +1,217 @@
+import { joinRequestService, validateJoinAnswers, validateJoinQuestions } from '../services/joinRequestService';
+import { prisma } from '../lib/prisma';
+import { memberService } from '../services/memberService';
+import { notificationService } from '../services/notification.service';
+import { ValidationError } from '../utils/errors';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    community: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    communityMember: {
+      findMany: jest.fn(),
+    },
+    communityJoinRequest: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    subscription: {
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/memberService', () => ({
+  memberService: {
+    getMemberRole: jest.fn(),
+    isMember: jest.fn(),
+    joinCommunity: jest.fn(),
+  },
+}));
+
+jest.mock('../services/notification.service', () => ({
+  notificationService: {
+    notifyCommunityJoinRequest: jest.fn(),
+    notifyCommunityJoinReviewed: jest.fn(),
+    notifyMemberJoined: jest.fn(),
+  },
+}));
+
+jest.mock('../utils/auditLogger', () => ({
+  logAuditEvent: jest.fn(),
+}));
+
+describe('JoinRequestService', () => {
+  const communityId = 'community-123';
+  const userId = 'user-123';
+  const questions = [
+    { id: 'why', question: 'Why do you want to join?', required: true },
+    { id: 'ref', question: 'Who referred you?' },
+  ];
+  const privateCommunity = {
+    id: communityId,
+    ownerId: 'owner-1',
+    isPublic: false,
+    joinQuestions: questions,
+    autoApproveDomains: ['acme.com'],
+    autoApprovePaid: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (memberService.isMember as jest.Mock).mockResolvedValue(false);
+    (prisma.communityJoinRequest.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.communityJoinRequest.create as jest.Mock).mockImplementation(({ data }) => ({ id: 'request-1', ...data }));
+  });
+
+  describe('validation', () => {
+    it('should require answers to required questions', () => {
+      expect(validateJoinAnswers(questions, { ref: 'Sam' })).toEqual([
+        'An answer to "Why do you want to join?" is required',
+      ]);
+      expect(validateJoinAnswers(questions, { why: 'Learning', other: 'x' })).toEqual(['Unknown question other']);
+    });
+
+    it('should reject malformed questions', () => {
+      expect(validateJoinQuestions([{ id: 'a', question: '' }, { id: 'a', question: 'Again?' }])).toEqual([
+        'joinQuestions[0].question must be 1-500 characters',
+        'joinQuestions[1].id must be unique',
+      ]);
+      expect(validateJoinQuestions(null)).toEqual([]);
+    });
+  });
+
+  describe('requestToJoin', () => {
+    it('should queue the request and notify moderators', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(privateCommunity);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: userId, email: 'sam@example.com' });
+      (prisma.subscription.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.communityMember.findMany as jest.Mock).mockResolvedValue([{ userId: 'owner-1' }, { userId: 'mod-1' }]);
+
+      const result = await joinRequestService.requestToJoin(communityId, userId, { answers: { why: 'Learning' } });
+
+      expect(result.member).toBeNull();
+      expect(result.request.status).toBe('PENDING');
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+      expect(notificationService.notifyCommunityJoinRequest).toHaveBeenCalledTimes(2);
+      expect(notificationService.notifyCommunityJoinRequest).toHaveBeenCalledWith('mod-1', communityId, userId);
+    });
+
+    it('should auto-approve matching email domains', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(privateCommunity);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: userId, email: 'sam@ACME.com' });
+      (memberService.joinCommunity as jest.Mock).mockResolvedValue({ id: 'member-1' });
+
+      const result = await joinRequestService.requestToJoin(communityId, userId, { answers: { why: 'Work' } });
+
+      expect(result.request).toEqual(expect.objectContaining({ status: 'APPROVED', autoApprovedBy: 'email_domain:acme.com' }));
+      expect(result.member).toEqual({ id: 'member-1' });
+      expect(notificationService.notifyCommunityJoinRequest).not.toHaveBeenCalled();
+    });
+
+    it('should auto-approve paid subscribers', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(privateCommunity);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: userId, email: 'sam@example.com' });
+      (prisma.subscription.findFirst as jest.Mock).mockResolvedValue({ tier: 'PRO' });
+
+      const result = await joinRequestService.requestToJoin(communityId, userId, { answers: { why: 'Work' } });
+
+      expect(result.request.autoApprovedBy).toBe('subscription:PRO');
+      expect(memberService.joinCommunity).toHaveBeenCalledWith(communityId, userId);
+    });
+
+    it('should reject missing answers', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(privateCommunity);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: userId, email: 'sam@acme.com' });
+
+      await expect(joinRequestService.requestToJoin(communityId, userId, {})).rejects.toBeInstanceOf(ValidationError);
+      expect(prisma.communityJoinRequest.create).not.toHaveBeenCalled();
+    });
+
+    it('should not duplicate a pending request', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue(privateCommunity);
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: userId, email: 'sam@example.com' });
+      (prisma.communityJoinRequest.findFirst as jest.Mock).mockResolvedValue({ id: 'request-0' });
+
+      await expect(joinRequestService.requestToJoin(communityId, userId, { answers: { why: 'x' } }))
+        .rejects.toThrow('Join request already pending');
+    });
+
+    it('should send members of paid communities to checkout', async () => {
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ ...privateCommunity, isPaid: true });
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ id: userId, email: 'sam@acme.com' });
+
+      await expect(joinRequestService.requestToJoin(communityId, userId, { answers: { why: 'Learning' } }))
+        .rejects.toThrow('Payment required');
+      expect(prisma.communityJoinRequest.create).not.toHaveBeenCalled();
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('review', () => {
+    const pending = { id: 'request-1', communityId, userId, status: 'PENDING' };
+
+    it('should approve and add the member', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('moderator');
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ isPaid: false });
+      (prisma.communityJoinRequest.findUnique as jest.Mock).mockResolvedValue(pending);
+      (prisma.communityJoinRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (memberService.joinCommunity as jest.Mock).mockResolvedValue({ id: 'member-1' });
+
+      const result = await joinRequestService.approveRequest(communityId, 'request-1', 'mod-1');
+
+      expect(result.member).toEqual({ id: 'member-1' });
+      expect(notificationService.notifyCommunityJoinReviewed).toHaveBeenCalledWith(userId, communityId, true);
+    });
+
+    it('should reject with a reason', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('admin');
+      (prisma.communityJoinRequest.findUnique as jest.Mock).mockResolvedValue(pending);
+      (prisma.communityJoinRequest.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+      await joinRequestService.rejectRequest(communityId, 'request-1', 'admin-1', 'Incomplete answers');
+
+      expect(prisma.communityJoinRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: 'PENDING' },
+        data: expect.objectContaining({ status: 'REJECTED', rejectionReason: 'Incomplete answers' }),
+      });
+      expect(notificationService.notifyCommunityJoinReviewed)
+        .toHaveBeenCalledWith(userId, communityId, false, 'Incomplete answers');
+    });
+
+    it('should not review a request twice', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('owner');
+      (prisma.communityJoinRequest.findUnique as jest.Mock).mockResolvedValue(pending);
+      (prisma.communityJoinRequest.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(joinRequestService.approveRequest(communityId, 'request-1', 'owner-1'))
+        .rejects.toThrow('Join request already reviewed');
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+
+    it('should leave requests to join paid communities pending', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('moderator');
+      (prisma.community.findUnique as jest.Mock).mockResolvedValue({ isPaid: true });
+
+      await expect(joinRequestService.approveRequest(communityId, 'request-1', 'mod-1'))
+        .rejects.toThrow('Payment required');
+      expect(prisma.communityJoinRequest.updateMany).not.toHaveBeenCalled();
+      expect(memberService.joinCommunity).not.toHaveBeenCalled();
+    });
+
+    it('should only let moderators review', async () => {
+      (memberService.getMemberRole as jest.Mock).mockResolvedValue('member');
+
+      await expect(joinRequestService.approveRequest(communityId, 'request-1', userId))
+        .rejects.toThrow('Insufficient permissions');
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { messageReceiptService, RECEIPT_BATCH_SIZE } from '../services/messageReceiptService';
+import { prisma } from '../lib/prisma';
+import { socketService } from '../services/socket.service';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    message: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    conversationParticipant: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    messageReceipt: {
+      createMany: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    userPreferences: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/socket.service', () => ({
+  socketService: {
+    emitDelivered: jest.fn(),
+    emitReadReceipt: jest.fn(),
+  },
+}));
+
+describe('MessageReceiptService', () => {
+  const conversationId = 'conversation-123';
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('markDelivered', () => {
+    it('records receipts and emits one event per conversation', async () => {
+      (prisma.message.findMany as jest.Mock).mockResolvedValue([
+        { id: 'message-1', conversationId },
+        { id: 'message-2', conversationId },
+        { id: 'message-3', conversationId: 'conversation-456' },
+      ]);
+
+      const result = await messageReceiptService.markDelivered(userId, ['message-1', 'message-2', 'message-3']);
+
+      expect(result.delivered).toEqual(['message-1', 'message-2', 'message-3']);
+      expect(prisma.messageReceipt.createMany).toHaveBeenCalledWith(expect.objectContaining({ skipDuplicates: true }));
+      expect(socketService.emitDelivered).toHaveBeenCalledTimes(2);
+      expect(socketService.emitDelivered).toHaveBeenCalledWith(
+        conversationId, ['message-1', 'message-2'], userId, expect.any(Date)
+      );
+    });
+
+    it('ignores own messages and conversations the user is not in', async () => {
+      (prisma.message.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await messageReceiptService.markDelivered(userId, ['own-message']);
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          senderId: { not: userId },
+          conversation: { participants: { some: { userId } } },
+        }),
+      }));
+      expect(result.delivered).toEqual([]);
+      expect(prisma.messageReceipt.createMany).not.toHaveBeenCalled();
+      expect(socketService.emitDelivered).not.toHaveBeenCalled();
+    });
+
+    it('rejects batches over the limit', async () => {
+      const ids = Array.from({ length: RECEIPT_BATCH_SIZE + 1 }, (_, i) => `message-${i}`);
+
+      await expect(messageReceiptService.markDelivered(userId, ids)).rejects.toThrow('At most');
+    });
+  });
+
+  describe('markRead', () => {
+    beforeEach(() => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue({
+        userId,
+        lastReadAt: new Date('2025-01-01T00:00:00Z'),
+      });
+      (prisma.userPreferences.findUnique as jest.Mock).mockResolvedValue(null);
+    });
+
+    it('marks unread messages in one batch and moves the read position', async () => {
+      (prisma.message.findMany as jest.Mock).mockResolvedValue([
+        { id: 'message-1', createdAt: new Date('2025-01-02T00:00:00Z') },
+        { id: 'message-2', createdAt: new Date('2025-01-03T00:00:00Z') },
+      ]);
+
+      const result = await messageReceiptService.markRead(conversationId, userId);
+
+      expect(result.read).toBe(2);
+      expect(prisma.messageReceipt.createMany).toHaveBeenCalledWith({
+        data: [
+          { messageId: 'message-1', userId, readAt: expect.any(Date) },
+          { messageId: 'message-2', userId, readAt: expect.any(Date) },
+        ],
+        skipDuplicates: true,
+      });
+      expect(prisma.messageReceipt.updateMany).toHaveBeenCalledTimes(1);
+      expect(prisma.messageReceipt.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { readAt: expect.any(Date) },
+      }));
+      expect(prisma.conversationParticipant.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: { lastReadAt: result.lastReadAt },
+      }));
+      expect(socketService.emitReadReceipt).toHaveBeenCalledWith(conversationId, userId, result.lastReadAt);
+    });
+
+    it('stops at the last message of a full batch', async () => {
+      const batch = Array.from({ length: RECEIPT_BATCH_SIZE }, (_, i) => ({
+        id: `message-${i}`,
+        createdAt: new Date(Date.UTC(2025, 0, 2, 0, 0, i)),
+      }));
+      (prisma.message.findMany as jest.Mock).mockResolvedValue(batch);
+
+      const result = await messageReceiptService.markRead(conversationId, userId);
+
+      expect(result.lastReadAt).toBe(batch[batch.length - 1].createdAt);
+    });
+
+    it('does not broadcast for users who hide read receipts', async () => {
+      (prisma.message.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.userPreferences.findUnique as jest.Mock).mockResolvedValue({ showReadReceipts: false });
+
+      await messageReceiptService.markRead(conversationId, userId);
+
+      expect(prisma.conversationParticipant.update).toHaveBeenCalled();
+      expect(socketService.emitReadReceipt).not.toHaveBeenCalled();
+    });
+
+    it('never moves the read position backwards', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        conversationId,
+        createdAt: new Date('2024-12-31T00:00:00Z'),
+      });
+
+      const result = await messageReceiptService.markRead(conversationId, userId, 'old-message');
+
+      expect(result.read).toBe(0);
+      expect(prisma.conversationParticipant.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getReceipts', () => {
+    const createdAt = new Date('2025-01-02T00:00:00Z');
+    const readAt = new Date('2025-01-02T01:00:00Z');
+
+    beforeEach(() => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: 'message-1',
+        senderId: userId,
+        createdAt,
+        conversation: {
+          participants: [
+            { userId, user: { id: userId } },
+            { userId: 'reader', lastReadAt: null, user: { id: 'reader' } },
+            { userId: 'private-reader', lastReadAt: null, user: { id: 'private-reader' } },
+            { userId: 'caught-up-reader', lastReadAt: readAt, user: { id: 'caught-up-reader' } },
+          ],
+        },
+      });
+      (prisma.messageReceipt.findMany as jest.Mock).mockResolvedValue([
+        { userId: 'reader', deliveredAt: null, readAt },
+        { userId: 'private-reader', deliveredAt: null, readAt },
+      ]);
+    });
+
+    it('leaves out read times of users who hide read receipts', async () => {
+      (prisma.userPreferences.findMany as jest.Mock).mockResolvedValue([{ userId: 'private-reader' }]);
+
+      const receipts = await messageReceiptService.getReceipts('message-1', userId);
+
+      expect(receipts.seenBy.map((entry: any) => entry.user.id)).toEqual(['reader', 'caught-up-reader']);
+      expect(receipts.deliveredTo.map((entry: any) => entry.user.id)).toEqual(['reader', 'caught-up-reader']);
+    });
+
+    it('only shows a reported delivery for users who hide read receipts', async () => {
+      const deliveredAt = new Date('2025-01-02T00:30:00Z');
+      (prisma.messageReceipt.findMany as jest.Mock).mockResolvedValue([
+        { userId: 'private-reader', deliveredAt, readAt },
+      ]);
+      (prisma.userPreferences.findMany as jest.Mock).mockResolvedValue([
+        { userId: 'private-reader' },
+        { userId: 'caught-up-reader' },
+      ]);
+
+      const receipts = await messageReceiptService.getReceipts('message-1', userId);
+
+      expect(receipts.recipients).toEqual([
+        { user: { id: 'reader' }, deliveredAt: null, readAt: null },
+        { user: { id: 'private-reader' }, deliveredAt, readAt: null },
+        { user: { id: 'caught-up-reader' }, deliveredAt: null, readAt: null },
+      ]);
+    });
+
+    it('hides the message from non-participants', async () => {
+      (prisma.userPreferences.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(messageReceiptService.getReceipts('message-1', 'outsider'))
+        .rejects.toThrow('Message not found');
+    });
+  });
+});
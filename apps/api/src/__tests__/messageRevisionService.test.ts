@@ -0,0 +1,151 @@
+import { messageRevisionService } from '../services/messageRevisionService';
+import { prisma } from '../lib/prisma';
+import { logAdminAction } from '../utils/auditLogger';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    message: {
+      findUnique: jest.fn(),
+    },
+    messageRevision: {
+      findMany: jest.fn(),
+    },
+    conversation: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    report: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../utils/auditLogger', () => ({
+  logAdminAction: jest.fn(),
+}));
+
+describe('MessageRevisionService', () => {
+  const messageId = 'message-123';
+  const userId = 'user-123';
+  const editor = { id: userId, username: 'alice' };
+
+  const message = (overrides: Record<string, any> = {}, conversation: Record<string, any> = {}) => ({
+    id: messageId,
+    conversationId: 'conversation-123',
+    content: 'Current text',
+    attachments: [],
+    messageType: 'text',
+    isEdited: true,
+    editedAt: new Date('2025-11-01T10:05:00Z'),
+    metadata: null,
+    conversation: {
+      editHistoryVisible: true,
+      participants: [{ userId }],
+      ...conversation,
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.messageRevision.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: 'revision-1',
+        action: 'EDIT',
+        content: 'First text',
+        attachments: [],
+        createdAt: new Date('2025-11-01T10:05:00Z'),
+        editor,
+      },
+    ]);
+  });
+
+  describe('getRevisions', () => {
+    it('shows participants earlier versions when edit history is on', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(message());
+
+      const history = await messageRevisionService.getRevisions(messageId, { id: userId, role: 'USER' });
+
+      expect(prisma.messageRevision.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { messageId, action: 'EDIT' },
+      }));
+      expect(history.revisions).toEqual([expect.objectContaining({ content: 'First text', editor })]);
+      expect(logAdminAction).not.toHaveBeenCalled();
+    });
+
+    it('is off for participants unless the conversation enables it', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(message({}, { editHistoryVisible: false }));
+
+      await expect(messageRevisionService.getRevisions(messageId, { id: userId, role: 'USER' }))
+        .rejects.toThrow('Edit history is not enabled for this conversation');
+    });
+
+    it('hides deleted messages from participants', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(message({ messageType: 'deleted' }));
+
+      await expect(messageRevisionService.getRevisions(messageId, { id: userId, role: 'USER' }))
+        .rejects.toThrow('Message not found');
+    });
+
+    it('lets moderators see every revision and logs their access', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(message(
+        { messageType: 'deleted' },
+        { editHistoryVisible: false, participants: [] }
+      ));
+
+      await messageRevisionService.getRevisions(messageId, { id: 'moderator-1', role: 'MODERATOR' });
+
+      expect(prisma.messageRevision.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { messageId },
+      }));
+      expect(logAdminAction).toHaveBeenCalledWith('moderator-1', 'MESSAGE_HISTORY_VIEWED', messageId, expect.objectContaining({
+        conversationId: 'conversation-123',
+      }));
+    });
+  });
+
+  describe('getMessageForModeration', () => {
+    it('shows the content a message had before it was deleted', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(message({
+        content: '[Message deleted]',
+        messageType: 'deleted',
+        sender: editor,
+      }));
+      (prisma.messageRevision.findMany as jest.Mock).mockResolvedValue([
+        { id: 'revision-1', action: 'EDIT', content: 'First text', attachments: [], editor },
+        { id: 'revision-2', action: 'DELETE', content: 'Abusive text', attachments: ['proof.png'], editor },
+      ]);
+      (prisma.report.findMany as jest.Mock).mockResolvedValue([{ id: 'report-1', status: 'PENDING' }]);
+
+      const review = await messageRevisionService.getMessageForModeration(messageId, 'admin-1', 'report-1');
+
+      expect(review).toEqual(expect.objectContaining({
+        content: 'Abusive text',
+        attachments: ['proof.png'],
+        isDeleted: true,
+        deletedBy: editor,
+        reports: [{ id: 'report-1', status: 'PENDING' }],
+      }));
+      expect(review.revisions).toHaveLength(2);
+      expect(logAdminAction).toHaveBeenCalledWith('admin-1', 'MESSAGE_VIEWED', messageId, {
+        conversationId: 'conversation-123',
+        reportId: 'report-1',
+        deleted: true,
+      });
+    });
+  });
+
+  describe('setEditHistoryVisible', () => {
+    it('only lets the conversation creator change it', async () => {
+      (prisma.conversation.findUnique as jest.Mock).mockResolvedValue({
+        id: 'conversation-123',
+        createdBy: 'someone-else',
+        participants: [{ userId }],
+      });
+
+      await expect(messageRevisionService.setEditHistoryVisible('conversation-123', userId, true))
+        .rejects.toThrow('Only the conversation creator can change edit history visibility');
+      expect(prisma.conversation.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { Client } from '@elastic/elasticsearch';
+import { searchService } from '../services/searchService';
+import { prisma } from '../lib/prisma';
+
+// The service creates its client on import, so every instance shares one mock
+jest.mock('@elastic/elasticsearch', () => {
+  const client = {
+    search: jest.fn(),
+    index: jest.fn(),
+    delete: jest.fn(),
+    bulk: jest.fn(),
+  };
+  return { Client: jest.fn(() => client) };
+});
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    conversationParticipant: {
+      findMany: jest.fn(),
+    },
+    message: {
+      findUnique: jest.fn(),
+    },
+    $queryRaw: jest.fn(),
+  },
+}));
+
+const mockEsClient = new (Client as any)();
+
+describe('SearchService message search', () => {
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.conversationParticipant.findMany as jest.Mock).mockResolvedValue([
+      { conversationId: 'conversation-1' },
+      { conversationId: 'conversation-2' },
+    ]);
+  });
+
+  it('searches every conversation the user is in with the given filters', async () => {
+    mockEsClient.search.mockResolvedValue({
+      hits: {
+        hits: [
+          {
+            _id: 'message-1',
+            _index: 'messages',
+            _score: 2.5,
+            _source: { id: 'message-1', content: 'Quarterly budget draft' },
+            highlight: { content: ['Quarterly <mark>budget</mark> draft'] },
+          },
+        ],
+        total: { value: 1, relation: 'eq' },
+      },
+      took: 3,
+    });
+
+    const results = await searchService.searchMessages(userId, {
+      query: 'budget',
+      senderId: 'sender-1',
+      hasAttachment: true,
+      isPinned: false,
+    });
+
+    const { body } = mockEsClient.search.mock.calls[0][0];
+    expect(mockEsClient.search.mock.calls[0][0].index).toBe('messages');
+    expect(body.query.bool.filter).toEqual(expect.arrayContaining([
+      { terms: { conversationId: ['conversation-1', 'conversation-2'] } },
+      { term: { senderId: 'sender-1' } },
+      { term: { hasAttachment: true } },
+      { term: { isPinned: false } },
+    ]));
+    expect(results.total).toBe(1);
+    expect(results.hits[0].highlight.content[0]).toContain('<mark>budget</mark>');
+  });
+
+  it('returns nothing without searching when the user has no conversations', async () => {
+    (prisma.conversationParticipant.findMany as jest.Mock).mockResolvedValue([]);
+
+    const results = await searchService.searchMessages(userId, { query: 'budget' });
+
+    expect(results).toEqual({ hits: [], total: 0, took: 0 });
+    expect(mockEsClient.search).not.toHaveBeenCalled();
+  });
+
+  it('rejects a conversation the user is not in', async () => {
+    (prisma.conversationParticipant.findMany as jest.Mock).mockResolvedValue([]);
+
+    await expect(searchService.searchMessages(userId, { query: 'budget', conversationId: 'conversation-9' }))
+      .rejects.toThrow('Conversation not found or access denied');
+  });
+
+  it('falls back to Postgres full-text search when Elasticsearch fails', async () => {
+    mockEsClient.search.mockRejectedValue(new Error('Elasticsearch unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (prisma.$queryRaw as jest.Mock)
+      .mockResolvedValueOnce([
+        {
+          id: 'message-1',
+          conversationId: 'conversation-1',
+          senderId: 'sender-1',
+          content: 'Quarterly budget draft',
+          attachments: [],
+          rank: 0.6,
+          snippet: 'Quarterly <mark>budget</mark> draft',
+          username: 'sender',
+        },
+      ])
+      .mockResolvedValueOnce([{ total: 1 }]);
+
+    const results = await searchService.searchMessages(userId, { query: 'budget' });
+
+    expect(results.total).toBe(1);
+    expect(results.hits[0]).toEqual(expect.objectContaining({
+      _id: 'message-1',
+      _score: 0.6,
+      highlight: { content: ['Quarterly <mark>budget</mark> draft'] },
+    }));
+    expect(results.hits[0]._source).toEqual(expect.objectContaining({
+      hasAttachment: false,
+      sender: expect.objectContaining({ username: 'sender' }),
+    }));
+  });
+});
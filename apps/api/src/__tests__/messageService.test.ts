@@ -15,6 +15,15 @@ jest.mock('../lib/prisma', () => ({
       update: jest.fn(),
       findUnique: jest.fn(),
       findMany: jest.fn(),
+      count: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    messageThreadRead: {
+      findMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+    messageRevision: {
+      create: jest.fn(),
     },
     conversation: {
       update: jest.fn(),
@@ -23,12 +32,14 @@ jest.mock('../lib/prisma', () => ({
       findUnique: jest.fn(),
       update: jest.fn(),
     },
+    $transaction: jest.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
   },
 }));
 
 jest.mock('../services/socket.service', () => ({
   socketService: {
     sendMessage: jest.fn(),
+    sendThreadReply: jest.fn(),
     updateConversation: jest.fn(),
   },
 }));
@@ -39,6 +50,13 @@ jest.mock('../services/notification.service', () => ({
   },
 }));
 
+jest.mock('../services/searchService', () => ({
+  searchService: {
+    indexMessage: jest.fn().mockResolvedValue(undefined),
+    removeMessage: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
 describe('MessageService', () => {
   const mockConversationId = 'conversation-123';
   const mockUserId = 'user-123';
@@ -168,6 +186,44 @@ describe('MessageService', () => {
         messageService.sendMessage(mockConversationId, mockSenderId, mockContent)
       ).rejects.toThrow('Conversation not found or access denied');
     });
+
+    it('should store the validated payload of a poll', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue({ id: 'participant-123' });
+      (prisma.message.create as jest.Mock).mockResolvedValue({ id: 'message-123' });
+
+      await messageService.sendMessage(
+        mockConversationId,
+        mockSenderId,
+        'Lunch?',
+        'poll',
+        [],
+        undefined,
+        { options: ['Pizza', 'Sushi'], allowMultiple: true }
+      );
+
+      expect(prisma.message.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({
+          messageType: 'poll',
+          metadata: expect.objectContaining({
+            options: [{ id: '1', text: 'Pizza' }, { id: '2', text: 'Sushi' }],
+            allowMultiple: true,
+          }),
+        }),
+      }));
+    });
+
+    it('should reject polls without valid options', async () => {
+      await expect(
+        messageService.sendMessage(mockConversationId, mockSenderId, 'Lunch?', 'poll', [], undefined, { options: [] })
+      ).rejects.toThrow('Invalid poll');
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject metadata on basic message types', async () => {
+      await expect(
+        messageService.sendMessage(mockConversationId, mockSenderId, mockContent, 'text', [], undefined, { options: [] })
+      ).rejects.toThrow('Messages of type text do not take metadata');
+    });
   });
 
   describe('editMessage', () => {
@@ -285,6 +341,31 @@ describe('MessageService', () => {
       });
     });
 
+    it('should keep the previous version as a revision', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: mockMessageId,
+        senderId: mockSenderId,
+        content: 'Original message',
+        attachments: ['file1.jpg'],
+        conversation: {
+          participants: [{ userId: mockSenderId }],
+        },
+      });
+      (prisma.message.update as jest.Mock).mockResolvedValue({ id: mockMessageId });
+
+      await messageService.editMessage(mockMessageId, mockSenderId, 'Updated message');
+
+      expect(prisma.messageRevision.create).toHaveBeenCalledWith({
+        data: {
+          messageId: mockMessageId,
+          editorId: mockSenderId,
+          action: 'EDIT',
+          content: 'Original message',
+          attachments: ['file1.jpg'],
+        },
+      });
+    });
+
     it('should throw NotFoundError when message does not exist', async () => {
       (prisma.message.findUnique as jest.Mock).mockResolvedValue(null);
 
@@ -336,6 +417,9 @@ describe('MessageService', () => {
       const result = await messageService.deleteMessage(mockMessageId, mockSenderId);
 
       expect(result).toEqual({ message: 'Message deleted successfully' });
+      expect(prisma.messageRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ messageId: mockMessageId, action: 'DELETE' }),
+      });
       expect(prisma.message.update).toHaveBeenCalledWith({
         where: { id: mockMessageId },
         data: {
@@ -467,4 +551,152 @@ describe('MessageService', () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe('threads', () => {
+    const participant = {
+      id: 'participant-123',
+      conversationId: mockConversationId,
+      userId: mockSenderId,
+    };
+
+    it('should attach a reply to the parent thread and emit thread_reply', async () => {
+      const reply = {
+        id: 'reply-1',
+        conversationId: mockConversationId,
+        parentId: 'message-1',
+        createdAt: new Date(),
+      };
+
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(participant);
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: 'message-1',
+        conversationId: mockConversationId,
+        parentId: null,
+        messageType: 'text',
+      });
+      (prisma.message.create as jest.Mock).mockResolvedValue(reply);
+      (prisma.message.update as jest.Mock).mockResolvedValue({ id: 'message-1', replyCount: 3 });
+
+      await messageService.sendMessage(mockConversationId, mockSenderId, mockContent, mockType, [], 'message-1');
+
+      expect(prisma.message.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ parentId: 'message-1' }),
+      }));
+      expect(prisma.message.update).toHaveBeenCalledWith({
+        where: { id: 'message-1' },
+        data: { replyCount: { increment: 1 }, lastReplyAt: reply.createdAt },
+      });
+      expect(prisma.messageThreadRead.upsert).toHaveBeenCalled();
+      expect(socketService.sendThreadReply).toHaveBeenCalledWith(mockConversationId, 'message-1', reply, 3);
+      expect(socketService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should reply to the root when the parent is itself a reply', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(participant);
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: 'reply-1',
+        conversationId: mockConversationId,
+        parentId: 'message-1',
+        messageType: 'text',
+      });
+      (prisma.message.create as jest.Mock).mockResolvedValue({ id: 'reply-2', createdAt: new Date() });
+      (prisma.message.update as jest.Mock).mockResolvedValue({ id: 'message-1', replyCount: 2 });
+
+      await messageService.sendMessage(mockConversationId, mockSenderId, mockContent, mockType, [], 'reply-1');
+
+      expect(prisma.message.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ parentId: 'message-1' }),
+      }));
+    });
+
+    it('should reject a parent from another conversation', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(participant);
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: 'message-9',
+        conversationId: 'other-conversation',
+        parentId: null,
+        messageType: 'text',
+      });
+
+      await expect(
+        messageService.sendMessage(mockConversationId, mockSenderId, mockContent, mockType, [], 'message-9')
+      ).rejects.toThrow('Parent message not found');
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('should return a page of replies with the unread count', async () => {
+      const lastReadAt = new Date('2025-01-01T00:00:00Z');
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: 'message-1',
+        conversationId: mockConversationId,
+        parentId: null,
+        replyCount: 3,
+      });
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(participant);
+      (prisma.message.findMany as jest.Mock).mockResolvedValue([
+        { id: 'reply-1' },
+        { id: 'reply-2' },
+        { id: 'reply-3' },
+      ]);
+      (prisma.messageThreadRead.findMany as jest.Mock).mockResolvedValue([
+        { messageId: 'message-1', lastReadAt },
+      ]);
+      (prisma.message.groupBy as jest.Mock).mockResolvedValue([
+        { parentId: 'message-1', _count: { _all: 1 } },
+      ]);
+
+      const result = await messageService.getThread('message-1', mockUserId, 2);
+
+      expect(result.replies).toHaveLength(2);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toBe('reply-2');
+      expect(result.unreadCount).toBe(1);
+      expect(prisma.message.groupBy).toHaveBeenCalledWith({
+        by: ['parentId'],
+        where: {
+          senderId: { not: mockUserId },
+          OR: [{ parentId: 'message-1', createdAt: { gt: lastReadAt } }],
+        },
+        _count: { _all: true },
+      });
+    });
+
+    it('should count unread replies for a page of threads in one query', async () => {
+      const lastReadAt = new Date('2025-01-01T00:00:00Z');
+      (prisma.messageThreadRead.findMany as jest.Mock).mockResolvedValue([
+        { messageId: 'message-1', lastReadAt },
+      ]);
+      (prisma.message.groupBy as jest.Mock).mockResolvedValue([
+        { parentId: 'message-2', _count: { _all: 4 } },
+      ]);
+
+      const counts = await messageService.getThreadUnreadCounts(mockUserId, [
+        { id: 'message-1', replyCount: 2 },
+        { id: 'message-2', replyCount: 4 },
+        { id: 'message-3', replyCount: 0 },
+      ]);
+
+      expect(counts).toEqual({ 'message-1': 0, 'message-2': 4 });
+      expect(prisma.message.groupBy).toHaveBeenCalledTimes(1);
+      expect(prisma.message.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          senderId: { not: mockUserId },
+          OR: [
+            { parentId: 'message-1', createdAt: { gt: lastReadAt } },
+            { parentId: 'message-2' },
+          ],
+        },
+      }));
+    });
+
+    it('should not open a thread from a reply', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue({
+        id: 'reply-1',
+        conversationId: mockConversationId,
+        parentId: 'message-1',
+      });
+
+      await expect(messageService.getThread('reply-1', mockUserId)).rejects.toThrow('Thread not found');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { pollService, parsePollPayload, isPollClosed } from '../services/pollService';
+import { prisma } from '../lib/prisma';
+import { socketService } from '../services/socket.service';
+import { ForbiddenError } from '../utils/errors';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    message: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    messagePollVote: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../services/socket.service', () => ({
+  socketService: {
+    updateConversation: jest.fn(),
+  },
+}));
+
+describe('PollService', () => {
+  const conversationId = 'conversation-123';
+  const userId = 'user-123';
+  const poll = {
+    options: [
+      { id: '1', text: 'Tuesday' },
+      { id: '2', text: 'Thursday' },
+    ],
+    allowMultiple: false,
+    anonymous: false,
+    closesAt: null,
+    closedAt: null,
+  };
+  const pollMessage = (overrides: Record<string, any> = {}) => ({
+    id: 'message-1',
+    conversationId,
+    senderId: 'creator-1',
+    content: 'Which day works?',
+    messageType: 'poll',
+    metadata: poll,
+    conversation: { participants: [{ userId }] },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.message.findUnique as jest.Mock).mockResolvedValue(pollMessage());
+    (prisma.messagePollVote.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe('parsePollPayload', () => {
+    it('assigns option ids and defaults', () => {
+      expect(parsePollPayload({ options: [' Yes ', 'No'] })).toEqual({
+        options: [{ id: '1', text: 'Yes' }, { id: '2', text: 'No' }],
+        allowMultiple: false,
+        anonymous: false,
+        closesAt: null,
+        closedAt: null,
+      });
+    });
+
+    it('rejects too few, duplicate or past options', () => {
+      expect(() => parsePollPayload({ options: ['Only one'] })).toThrow('Invalid poll');
+      expect(() => parsePollPayload({ options: ['Yes', 'yes'] })).toThrow('Invalid poll');
+      expect(() => parsePollPayload({
+        options: ['Yes', 'No'],
+        closesAt: new Date(Date.now() - 1000).toISOString(),
+      })).toThrow('Invalid poll');
+      expect(() => parsePollPayload(undefined)).toThrow('Invalid poll');
+    });
+
+    it('treats a poll past its closing time as closed', () => {
+      expect(isPollClosed({ ...poll, closesAt: new Date(Date.now() - 1000).toISOString() })).toBe(true);
+      expect(isPollClosed({ ...poll, closesAt: new Date(Date.now() + 60000).toISOString() })).toBe(false);
+    });
+  });
+
+  describe('vote', () => {
+    it('replaces earlier votes and streams the new tally', async () => {
+      (prisma.messagePollVote.findMany as jest.Mock).mockResolvedValue([
+        { optionId: '2', userId, user: { id: userId } },
+        { optionId: '2', userId: 'user-456', user: { id: 'user-456' } },
+      ]);
+
+      const results = await pollService.vote('message-1', userId, ['2']);
+
+      expect(prisma.messagePollVote.deleteMany).toHaveBeenCalledWith({ where: { messageId: 'message-1', userId } });
+      expect(prisma.messagePollVote.createMany).toHaveBeenCalledWith({
+        data: [{ messageId: 'message-1', userId, optionId: '2' }],
+      });
+      expect(results.options[1]).toEqual(expect.objectContaining({ id: '2', votes: 2 }));
+      expect(results.myVotes).toEqual(['2']);
+      expect(socketService.updateConversation).toHaveBeenCalledWith(conversationId, expect.objectContaining({
+        type: 'poll_update',
+        messageId: 'message-1',
+        poll: expect.not.objectContaining({ myVotes: expect.anything() }),
+      }));
+    });
+
+    it('allows one choice on single-choice polls', async () => {
+      await expect(pollService.vote('message-1', userId, ['1', '2']))
+        .rejects.toThrow('This poll only allows one choice');
+    });
+
+    it('rejects unknown options', async () => {
+      await expect(pollService.vote('message-1', userId, ['9'])).rejects.toThrow('Unknown poll option');
+    });
+
+    it('rejects votes on closed polls', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(pollMessage({
+        metadata: { ...poll, closedAt: new Date().toISOString() },
+      }));
+
+      await expect(pollService.vote('message-1', userId, ['1'])).rejects.toThrow('This poll is closed');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('hides polls from non-participants', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(pollMessage({
+        conversation: { participants: [] },
+      }));
+
+      await expect(pollService.vote('message-1', userId, ['1'])).rejects.toThrow('Poll not found');
+    });
+  });
+
+  describe('getResults', () => {
+    it('does not list voters on anonymous polls', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(pollMessage({
+        metadata: { ...poll, anonymous: true },
+      }));
+      (prisma.messagePollVote.findMany as jest.Mock).mockResolvedValue([{ optionId: '1', userId: 'user-456' }]);
+
+      const results = await pollService.getResults('message-1', userId);
+
+      expect(prisma.messagePollVote.findMany).toHaveBeenCalledWith(expect.not.objectContaining({
+        include: expect.anything(),
+      }));
+      expect(results.options[0]).toEqual({ id: '1', text: 'Tuesday', votes: 1 });
+      expect(results.totalVoters).toBe(1);
+    });
+  });
+
+  describe('closePoll', () => {
+    it('only lets the creator close a poll', async () => {
+      await expect(pollService.closePoll('message-1', userId))
+        .rejects.toThrow(ForbiddenError);
+    });
+
+    it('records when the poll was closed', async () => {
+      (prisma.message.findUnique as jest.Mock).mockResolvedValue(pollMessage({ senderId: userId }));
+
+      const results = await pollService.closePoll('message-1', userId);
+
+      expect(prisma.message.update).toHaveBeenCalledWith({
+        where: { id: 'message-1' },
+        data: { metadata: expect.objectContaining({ closedAt: expect.any(String) }) },
+      });
+      expect(results.closed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { PresenceService, PRESENCE_TTL_MS } from '../services/presenceService';
+import { prisma } from '../lib/prisma';
+import { memberService } from '../services/memberService';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    communityMember: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/memberService', () => ({
+  memberService: {
+    isMember: jest.fn(),
+  },
+}));
+
+describe('PresenceService', () => {
+  let presenceService: PresenceService;
+  const userId = 'user-123';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-11-01T09:00:00Z') });
+    // Without REDIS_URL each instance keeps its own in-memory registry
+    presenceService = new PresenceService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('connect / disconnect', () => {
+    it('announces only the first and last connection of a user', async () => {
+      expect(await presenceService.connect(userId, 'socket-1')).toEqual({
+        userId,
+        status: 'online',
+        customStatus: null,
+        lastSeen: null,
+      });
+      expect(await presenceService.connect(userId, 'socket-2')).toBeNull();
+
+      expect(await presenceService.disconnect(userId, 'socket-1')).toBeNull();
+      expect(await presenceService.disconnect(userId, 'socket-2')).toEqual(expect.objectContaining({
+        status: 'offline',
+        lastSeen: '2025-11-01T09:00:00.000Z',
+      }));
+      expect(await presenceService.isOnline(userId)).toBe(false);
+    });
+  });
+
+  describe('expireStale', () => {
+    it('takes users offline when their connections stop being refreshed', async () => {
+      await presenceService.connect(userId, 'socket-1');
+      await presenceService.connect('user-456', 'socket-2');
+
+      jest.advanceTimersByTime(PRESENCE_TTL_MS - 1000);
+      await presenceService.heartbeat([{ userId: 'user-456', connectionId: 'socket-2' }]);
+      jest.advanceTimersByTime(2000);
+
+      const expired = await presenceService.expireStale();
+
+      expect(expired.map(presence => presence.userId)).toEqual([userId]);
+      expect(await presenceService.getOnlineUserIds()).toEqual(['user-456']);
+    });
+  });
+
+  describe('setStatus', () => {
+    it('shows invisible users as offline to everyone else', async () => {
+      await presenceService.connect(userId, 'socket-1');
+
+      const { own, visible } = await presenceService.setStatus(userId, {
+        status: 'invisible',
+        customStatus: 'Heads down',
+      });
+
+      expect(own).toEqual(expect.objectContaining({ status: 'invisible', customStatus: 'Heads down' }));
+      expect(visible).toEqual(expect.objectContaining({ status: 'offline', customStatus: null }));
+      expect(await presenceService.isOnline(userId)).toBe(false);
+      // Leaving while invisible changes nothing anyone can see
+      expect(await presenceService.disconnect(userId, 'socket-1')).toBeNull();
+    });
+
+    it('keeps the custom status text across status changes', async () => {
+      await presenceService.connect(userId, 'socket-1');
+      await presenceService.setStatus(userId, { customStatus: '  In a meeting ' });
+
+      const { visible } = await presenceService.setStatus(userId, { status: 'do_not_disturb' });
+
+      expect(visible).toEqual(expect.objectContaining({
+        status: 'do_not_disturb',
+        customStatus: 'In a meeting',
+      }));
+    });
+
+    it('rejects unknown statuses', async () => {
+      await expect(presenceService.setStatus(userId, { status: 'busy' }))
+        .rejects.toThrow('Status must be one of');
+    });
+  });
+
+  describe('getCommunityPresence', () => {
+    it('lists the online members of a community', async () => {
+      (memberService.isMember as jest.Mock).mockResolvedValue(true);
+      (prisma.communityMember.findMany as jest.Mock).mockResolvedValue([
+        { userId },
+        { userId: 'user-456' },
+        { userId: 'user-789' },
+      ]);
+      await presenceService.connect(userId, 'socket-1');
+      await presenceService.connect('user-456', 'socket-2');
+      await presenceService.setStatus('user-456', { status: 'away' });
+      await presenceService.connect('user-789', 'socket-3');
+      await presenceService.setStatus('user-789', { status: 'invisible' });
+
+      const result = await presenceService.getCommunityPresence('community-1', userId);
+
+      expect(result.memberCount).toBe(3);
+      expect(result.members.map(member => [member.userId, member.status])).toEqual([
+        [userId, 'online'],
+        ['user-456', 'away'],
+      ]);
+    });
+
+    it('is only available to members', async () => {
+      (memberService.isMember as jest.Mock).mockResolvedValue(false);
+
+      await expect(presenceService.getCommunityPresence('community-1', userId)).rejects.toThrow('Unauthorized');
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { scheduledMessageService, nextOccurrence } from '../services/scheduledMessageService';
+import { prisma } from '../lib/prisma';
+import { messageService } from '../services/messageService';
+
+jest.mock('../lib/prisma', () => ({
+  prisma: {
+    conversationParticipant: {
+      findUnique: jest.fn(),
+    },
+    scheduledMessage: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../services/messageService', () => ({
+  messageService: {
+    sendMessage: jest.fn(),
+  },
+}));
+
+describe('ScheduledMessageService', () => {
+  const conversationId = 'conversation-123';
+  const senderId = 'sender-123';
+  const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('nextOccurrence', () => {
+    it('skips weekends for weekday recurrences', () => {
+      // Friday 09:00 UTC
+      const friday = new Date('2025-01-03T09:00:00Z');
+      expect(nextOccurrence(friday, 'WEEKDAYS', friday).toISOString()).toBe('2025-01-06T09:00:00.000Z');
+    });
+
+    it('skips occurrences that were missed', () => {
+      const from = new Date('2025-01-01T09:00:00Z');
+      const now = new Date('2025-01-03T12:00:00Z');
+      expect(nextOccurrence(from, 'DAILY', now).toISOString()).toBe('2025-01-04T09:00:00.000Z');
+    });
+  });
+
+  describe('scheduleMessage', () => {
+    it('stores a message for a future time', async () => {
+      const sendAt = inOneHour();
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue({ id: 'participant-1' });
+
+      await scheduledMessageService.scheduleMessage(conversationId, senderId, {
+        content: 'Standup: what are you working on?',
+        sendAt,
+        recurrence: 'WEEKDAYS',
+      });
+
+      expect(prisma.scheduledMessage.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          conversationId,
+          senderId,
+          sendAt,
+          recurrence: 'WEEKDAYS',
+          messageType: 'text',
+        }),
+      });
+    });
+
+    it('rejects send times in the past', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue({ id: 'participant-1' });
+
+      await expect(scheduledMessageService.scheduleMessage(conversationId, senderId, {
+        content: 'Too late',
+        sendAt: new Date(Date.now() - 1000),
+      })).rejects.toThrow('Invalid scheduled message');
+      expect(prisma.scheduledMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects non-participants', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(scheduledMessageService.scheduleMessage(conversationId, senderId, {
+        content: 'Hello',
+        sendAt: inOneHour(),
+      })).rejects.toThrow('Conversation not found or access denied');
+    });
+  });
+
+  describe('cancelScheduledMessage', () => {
+    it('does not cancel a message that cron already claimed', async () => {
+      (prisma.scheduledMessage.findUnique as jest.Mock).mockResolvedValue({
+        id: 'scheduled-1',
+        senderId,
+        status: 'PENDING',
+        sendAt: new Date(),
+      });
+      (prisma.scheduledMessage.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(scheduledMessageService.cancelScheduledMessage('scheduled-1', senderId))
+        .rejects.toThrow('Scheduled message has already been sent');
+    });
+
+    it('only lets the sender cancel', async () => {
+      (prisma.scheduledMessage.findUnique as jest.Mock).mockResolvedValue({
+        id: 'scheduled-1',
+        senderId: 'someone-else',
+        status: 'PENDING',
+      });
+
+      await expect(scheduledMessageService.cancelScheduledMessage('scheduled-1', senderId))
+        .rejects.toThrow('Scheduled message not found');
+    });
+  });
+
+  describe('processDueMessages', () => {
+    const due = {
+      id: 'scheduled-1',
+      conversationId,
+      senderId,
+      content: 'Weekly recap',
+      messageType: 'text',
+      attachments: [],
+      parentId: null,
+      sendAt: new Date(Date.now() - 1000),
+      recurrence: null,
+      recurrenceEndsAt: null,
+    };
+
+    it('sends a one-off message through the normal send path', async () => {
+      (prisma.scheduledMessage.findMany as jest.Mock).mockResolvedValue([due]);
+      (prisma.scheduledMessage.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (messageService.sendMessage as jest.Mock).mockResolvedValue({ id: 'message-1' });
+
+      await scheduledMessageService.processDueMessages();
+
+      expect(prisma.scheduledMessage.updateMany).toHaveBeenCalledWith({
+        where: { id: 'scheduled-1', status: 'PENDING', sendAt: due.sendAt },
+        data: { status: 'SENT' },
+      });
+      expect(messageService.sendMessage).toHaveBeenCalledWith(
+        conversationId, senderId, 'Weekly recap', 'text', [], undefined
+      );
+      expect(prisma.scheduledMessage.update).toHaveBeenCalledWith({
+        where: { id: 'scheduled-1' },
+        data: expect.objectContaining({ lastMessageId: 'message-1' }),
+      });
+    });
+
+    it('moves recurring messages to their next occurrence', async () => {
+      (prisma.scheduledMessage.findMany as jest.Mock).mockResolvedValue([{ ...due, recurrence: 'WEEKLY' }]);
+      (prisma.scheduledMessage.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (messageService.sendMessage as jest.Mock).mockResolvedValue({ id: 'message-1' });
+
+      await scheduledMessageService.processDueMessages();
+
+      const claim = (prisma.scheduledMessage.updateMany as jest.Mock).mock.calls[0][0];
+      expect(claim.data.sendAt.getTime()).toBe(due.sendAt.getTime() + 7 * 24 * 60 * 60 * 1000);
+    });
+
+    it('skips messages another instance already claimed', async () => {
+      (prisma.scheduledMessage.findMany as jest.Mock).mockResolvedValue([due]);
+      (prisma.scheduledMessage.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await scheduledMessageService.processDueMessages();
+
+      expect(messageService.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('marks the schedule failed when sending fails', async () => {
+      (prisma.scheduledMessage.findMany as jest.Mock).mockResolvedValue([due]);
+      (prisma.scheduledMessage.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (messageService.sendMessage as jest.Mock).mockRejectedValue(new Error('Conversation not found or access denied'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await scheduledMessageService.processDueMessages();
+
+      expect(prisma.scheduledMessage.update).toHaveBeenCalledWith({
+        where: { id: 'scheduled-1' },
+        data: { status: 'FAILED', lastError: 'Conversation not found or access denied' },
+      });
+    });
+  });
+});
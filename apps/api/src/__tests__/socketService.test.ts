@@ -2,6 +2,9 @@ import { SocketService } from '../services/socket.service';
 import { Server as HttpServer } from 'http';
 import { Server as SocketServer, Socket } from 'socket.io';
 import { prisma } from '../lib/prisma';
+import { presenceService } from '../services/presenceService';
+import { verifyAccessToken } from '../utils/jwt';
+import { userService } from '../services/userService';
 
 // Mock the dependencies
 jest.mock('socket.io', () => {
@@ -21,10 +24,37 @@ jest.mock('../lib/prisma', () => ({
   prisma: {
     conversationParticipant: {
       findMany: jest.fn(),
+      findUnique: jest.fn(),
     },
     user: {
       update: jest.fn(),
+      findUnique: jest.fn(),
     },
+    users: {
+      update: jest.fn().mockResolvedValue({}),
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../utils/jwt', () => ({
+  verifyAccessToken: jest.fn(),
+}));
+
+jest.mock('../services/userService', () => ({
+  userService: {
+    isTokenBlacklisted: jest.fn().mockReturnValue(false),
+  },
+}));
+
+jest.mock('../services/presenceService', () => ({
+  HEARTBEAT_INTERVAL_MS: 30000,
+  presenceService: {
+    connect: jest.fn().mockResolvedValue(null),
+    disconnect: jest.fn().mockResolvedValue(null),
+    getOnlineUserIds: jest.fn(),
+    isOnline: jest.fn(),
+    getPresence: jest.fn(),
   },
 }));
 
@@ -52,10 +82,27 @@ describe('SocketService', () => {
       leave: jest.fn(),
       to: jest.fn().mockReturnThis(),
       on: jest.fn(),
+      use: jest.fn(),
+      emit: jest.fn(),
+      rooms: new Set(['socket-123']),
       disconnect: jest.fn(),
     };
   });
 
+  // Run a client event through the socket's guard and, if it passes, its handler
+  const emitFromClient = async (event: string, ...args: any[]) => {
+    const guard = mockSocket.use.mock.calls[0][0];
+    const handler = mockSocket.on.mock.calls.find(([name]: [string]) => name === event)?.[1];
+    let passed = false;
+    guard([event, ...args], () => {
+      passed = true;
+    });
+    if (passed && handler) {
+      await handler(...args);
+    }
+    return passed;
+  };
+
   describe('constructor', () => {
     it('should initialize socket server with correct configuration', () => {
       expect(SocketServer).toHaveBeenCalledWith(mockHttpServer, {
@@ -96,7 +143,82 @@ describe('SocketService', () => {
       expect(mockSocket.on).toHaveBeenCalledWith('leave_conversation', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('typing', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('stop_typing', expect.any(Function));
+      expect(mockSocket.on).toHaveBeenCalledWith('set_status', expect.any(Function));
       expect(mockSocket.on).toHaveBeenCalledWith('disconnect', expect.any(Function));
+
+      // Verify the connection is registered in the shared presence registry
+      expect(presenceService.connect).toHaveBeenCalledWith('user-123', 'socket-123');
+    });
+  });
+
+  describe('event authorization', () => {
+    beforeEach(() => {
+      (prisma.conversationParticipant.findMany as jest.Mock).mockResolvedValue([]);
+      (socketService as any).handleConnection(mockSocket);
+    });
+
+    it('only joins conversations the user participates in', async () => {
+      (prisma.conversationParticipant.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await emitFromClient('join_conversation', 'conv-999');
+
+      expect(mockSocket.join).not.toHaveBeenCalledWith('conversation:conv-999');
+      expect(mockSocket.emit).toHaveBeenCalledWith('event_rejected', {
+        event: 'join_conversation',
+        reason: 'not_a_participant',
+        conversationId: 'conv-999',
+      });
+    });
+
+    it('rejects typing in a conversation the socket has not joined', async () => {
+      const passed = await emitFromClient('typing', { conversationId: 'conv-999', isTyping: true });
+
+      expect(passed).toBe(false);
+      expect(mockSocket.to).not.toHaveBeenCalled();
+      expect(mockSocket.emit).toHaveBeenCalledWith('event_rejected', expect.objectContaining({
+        event: 'typing',
+        reason: 'not_a_participant',
+      }));
+    });
+
+    it('rejects unknown events', async () => {
+      expect(await emitFromClient('new_message', { content: 'spoofed' })).toBe(false);
+      expect(mockSocket.emit).toHaveBeenCalledWith('event_rejected', { event: 'new_message', reason: 'unknown_event' });
+    });
+
+    it('rate limits each socket', async () => {
+      for (let i = 0; i < 20; i++) {
+        expect(await emitFromClient('leave_conversation', 'conv-1')).toBe(true);
+      }
+
+      expect(await emitFromClient('leave_conversation', 'conv-1')).toBe(false);
+      expect(mockSocket.emit).toHaveBeenCalledWith('event_rejected', expect.objectContaining({
+        event: 'leave_conversation',
+        reason: 'rate_limited',
+        retryAfter: expect.any(Number),
+      }));
+    });
+
+    it('disconnects a socket that reauthenticates as someone else', async () => {
+      (verifyAccessToken as jest.Mock).mockReturnValue({ userId: 'user-456', exp: Date.now() / 1000 + 900 });
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ isActive: true });
+      const ack = jest.fn();
+
+      await emitFromClient('reauthenticate', 'other-token', ack);
+
+      expect(ack).toHaveBeenCalledWith({ error: 'token_invalid' });
+      expect(mockSocket.emit).toHaveBeenCalledWith('session_revoked', { reason: 'token_invalid' });
+      expect(mockSocket.disconnect).toHaveBeenCalledWith(true);
+    });
+
+    it('disconnects a socket whose token was revoked', async () => {
+      (verifyAccessToken as jest.Mock).mockReturnValue({ userId: 'user-123', exp: Date.now() / 1000 + 900 });
+      (userService.isTokenBlacklisted as jest.Mock).mockReturnValueOnce(true);
+
+      await emitFromClient('reauthenticate', 'logged-out-token');
+
+      expect(mockSocket.emit).toHaveBeenCalledWith('session_revoked', { reason: 'token_revoked' });
+      expect(mockSocket.disconnect).toHaveBeenCalledWith(true);
     });
   });
 
@@ -137,28 +259,28 @@ describe('SocketService', () => {
   });
 
   describe('getOnlineUsers', () => {
-    it('should return list of online user IDs', () => {
-      // Add some users to the map
-      (socketService as any).userSockets.set('user-123', new Set(['socket-1']));
-      (socketService as any).userSockets.set('user-456', new Set(['socket-2']));
+    it('should return list of online user IDs', async () => {
+      (presenceService.getOnlineUserIds as jest.Mock).mockResolvedValue(['user-123', 'user-456']);
       
-      const onlineUsers = socketService.getOnlineUsers();
+      const onlineUsers = await socketService.getOnlineUsers();
       
       expect(onlineUsers).toEqual(['user-123', 'user-456']);
     });
   });
 
   describe('isUserOnline', () => {
-    it('should return true for online user', () => {
-      (socketService as any).userSockets.set('user-123', new Set(['socket-1']));
+    it('should return true for online user', async () => {
+      (presenceService.isOnline as jest.Mock).mockResolvedValue(true);
       
-      const isOnline = socketService.isUserOnline('user-123');
+      const isOnline = await socketService.isUserOnline('user-123');
       
       expect(isOnline).toBe(true);
     });
     
-    it('should return false for offline user', () => {
-      const isOnline = socketService.isUserOnline('user-789');
+    it('should return false for offline user', async () => {
+      (presenceService.isOnline as jest.Mock).mockResolvedValue(false);
+
+      const isOnline = await socketService.isUserOnline('user-789');
       
       expect(isOnline).toBe(false);
     });
@@ -166,7 +288,9 @@ describe('SocketService', () => {
 
   describe('getUserStatus', () => {
     it('should return online status for connected user', async () => {
-      (socketService as any).userSockets.set('user-123', new Set(['socket-1']));
+      (presenceService.getPresence as jest.Mock).mockResolvedValue([
+        { userId: 'user-123', status: 'online', customStatus: null, lastSeen: null },
+      ]);
       
       const status = await socketService.getUserStatus('user-123');
       
@@ -177,6 +301,9 @@ describe('SocketService', () => {
       const mockUser = {
         lastActive: new Date('2023-01-01T12:00:00Z'),
       };
+      (presenceService.getPresence as jest.Mock).mockResolvedValue([
+        { userId: 'user-789', status: 'offline', customStatus: null, lastSeen: null },
+      ]);
       
       (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUser);
       
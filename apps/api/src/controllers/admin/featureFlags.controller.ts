@@ -1,9 +1,12 @@
 import { Request } from 'express';
 import { BaseController } from '../baseController';
-import { featureFlagsService } from '../../services/admin/featureFlags.service';
+import { featureFlagsService, ExperimentMetric } from '../../services/admin/featureFlags.service';
 import { AdminRequest } from '../../middleware/admin';
 import { prisma } from '../../lib/prisma';
 import { ExperimentStatus, SegmentType } from '@prisma/client';
+import { ValidationError } from '../../utils/errors';
+import { resolveCountry } from '../../middleware/featureFlags';
+import { flagScheduleService, CreateFlagScheduleRequest } from '../../services/admin/flagSchedules.service';
 
 // Request interfaces for validation
 interface CreateFeatureFlagRequestData {
@@ -46,10 +49,7 @@ interface CreateExperimentRequestData {
   targetAudience?: string;
   startDate?: Date;
   endDate?: Date;
-  metrics?: Array<{
-    name: string;
-    type: 'primary' | 'secondary';
-  }>;
+  metrics?: ExperimentMetric[];
 }
 
 interface CreateSegmentRequestData {
@@ -180,6 +180,9 @@ class FeatureFlagsController extends BaseController {
       return this.sendSuccess(res, result.data, 201);
     } catch (error: any) {
       console.error('Failed to create feature flag:', error);
+      if (error instanceof ValidationError) {
+        return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+      }
       if (error.message.includes('already exists')) {
         return this.sendError(res, error.message, 409);
       }
@@ -336,6 +339,9 @@ class FeatureFlagsController extends BaseController {
       return this.sendSuccess(res, result.data, 201);
     } catch (error: any) {
       console.error('Failed to create experiment:', error);
+      if (error instanceof ValidationError) {
+        return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+      }
       if (error.message.includes('not found')) {
         return this.sendError(res, error.message, 404);
       }
@@ -414,6 +420,9 @@ class FeatureFlagsController extends BaseController {
       return this.sendSuccess(res, result.data, 201);
     } catch (error: any) {
       console.error('Failed to add segment:', error);
+      if (error instanceof ValidationError) {
+        return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+      }
       this.sendError(res, 'Failed to add segment', 500);
     }
   }
@@ -440,6 +449,9 @@ class FeatureFlagsController extends BaseController {
       return this.sendSuccess(res, result.data);
     } catch (error: any) {
       console.error('Failed to update segment:', error);
+      if (error instanceof ValidationError) {
+        return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+      }
       this.sendError(res, 'Failed to update segment', 500);
     }
   }
@@ -507,12 +519,15 @@ class FeatureFlagsController extends BaseController {
   async getExperimentAnalytics(req: AdminRequest, res: Response) {
     try {
       const { experimentId } = req.params;
+      const { confidence } = req.query;
 
       if (!experimentId) {
         return this.sendError(res, 'Experiment ID is required', 400);
       }
 
-      const analytics = await featureFlagsService.getExperimentAnalytics(experimentId);
+      const analytics = await featureFlagsService.getExperimentAnalytics(experimentId, {
+        confidence: confidence ? parseFloat(confidence as string) : undefined
+      });
       return this.sendSuccess(res, analytics);
     } catch (error: any) {
       console.error('Failed to get experiment analytics:', error);
@@ -523,6 +538,140 @@ class FeatureFlagsController extends BaseController {
     }
   }
 
+  /**
+   * POST /api/admin/feature-flags/experiments/:experimentId/winner
+   * Declare the winning variant and optionally promote its value into the flag
+   */
+  async declareExperimentWinner(req: AdminRequest, res: Response) {
+    try {
+      const { experimentId } = req.params;
+      const { variant, promote = false } = req.body;
+
+      if (!experimentId) {
+        return this.sendError(res, 'Experiment ID is required', 400);
+      }
+
+      if (!variant) {
+        return this.sendError(res, 'Winning variant is required', 400);
+      }
+
+      const result = await featureFlagsService.declareExperimentWinner(
+        experimentId,
+        variant,
+        { promote: promote === true },
+        req.admin.id
+      );
+      return this.sendSuccess(res, result.data);
+    } catch (error: any) {
+      console.error('Failed to declare experiment winner:', error);
+      if (error.message === 'Experiment not found') {
+        return this.sendError(res, error.message, 404);
+      }
+      if (error.message === 'Variant not found in experiment') {
+        return this.sendError(res, error.message, 400);
+      }
+      this.sendError(res, 'Failed to declare experiment winner', 500);
+    }
+  }
+
+  /**
+   * SCHEDULED CHANGES AND ROLLOUT RAMPS
+   */
+
+  /**
+   * GET /api/admin/feature-flags/:flagId/schedules
+   * List scheduled changes for a feature flag
+   */
+  async getSchedules(req: AdminRequest, res: Response) {
+    try {
+      const { flagId } = req.params;
+
+      if (!flagId) {
+        return this.sendError(res, 'Feature flag ID is required', 400);
+      }
+
+      const result = await flagScheduleService.listSchedules(flagId);
+      return this.sendSuccess(res, result.data);
+    } catch (error: any) {
+      console.error('Failed to get feature flag schedules:', error);
+      this.sendError(res, 'Failed to fetch schedules', 500);
+    }
+  }
+
+  /**
+   * POST /api/admin/feature-flags/:flagId/schedules
+   * Schedule an enable/disable/archive or a percentage rollout ramp
+   */
+  async createSchedule(req: AdminRequest, res: Response) {
+    try {
+      const { flagId } = req.params;
+      const data: CreateFlagScheduleRequest = req.body;
+
+      if (!flagId) {
+        return this.sendError(res, 'Feature flag ID is required', 400);
+      }
+
+      const result = await flagScheduleService.createSchedule(flagId, data, req.admin.id);
+      return this.sendSuccess(res, result.data, 201);
+    } catch (error: any) {
+      console.error('Failed to create feature flag schedule:', error);
+      if (error instanceof ValidationError) {
+        return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+      }
+      if (error.message === 'Feature flag not found') {
+        return this.sendError(res, error.message, 404);
+      }
+      if (error.message.includes('archived')) {
+        return this.sendError(res, error.message, 400);
+      }
+      this.sendError(res, 'Failed to create schedule', 500);
+    }
+  }
+
+  /**
+   * PATCH /api/admin/feature-flags/schedules/:scheduleId/:action
+   * Pause or resume a pending or in-progress schedule
+   */
+  async updateScheduleState(req: AdminRequest, res: Response) {
+    try {
+      const { scheduleId, action } = req.params;
+
+      const result = action === 'pause'
+        ? await flagScheduleService.pauseSchedule(scheduleId, req.admin.id)
+        : await flagScheduleService.resumeSchedule(scheduleId, req.admin.id);
+      return this.sendSuccess(res, result.data);
+    } catch (error: any) {
+      console.error('Failed to update feature flag schedule:', error);
+      this.handleScheduleError(res, error, 'Failed to update schedule');
+    }
+  }
+
+  /**
+   * DELETE /api/admin/feature-flags/schedules/:scheduleId
+   * Cancel a schedule; changes already applied are kept
+   */
+  async cancelSchedule(req: AdminRequest, res: Response) {
+    try {
+      const { scheduleId } = req.params;
+
+      const result = await flagScheduleService.cancelSchedule(scheduleId, req.admin.id);
+      return this.sendSuccess(res, result.data);
+    } catch (error: any) {
+      console.error('Failed to cancel feature flag schedule:', error);
+      this.handleScheduleError(res, error, 'Failed to cancel schedule');
+    }
+  }
+
+  private handleScheduleError(res: Response, error: any, fallback: string) {
+    if (error.message === 'Schedule not found') {
+      return this.sendError(res, error.message, 404);
+    }
+    if (error.message.startsWith('Schedule is')) {
+      return this.sendError(res, error.message, 409);
+    }
+    this.sendError(res, fallback, 500);
+  }
+
   /**
    * PUBLIC FEATURE EVALUATION (for client-side usage)
    */
@@ -534,8 +683,8 @@ class FeatureFlagsController extends BaseController {
   async evaluateFeatureFlag(req: Request, res: Response) {
     try {
       const { key } = req.params;
-      const { userId } = req.query;
-      const { userAgent, 'x-forwarded-for': ipAddress } = req.headers;
+      const { userId, ...attributes } = req.query;
+      const { 'user-agent': userAgent, 'x-forwarded-for': ipAddress } = req.headers;
 
       if (!key) {
         return this.sendError(res, 'Feature flag key is required', 400);
@@ -544,7 +693,12 @@ class FeatureFlagsController extends BaseController {
       const result = await featureFlagsService.evaluateFeatureFlag(
         key,
         userId as string,
-        { userAgent: userAgent as string, ipAddress: ipAddress as string }
+        {
+          userAgent: userAgent as string,
+          ipAddress: ipAddress as string,
+          country: resolveCountry(req),
+          attributes: attributes as Record<string, any>
+        }
       );
       return this.sendSuccess(res, result);
     } catch (error: any) {
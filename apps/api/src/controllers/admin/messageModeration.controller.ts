@@ -0,0 +1,29 @@
+import { Response } from 'express';
+import { BaseController } from '../baseController';
+import { AdminRequest } from '../../middleware/admin';
+import { messageRevisionService } from '../../services/messageRevisionService';
+
+class MessageModerationController extends BaseController {
+  /**
+   * GET /api/admin/messages/:messageId
+   * Get a message for review, including deleted content and its revisions
+   */
+  async getMessage(req: AdminRequest, res: Response) {
+    try {
+      const message = await messageRevisionService.getMessageForModeration(
+        req.params.messageId,
+        req.admin!.id,
+        req.query.reportId as string | undefined
+      );
+      this.sendSuccess(res, message);
+    } catch (error: any) {
+      if (error.name === 'NotFoundError') {
+        return this.sendError(res, error.message, 404);
+      }
+      console.error('Failed to fetch message:', error);
+      this.sendError(res, 'Failed to fetch message', 500);
+    }
+  }
+}
+
+export const messageModerationController = new MessageModerationController();
@@ -0,0 +1,70 @@
+import { Response } from 'express';
+import { BaseController } from '../baseController';
+import { AdminRequest } from '../../middleware/admin';
+import { paymentWebhooksService } from '../../services/admin/paymentWebhooks.service';
+
+const WEBHOOK_ERRORS: Record<string, number> = {
+  'Payments are not enabled': 503,
+  'Webhook event not found': 404,
+  'Webhook event is being processed': 409,
+};
+
+class PaymentWebhooksController extends BaseController {
+  /**
+   * GET /api/admin/payments/webhooks
+   * List recorded webhook events, failed ones by default
+   */
+  async getEvents(req: AdminRequest, res: Response) {
+    try {
+      const { status, type, page = '1', limit = '20' } = req.query;
+
+      const result = await paymentWebhooksService.listEvents({
+        status: status ? (status as string).split(',') : undefined,
+        type: type as string | undefined,
+        page: parseInt(page as string, 10),
+        limit: parseInt(limit as string, 10),
+      });
+
+      this.sendPaginated(res, result.events, result.page, result.limit, result.total);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch webhook events');
+    }
+  }
+
+  /**
+   * GET /api/admin/payments/webhooks/:eventId
+   * Get a webhook event including its payload
+   */
+  async getEvent(req: AdminRequest, res: Response) {
+    try {
+      const event = await paymentWebhooksService.getEvent(req.params.eventId);
+      this.sendSuccess(res, event);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch webhook event');
+    }
+  }
+
+  /**
+   * POST /api/admin/payments/webhooks/:eventId/replay
+   * Process a webhook event again
+   */
+  async replayEvent(req: AdminRequest, res: Response) {
+    try {
+      const result = await paymentWebhooksService.replayEvent(req.params.eventId, req.admin!.id);
+      this.sendSuccess(res, result);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to replay webhook event');
+    }
+  }
+
+  private handleError(res: Response, error: any, fallback: string) {
+    const status = WEBHOOK_ERRORS[error.message];
+    if (status) {
+      return this.sendError(res, error.message, status);
+    }
+    console.error(`${fallback}:`, error);
+    this.sendError(res, fallback, 500);
+  }
+}
+
+export const paymentWebhooksController = new PaymentWebhooksController();
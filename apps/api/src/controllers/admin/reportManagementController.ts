@@ -3,6 +3,7 @@ import { BaseController } from '../baseController';
 import { AdminRequest } from '../../middleware/admin';
 import { reportManagementService } from '../../../packages/moderation/src/services/reportManagement';
 import { prisma } from '../../lib/prisma';
+import { socketService } from '../../services/socket.service';
 
 class ReportManagementController extends BaseController {
   /**
@@ -359,6 +360,7 @@ class ReportManagementController extends BaseController {
           where: { id: targetId },
           data: { isActive: false }
         });
+        socketService?.disconnectUser(targetId, 'account_disabled');
         break;
       case 'delete_content':
         if (targetType === 'post') {
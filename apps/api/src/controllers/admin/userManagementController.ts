@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { BaseController } from '../baseController';
 import { prisma } from '../../lib/prisma';
 import { AdminRequest } from '../../middleware/admin';
+import { socketService } from '../../services/socket.service';
 import { UserRole, User } from '@prisma/client';
 import bcrypt from 'bcrypt';
 
@@ -337,6 +338,7 @@ class UserManagementController extends BaseController {
           }
         });
       }
+      socketService?.disconnectUser(userId, 'account_disabled');
 
       await this.logAdminAction(req.admin.id, permanent ? 'USER_PERMANENT_DELETED' : 'USER_SOFT_DELETED', userId, {
         permanent,
@@ -374,6 +376,7 @@ class UserManagementController extends BaseController {
         where: { id: userId },
         data: { isActive: false }
       });
+      socketService?.disconnectUser(userId, 'account_disabled');
 
       // Log the ban
       await prisma.moderationLog.create({
@@ -7,6 +7,7 @@ import { verifyRefreshToken } from '../utils/jwt';
 import { AuthRequest } from '../middleware/auth';
 import { AuthError, ValidationError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { socketService } from '../services/socket.service';
 
 export const logout = async (req: AuthRequest, res: Response) => {
   try {
@@ -14,6 +15,7 @@ export const logout = async (req: AuthRequest, res: Response) => {
     if (authHeader) {
       const token = authHeader.substring(7);
       userService.blacklistToken(token);
+      socketService?.revokeToken(token);
     }
     res.json({ message: 'Logged out successfully' });
   } catch (error) {
@@ -0,0 +1,76 @@
+import { Request, Response } from 'express';
+import { calendarService, CalendarFeedScope } from '../services/calendarService';
+import { AuthRequest } from '../middleware/auth';
+import { ValidationError, NotFoundError, ForbiddenError } from '../utils/errors';
+
+const CALENDAR_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+function handleError(res: Response, error: any) {
+  if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof ForbiddenError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+export const exportEvent = async (req: AuthRequest, res: Response) => {
+  try {
+    const { filename, content } = await calendarService.exportEvent(req.params.eventId, req.user!.id, {
+      series: req.query.series === 'true',
+    });
+
+    res.setHeader('Content-Type', CALENDAR_CONTENT_TYPE);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const getFeed = async (req: AuthRequest, res: Response) => {
+  try {
+    const feed = await calendarService.getFeed(req.user!.id);
+
+    if (!feed) {
+      return res.status(404).json({ error: 'No calendar feed has been created' });
+    }
+
+    res.json(feed);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const createFeed = async (req: AuthRequest, res: Response) => {
+  try {
+    const feed = await calendarService.createFeed(req.user!.id);
+
+    res.status(201).json(feed);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const revokeFeed = async (req: AuthRequest, res: Response) => {
+  try {
+    await calendarService.revokeFeed(req.user!.id);
+
+    res.status(204).send();
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const renderFeed = async (req: Request, res: Response) => {
+  try {
+    const content = await calendarService.renderFeed(
+      req.params.token,
+      req.query.scope as CalendarFeedScope | undefined
+    );
+
+    res.setHeader('Content-Type', CALENDAR_CONTENT_TYPE);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    res.send(content);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { BaseController } from './baseController';
 import { communityService } from '../services/communityService';
 import { memberService } from '../services/memberService';
+import { presenceService } from '../services/presenceService';
+import { joinRequestService, validateJoinQuestions } from '../services/joinRequestService';
 import { AuthRequest } from '../middleware/auth';
 
 class CommunityController extends BaseController {
@@ -60,7 +62,19 @@ class CommunityController extends BaseController {
   async updateSettings(req: AuthRequest, res: Response) {
     try {
       const { communityId } = req.params;
-      const { name, description, isPublic, logoUrl, coverUrl, isPaid, priceMonthly, priceYearly } = req.body;
+      const {
+        name,
+        description,
+        isPublic,
+        logoUrl,
+        coverUrl,
+        isPaid,
+        priceMonthly,
+        priceYearly,
+        joinQuestions,
+        autoApproveDomains,
+        autoApprovePaid,
+      } = req.body;
 
       // Check if user is owner or admin
       const memberRole = await memberService.getMemberRole(communityId, req.user.id);
@@ -68,6 +82,16 @@ class CommunityController extends BaseController {
         return this.sendError(res, 'Unauthorized', 403);
       }
 
+      const questionErrors = validateJoinQuestions(joinQuestions);
+      if (questionErrors.length > 0) {
+        return this.sendError(res, `Invalid join questions: ${questionErrors.join('; ')}`, 400);
+      }
+
+      if (autoApproveDomains !== undefined &&
+        (!Array.isArray(autoApproveDomains) || autoApproveDomains.some((domain: any) => typeof domain !== 'string'))) {
+        return this.sendError(res, 'autoApproveDomains must be a list of domains', 400);
+      }
+
       const community = await communityService.updateSettings(communityId, {
         name,
         description,
@@ -79,6 +103,15 @@ class CommunityController extends BaseController {
         priceYearly,
       });
 
+      if (joinQuestions !== undefined || autoApproveDomains !== undefined || autoApprovePaid !== undefined) {
+        const updated = await joinRequestService.updateJoinSettings(communityId, {
+          joinQuestions,
+          autoApproveDomains,
+          autoApprovePaid,
+        });
+        return this.sendSuccess(res, updated);
+      }
+
       this.sendSuccess(res, community);
     } catch (error) {
       this.sendError(res, 'Failed to update community settings', 500);
@@ -131,6 +164,19 @@ class CommunityController extends BaseController {
     }
   }
 
+  async getPresence(req: AuthRequest, res: Response) {
+    try {
+      const presence = await presenceService.getCommunityPresence(req.params.communityId, req.user.id);
+
+      this.sendSuccess(res, presence);
+    } catch (error: any) {
+      if (error.name === 'ForbiddenError') {
+        return this.sendError(res, error.message, 403);
+      }
+      this.sendError(res, 'Failed to fetch presence', 500);
+    }
+  }
+
   async updateMemberRole(req: AuthRequest, res: Response) {
     try {
       const { communityId, userId } = req.params;
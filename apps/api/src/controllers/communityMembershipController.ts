@@ -0,0 +1,64 @@
+import { Response } from 'express';
+import { BaseController } from './baseController';
+import { communityService } from '../services/communityService';
+import { communityMembershipService } from '../services/communityMembershipService';
+import { AuthRequest } from '../middleware/auth';
+
+const MEMBERSHIP_ERRORS: Record<string, number> = {
+  'Community not found': 404,
+  'Community is free to join': 400,
+  'No price set for this billing interval': 400,
+  'Already a member': 409,
+};
+
+class CommunityMembershipController extends BaseController {
+  async checkout(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const checkout = await communityMembershipService.createCheckout(
+        community.id,
+        { id: req.user.id, email: req.user.email },
+        req.body.interval || 'month'
+      );
+
+      this.sendSuccess(res, checkout, 201);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to start checkout');
+    }
+  }
+
+  async getAccess(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const access = await communityMembershipService.checkAccess(community.id, req.user.id);
+
+      this.sendSuccess(res, {
+        ...access,
+        isPaid: community.isPaid,
+        priceMonthly: community.priceMonthly,
+        priceYearly: community.priceYearly,
+        currency: community.currency,
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch membership');
+    }
+  }
+
+  private handleError(res: Response, error: any, fallback: string) {
+    const status = MEMBERSHIP_ERRORS[error.message];
+    if (status) {
+      return this.sendError(res, error.message, status);
+    }
+    this.sendError(res, fallback, 500);
+  }
+}
+
+export const communityMembershipController = new CommunityMembershipController();
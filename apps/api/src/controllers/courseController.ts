@@ -1,9 +1,20 @@
 import { Request, Response } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { courseService } from '../services/courseService';
+import { coursePurchaseService } from '../services/coursePurchaseService';
 import { s3Service } from '../services/s3.service';
 import { BadRequestError, NotFoundError } from '../utils/errors';
 
+// Enrollment and checkout rejections (missing, free, unpublished, owned or
+// paid course) carry their status; anything else is a server error
+function handleError(res: Response, error: any) {
+  if (error.statusCode) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error('Course enrollment error:', error);
+  res.status(500).json({ error: 'Internal server error' });
+}
+
 export const courseController = {
   async getCourses(req: Request, res: Response) {
     const {
@@ -356,8 +367,24 @@ export const courseController = {
     const { courseId } = req.params;
     const userId = req.user!.id;
 
-    const enrollment = await courseService.enrollInCourse(userId, courseId);
-    res.status(201).json(enrollment);
+    try {
+      const enrollment = await courseService.enrollInCourse(userId, courseId);
+      res.status(201).json(enrollment);
+    } catch (error: any) {
+      handleError(res, error);
+    }
+  },
+
+  async purchaseCourse(req: AuthRequest, res: Response) {
+    const { courseId } = req.params;
+
+    try {
+      // Enrollment follows once the payment succeeds
+      const checkout = await coursePurchaseService.createCheckout(courseId, req.user!);
+      res.status(201).json(checkout);
+    } catch (error: any) {
+      handleError(res, error);
+    }
   },
 
   async markLessonComplete(req: AuthRequest, res: Response) {
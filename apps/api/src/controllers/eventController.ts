@@ -0,0 +1,339 @@
+import { Response } from 'express';
+import { eventService, EventEditScope, AttendeeExportFormat } from '../services/eventService';
+import { eventReminderService } from '../services/eventReminderService';
+import { AuthRequest } from '../middleware/auth';
+import { ValidationError, NotFoundError, ForbiddenError } from '../utils/errors';
+
+function handleError(res: Response, error: any) {
+  if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof ForbiddenError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  res.status(500).json({ error: 'Internal server error' });
+}
+
+function toDate(value: unknown) {
+  return value ? new Date(value as string) : undefined;
+}
+
+export const getEvents = async (req: AuthRequest, res: Response) => {
+  try {
+    const { communityId, from, to, limit } = req.query;
+
+    const events = await eventService.listEvents(req.user!.id, {
+      communityId: communityId as string | undefined,
+      from: toDate(from),
+      to: toDate(to),
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.json(events);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const createEvent = async (req: AuthRequest, res: Response) => {
+  try {
+    const {
+      communityId,
+      title,
+      description,
+      location,
+      meetingUrl,
+      startsAt,
+      endsAt,
+      maxAttendees,
+      waitlistLimit,
+      claimWindowHours,
+      reminderMinutes,
+      rrule,
+      timezone,
+    } = req.body;
+
+    const event = await eventService.createEvent({
+      communityId,
+      creatorId: req.user!.id,
+      title,
+      description,
+      location,
+      meetingUrl,
+      startsAt: new Date(startsAt),
+      endsAt: new Date(endsAt),
+      maxAttendees,
+      waitlistLimit,
+      claimWindowHours,
+      reminderMinutes,
+      rrule,
+      timezone,
+    });
+
+    res.status(201).json(event);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const getEvent = async (req: AuthRequest, res: Response) => {
+  try {
+    const event = await eventService.getEvent(req.params.eventId, req.user!.id);
+
+    res.json(event);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const updateEvent = async (req: AuthRequest, res: Response) => {
+  try {
+    const {
+      title,
+      description,
+      location,
+      meetingUrl,
+      startsAt,
+      endsAt,
+      maxAttendees,
+      waitlistLimit,
+      claimWindowHours,
+      reminderMinutes,
+      rrule,
+      timezone,
+      scope,
+    } = req.body;
+
+    const event = await eventService.updateEvent(req.params.eventId, req.user!.id, {
+      ...(title !== undefined && { title }),
+      ...(description !== undefined && { description }),
+      ...(location !== undefined && { location }),
+      ...(meetingUrl !== undefined && { meetingUrl }),
+      ...(startsAt !== undefined && { startsAt: new Date(startsAt) }),
+      ...(endsAt !== undefined && { endsAt: new Date(endsAt) }),
+      ...(maxAttendees !== undefined && { maxAttendees }),
+      ...(waitlistLimit !== undefined && { waitlistLimit }),
+      ...(claimWindowHours !== undefined && { claimWindowHours }),
+      ...(reminderMinutes !== undefined && { reminderMinutes }),
+      ...(rrule !== undefined && { rrule }),
+      ...(timezone !== undefined && { timezone }),
+    }, scope);
+
+    res.json(event);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const deleteEvent = async (req: AuthRequest, res: Response) => {
+  try {
+    await eventService.deleteEvent(req.params.eventId, req.user!.id, req.query.scope as EventEditScope | undefined);
+
+    res.json({ message: 'Event deleted' });
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const rsvp = async (req: AuthRequest, res: Response) => {
+  try {
+    const attendee = await eventService.attendEvent(req.params.eventId, req.user!.id, req.body.status);
+
+    res.json(attendee);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const completeRegistration = async (req: AuthRequest, res: Response) => {
+  try {
+    const { phone, dietaryRestrictions, allergies, specialRequirements } = req.body;
+
+    const attendee = await eventService.completeRegistration(req.params.eventId, req.user!.id, {
+      phone,
+      dietaryRestrictions,
+      allergies,
+      specialRequirements,
+    });
+
+    res.json(attendee);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const cancelRsvp = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await eventService.cancelAttendance(req.params.eventId, req.user!.id);
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const getAttendees = async (req: AuthRequest, res: Response) => {
+  try {
+    const attendees = await eventService.getEventAttendees(
+      req.params.eventId,
+      req.user!.id,
+      req.query.status as string | undefined
+    );
+
+    res.json(attendees);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const addAttendee = async (req: AuthRequest, res: Response) => {
+  try {
+    const { userId, status } = req.body;
+
+    const attendee = await eventService.addAttendee(req.params.eventId, req.user!.id, userId, status);
+
+    res.status(201).json(attendee);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const exportAttendees = async (req: AuthRequest, res: Response) => {
+  try {
+    const { filename, contentType, content } = await eventService.exportAttendees(
+      req.params.eventId,
+      req.user!.id,
+      req.body.attendeeIds,
+      req.body.format as AttendeeExportFormat | undefined
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(content);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const messageAttendees = async (req: AuthRequest, res: Response) => {
+  try {
+    const { attendeeIds, message } = req.body;
+
+    const result = await eventService.messageAttendees(req.params.eventId, req.user!.id, attendeeIds, message);
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const updateAttendeeStatus = async (req: AuthRequest, res: Response) => {
+  try {
+    const attendee = await eventService.updateAttendeeStatus(req.params.attendeeId, req.user!.id, req.body.status);
+
+    res.json(attendee);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const checkInAttendee = async (req: AuthRequest, res: Response) => {
+  try {
+    const attendee = await eventService.checkInAttendee(req.params.attendeeId, req.user!.id, req.body.checkInCode);
+
+    res.json(attendee);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const generateCheckInCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const codes = await eventService.generateCheckInCodes(req.params.eventId, req.user!.id);
+
+    res.json(codes);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const getAttendanceStats = async (req: AuthRequest, res: Response) => {
+  try {
+    const stats = await eventService.getAttendanceStats(req.params.eventId, req.user!.id);
+
+    res.json(stats);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const removeAttendee = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await eventService.removeAttendee(req.params.attendeeId, req.user!.id);
+
+    res.json(result);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const getWaitlist = async (req: AuthRequest, res: Response) => {
+  try {
+    const waitlist = await eventService.getWaitlist(req.params.eventId, req.user!.id);
+
+    res.json(waitlist);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const promoteWaitlistEntry = async (req: AuthRequest, res: Response) => {
+  try {
+    const { eventId, attendeeId } = req.params;
+
+    const attendee = await eventService.promoteAttendee(eventId, req.user!.id, attendeeId);
+
+    res.json(attendee);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const moveWaitlistEntry = async (req: AuthRequest, res: Response) => {
+  try {
+    const { eventId, attendeeId } = req.params;
+
+    const waitlist = await eventService.moveWaitlistEntry(eventId, req.user!.id, attendeeId, req.body.position);
+
+    res.json(waitlist);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const getReminders = async (req: AuthRequest, res: Response) => {
+  try {
+    const reminders = await eventReminderService.getReminders(req.params.eventId, req.user!.id);
+
+    res.json(reminders);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const setReminders = async (req: AuthRequest, res: Response) => {
+  try {
+    const reminders = await eventReminderService.setReminders(req.params.eventId, req.user!.id, req.body.reminderMinutes);
+
+    res.json(reminders);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
+
+export const resetReminders = async (req: AuthRequest, res: Response) => {
+  try {
+    const reminders = await eventReminderService.setReminders(req.params.eventId, req.user!.id, null);
+
+    res.json(reminders);
+  } catch (error: any) {
+    handleError(res, error);
+  }
+};
@@ -0,0 +1,93 @@
+import { Response } from 'express';
+import { BaseController } from './baseController';
+import { communityService } from '../services/communityService';
+import { invitationService } from '../services/invitationService';
+import { AuthRequest } from '../middleware/auth';
+
+const INVITATION_ERRORS: Record<string, number> = {
+  'Invitation not found': 404,
+  'User not found': 404,
+  'Insufficient permissions': 403,
+  'Invalid role': 400,
+  'Already a member': 409,
+  'Payment required: start a checkout to join this community': 402,
+  'Invitation already pending': 409,
+  'Invitation expired': 410,
+  'Invitation is no longer valid': 410,
+};
+
+class InvitationController extends BaseController {
+  async list(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const invitations = await invitationService.listInvitations(community.id, req.user.id);
+
+      this.sendSuccess(res, invitations);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch invitations');
+    }
+  }
+
+  async create(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const { email, username, role, maxUses, expiresIn } = req.body;
+      const invitation = await invitationService.createInvitation(community.id, req.user.id, {
+        email,
+        username,
+        role,
+        maxUses,
+        expiresIn,
+      });
+
+      this.sendSuccess(res, invitation, 201);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to create invitation');
+    }
+  }
+
+  async revoke(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const invitation = await invitationService.revokeInvitation(community.id, req.params.inviteId, req.user.id);
+
+      this.sendSuccess(res, invitation);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to revoke invitation');
+    }
+  }
+
+  async join(req: AuthRequest, res: Response) {
+    try {
+      const { inviteCode } = req.body;
+
+      const result = await invitationService.joinByCode(inviteCode, req.user.id);
+
+      this.sendSuccess(res, result, 201);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to join community');
+    }
+  }
+
+  private handleError(res: Response, error: any, fallback: string) {
+    const status = INVITATION_ERRORS[error.message];
+    if (status) {
+      return this.sendError(res, error.message, status);
+    }
+    this.sendError(res, fallback, 500);
+  }
+}
+
+export const invitationController = new InvitationController();
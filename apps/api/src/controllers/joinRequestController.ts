@@ -0,0 +1,131 @@
+import { Response } from 'express';
+import { BaseController } from './baseController';
+import { communityService } from '../services/communityService';
+import { joinRequestService } from '../services/joinRequestService';
+import { AuthRequest } from '../middleware/auth';
+import { ValidationError } from '../utils/errors';
+
+const JOIN_REQUEST_ERRORS: Record<string, number> = {
+  'Join request not found': 404,
+  'Insufficient permissions': 403,
+  'Community does not require approval': 400,
+  'Already a member': 409,
+  'Join request already pending': 409,
+  'Join request already reviewed': 409,
+  'Payment required: start a checkout to join this community': 402,
+};
+
+class JoinRequestController extends BaseController {
+  async list(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const status = (req.query.status as string) || 'PENDING';
+      const requests = await joinRequestService.listRequests(community.id, req.user.id, status);
+
+      this.sendSuccess(res, requests);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch join requests');
+    }
+  }
+
+  async getOwn(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const request = await joinRequestService.getOwnRequest(community.id, req.user.id);
+
+      this.sendSuccess(res, {
+        request,
+        questions: community.joinQuestions || [],
+      });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to fetch join request');
+    }
+  }
+
+  async create(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const { answers, message } = req.body;
+      const result = await joinRequestService.requestToJoin(community.id, req.user.id, { answers, message });
+
+      this.sendSuccess(res, result, result.member ? 201 : 202);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to submit join request');
+    }
+  }
+
+  async approve(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const result = await joinRequestService.approveRequest(community.id, req.params.requestId, req.user.id);
+
+      this.sendSuccess(res, result);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to approve join request');
+    }
+  }
+
+  async reject(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      const request = await joinRequestService.rejectRequest(
+        community.id,
+        req.params.requestId,
+        req.user.id,
+        req.body.reason
+      );
+
+      this.sendSuccess(res, request);
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to reject join request');
+    }
+  }
+
+  async cancel(req: AuthRequest, res: Response) {
+    try {
+      const community = await communityService.findBySlug(req.params.slug);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      await joinRequestService.cancelRequest(community.id, req.params.requestId, req.user.id);
+
+      this.sendSuccess(res, { message: 'Join request cancelled' });
+    } catch (error: any) {
+      this.handleError(res, error, 'Failed to cancel join request');
+    }
+  }
+
+  private handleError(res: Response, error: any, fallback: string) {
+    if (error instanceof ValidationError) {
+      return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+    }
+    const status = JOIN_REQUEST_ERRORS[error.message];
+    if (status) {
+      return this.sendError(res, error.message, status);
+    }
+    this.sendError(res, fallback, 500);
+  }
+}
+
+export const joinRequestController = new JoinRequestController();
@@ -1,20 +1,51 @@
 import { Request, Response } from 'express';
 import { BaseController } from './baseController';
 import { memberService } from '../services/memberService';
+import { invitationService } from '../services/invitationService';
+import { joinRequestService } from '../services/joinRequestService';
+import { communityService } from '../services/communityService';
 import { AuthRequest } from '../middleware/auth';
+import { ValidationError } from '../utils/errors';
 
 class MemberController extends BaseController {
   async joinCommunity(req: AuthRequest, res: Response) {
     try {
       const { communityId } = req.params;
+
+      const community = await communityService.findById(communityId);
+      if (!community) {
+        return this.sendError(res, 'Community not found', 404);
+      }
+
+      // Paid communities are joined through checkout; membership starts once payment succeeds
+      if (community.isPaid) {
+        return this.sendError(res, 'Payment required: start a checkout to join this community', 402);
+      }
+
+      // Private communities go through the join request workflow
+      if (!community.isPublic) {
+        const { request, member } = await joinRequestService.requestToJoin(communityId, req.user.id, {
+          answers: req.body?.answers,
+          message: req.body?.message,
+        });
+        return member
+          ? this.sendSuccess(res, member, 201)
+          : this.sendSuccess(res, { request }, 202);
+      }
       
       const member = await memberService.joinCommunity(communityId, req.user.id);
       
       this.sendSuccess(res, member, 201);
     } catch (error: any) {
+      if (error instanceof ValidationError) {
+        return this.sendError(res, `${error.message}: ${error.errors.join('; ')}`, 400);
+      }
       if (error.message === 'Already a member') {
         return this.sendError(res, 'Already a member', 409);
       }
+      if (error.message === 'Join request already pending') {
+        return this.sendError(res, error.message, 409);
+      }
       this.sendError(res, 'Failed to join community', 500);
     }
   }
@@ -42,7 +73,7 @@ class MemberController extends BaseController {
 
   async getPendingInvitations(req: AuthRequest, res: Response) {
     try {
-      const invitations = await memberService.getPendingInvitations(req.user.id);
+      const invitations = await invitationService.getPendingInvitations(req.user.id);
       
       this.sendSuccess(res, invitations);
     } catch (error) {
@@ -54,12 +85,18 @@ class MemberController extends BaseController {
     try {
       const { invitationId } = req.params;
       
-      const member = await memberService.acceptInvitation(invitationId, req.user.id);
+      const member = await invitationService.acceptInvitation(invitationId, req.user.id);
       
       this.sendSuccess(res, member);
     } catch (error: any) {
-      if (error.message === 'Invitation functionality not implemented') {
-        return this.sendError(res, 'Invitation functionality not implemented', 501);
+      if (error.message === 'Invitation not found') {
+        return this.sendError(res, 'Invitation not found', 404);
+      }
+      if (error.message === 'Already a member') {
+        return this.sendError(res, 'Already a member', 409);
+      }
+      if (error.message === 'Invitation expired' || error.message === 'Invitation is no longer valid') {
+        return this.sendError(res, error.message, 410);
       }
       this.sendError(res, 'Failed to accept invitation', 500);
     }
@@ -69,12 +106,15 @@ class MemberController extends BaseController {
     try {
       const { invitationId } = req.params;
       
-      await memberService.declineInvitation(invitationId);
+      await invitationService.declineInvitation(invitationId, req.user.id);
       
       this.sendSuccess(res, { message: 'Invitation declined' });
     } catch (error: any) {
-      if (error.message === 'Invitation functionality not implemented') {
-        return this.sendError(res, 'Invitation functionality not implemented', 501);
+      if (error.message === 'Invitation not found') {
+        return this.sendError(res, 'Invitation not found', 404);
+      }
+      if (error.message === 'Invitation expired' || error.message === 'Invitation is no longer valid') {
+        return this.sendError(res, error.message, 410);
       }
       this.sendError(res, 'Failed to decline invitation', 500);
     }
@@ -2,18 +2,29 @@ import { Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { socketService } from '../services/socket.service';
 import { messageService } from '../services/messageService';
+import { scheduledMessageService } from '../services/scheduledMessageService';
+import { conversationSettingsService, withViewerSettings } from '../services/conversationSettingsService';
+import { messageReceiptService } from '../services/messageReceiptService';
+import { searchService } from '../services/searchService';
+import { conversationExportService } from '../services/conversationExportService';
+import { pollService } from '../services/pollService';
+import { messageRevisionService } from '../services/messageRevisionService';
 import { AuthRequest } from '../middleware/auth';
-import { ValidationError, NotFoundError } from '../utils/errors';
+import { ValidationError, NotFoundError, ForbiddenError } from '../utils/errors';
 
 export const getConversations = async (req: AuthRequest, res: Response) => {
   try {
     const userId = req.user!.id;
+    const { archived, starred } = req.query;
 
+    // Archived conversations are only listed when asked for
     const conversations = await prisma.conversation.findMany({
       where: {
         participants: {
           some: {
             userId,
+            isArchived: archived === 'true',
+            ...(starred === 'true' && { isStarred: true }),
           },
         },
       },
@@ -54,7 +65,7 @@ export const getConversations = async (req: AuthRequest, res: Response) => {
       },
     });
 
-    res.json(conversations);
+    res.json(conversations.map((conversation: any) => withViewerSettings(conversation, userId)));
   } catch (error: any) {
     res.status(500).json({ error: 'Internal server error' });
   }
@@ -136,55 +147,14 @@ export const getMessages = async (req: AuthRequest, res: Response) => {
     const userId = req.user!.id;
     const { limit = 50, cursor } = req.query;
 
-    // Verify user is participant in conversation
-    const participant = await prisma.conversationParticipant.findUnique({
-      where: {
-        conversationId_userId: {
-          conversationId,
-          userId,
-        },
-      },
-    });
-
-    if (!participant) {
-      throw new NotFoundError('Conversation not found or access denied');
-    }
-
-    const messages = await prisma.message.findMany({
-      where: {
-        conversationId,
-      },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-            avatarUrl: true,
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: parseInt(limit as string) + 1,
-      ...(cursor && {
-        cursor: {
-          id: cursor as string,
-        },
-        skip: 1,
-      }),
-    });
-
-    const hasMore = messages.length > parseInt(limit as string);
-    const messageList = hasMore ? messages.slice(0, -1) : messages;
+    const result = await messageService.getMessages(
+      conversationId,
+      userId,
+      parseInt(limit as string),
+      cursor as string | undefined
+    );
 
-    res.json({
-      messages: messageList,
-      hasMore,
-      nextCursor: hasMore ? messageList[messageList.length - 1]?.id : null,
-    });
+    res.json(result);
   } catch (error: any) {
     if (error instanceof NotFoundError) {
       return res.status(error.statusCode).json({ error: error.message });
@@ -196,7 +166,7 @@ export const getMessages = async (req: AuthRequest, res: Response) => {
 export const sendMessage = async (req: AuthRequest, res: Response) => {
   try {
     const { conversationId } = req.params;
-    const { content, type = 'text', attachments = [] } = req.body;
+    const { content, type = 'text', attachments = [], parentId, metadata } = req.body;
     const senderId = req.user!.id;
 
     if (!content || content.trim().length === 0) {
@@ -217,9 +187,200 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
       throw new NotFoundError('Conversation not found or access denied');
     }
 
-    const message = await messageService.sendMessage(conversationId, senderId, content, type, attachments);
+    const message = await messageService.sendMessage(conversationId, senderId, content, type, attachments, parentId, metadata);
 
     res.status(201).json(message);
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message, errors: error.errors });
+    }
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getPollResults = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user!.id;
+
+    const results = await pollService.getResults(messageId, userId);
+
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const votePoll = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const { optionIds } = req.body;
+    const userId = req.user!.id;
+
+    const results = await pollService.vote(messageId, userId, optionIds);
+
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const retractPollVote = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user!.id;
+
+    const results = await pollService.retractVote(messageId, userId);
+
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof ValidationError || error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const closePoll = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user!.id;
+
+    const results = await pollService.closePoll(messageId, userId);
+
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof ValidationError || error instanceof NotFoundError || error instanceof ForbiddenError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getThread = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user!.id;
+    const { limit = 50, cursor } = req.query;
+
+    const thread = await messageService.getThread(
+      messageId,
+      userId,
+      parseInt(limit as string),
+      cursor as string | undefined
+    );
+
+    res.json(thread);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const markThreadAsRead = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user!.id;
+
+    const result = await messageService.markThreadRead(messageId, userId);
+
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const scheduleMessage = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const { content, type, attachments, parentId, sendAt, recurrence, recurrenceEndsAt } = req.body;
+    const senderId = req.user!.id;
+
+    const scheduled = await scheduledMessageService.scheduleMessage(conversationId, senderId, {
+      content,
+      type,
+      attachments,
+      parentId,
+      sendAt,
+      recurrence,
+      recurrenceEndsAt,
+    });
+
+    res.status(201).json(scheduled);
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message, errors: error.errors });
+    }
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getScheduledMessages = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+
+    const scheduled = await scheduledMessageService.getScheduledMessages(conversationId, userId);
+
+    res.json(scheduled);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateScheduledMessage = async (req: AuthRequest, res: Response) => {
+  try {
+    const { scheduledMessageId } = req.params;
+    const userId = req.user!.id;
+
+    // Only the fields present in the body are changed
+    const allowed = ['content', 'type', 'attachments', 'parentId', 'sendAt', 'recurrence', 'recurrenceEndsAt'];
+    const changes = Object.fromEntries(
+      Object.entries(req.body).filter(([key]) => allowed.includes(key))
+    );
+
+    const scheduled = await scheduledMessageService.updateScheduledMessage(scheduledMessageId, userId, changes);
+
+    res.json(scheduled);
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message, errors: error.errors });
+    }
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const cancelScheduledMessage = async (req: AuthRequest, res: Response) => {
+  try {
+    const { scheduledMessageId } = req.params;
+    const userId = req.user!.id;
+
+    const result = await scheduledMessageService.cancelScheduledMessage(scheduledMessageId, userId);
+
+    res.json(result);
   } catch (error: any) {
     if (error instanceof ValidationError) {
       return res.status(error.statusCode).json({ error: error.message });
@@ -234,35 +395,44 @@ export const sendMessage = async (req: AuthRequest, res: Response) => {
 export const markAsRead = async (req: AuthRequest, res: Response) => {
   try {
     const { conversationId } = req.params;
+    const { messageId } = req.body || {};
     const userId = req.user!.id;
 
-    // Verify user is participant in conversation
-    const participant = await prisma.conversationParticipant.findUnique({
-      where: {
-        conversationId_userId: {
-          conversationId,
-          userId,
-        },
-      },
-    });
+    const result = await messageReceiptService.markRead(conversationId, userId, messageId);
 
-    if (!participant) {
-      throw new NotFoundError('Conversation not found or access denied');
+    res.json({ message: 'Conversation marked as read', ...result });
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
     }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
 
-    await prisma.conversationParticipant.update({
-      where: {
-        conversationId_userId: {
-          conversationId,
-          userId,
-        },
-      },
-      data: {
-        lastReadAt: new Date(),
-      },
-    });
+export const markAsDelivered = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageIds } = req.body;
+    const userId = req.user!.id;
+
+    const result = await messageReceiptService.markDelivered(userId, messageIds);
 
-    res.json({ message: 'Conversation marked as read' });
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getMessageReceipts = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+    const userId = req.user!.id;
+
+    const receipts = await messageReceiptService.getReceipts(messageId, userId);
+
+    res.json(receipts);
   } catch (error: any) {
     if (error instanceof NotFoundError) {
       return res.status(error.statusCode).json({ error: error.message });
@@ -271,6 +441,28 @@ export const markAsRead = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const getReadReceiptSetting = async (req: AuthRequest, res: Response) => {
+  try {
+    const setting = await messageReceiptService.getReadReceiptSetting(req.user!.id);
+
+    res.json(setting);
+  } catch (error: any) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateReadReceiptSetting = async (req: AuthRequest, res: Response) => {
+  try {
+    const { showReadReceipts } = req.body;
+
+    const setting = await messageReceiptService.updateReadReceiptSetting(req.user!.id, showReadReceipts);
+
+    res.json(setting);
+  } catch (error: any) {
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const getConversationDetails = async (req: AuthRequest, res: Response) => {
   try {
     const { conversationId } = req.params;
@@ -313,8 +505,51 @@ export const getConversationDetails = async (req: AuthRequest, res: Response) =>
       throw new NotFoundError('Conversation not found');
     }
 
-    res.json(conversation);
+    res.json(withViewerSettings(conversation, userId));
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getConversationSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+
+    const settings = await conversationSettingsService.getSettings(conversationId, userId);
+
+    res.json(settings);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateConversationSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+    const { muted, mutedUntil, archived, starred, pushNotifications, emailNotifications } = req.body;
+
+    const settings = await conversationSettingsService.updateSettings(conversationId, userId, {
+      muted,
+      mutedUntil,
+      archived,
+      starred,
+      pushNotifications,
+      emailNotifications,
+    });
+
+    res.json(settings);
   } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     if (error instanceof NotFoundError) {
       return res.status(error.statusCode).json({ error: error.message });
     }
@@ -440,6 +675,7 @@ export const removeParticipant = async (req: AuthRequest, res: Response) => {
       type: 'participant_removed',
       removedUserId: removeParticipantId,
     });
+    socketService.removeFromConversation(conversationId, removeParticipantId);
 
     res.json({ message: 'Participant removed successfully' });
   } catch (error: any) {
@@ -535,91 +771,38 @@ export const toggleReaction = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * Search messages across all of the user's conversations, or just one when
+ * mounted under a conversation. Results are ranked by relevance.
+ */
 export const searchMessages = async (req: AuthRequest, res: Response) => {
   try {
     const { conversationId } = req.params;
-    const { query, limit = 20, cursor, senderId, messageType, startDate, endDate } = req.query;
+    const { query, senderId, messageType, startDate, endDate, hasAttachment, isPinned, page = 1, limit = 20 } = req.query;
     const userId = req.user!.id;
 
-    // Verify user is participant in conversation
-    const participant = await prisma.conversationParticipant.findUnique({
-      where: {
-        conversationId_userId: {
-          conversationId,
-          userId,
-        },
-      },
+    const results = await searchService.searchMessages(userId, {
+      query: typeof query === 'string' && query.trim().length > 0 ? query.trim() : undefined,
+      conversationId,
+      senderId: senderId as string | undefined,
+      messageType: messageType as string | undefined,
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      hasAttachment: hasAttachment !== undefined ? hasAttachment === 'true' : undefined,
+      isPinned: isPinned !== undefined ? isPinned === 'true' : undefined,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
     });
 
-    if (!participant) {
-      throw new NotFoundError('Conversation not found or access denied');
-    }
-
-    // Build search criteria
-    const searchCriteria: any = { conversationId };
-    
-    // Text search
-    if (query && typeof query === 'string' && query.trim().length > 0) {
-      searchCriteria.content = {
-        contains: query.trim(),
-        mode: 'insensitive',
-      };
-    }
-    
-    // Sender filter
-    if (senderId && typeof senderId === 'string') {
-      searchCriteria.senderId = senderId;
-    }
-    
-    // Message type filter
-    if (messageType && typeof messageType === 'string') {
-      searchCriteria.messageType = messageType;
-    }
-    
-    // Date range filter
-    if (startDate || endDate) {
-      searchCriteria.createdAt = {};
-      if (startDate && typeof startDate === 'string') {
-        searchCriteria.createdAt.gte = new Date(startDate);
-      }
-      if (endDate && typeof endDate === 'string') {
-        searchCriteria.createdAt.lte = new Date(endDate);
-      }
-    }
-
-    // Search messages
-    const messages = await prisma.message.findMany({
-      where: searchCriteria,
-      include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-            avatarUrl: true,
-          },
-        },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
-      take: parseInt(limit as string) + 1,
-      ...(cursor && {
-        cursor: {
-          id: cursor as string,
-        },
-        skip: 1,
-      }),
-    });
-
-    const hasMore = messages.length > parseInt(limit as string);
-    const messageList = hasMore ? messages.slice(0, -1) : messages;
-
     res.json({
-      messages: messageList,
-      hasMore,
-      nextCursor: hasMore ? messageList[messageList.length - 1]?.id : null,
+      messages: results.hits.map(hit => ({
+        ...hit._source,
+        score: hit._score,
+        highlights: hit.highlight?.content || [],
+      })),
+      total: results.total,
+      page: parseInt(page as string),
+      limit: parseInt(limit as string),
     });
   } catch (error: any) {
     if (error instanceof NotFoundError) {
@@ -635,87 +818,7 @@ export const exportConversation = async (req: AuthRequest, res: Response) => {
     const { format = 'json' } = req.query;
     const userId = req.user!.id;
 
-    // Verify user is participant in conversation
-    const participant = await prisma.conversationParticipant.findUnique({
-      where: {
-        conversationId_userId: {
-          conversationId,
-          userId,
-        },
-      },
-    });
-
-    if (!participant) {
-      throw new NotFoundError('Conversation not found or access denied');
-    }
-
-    // Get conversation details
-    const conversation = await prisma.conversation.findUnique({
-      where: { id: conversationId },
-      include: {
-        participants: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
-        },
-        messages: {
-          include: {
-            sender: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-              },
-            },
-          },
-          orderBy: {
-            createdAt: 'asc',
-          },
-        },
-      },
-    });
-
-    if (!conversation) {
-      throw new NotFoundError('Conversation not found');
-    }
-
-    const exportData = {
-      conversationId: conversation.id,
-      type: conversation.type,
-      name: conversation.name,
-      participantCount: conversation.participants.length,
-      messageCount: conversation.messages.length,
-      exportedAt: new Date().toISOString(),
-      participants: conversation.participants.map(p => ({
-        id: p.user.id,
-        username: p.user.username,
-        name: `${p.user.firstName || ''} ${p.user.lastName || ''}`.trim(),
-        joinedAt: p.joinedAt,
-      })),
-      messages: conversation.messages.map(message => ({
-        id: message.id,
-        sender: {
-          id: message.sender.id,
-          username: message.sender.username,
-          name: `${message.sender.firstName || ''} ${message.sender.lastName || ''}`.trim(),
-        },
-        content: message.content,
-        messageType: message.messageType,
-        isEdited: message.isEdited,
-        isPinned: message.isPinned,
-        reactions: message.reactions || [],
-        createdAt: message.createdAt,
-        editedAt: message.editedAt,
-      })),
-    };
+    const exportData = await conversationExportService.getExportData(conversationId, userId);
 
     if (format === 'csv') {
       // Convert to CSV format
@@ -751,6 +854,40 @@ export const exportConversation = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const requestConversationExport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+
+    const conversationExport = await conversationExportService.requestExport(conversationId, userId);
+
+    // Large conversations are archived in the background
+    const queued = conversationExport.status === 'PENDING' || conversationExport.status === 'PROCESSING';
+    res.status(queued ? 202 : 201).json(conversationExport);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const getConversationExport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { exportId } = req.params;
+    const userId = req.user!.id;
+
+    const conversationExport = await conversationExportService.getExport(exportId, userId);
+
+    res.json(conversationExport);
+  } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const toggleMessagePin = async (req: AuthRequest, res: Response) => {
   try {
     const { messageId } = req.params;
@@ -796,6 +933,8 @@ export const toggleMessagePin = async (req: AuthRequest, res: Response) => {
       userId,
     });
 
+    searchService.indexMessage(messageId).catch(console.error);
+
     res.json({
       message: `Message ${updatedMessage.isPinned ? 'pinned' : 'unpinned'} successfully`,
       isPinned: updatedMessage.isPinned,
@@ -847,6 +986,44 @@ export const deleteMessage = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const getMessageRevisions = async (req: AuthRequest, res: Response) => {
+  try {
+    const { messageId } = req.params;
+
+    const history = await messageRevisionService.getRevisions(messageId, {
+      id: req.user!.id,
+      role: req.user!.role,
+    });
+
+    res.json(history);
+  } catch (error: any) {
+    if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+export const updateEditHistorySetting = async (req: AuthRequest, res: Response) => {
+  try {
+    const { conversationId } = req.params;
+    const userId = req.user!.id;
+
+    const setting = await messageRevisionService.setEditHistoryVisible(
+      conversationId,
+      userId,
+      req.body.editHistoryVisible
+    );
+
+    res.json(setting);
+  } catch (error: any) {
+    if (error instanceof NotFoundError || error instanceof ForbiddenError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
 export const getMessageHistory = async (req: AuthRequest, res: Response) => {
   try {
     const { conversationId } = req.params;
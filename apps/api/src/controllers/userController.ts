@@ -3,6 +3,8 @@ import { BaseController } from './baseController';
 import { userService } from '../services/userService';
 import { AuthRequest } from '../middleware/auth';
 import { prisma } from '../lib/prisma';
+import { presenceService } from '../services/presenceService';
+import { socketService } from '../services/socket.service';
 
 class UserController extends BaseController {
   async getProfile(req: AuthRequest, res: Response) {
@@ -135,6 +137,50 @@ class UserController extends BaseController {
     }
   }
 
+  async getMyPresence(req: AuthRequest, res: Response) {
+    try {
+      const presence = await presenceService.getOwnPresence(req.user.id);
+
+      this.sendSuccess(res, presence);
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch presence', 500);
+    }
+  }
+
+  async updateMyPresence(req: AuthRequest, res: Response) {
+    try {
+      const { status, customStatus } = req.body;
+
+      const presence = await socketService.setUserStatus(req.user.id, { status, customStatus });
+
+      this.sendSuccess(res, presence);
+    } catch (error: any) {
+      if (error.name === 'ValidationError') {
+        return this.sendError(res, error.message, 400);
+      }
+      this.sendError(res, 'Failed to update presence', 500);
+    }
+  }
+
+  async getPresence(req: AuthRequest, res: Response) {
+    try {
+      const userIds = String(req.query.userIds || '')
+        .split(',')
+        .map(userId => userId.trim())
+        .filter(Boolean);
+
+      if (userIds.length === 0 || userIds.length > 100) {
+        return this.sendError(res, 'Between 1 and 100 user IDs are required', 400);
+      }
+
+      const presence = await presenceService.getPresence(Array.from(new Set(userIds)));
+
+      this.sendSuccess(res, presence);
+    } catch (error) {
+      this.sendError(res, 'Failed to fetch presence', 500);
+    }
+  }
+
   // async getUserPreferences(req: AuthRequest, res: Response) {
   //   try {
   //     const preferences = await prisma.userPreferences.upsert({
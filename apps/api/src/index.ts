@@ -27,8 +27,9 @@ import notificationRoutes from './routes/notification';
 import searchRoutes from './routes/search.routes';
 import eventRoutes from './routes/event';
 import eventAttendeeRoutes from './routes/eventAttendee';
-import bookmarkRoutes from './routes/bookmark';
+import calendarRoutes from './routes/calendar';
 import adminRoutes from './routes/admin/index';
+import flagRoutes from './routes/flags';
 let paymentRoutes: any;
 try {
   // Optional: only mount payments if the package/config is available
@@ -56,6 +57,7 @@ import { requestTiming } from './middleware/timing';
 import metricsRoutes from './routes/metrics';
 import { initializeAnalyticsSocket } from './services/analytics.socket.service';
 import { cronService } from './services/cron.service';
+import { featureFlagClient } from './services/featureFlagClient';
 let testRoutes: any;
 if (process.env.NODE_ENV === 'test') {
   try {
@@ -139,7 +141,8 @@ app.use('/api', searchRoutes);
 app.use('/', metricsRoutes);
 app.use('/api/events', eventRoutes);
 app.use('/api/event-attendees', eventAttendeeRoutes);
-app.use('/api/bookmarks', bookmarkRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/flags', flagRoutes);
 app.use('/api/admin', adminRoutes);
 if (paymentRoutes) {
   app.use('/api/payments', paymentRoutes);
@@ -159,9 +162,9 @@ if (testRoutes) {
 app.get('/health', healthCheck);
 
 // Socket health + broadcast probe (no auth)
-app.get('/health/socket', (req: any, res: any) => {
+app.get('/health/socket', async (req: any, res: any) => {
   try {
-    const online = socketService.getOnlineUsers?.() ?? [];
+    const online = (await socketService.getOnlineUsers?.()) ?? [];
     const info: any = {
       ok: true,
       instanceId: INSTANCE_ID,
@@ -195,5 +198,8 @@ if (process.env.NODE_ENV !== 'test') {
   server.listen(PORT, () => {
     console.log(`🚀 API server running on http://localhost:${PORT}`);
     cronService.start();
+    featureFlagClient.start().catch((error) => {
+      console.error('Failed to load feature flags:', error);
+    });
   });
 }
@@ -41,6 +41,29 @@ export function recordRequest(method: Method, status: Status, durationMs: number
   }
 }
 
+// Request and server-error (5xx) totals, optionally limited to a normalized
+// route prefix. Counters are cumulative, so callers diff two snapshots to get
+// an error rate over a window.
+export function getRequestTotals(routePrefix?: string): { total: number; errors: number } {
+  let total = 0;
+  let errors = 0;
+  if (routePrefix) {
+    for (const [key, val] of routeCounters.entries()) {
+      const [, status, route] = key.split('|');
+      if (!route.startsWith(routePrefix)) continue;
+      total += val;
+      if (status.startsWith('5')) errors += val;
+    }
+  } else {
+    for (const [key, val] of requestCounters.entries()) {
+      const [, status] = key.split('|');
+      total += val;
+      if (status.startsWith('5')) errors += val;
+    }
+  }
+  return { total, errors };
+}
+
 // Record a socket event by type (e.g., connect, disconnect, message)
 export function recordSocketEvent(eventType: string) {
   const key = eventType || 'unknown';
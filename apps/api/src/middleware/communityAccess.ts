@@ -0,0 +1,86 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../lib/prisma';
+import { verifyAccessToken } from '../utils/jwt';
+import { communityMembershipService } from '../services/communityMembershipService';
+
+type CommunityResolver = (req: Request) => Promise<string | null | undefined>;
+
+/**
+ * Ways to find the community a request targets. Each takes the name of the
+ * request field that holds the id.
+ */
+export const communityFrom = {
+  param: (name: string): CommunityResolver => async req => req.params[name],
+  query: (name: string): CommunityResolver => async req => req.query[name] as string | undefined,
+  body: (name: string): CommunityResolver => async req => req.body?.[name],
+  post: (name: string): CommunityResolver => async req => {
+    const post = await prisma.post.findUnique({ where: { id: req.params[name] }, select: { communityId: true } });
+    return post?.communityId;
+  },
+  course: (name: string): CommunityResolver => async req => {
+    const course = await prisma.course.findUnique({ where: { id: req.params[name] }, select: { communityId: true } });
+    return course?.communityId;
+  },
+  lesson: (name: string): CommunityResolver => async req => {
+    const lesson = await prisma.lesson.findUnique({
+      where: { id: req.params[name] },
+      select: { isFree: true, module: { select: { course: { select: { communityId: true } } } } },
+    });
+    // Free preview lessons stay open to non-members
+    return lesson?.isFree ? null : lesson?.module?.course?.communityId;
+  },
+  event: (name: string): CommunityResolver => async req => {
+    const event = await prisma.event.findUnique({ where: { id: req.params[name] }, select: { communityId: true } });
+    return event?.communityId;
+  },
+};
+
+function resolveUserId(req: Request): string | undefined {
+  if (req.user?.id) {
+    return req.user.id;
+  }
+
+  // Some read routes are public, so accept a bearer token without requiring it
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    try {
+      return verifyAccessToken(authHeader.substring(7)).userId;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Block content of paid communities for users without an active (or
+ * in-grace-period) membership. Free communities and requests whose target
+ * cannot be resolved pass through; the route handler deals with 404s.
+ */
+export const requireCommunityAccess = (resolve: CommunityResolver) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const communityId = await resolve(req);
+      if (!communityId) {
+        return next();
+      }
+
+      const access = await communityMembershipService.checkAccess(communityId, resolveUserId(req));
+      if (access.allowed || access.reason === 'not_found') {
+        if (access.reason === 'payment_past_due' && access.graceEndsAt) {
+          res.setHeader('X-Membership-Grace-Ends', access.graceEndsAt.toISOString());
+        }
+        return next();
+      }
+
+      return res.status(402).json({
+        success: false,
+        error: 'An active membership is required to access this community',
+        code: 'SUBSCRIPTION_REQUIRED',
+        communityId,
+      });
+    } catch (error) {
+      console.error('Community access check failed:', error);
+      res.status(500).json({ success: false, error: 'Failed to verify community access' });
+    }
+  };
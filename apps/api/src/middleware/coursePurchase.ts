@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { prisma } from '../lib/prisma';
+import { coursePurchaseService } from '../services/coursePurchaseService';
+
+/**
+ * Block the lessons of paid courses for users who have not bought the
+ * course (or whose purchase was refunded). Free preview lessons and
+ * lessons that cannot be found pass through.
+ */
+export const requireCoursePurchase = (paramName: string) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const lesson = await prisma.lesson.findUnique({
+        where: { id: req.params[paramName] },
+        select: { isFree: true, module: { select: { courseId: true } } },
+      });
+      if (!lesson || lesson.isFree) {
+        return next();
+      }
+
+      const courseId = lesson.module.courseId;
+      if (await coursePurchaseService.hasAccess(courseId, req.user?.id)) {
+        return next();
+      }
+
+      return res.status(402).json({
+        success: false,
+        error: 'Purchase this course to access its lessons',
+        code: 'COURSE_PURCHASE_REQUIRED',
+        courseId,
+      });
+    } catch (error) {
+      console.error('Course purchase check failed:', error);
+      res.status(500).json({ success: false, error: 'Failed to verify course access' });
+    }
+  };
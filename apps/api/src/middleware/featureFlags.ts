@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyAccessToken } from '../utils/jwt';
+import { featureFlagClient, EvaluatedFlag, FlagContext } from '../services/featureFlagClient';
+
+declare global {
+  namespace Express {
+    interface Request {
+      flags?: Record<string, EvaluatedFlag>;
+    }
+  }
+}
+
+// Country is taken from the geo header set by the CDN/load balancer in front of the API
+const COUNTRY_HEADERS = ['cf-ipcountry', 'cloudfront-viewer-country', 'x-vercel-ip-country', 'x-country-code'];
+
+export function resolveCountry(req: Request): string | undefined {
+  for (const header of COUNTRY_HEADERS) {
+    const value = req.headers[header];
+    if (typeof value === 'string' && /^[a-zA-Z]{2}$/.test(value)) {
+      return value.toUpperCase();
+    }
+  }
+  return undefined;
+}
+
+export function getFlagContext(req: Request): FlagContext {
+  let userId: string | undefined = req.user?.id;
+
+  // Routes authenticate individually, so fall back to the bearer token when
+  // this runs before `authenticate`. An invalid token just means anonymous.
+  if (!userId) {
+    const authHeader = req.headers.authorization;
+    if (authHeader?.startsWith('Bearer ')) {
+      try {
+        userId = verifyAccessToken(authHeader.substring(7)).userId;
+      } catch {
+        userId = undefined;
+      }
+    }
+  }
+
+  return {
+    userId,
+    userAgent: req.headers['user-agent'],
+    country: resolveCountry(req)
+  };
+}
+
+/**
+ * Evaluate every feature flag for the requesting user and attach the results
+ * to `req.flags`. Evaluation runs against the in-memory flag cache. Mount it
+ * only on routes that read `req.flags`, since it verifies the bearer token.
+ */
+export const attachFeatureFlags = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    req.flags = await featureFlagClient.evaluateAll(getFlagContext(req));
+  } catch (error) {
+    console.error('Failed to evaluate feature flags:', error);
+    req.flags = {};
+  }
+  next();
+};
@@ -1,6 +1,7 @@
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
+import { isValidTimeZone } from '../utils/timezone';
 
 // Zod-based validation middleware
 export const validateRequest = (schema: z.ZodSchema) => {
@@ -91,6 +92,19 @@ export const validateChangePassword = [
   handleValidationErrors,
 ];
 
+export const validatePresence = [
+  body('status')
+    .optional()
+    .isIn(['online', 'away', 'do_not_disturb', 'invisible'])
+    .withMessage('Invalid status'),
+  body('customStatus')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Custom status must be at most 100 characters'),
+  handleValidationErrors,
+];
+
 export const validateLogin = [
   body('email')
     .isEmail()
@@ -109,8 +123,13 @@ export const validateMessage = [
     .withMessage('Message content must be 1-2000 characters'),
   body('type')
     .optional()
-    .isIn(['text', 'image', 'file', 'video'])
+    .isIn(['text', 'image', 'file', 'video', 'poll'])
     .withMessage('Invalid message type'),
+  // Payload of structured types; checked per type by the message service
+  body('metadata')
+    .optional()
+    .isObject()
+    .withMessage('Metadata must be an object'),
   body('attachments')
     .optional()
     .isArray({ max: 5 })
@@ -120,6 +139,11 @@ export const validateMessage = [
     .isString()
     .isLength({ min: 1, max: 500 })
     .withMessage('Attachment URLs must be 1-500 characters'),
+  body('parentId')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Parent message ID must be a string'),
   handleValidationErrors,
 ];
 
@@ -360,30 +384,53 @@ export const validatePagination = [
   handleValidationErrors,
 ];
 
+export const validatePollVote = [
+  body('optionIds')
+    .isArray({ min: 1, max: 10 })
+    .withMessage('Choose 1-10 options'),
+  body('optionIds.*')
+    .isString()
+    .notEmpty()
+    .withMessage('Option IDs must be strings'),
+  handleValidationErrors,
+];
+
 // Message search validation
 export const validateMessageSearch = [
-  body('query')
+  query('query')
     .optional()
     .trim()
     .isLength({ min: 1, max: 100 })
     .withMessage('Search query must be 1-100 characters'),
-  body('senderId')
+  query('senderId')
     .optional()
     .isUUID()
     .withMessage('Valid sender ID required'),
-  body('messageType')
+  query('messageType')
     .optional()
-    .isIn(['text', 'image', 'file', 'video', 'deleted'])
+    .isIn(['text', 'image', 'file', 'video', 'poll'])
     .withMessage('Invalid message type'),
-  body('startDate')
+  query('startDate')
     .optional()
     .isISO8601()
     .withMessage('Valid start date required (ISO 8601 format)'),
-  body('endDate')
+  query('endDate')
     .optional()
     .isISO8601()
     .withMessage('Valid end date required (ISO 8601 format)'),
-  body('limit')
+  query('hasAttachment')
+    .optional()
+    .isBoolean()
+    .withMessage('hasAttachment must be a boolean'),
+  query('isPinned')
+    .optional()
+    .isBoolean()
+    .withMessage('isPinned must be a boolean'),
+  query('page')
+    .optional()
+    .isInt({ min: 1, max: 1000 })
+    .withMessage('Page must be between 1 and 1000'),
+  query('limit')
     .optional()
     .isInt({ min: 1, max: 100 })
     .withMessage('Limit must be between 1 and 100'),
@@ -402,7 +449,7 @@ export const validateMessageHistory = [
     .withMessage('Valid end date required (ISO 8601 format)'),
   body('messageType')
     .optional()
-    .isIn(['text', 'image', 'file', 'video', 'deleted'])
+    .isIn(['text', 'image', 'file', 'video', 'poll', 'deleted'])
     .withMessage('Invalid message type'),
   body('limit')
     .optional()
@@ -415,6 +462,339 @@ export const validateMessageHistory = [
   handleValidationErrors,
 ];
 
+const scheduledMessageRules = (optionalContent: boolean) => [
+  (optionalContent ? body('content').optional() : body('content'))
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Message content must be 1-2000 characters'),
+  (optionalContent ? body('sendAt').optional() : body('sendAt'))
+    .isISO8601()
+    .withMessage('Valid send time required (ISO 8601 format)'),
+  body('type')
+    .optional()
+    .isIn(['text', 'image', 'file', 'video'])
+    .withMessage('Invalid message type'),
+  body('attachments')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Maximum 5 attachments allowed for messages'),
+  body('recurrence')
+    .optional({ nullable: true })
+    .isIn(['DAILY', 'WEEKDAYS', 'WEEKLY'])
+    .withMessage('Recurrence must be DAILY, WEEKDAYS or WEEKLY'),
+  body('recurrenceEndsAt')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Valid recurrence end date required (ISO 8601 format)'),
+  handleValidationErrors,
+];
+
+export const validateScheduledMessage = scheduledMessageRules(false);
+
+export const validateUpdateScheduledMessage = scheduledMessageRules(true);
+
+export const validateConversationSettings = [
+  body('muted')
+    .optional()
+    .isBoolean()
+    .withMessage('muted must be a boolean'),
+  body('mutedUntil')
+    .optional({ nullable: true })
+    .isISO8601()
+    .withMessage('Valid mute end time required (ISO 8601 format)'),
+  body('archived')
+    .optional()
+    .isBoolean()
+    .withMessage('archived must be a boolean'),
+  body('starred')
+    .optional()
+    .isBoolean()
+    .withMessage('starred must be a boolean'),
+  body('pushNotifications')
+    .optional({ nullable: true })
+    .isBoolean()
+    .withMessage('pushNotifications must be a boolean or null'),
+  body('emailNotifications')
+    .optional({ nullable: true })
+    .isBoolean()
+    .withMessage('emailNotifications must be a boolean or null'),
+  handleValidationErrors,
+];
+
+export const validateMarkRead = [
+  body('messageId')
+    .optional()
+    .isString()
+    .notEmpty()
+    .withMessage('Message ID must be a string'),
+  handleValidationErrors,
+];
+
+export const validateMarkDelivered = [
+  body('messageIds')
+    .isArray({ min: 1, max: 500 })
+    .withMessage('messageIds must be an array of 1-500 message IDs'),
+  body('messageIds.*')
+    .isString()
+    .notEmpty()
+    .withMessage('Message IDs must be strings'),
+  handleValidationErrors,
+];
+
+export const validateEditHistorySetting = [
+  body('editHistoryVisible')
+    .isBoolean()
+    .withMessage('editHistoryVisible must be a boolean'),
+  handleValidationErrors,
+];
+
+export const validateReadReceiptSetting = [
+  body('showReadReceipts')
+    .isBoolean()
+    .withMessage('showReadReceipts must be a boolean'),
+  handleValidationErrors,
+];
+
+export const validateThread = [
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  query('cursor')
+    .optional()
+    .isString()
+    .withMessage('Cursor must be a string'),
+  handleValidationErrors,
+];
+
+// Event validation
+const RSVP_STATUSES = ['confirmed', 'maybe', 'declined'];
+const ATTENDANCE_STATUSES = ['attended', 'no_show'];
+const ATTENDEE_EXPORT_FORMATS = ['csv', 'xlsx'];
+
+// Minutes before the start; at most five, up to four weeks ahead
+const reminderMinutes = (optional: boolean) => [
+  (optional ? body('reminderMinutes').optional() : body('reminderMinutes'))
+    .isArray({ max: 5 })
+    .withMessage('reminderMinutes must be a list of at most 5 reminders'),
+  body('reminderMinutes.*')
+    .isInt({ min: 1, max: 40320 })
+    .withMessage('Reminders must be between 1 and 40320 minutes before the event')
+    .toInt(),
+];
+
+const eventFields = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('title')
+      .trim()
+      .isLength({ min: 1, max: 200 })
+      .withMessage('Title must be 1-200 characters'),
+    field('startsAt')
+      .isISO8601()
+      .withMessage('startsAt must be an ISO 8601 date'),
+    field('endsAt')
+      .isISO8601()
+      .withMessage('endsAt must be an ISO 8601 date'),
+    body('description')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 5000 })
+      .withMessage('Description must be at most 5000 characters'),
+    body('location')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Location must be at most 500 characters'),
+    body('meetingUrl')
+      .optional({ nullable: true })
+      .isURL()
+      .withMessage('Invalid meeting URL'),
+    body('maxAttendees')
+      .optional({ nullable: true })
+      .isInt({ min: 1 })
+      .withMessage('maxAttendees must be a positive integer')
+      .toInt(),
+    body('waitlistLimit')
+      .optional({ nullable: true })
+      .isInt({ min: 0 })
+      .withMessage('waitlistLimit must be a non-negative integer')
+      .toInt(),
+    body('claimWindowHours')
+      .optional()
+      .isInt({ min: 1, max: 168 })
+      .withMessage('claimWindowHours must be between 1 and 168')
+      .toInt(),
+    ...reminderMinutes(true),
+    body('rrule')
+      .optional()
+      .isString()
+      .isLength({ min: 1, max: 500 })
+      .withMessage('rrule must be a recurrence rule like FREQ=WEEKLY;BYDAY=TU'),
+    body('timezone')
+      .optional()
+      .isString()
+      .custom(isValidTimeZone)
+      .withMessage('timezone must be an IANA time zone like Europe/Berlin'),
+  ];
+};
+
+const EVENT_EDIT_SCOPES = ['occurrence', 'following'];
+
+export const validateEvent = [
+  body('communityId')
+    .isString()
+    .notEmpty()
+    .withMessage('Community ID is required'),
+  ...eventFields(false),
+  handleValidationErrors,
+];
+
+export const validateEventUpdate = [
+  ...eventFields(true),
+  body('scope')
+    .optional()
+    .isIn(EVENT_EDIT_SCOPES)
+    .withMessage(`Scope must be one of: ${EVENT_EDIT_SCOPES.join(', ')}`),
+  handleValidationErrors,
+];
+
+export const validateEventDelete = [
+  query('scope')
+    .optional()
+    .isIn(EVENT_EDIT_SCOPES)
+    .withMessage(`Scope must be one of: ${EVENT_EDIT_SCOPES.join(', ')}`),
+  handleValidationErrors,
+];
+
+export const validateEventList = [
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('from must be an ISO 8601 date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('to must be an ISO 8601 date'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors,
+];
+
+export const validateRsvp = [
+  body('status')
+    .optional()
+    .isIn(RSVP_STATUSES)
+    .withMessage(`Status must be one of: ${RSVP_STATUSES.join(', ')}`),
+  handleValidationErrors,
+];
+
+export const validateAddAttendee = [
+  body('userId')
+    .isString()
+    .notEmpty()
+    .withMessage('User ID is required'),
+  ...validateRsvp,
+];
+
+export const validateEventRegistration = [
+  body('phone')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('Phone must be at most 50 characters'),
+  ...['dietaryRestrictions', 'allergies', 'specialRequirements'].map(field =>
+    body(field)
+      .optional()
+      .isString()
+      .trim()
+      .isLength({ max: 1000 })
+      .withMessage(`${field} must be at most 1000 characters`)
+  ),
+  handleValidationErrors,
+];
+
+export const validateWaitlistMove = [
+  body('position')
+    .isInt({ min: 1 })
+    .withMessage('Position must be a positive integer')
+    .toInt(),
+  handleValidationErrors,
+];
+
+export const validateEventReminders = [
+  ...reminderMinutes(false),
+  handleValidationErrors,
+];
+
+export const validateAttendeeExport = [
+  body('format')
+    .optional()
+    .isIn(ATTENDEE_EXPORT_FORMATS)
+    .withMessage(`Format must be one of: ${ATTENDEE_EXPORT_FORMATS.join(', ')}`),
+  body('attendeeIds')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('attendeeIds must be a non-empty array'),
+  body('attendeeIds.*')
+    .isString()
+    .withMessage('Attendee IDs must be strings'),
+  handleValidationErrors,
+];
+
+export const validateAttendeeMessage = [
+  body('attendeeIds')
+    .isArray({ min: 1 })
+    .withMessage('Pick at least one attendee to message'),
+  body('attendeeIds.*')
+    .isString()
+    .withMessage('Attendee IDs must be strings'),
+  body('message')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Message must be between 1 and 2000 characters'),
+  handleValidationErrors,
+];
+
+export const validateAttendeeStatus = [
+  body('status')
+    .isIn([...RSVP_STATUSES, ...ATTENDANCE_STATUSES])
+    .withMessage(`Status must be one of: ${[...RSVP_STATUSES, ...ATTENDANCE_STATUSES].join(', ')}`),
+  handleValidationErrors,
+];
+
+export const validateCheckIn = [
+  body('checkInCode')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Check-in code is required'),
+  handleValidationErrors,
+];
+
+// Calendar export validation
+const CALENDAR_FEED_SCOPES = ['rsvps', 'communities'];
+
+export const validateEventExport = [
+  query('series')
+    .optional()
+    .isBoolean()
+    .withMessage('series must be true or false'),
+  handleValidationErrors,
+];
+
+export const validateCalendarFeed = [
+  query('scope')
+    .optional()
+    .isIn(CALENDAR_FEED_SCOPES)
+    .withMessage(`Scope must be one of: ${CALENDAR_FEED_SCOPES.join(', ')}`),
+  handleValidationErrors,
+];
+
 // Notification preferences validation
 export const validateNotificationPreferences = [
   body('emailEnabled')
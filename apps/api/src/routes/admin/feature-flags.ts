@@ -63,6 +63,18 @@ const validateCreateExperiment = [
   body('targetAudience').optional().isLength({ max: 500 }).withMessage('Target audience cannot exceed 500 characters'),
   body('startDate').optional().isISO8601().withMessage('Start date must be valid ISO 8601'),
   body('endDate').optional().isISO8601().withMessage('End date must be valid ISO 8601'),
+  body('metrics').optional().isArray({ max: 10 }).withMessage('Metrics must be an array with at most 10 items'),
+  body('metrics.*.name').optional().isLength({ min: 1, max: 100 }).withMessage('Metric name must be 1-100 characters'),
+  body('metrics.*.type').optional().isIn(['primary', 'secondary']).withMessage('Metric type must be primary or secondary'),
+  body('metrics.*.source').optional().isIn(['feature_usage', 'event']).withMessage('Metric source must be feature_usage or event'),
+  body('metrics.*.action').optional().isLength({ min: 1, max: 100 }).withMessage('Metric action must be 1-100 characters'),
+  body('metrics.*.event').optional().isIn(['enrollment', 'post_created', 'payment_succeeded']).withMessage('Invalid metric event'),
+  handleValidationErrors,
+];
+
+const validateDeclareWinner = [
+  body('variant').isLength({ min: 1, max: 50 }).withMessage('Winning variant name is required'),
+  body('promote').optional().isBoolean().withMessage('promote must be boolean'),
   handleValidationErrors,
 ];
 
@@ -73,12 +85,33 @@ const validateUpdateExperimentStatus = [
 
 const validateAddSegment = [
   body('name').isLength({ min: 1, max: 100 }).withMessage('Segment name must be 1-100 characters'),
-  body('type').isIn(['location', 'device', 'behavior', 'custom']).withMessage('Invalid segment type'),
+  body('type').isIn(['USER_BASED', 'ATTRIBUTE_BASED', 'BEHAVIOR_BASED', 'RANDOM']).withMessage('Invalid segment type'),
   body('conditions').isObject().withMessage('Conditions must be an object'),
   body('priority').optional().isInt({ min: 0, max: 100 }).withMessage('Priority must be 0-100'),
   handleValidationErrors,
 ];
 
+const validateExperimentAnalytics = [
+  query('confidence').optional().isFloat({ min: 0.5, max: 0.999 }).withMessage('Confidence must be between 0.5 and 0.999'),
+  handleValidationErrors,
+];
+
+const validateCreateSchedule = [
+  param('flagId').isUUID().withMessage('Valid feature flag ID required'),
+  body('type').isIn(['ENABLE', 'DISABLE', 'ROLLOUT_RAMP', 'ARCHIVE']).withMessage('Invalid schedule type'),
+  body('runAt').optional().isISO8601().withMessage('runAt must be valid ISO 8601'),
+  body('steps').optional().isArray({ min: 1, max: 20 }).withMessage('Steps must be an array of 1-20 items'),
+  body('steps.*.percentage').optional().isFloat({ min: 0, max: 100 }).withMessage('Step percentage must be 0-100'),
+  body('steps.*.at').optional().isISO8601().withMessage('Step time must be valid ISO 8601'),
+  body('percentages').optional().isArray({ min: 1, max: 20 }).withMessage('Percentages must be an array of 1-20 items'),
+  body('percentages.*').optional().isFloat({ min: 0, max: 100 }).withMessage('Percentages must be 0-100'),
+  body('intervalHours').optional().isFloat({ min: 0.1, max: 24 * 30 }).withMessage('intervalHours must be between 0.1 and 720'),
+  body('archiveAfterDays').optional().isInt({ min: 0, max: 3650 }).withMessage('archiveAfterDays must be 0-3650'),
+  body('rollbackThreshold').optional().isFloat({ min: 0, max: 1 }).withMessage('rollbackThreshold must be between 0 and 1'),
+  body('rollbackMinRequests').optional().isInt({ min: 1 }).withMessage('rollbackMinRequests must be a positive integer'),
+  handleValidationErrors,
+];
+
 const validateAnalytics = [
   query('start').optional().isISO8601().withMessage('Start date must be valid ISO 8601'),
   query('end').optional().isISO8601().withMessage('End date must be valid ISO 8601'),
@@ -162,6 +195,50 @@ router.patch(
   featureFlagsController.toggleFeatureFlag.bind(featureFlagsController)
 );
 
+// SCHEDULED CHANGES AND ROLLOUT RAMPS
+
+// GET /api/admin/feature-flags/:flagId/schedules - List scheduled changes
+router.get(
+  '/:flagId/schedules',
+  requirePermission('feature-flags.view'),
+  [
+    param('flagId').isUUID().withMessage('Valid feature flag ID required'),
+    handleValidationErrors,
+  ],
+  featureFlagsController.getSchedules.bind(featureFlagsController)
+);
+
+// POST /api/admin/feature-flags/:flagId/schedules - Schedule a change or rollout ramp
+router.post(
+  '/:flagId/schedules',
+  requirePermission('feature-flags.update'),
+  validateCreateSchedule,
+  featureFlagsController.createSchedule.bind(featureFlagsController)
+);
+
+// PATCH /api/admin/feature-flags/schedules/:scheduleId/(pause|resume) - Pause or resume a schedule
+router.patch(
+  '/schedules/:scheduleId/:action',
+  requirePermission('feature-flags.update'),
+  [
+    param('scheduleId').isUUID().withMessage('Valid schedule ID required'),
+    param('action').isIn(['pause', 'resume']).withMessage('Action must be pause or resume'),
+    handleValidationErrors,
+  ],
+  featureFlagsController.updateScheduleState.bind(featureFlagsController)
+);
+
+// DELETE /api/admin/feature-flags/schedules/:scheduleId - Cancel a schedule
+router.delete(
+  '/schedules/:scheduleId',
+  requirePermission('feature-flags.update'),
+  [
+    param('scheduleId').isUUID().withMessage('Valid schedule ID required'),
+    handleValidationErrors,
+  ],
+  featureFlagsController.cancelSchedule.bind(featureFlagsController)
+);
+
 // A/B TESTING EXPERIMENT MANAGEMENT
 
 // GET /api/admin/feature-flags/experiments - Get all experiments
@@ -250,9 +327,22 @@ router.get(
     param('experimentId').isUUID().withMessage('Valid experiment ID required'),
     handleValidationErrors,
   ],
+  validateExperimentAnalytics,
   featureFlagsController.getExperimentAnalytics.bind(featureFlagsController)
 );
 
+// POST /api/admin/feature-flags/experiments/:experimentId/winner - Declare winning variant
+router.post(
+  '/experiments/:experimentId/winner',
+  requirePermission('feature-flags.update'),
+  [
+    param('experimentId').isUUID().withMessage('Valid experiment ID required'),
+    handleValidationErrors,
+  ],
+  validateDeclareWinner,
+  featureFlagsController.declareExperimentWinner.bind(featureFlagsController)
+);
+
 // PUBLIC FEATURE EVALUATION (for client-side usage)
 
 // GET /api/admin/feature-flags/evaluate/:key - Evaluate feature flag
@@ -8,6 +8,8 @@ import communityRoutes from './communities';
 import reportRoutes from './reports';
 import healthRoutes from './health';
 import featureFlagRoutes from './feature-flags';
+import paymentWebhookRoutes from './payment-webhooks';
+import messageRoutes from './messages';
 
 const router: Router = Router();
 
@@ -20,6 +22,8 @@ router.use('/communities', communityRoutes);
 router.use('/reports', reportRoutes);
 router.use('/health', healthRoutes);
 router.use('/feature-flags', featureFlagRoutes);
+router.use('/payments/webhooks', paymentWebhookRoutes);
+router.use('/messages', messageRoutes);
 
 // Health endpoint for admin route health check
 router.get('/status', (req, res) => {
@@ -32,7 +36,9 @@ router.get('/status', (req, res) => {
       '/api/admin/communities',
       '/api/admin/reports',
       '/api/admin/health',
-      '/api/admin/feature-flags'
+      '/api/admin/feature-flags',
+      '/api/admin/payments/webhooks',
+      '/api/admin/messages'
     ]
   });
 });
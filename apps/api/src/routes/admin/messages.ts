@@ -0,0 +1,36 @@
+// skool-clone/apps/api/src/routes/admin/messages.ts
+import { Router } from 'express';
+import { query, param, validationResult } from 'express-validator';
+import { requirePermission } from '../../middleware/admin';
+import { messageModerationController } from '../../controllers/admin/messageModeration.controller';
+
+// Validation helpers
+const handleValidationErrors = (req: any, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+const validateMessageReview = [
+  param('messageId').isUUID().withMessage('Valid message ID required'),
+  query('reportId').optional().isUUID().withMessage('Valid report ID required'),
+  handleValidationErrors,
+];
+
+const router: Router = Router();
+
+// GET /api/admin/messages/:messageId - Review a message, including deleted content
+router.get(
+  '/:messageId',
+  requirePermission('content.view'),
+  validateMessageReview,
+  messageModerationController.getMessage.bind(messageModerationController)
+);
+
+export default router;
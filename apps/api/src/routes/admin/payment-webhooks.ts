@@ -0,0 +1,63 @@
+// skool-clone/apps/api/src/routes/admin/payment-webhooks.ts
+import { Router } from 'express';
+import { query, param, validationResult } from 'express-validator';
+import { requirePermission } from '../../middleware/admin';
+import { paymentWebhooksController } from '../../controllers/admin/paymentWebhooks.controller';
+
+// Validation helpers
+const handleValidationErrors = (req: any, res: any, next: any) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({
+      success: false,
+      error: 'Validation failed',
+      details: errors.array()
+    });
+  }
+  next();
+};
+
+const WEBHOOK_STATUSES = ['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED', 'DEAD'];
+
+const validateEventSearch = [
+  query('status').optional().custom((value: string) =>
+    value.split(',').every(status => WEBHOOK_STATUSES.includes(status))
+  ).withMessage(`Status must be a comma-separated list of ${WEBHOOK_STATUSES.join(', ')}`),
+  query('type').optional().isLength({ min: 1, max: 100 }).withMessage('Type must be 1-100 characters'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors,
+];
+
+const validateEventId = [
+  param('eventId').isUUID().withMessage('Valid event ID required'),
+  handleValidationErrors,
+];
+
+const router: Router = Router();
+
+// GET /api/admin/payments/webhooks - List webhook events (failed by default)
+router.get(
+  '/',
+  requirePermission('payments.manage'),
+  validateEventSearch,
+  paymentWebhooksController.getEvents.bind(paymentWebhooksController)
+);
+
+// GET /api/admin/payments/webhooks/:eventId - Get a webhook event with its payload
+router.get(
+  '/:eventId',
+  requirePermission('payments.manage'),
+  validateEventId,
+  paymentWebhooksController.getEvent.bind(paymentWebhooksController)
+);
+
+// POST /api/admin/payments/webhooks/:eventId/replay - Process a webhook event again
+router.post(
+  '/:eventId/replay',
+  requirePermission('payments.manage'),
+  validateEventId,
+  paymentWebhooksController.replayEvent.bind(paymentWebhooksController)
+);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validateCalendarFeed } from '../middleware/validation';
+import * as calendarController from '../controllers/calendarController';
+
+const router = Router();
+
+// The user's private subscription URL
+router.get('/feed', authenticate, calendarController.getFeed);
+router.post('/feed', authenticate, calendarController.createFeed);
+router.delete('/feed', authenticate, calendarController.revokeFeed);
+
+// Calendar apps can't send credentials, so the token in the URL is the only one
+router.get('/feeds/:token.ics', validateCalendarFeed, calendarController.renderFeed);
+
+export default router;
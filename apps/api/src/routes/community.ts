@@ -1,7 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { communityController } from '../controllers/communityController';
+import { invitationController } from '../controllers/invitationController';
+import { joinRequestController } from '../controllers/joinRequestController';
+import { communityMembershipController } from '../controllers/communityMembershipController';
 import { authenticate } from '../middleware/auth';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 import { handleValidationErrors } from '../middleware/validation';
 
 const router: Router = Router();
@@ -13,9 +16,46 @@ const validateCommunity = [
   handleValidationErrors,
 ];
 
+const validateInvitation = [
+  body('email').optional().isEmail().withMessage('Valid email required'),
+  body('username').optional().isLength({ min: 1, max: 50 }),
+  body('role').optional().isIn(['member', 'moderator', 'admin']).withMessage('Invalid role'),
+  body('maxUses').optional({ nullable: true }).isInt({ min: 1, max: 10000 }).withMessage('maxUses must be 1-10000'),
+  body('expiresIn').optional({ nullable: true }).isFloat({ min: 1, max: 24 * 365 }).withMessage('expiresIn must be 1-8760 hours'),
+  handleValidationErrors,
+];
+
+const validateJoin = [
+  body('inviteCode').isString().notEmpty().withMessage('Invite code is required'),
+  handleValidationErrors,
+];
+
+const validateJoinRequest = [
+  body('answers').optional().isObject().withMessage('Answers must be an object'),
+  body('message').optional().isLength({ max: 1000 }).withMessage('Message must be at most 1000 characters'),
+  handleValidationErrors,
+];
+
+const validateRequestList = [
+  query('status').optional().isIn(['PENDING', 'APPROVED', 'REJECTED', 'CANCELLED']).withMessage('Invalid status'),
+  handleValidationErrors,
+];
+
+const validateCheckout = [
+  body('interval').optional().isIn(['month', 'year']).withMessage('Interval must be month or year'),
+  handleValidationErrors,
+];
+
+const validateRejection = [
+  body('reason').optional().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters'),
+  handleValidationErrors,
+];
+
 router.post('/', authenticate, validateCommunity, (req: Request, res: Response) =>
   communityController.create(req, res));
 router.get('/', (req: Request, res: Response) => communityController.list(req, res));
+router.post('/join', authenticate, validateJoin, (req: Request, res: Response) =>
+  invitationController.join(req, res));
 router.get('/:slug', (req: Request, res: Response) => communityController.getBySlug(req, res));
 
 // Community settings
@@ -27,7 +67,37 @@ router.get('/:communityId/members', authenticate, (req: Request, res: Response)
   communityController.getMembers(req, res));
 router.get('/:communityId/members/search', authenticate, (req: Request, res: Response) =>
   communityController.searchMembers(req, res));
+router.get('/:communityId/presence', authenticate, (req: Request, res: Response) =>
+  communityController.getPresence(req, res));
 router.patch('/:communityId/members/:userId/role', authenticate, (req: Request, res: Response) =>
   communityController.updateMemberRole(req, res));
 
+// Community invitations
+router.get('/:slug/invites', authenticate, (req: Request, res: Response) =>
+  invitationController.list(req, res));
+router.post('/:slug/invites', authenticate, validateInvitation, (req: Request, res: Response) =>
+  invitationController.create(req, res));
+router.delete('/:slug/invites/:inviteId', authenticate, (req: Request, res: Response) =>
+  invitationController.revoke(req, res));
+
+// Join requests for private communities
+router.get('/:slug/requests', authenticate, validateRequestList, (req: Request, res: Response) =>
+  joinRequestController.list(req, res));
+router.get('/:slug/requests/mine', authenticate, (req: Request, res: Response) =>
+  joinRequestController.getOwn(req, res));
+router.post('/:slug/requests', authenticate, validateJoinRequest, (req: Request, res: Response) =>
+  joinRequestController.create(req, res));
+router.post('/:slug/requests/:requestId/approve', authenticate, (req: Request, res: Response) =>
+  joinRequestController.approve(req, res));
+router.post('/:slug/requests/:requestId/reject', authenticate, validateRejection, (req: Request, res: Response) =>
+  joinRequestController.reject(req, res));
+router.delete('/:slug/requests/:requestId', authenticate, (req: Request, res: Response) =>
+  joinRequestController.cancel(req, res));
+
+// Paid community memberships
+router.get('/:slug/membership', authenticate, (req: Request, res: Response) =>
+  communityMembershipController.getAccess(req, res));
+router.post('/:slug/checkout', authenticate, validateCheckout, (req: Request, res: Response) =>
+  communityMembershipController.checkout(req, res));
+
 export default router;
\ No newline at end of file
@@ -1,37 +1,47 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth';
+import { requireCommunityAccess, communityFrom } from '../middleware/communityAccess';
+import { requireCoursePurchase } from '../middleware/coursePurchase';
 import { uploadImage } from '../middleware/upload.middleware';
 import { courseController } from '../controllers/courseController';
 
 const router = Router();
 
+// Paid communities only expose course content to paying members
+const courseAccess = requireCommunityAccess(communityFrom.course('courseId'));
+const lessonAccess = requireCommunityAccess(communityFrom.lesson('lessonId'));
+
+// Lessons of paid courses additionally require buying the course
+const lessonPurchase = requireCoursePurchase('lessonId');
+
 // All course routes require authentication
 router.use(authenticate);
 
 // Course CRUD operations
-router.get('/', courseController.getCourses);
+router.get('/', requireCommunityAccess(communityFrom.query('communityId')), courseController.getCourses);
 router.post('/', courseController.createCourse);
-router.get('/:courseId', courseController.getCourse);
+router.get('/:courseId', courseAccess, courseController.getCourse);
 router.patch('/:courseId', courseController.updateCourse);
 router.delete('/:courseId', courseController.deleteCourse);
 
 // Course enrollment
-router.post('/:courseId/enroll', courseController.enrollInCourse);
+router.post('/:courseId/enroll', courseAccess, courseController.enrollInCourse);
+router.post('/:courseId/purchase', courseAccess, courseController.purchaseCourse);
 
 // Course progress
-router.get('/:courseId/progress', courseController.getCourseProgress);
+router.get('/:courseId/progress', courseAccess, courseController.getCourseProgress);
 
 // Module operations
-router.get('/:courseId/modules', courseController.getCourseModules);
+router.get('/:courseId/modules', courseAccess, courseController.getCourseModules);
 router.post('/:courseId/modules', courseController.createModule);
 
 // Lesson operations
-router.get('/lessons/:lessonId', courseController.getLesson);
+router.get('/lessons/:lessonId', lessonAccess, lessonPurchase, courseController.getLesson);
 router.patch('/lessons/:lessonId', courseController.updateLesson);
 
 // Lesson completion and progress
-router.post('/lessons/:lessonId/complete', courseController.markLessonComplete);
-router.post('/lessons/:lessonId/progress', courseController.updateVideoProgress);
+router.post('/lessons/:lessonId/complete', lessonAccess, lessonPurchase, courseController.markLessonComplete);
+router.post('/lessons/:lessonId/progress', lessonAccess, lessonPurchase, courseController.updateVideoProgress);
 
 // Video upload operations
 router.post('/lessons/:lessonId/video/upload', uploadImage('video'), courseController.uploadVideo);
@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { requireCommunityAccess, communityFrom } from '../middleware/communityAccess';
+import {
+  validateEvent,
+  validateEventUpdate,
+  validateEventDelete,
+  validateEventList,
+  validateRsvp,
+  validateEventRegistration,
+  validateAddAttendee,
+  validateAttendeeExport,
+  validateAttendeeMessage,
+  validateWaitlistMove,
+  validateEventExport,
+  validateEventReminders,
+} from '../middleware/validation';
+import * as eventController from '../controllers/eventController';
+import * as calendarController from '../controllers/calendarController';
+
+const router = Router();
+
+// Paid communities only expose their events to paying members
+const eventAccess = requireCommunityAccess(communityFrom.event('eventId'));
+
+// All event routes require authentication
+router.use(authenticate);
+
+// Event CRUD operations
+router.get('/', validateEventList, requireCommunityAccess(communityFrom.query('communityId')), eventController.getEvents);
+router.post('/', validateEvent, requireCommunityAccess(communityFrom.body('communityId')), eventController.createEvent);
+router.get('/:eventId', eventAccess, eventController.getEvent);
+router.patch('/:eventId', validateEventUpdate, eventAccess, eventController.updateEvent);
+router.delete('/:eventId', validateEventDelete, eventAccess, eventController.deleteEvent);
+router.get('/:eventId/ics', validateEventExport, eventAccess, calendarController.exportEvent);
+
+// RSVP; registering is an RSVP with the default "confirmed" status
+router.post('/:eventId/rsvp', validateRsvp, eventAccess, eventController.rsvp);
+router.delete('/:eventId/rsvp', eventAccess, eventController.cancelRsvp);
+router.post('/:eventId/register', eventAccess, eventController.rsvp);
+router.delete('/:eventId/register', eventAccess, eventController.cancelRsvp);
+router.post('/:eventId/complete-registration', validateEventRegistration, eventAccess, eventController.completeRegistration);
+
+// The current user's reminders for an event they RSVPed to
+router.get('/:eventId/reminders', eventAccess, eventController.getReminders);
+router.put('/:eventId/reminders', validateEventReminders, eventAccess, eventController.setReminders);
+router.delete('/:eventId/reminders', eventAccess, eventController.resetReminders);
+
+// Attendee management
+router.get('/:eventId/attendees', eventAccess, eventController.getAttendees);
+router.post('/:eventId/attendees', validateAddAttendee, eventAccess, eventController.addAttendee);
+router.post('/:eventId/attendees/export', validateAttendeeExport, eventAccess, eventController.exportAttendees);
+router.post('/:eventId/attendees/message', validateAttendeeMessage, eventAccess, eventController.messageAttendees);
+
+// Check-in and attendance at the event
+router.post('/:eventId/generate-check-in-codes', eventAccess, eventController.generateCheckInCodes);
+router.get('/:eventId/attendance-stats', eventAccess, eventController.getAttendanceStats);
+
+// Waitlist management for event organizers
+router.get('/:eventId/waitlist', eventAccess, eventController.getWaitlist);
+router.post('/:eventId/waitlist/:attendeeId/promote', eventAccess, eventController.promoteWaitlistEntry);
+router.patch('/:eventId/waitlist/:attendeeId', validateWaitlistMove, eventAccess, eventController.moveWaitlistEntry);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth';
+import { validateAttendeeStatus, validateCheckIn } from '../middleware/validation';
+import * as eventController from '../controllers/eventController';
+
+const router = Router();
+
+// All attendee routes require authentication
+router.use(authenticate);
+
+router.patch('/:attendeeId', validateAttendeeStatus, eventController.updateAttendeeStatus);
+router.patch('/:attendeeId/status', validateAttendeeStatus, eventController.updateAttendeeStatus);
+router.post('/:attendeeId/check-in', validateCheckIn, eventController.checkInAttendee);
+router.delete('/:attendeeId', eventController.removeAttendee);
+
+export default router;
@@ -0,0 +1,25 @@
+import { Router, Request, Response } from 'express';
+import { attachFeatureFlags } from '../middleware/featureFlags';
+
+const router: Router = Router();
+
+// GET /api/flags/bootstrap - Evaluated flags for the current user, used by the
+// web app to hydrate its flag state on first render. Evaluation reasons are
+// left out since they can reveal targeting rules.
+router.get('/bootstrap', attachFeatureFlags, (req: Request, res: Response) => {
+  const flags = Object.entries(req.flags || {}).reduce((acc, [key, flag]) => {
+    acc[key] = { enabled: flag.enabled, value: flag.value, variant: flag.variant };
+    return acc;
+  }, {} as Record<string, { enabled: boolean; value: any; variant: string | null }>);
+
+  res.setHeader('Cache-Control', 'private, no-store');
+  res.json({
+    success: true,
+    data: {
+      flags,
+      evaluatedAt: new Date().toISOString()
+    }
+  });
+});
+
+export default router;
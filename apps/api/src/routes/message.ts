@@ -1,7 +1,22 @@
 import { Router } from 'express';
 import * as messageController from '../controllers/messageController';
 import { authenticate } from '../middleware/auth';
-import { validateMessage, validateConversation, validateEditMessage, validateMessageSearch, validateMessageHistory } from '../middleware/validation';
+import {
+  validateMessage,
+  validateConversation,
+  validateEditMessage,
+  validateMessageSearch,
+  validateMessageHistory,
+  validateThread,
+  validateScheduledMessage,
+  validateUpdateScheduledMessage,
+  validateConversationSettings,
+  validateMarkRead,
+  validateMarkDelivered,
+  validateReadReceiptSetting,
+  validatePollVote,
+  validateEditHistorySetting,
+} from '../middleware/validation';
 
 const router = Router();
 
@@ -17,13 +32,39 @@ router.route('/conversations')
 router.route('/conversations/:conversationId')
   .get(messageController.getConversationDetails);
 
+// Per-user mute, archive, star and notification settings
+router.route('/conversations/:conversationId/settings')
+  .get(messageController.getConversationSettings)
+  .patch(validateConversationSettings, messageController.updateConversationSettings);
+
+// Whether participants can see earlier versions of edited messages
+router.route('/conversations/:conversationId/edit-history')
+  .put(validateEditHistorySetting, messageController.updateEditHistorySetting);
+
 router.route('/conversations/:conversationId/messages')
   .get(messageController.getMessages)
   .post(validateMessage, messageController.sendMessage);
 
+// Scheduled messages
+router.route('/conversations/:conversationId/scheduled')
+  .get(messageController.getScheduledMessages)
+  .post(validateScheduledMessage, messageController.scheduleMessage);
+
+router.route('/scheduled/:scheduledMessageId')
+  .patch(validateUpdateScheduledMessage, messageController.updateScheduledMessage)
+  .delete(messageController.cancelScheduledMessage);
+
 // Message actions
 router.route('/conversations/:conversationId/read')
-  .post(messageController.markAsRead);
+  .post(validateMarkRead, messageController.markAsRead);
+
+// Delivery and read receipts
+router.route('/delivered')
+  .post(validateMarkDelivered, messageController.markAsDelivered);
+
+router.route('/settings/read-receipts')
+  .get(messageController.getReadReceiptSetting)
+  .put(validateReadReceiptSetting, messageController.updateReadReceiptSetting);
 
 // Participant management
 router.route('/conversations/:conversationId/participants')
@@ -33,12 +74,22 @@ router.route('/conversations/:conversationId/participants/:userId')
   .delete(messageController.removeParticipant);
 
 // Search and export
+router.route('/search')
+  .get(validateMessageSearch, messageController.searchMessages);
+
 router.route('/conversations/:conversationId/search')
   .get(validateMessageSearch, messageController.searchMessages);
 
 router.route('/conversations/:conversationId/export')
   .get(messageController.exportConversation);
 
+// ZIP archives with an HTML transcript, JSON and attachment files
+router.route('/conversations/:conversationId/exports')
+  .post(messageController.requestConversationExport);
+
+router.route('/exports/:exportId')
+  .get(messageController.getConversationExport);
+
 // Message actions
 router.route('/:messageId/reactions')
   .post(messageController.toggleReaction);
@@ -46,6 +97,31 @@ router.route('/:messageId/reactions')
 router.route('/:messageId/pin')
   .post(messageController.toggleMessagePin);
 
+router.route('/:messageId/receipts')
+  .get(messageController.getMessageReceipts);
+
+// Polls
+router.route('/:messageId/poll')
+  .get(messageController.getPollResults);
+
+router.route('/:messageId/poll/votes')
+  .post(validatePollVote, messageController.votePoll)
+  .delete(messageController.retractPollVote);
+
+router.route('/:messageId/poll/close')
+  .post(messageController.closePoll);
+
+// Threads
+router.route('/:messageId/thread')
+  .get(validateThread, messageController.getThread);
+
+router.route('/:messageId/thread/read')
+  .post(messageController.markThreadAsRead);
+
+// Earlier versions of an edited message
+router.route('/:messageId/revisions')
+  .get(messageController.getMessageRevisions);
+
 // Message editing and deletion
 router.route('/:messageId')
   .put(validateEditMessage, messageController.editMessage)
@@ -1,19 +1,46 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth';
-import { customerService, subscriptionService, paymentService, webhookService, paymentMethodService } from '@sk-clone/payment';
+import {
+  configurePayments,
+  customerService,
+  subscriptionService,
+  paymentService,
+  webhookService,
+  paymentMethodService,
+} from '@sk-clone/payment';
 import express from 'express';
+import { prisma } from '../lib/prisma';
+import { communityMembershipService } from '../services/communityMembershipService';
+import { coursePurchaseService } from '../services/coursePurchaseService';
+
+configurePayments({ prisma });
+
+// Subscription changes may grant or revoke paid community access, and course
+// payments enroll or revoke the buyer. Runs inside webhook processing so a
+// failure here is retried with the event.
+webhookService.onProcessed(async (result: { subscriptionId?: string; paymentId?: string }) => {
+  if (result.subscriptionId) {
+    await communityMembershipService.syncSubscription(result.subscriptionId);
+  }
+  if (result.paymentId) {
+    await coursePurchaseService.syncPayment(result.paymentId);
+  }
+});
 
 const router = Router();
 
 // Webhook endpoint
 router.post('/webhook', express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
   const sig = req.headers['stripe-signature'] as string;
+  // The global JSON parser runs first and keeps the untouched body for signature checks
+  const payload = (req as any).rawBody || req.body;
   try {
-    await webhookService.handleWebhook(req.body, sig);
-    res.json({ received: true });
+    await webhookService.handleWebhook(payload, sig);
   } catch (err: any) {
-    res.status(400).send(`Webhook Error: ${err.message}`);
+    return res.status(400).send(`Webhook Error: ${err.message}`);
   }
+  // Processing failures are recorded and retried on our side
+  res.json({ received: true });
 });
 
 router.use(authenticate);
@@ -21,7 +48,7 @@ router.use(authenticate);
 // Checkout
 router.post('/checkout', async (req: Request, res: Response) => {
   try {
-    const { type, tier, interval, courseId, amount } = req.body;
+    const { type, tier, interval, courseId } = req.body;
 
     if (type === 'subscription' && (!tier || !interval)) {
       return res.status(400).json({
@@ -30,36 +57,31 @@ router.post('/checkout', async (req: Request, res: Response) => {
       });
     }
 
-    if (type === 'payment' && (!courseId || !amount)) {
+    if (type === 'payment' && !courseId) {
       return res.status(400).json({
         success: false,
-        error: 'Course ID and amount are required for one-time payments'
+        error: 'Course ID is required for one-time payments'
       });
     }
 
     if (type === 'subscription') {
-      const subscription = await subscriptionService.createSubscription(
-        req.user.id,
-        req.user.email,
+      const session = await subscriptionService.createSubscription({
+        userId: req.user.id,
+        email: req.user.email,
         tier,
-        interval
-      );
+        interval,
+      });
       res.json({
         success: true,
-        data: { sessionUrl: subscription.url }
+        data: { sessionUrl: session.url }
       });
     } else if (type === 'payment') {
-      const paymentIntent = await paymentService.createPaymentIntent(
-        req.user.id,
-        req.user.email,
-        Math.round(amount * 100), // Convert to cents
-        `Course purchase: ${courseId}`,
-        courseId
-      );
+      // Charged at the course's own price; any client-sent amount is ignored
+      const checkout = await coursePurchaseService.createCheckout(courseId, req.user);
 
       res.json({
         success: true,
-        data: { clientSecret: paymentIntent.client_secret }
+        data: checkout
       });
     } else {
       return res.status(400).json({
@@ -67,7 +89,11 @@ router.post('/checkout', async (req: Request, res: Response) => {
         error: 'Invalid checkout type'
       });
     }
-  } catch (error) {
+  } catch (error: any) {
+    // Course checkout rejections (missing, free or already owned course)
+    if (error.statusCode) {
+      return res.status(error.statusCode).json({ success: false, error: error.message });
+    }
     console.error('Checkout error:', error);
     res.status(500).json({
       success: false,
@@ -96,10 +122,15 @@ router.get('/subscription', async (req: Request, res: Response) => {
 router.post('/subscription', async (req: Request, res: Response) => {
   try {
     const { tier, interval } = req.body;
-    const subscription = await subscriptionService.createSubscription(req.user.id, req.user.email, tier, interval);
+    const session = await subscriptionService.createSubscription({
+      userId: req.user.id,
+      email: req.user.email,
+      tier,
+      interval,
+    });
     res.json({
       success: true,
-      data: subscription
+      data: { sessionUrl: session.url }
     });
   } catch (error) {
     console.error('Create subscription error:', error);
@@ -112,9 +143,12 @@ router.post('/subscription', async (req: Request, res: Response) => {
 
 router.delete('/subscription/:id', async (req: Request, res: Response) => {
   try {
-    await subscriptionService.cancelSubscription(req.params.id);
+    await subscriptionService.cancelSubscription(req.params.id, req.user.id);
     res.status(204).send();
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === 'Subscription not found') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     console.error('Cancel subscription error:', error);
     res.status(500).json({
       success: false,
@@ -132,7 +166,10 @@ router.post('/portal', async (req: Request, res: Response) => {
       success: true,
       data: { url }
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === 'No billing account') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     console.error('Portal session error:', error);
     res.status(500).json({
       success: false,
@@ -166,7 +203,10 @@ router.post('/payment-methods', async (req: Request, res: Response) => {
       success: true,
       data: paymentMethod
     });
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === 'No billing account') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     console.error('Add payment method error:', error);
     res.status(500).json({
       success: false,
@@ -177,9 +217,12 @@ router.post('/payment-methods', async (req: Request, res: Response) => {
 
 router.delete('/payment-methods/:id', async (req: Request, res: Response) => {
   try {
-    await paymentMethodService.removePaymentMethod(req.params.id);
+    await paymentMethodService.removePaymentMethod(req.params.id, req.user.id);
     res.status(204).send();
-  } catch (error) {
+  } catch (error: any) {
+    if (error.message === 'Payment method not found') {
+      return res.status(404).json({ success: false, error: error.message });
+    }
     console.error('Remove payment method error:', error);
     res.status(500).json({
       success: false,
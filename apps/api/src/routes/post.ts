@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { postController } from '../controllers/postController';
 import { authenticate } from '../middleware/auth';
+import { requireCommunityAccess, communityFrom } from '../middleware/communityAccess';
 import { body } from 'express-validator';
 import { handleValidationErrors } from '../middleware/validation';
 
@@ -24,9 +25,9 @@ const validateModeration = [
   handleValidationErrors,
 ];
 
-router.post('/', authenticate, validatePost, postController.create);
-router.get('/:id', postController.getById);
-router.get('/community/:communityId', postController.listByCommunity);
+router.post('/', authenticate, validatePost, requireCommunityAccess(communityFrom.body('communityId')), postController.create);
+router.get('/:id', requireCommunityAccess(communityFrom.post('id')), postController.getById);
+router.get('/community/:communityId', requireCommunityAccess(communityFrom.param('communityId')), postController.listByCommunity);
 router.put('/:id', authenticate, postController.update);
 router.delete('/:id', authenticate, postController.delete);
 router.post('/:id/report', authenticate, validateReport, postController.report);
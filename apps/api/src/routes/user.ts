@@ -1,7 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { authenticate, AuthRequest } from '../middleware/auth';
 import { userController } from '../controllers/userController';
-import { validateChangePassword } from '../middleware/validation';
+import { validateChangePassword, validatePresence } from '../middleware/validation';
 
 const router: Router = Router();
 
@@ -12,6 +12,12 @@ router.put('/me', authenticate, (req: Request, res: Response) =>
   userController.updateProfile(req, res));
 router.post('/me/change-password', authenticate, validateChangePassword, (req: AuthRequest, res: Response) =>
   userController.changePassword(req, res));
+router.get('/me/presence', authenticate, (req: Request, res: Response) =>
+  userController.getMyPresence(req, res));
+router.put('/me/presence', authenticate, validatePresence, (req: Request, res: Response) =>
+  userController.updateMyPresence(req, res));
+router.get('/presence', authenticate, (req: Request, res: Response) =>
+  userController.getPresence(req, res));
 // router.get('/me/preferences', authenticate, (req, res) =>
 //   userController.getUserPreferences(req, res));
 // router.patch('/me/preferences', authenticate, (req, res) =>
@@ -0,0 +1,244 @@
+// Statistics helpers for A/B experiment analysis.
+//
+// Conversion metrics are binomial (a participant either converted or not), so
+// variants are compared with a pooled two-proportion z-test and rates are
+// reported with Wilson score intervals. Sample ratio mismatch is checked with a
+// chi-square goodness-of-fit test against the configured variant percentages.
+
+export interface VariantSample {
+  name: string;
+  participants: number;
+  conversions: number;
+}
+
+export interface VariantResult extends VariantSample {
+  conversionRate: number;
+  confidenceInterval: { lower: number; upper: number };
+  isControl: boolean;
+  uplift: number | null;
+  pValue: number | null;
+  significant: boolean;
+}
+
+export interface SampleRatioMismatch {
+  detected: boolean;
+  chiSquare: number;
+  pValue: number;
+  expected: Array<{ variant: string; expectedCount: number; observedCount: number }>;
+}
+
+// Stricter than the usual 0.05 because SRM indicates a broken assignment, not a result
+export const SRM_P_VALUE_THRESHOLD = 0.001;
+
+/**
+ * Standard normal cumulative distribution function.
+ */
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation).
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+/**
+ * Wilson score interval for a binomial proportion.
+ */
+export function wilsonInterval(conversions: number, participants: number, confidence = 0.95): { lower: number; upper: number } {
+  if (participants === 0) {
+    return { lower: 0, upper: 0 };
+  }
+
+  const z = normalQuantile(1 - (1 - confidence) / 2);
+  const p = conversions / participants;
+  const z2 = z * z;
+  const denominator = 1 + z2 / participants;
+  const center = (p + z2 / (2 * participants)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / participants + z2 / (4 * participants * participants))) / denominator;
+
+  return {
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin)
+  };
+}
+
+/**
+ * Two-sided pooled two-proportion z-test. Returns a p-value of 1 when there is
+ * not enough data to compare.
+ */
+export function twoProportionZTest(control: VariantSample, treatment: VariantSample): { z: number; pValue: number } {
+  if (control.participants === 0 || treatment.participants === 0) {
+    return { z: 0, pValue: 1 };
+  }
+
+  const p1 = control.conversions / control.participants;
+  const p2 = treatment.conversions / treatment.participants;
+  const pooled = (control.conversions + treatment.conversions) / (control.participants + treatment.participants);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.participants + 1 / treatment.participants));
+
+  if (standardError === 0) {
+    return { z: 0, pValue: 1 };
+  }
+
+  const z = (p2 - p1) / standardError;
+  return { z, pValue: Math.min(1, 2 * (1 - normalCdf(Math.abs(z)))) };
+}
+
+/**
+ * Upper tail probability of the chi-square distribution.
+ */
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  if (statistic <= 0 || degreesOfFreedom <= 0) return 1;
+  return regularizedGammaQ(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Compare every variant against the control (the first variant unless named)
+ * on a single conversion metric.
+ */
+export function analyzeVariants(
+  samples: VariantSample[],
+  options: { controlVariant?: string; confidence?: number } = {}
+): VariantResult[] {
+  const confidence = options.confidence ?? 0.95;
+  const control = samples.find(sample => sample.name === options.controlVariant) || samples[0];
+
+  return samples.map(sample => {
+    const conversionRate = sample.participants > 0 ? sample.conversions / sample.participants : 0;
+    const isControl = sample === control;
+    const controlRate = control && control.participants > 0 ? control.conversions / control.participants : 0;
+
+    let uplift: number | null = null;
+    let pValue: number | null = null;
+    if (!isControl && control) {
+      uplift = controlRate > 0 ? (conversionRate - controlRate) / controlRate : null;
+      pValue = twoProportionZTest(control, sample).pValue;
+    }
+
+    return {
+      ...sample,
+      conversionRate,
+      confidenceInterval: wilsonInterval(sample.conversions, sample.participants, confidence),
+      isControl,
+      uplift,
+      pValue,
+      significant: pValue !== null && pValue < 1 - confidence
+    };
+  });
+}
+
+/**
+ * Chi-square goodness-of-fit test of observed assignment counts against the
+ * configured variant percentages.
+ */
+export function detectSampleRatioMismatch(
+  observed: Array<{ variant: string; count: number; percentage: number }>,
+  threshold = SRM_P_VALUE_THRESHOLD
+): SampleRatioMismatch {
+  const total = observed.reduce((sum, item) => sum + item.count, 0);
+  const totalPercentage = observed.reduce((sum, item) => sum + item.percentage, 0);
+
+  const expected = observed.map(item => ({
+    variant: item.variant,
+    expectedCount: totalPercentage > 0 ? (total * item.percentage) / totalPercentage : 0,
+    observedCount: item.count
+  }));
+
+  const chiSquare = expected.reduce((sum, item) => {
+    if (item.expectedCount === 0) return sum;
+    return sum + Math.pow(item.observedCount - item.expectedCount, 2) / item.expectedCount;
+  }, 0);
+
+  const degreesOfFreedom = expected.filter(item => item.expectedCount > 0).length - 1;
+  const pValue = total > 0 ? chiSquarePValue(chiSquare, degreesOfFreedom) : 1;
+
+  return {
+    detected: pValue < threshold,
+    chiSquare,
+    pValue,
+    expected
+  };
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to ~1.5e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const y = 1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-ax * ax);
+  return sign * y;
+}
+
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+// Regularized upper incomplete gamma function Q(a, x)
+function regularizedGammaQ(a: number, x: number): number {
+  if (x < a + 1) {
+    // Series representation of P(a, x)
+    let sum = 1 / a;
+    let term = sum;
+    for (let n = 1; n < 200; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break;
+    }
+    return Math.max(0, 1 - sum * Math.exp(-x + a * Math.log(x) - logGamma(a)));
+  }
+
+  // Continued fraction representation of Q(a, x)
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 200; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return Math.min(1, Math.exp(-x + a * Math.log(x) - logGamma(a)) * h);
+}
@@ -0,0 +1,68 @@
+import { EventEmitter } from 'events';
+
+// Change notifications for feature flags. Listeners in this process are
+// notified directly; when REDIS_URL is set the change is also published so
+// every API instance refreshes its in-memory flag cache.
+
+export interface FeatureFlagChange {
+  key?: string;
+  flagId?: string;
+  action: string;
+  origin?: string;
+}
+
+const CHANNEL = 'feature-flags:changed';
+const ORIGIN = `${process.pid}-${Math.random().toString(36).slice(2)}`;
+
+const emitter = new EventEmitter();
+let publisher: any = null;
+let subscriber: any = null;
+
+function ensureRedis() {
+  if (publisher || !process.env.REDIS_URL || process.env.NODE_ENV === 'test') {
+    return;
+  }
+
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { Redis } = require('ioredis');
+    publisher = new Redis(process.env.REDIS_URL);
+    subscriber = publisher.duplicate();
+    subscriber.subscribe(CHANNEL).catch((error: any) => {
+      console.error('Failed to subscribe to feature flag changes:', error);
+    });
+    subscriber.on('message', (_channel: string, message: string) => {
+      try {
+        const change: FeatureFlagChange = JSON.parse(message);
+        if (change.origin !== ORIGIN) {
+          emitter.emit('change', change);
+        }
+      } catch (error) {
+        console.error('Invalid feature flag change message:', error);
+      }
+    });
+  } catch (err) {
+    // Redis is optional; changes then only propagate within this process
+    publisher = null;
+    subscriber = null;
+  }
+}
+
+export function publishFlagChange(change: FeatureFlagChange) {
+  emitter.emit('change', change);
+
+  ensureRedis();
+  if (publisher) {
+    publisher.publish(CHANNEL, JSON.stringify({ ...change, origin: ORIGIN })).catch((error: any) => {
+      console.error('Failed to publish feature flag change:', error);
+    });
+  }
+}
+
+export function onFlagChange(listener: (change: FeatureFlagChange) => void): () => void {
+  ensureRedis();
+  emitter.on('change', listener);
+  return () => {
+    emitter.off('change', listener);
+  };
+}
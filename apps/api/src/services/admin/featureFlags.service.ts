@@ -1,6 +1,11 @@
 import { prisma } from '../../lib/prisma';
 import { logAdminAction } from '../../utils/auditLogger';
 import { ExperimentStatus, SegmentType } from '@prisma/client';
+import { ValidationError } from '../../utils/errors';
+import { SegmentContext, SegmentUserContext, parseUserAgent, validateSegmentRule } from './segmentRules';
+import { evaluateFlag, flagRequiresUser } from './flagEvaluation';
+import { publishFlagChange } from './featureFlagEvents';
+import { VariantResult, analyzeVariants, detectSampleRatioMismatch } from './experimentStats';
 
 // Interfaces for service methods
 interface CreateFeatureFlagRequest {
@@ -43,10 +48,42 @@ interface CreateExperimentRequest {
   targetAudience?: string;
   startDate?: Date;
   endDate?: Date;
-  metrics?: Array<{
-    name: string;
-    type: 'primary' | 'secondary';
-  }>;
+  metrics?: ExperimentMetric[];
+}
+
+export const EXPERIMENT_METRIC_EVENTS = ['enrollment', 'post_created', 'payment_succeeded'] as const;
+
+export type ExperimentMetricEvent = typeof EXPERIMENT_METRIC_EVENTS[number];
+
+// A conversion metric counts participants who performed the action after
+// their first exposure. `feature_usage` metrics match `feature_usage.action`
+// for the experiment's flag (defaulting to the metric name), `event` metrics
+// match domain records such as enrollments or successful payments.
+export interface ExperimentMetric {
+  name: string;
+  type: 'primary' | 'secondary';
+  source?: 'feature_usage' | 'event';
+  action?: string;
+  event?: ExperimentMetricEvent;
+}
+
+interface ExperimentMetricResult {
+  name: string;
+  type: 'primary' | 'secondary';
+  data: {
+    source: 'feature_usage' | 'event';
+    action?: string;
+    event?: ExperimentMetricEvent;
+    variants: VariantResult[];
+    leadingVariant: string | null;
+  };
+}
+
+export interface FlagEvaluationContext {
+  userAgent?: string;
+  ipAddress?: string;
+  country?: string;
+  attributes?: Record<string, any>;
 }
 
 interface FeatureFlagAnalytics {
@@ -177,6 +214,8 @@ export class FeatureFlagsService {
   }
 
   async createFeatureFlag(data: CreateFeatureFlagRequest, adminId: string) {
+    data.segments?.forEach(segment => this.assertValidConditions(segment.conditions));
+
     // Validate unique key and name
     const existingFlag = await prisma.featureFlag.findFirst({
       where: {
@@ -225,6 +264,8 @@ export class FeatureFlagsService {
       name: flag.name
     });
 
+    publishFlagChange({ key: flag.key, flagId: flag.id, action: 'created' });
+
     return { success: true, data: flag };
   }
 
@@ -256,6 +297,8 @@ export class FeatureFlagsService {
       updatedFields: Object.keys(data)
     });
 
+    publishFlagChange({ key: flag.key, flagId, action: 'updated' });
+
     return { success: true, data: updatedFlag };
   }
 
@@ -284,6 +327,8 @@ export class FeatureFlagsService {
       name: flag.name
     });
 
+    publishFlagChange({ key: flag.key, flagId, action: 'archived' });
+
     return { success: true, message: 'Feature flag archived successfully' };
   }
 
@@ -315,6 +360,8 @@ export class FeatureFlagsService {
       name: flag.name
     });
 
+    publishFlagChange({ key: flag.key, flagId, action: isActive ? 'enabled' : 'disabled' });
+
     return { success: true, data: updatedFlag };
   }
 
@@ -356,6 +403,10 @@ export class FeatureFlagsService {
       throw new Error('Cannot create experiment for archived feature flag');
     }
 
+    if (data.metrics) {
+      this.assertValidMetrics(data.metrics);
+    }
+
     // Validate variant percentages sum to 100
     const totalPercentage = data.variants.reduce((sum, variant) => sum + variant.percentage, 0);
     if (Math.abs(totalPercentage - 100) > 0.01) {
@@ -418,6 +469,8 @@ export class FeatureFlagsService {
       featureFlagKey: experiment.featureFlag.key
     });
 
+    publishFlagChange({ key: experiment.featureFlag.key, flagId: experiment.featureFlagId, action: 'experiment_updated' });
+
     return { success: true, data: updatedExperiment };
   }
 
@@ -431,6 +484,8 @@ export class FeatureFlagsService {
     conditions: any;
     priority?: number;
   }, adminId: string) {
+    this.assertValidConditions(segmentData.conditions);
+
     const segment = await prisma.featureSegment.create({
       data: {
         featureFlagId,
@@ -448,6 +503,8 @@ export class FeatureFlagsService {
       type: segment.type
     });
 
+    publishFlagChange({ flagId: featureFlagId, action: 'segment_created' });
+
     return { success: true, data: segment };
   }
 
@@ -458,6 +515,10 @@ export class FeatureFlagsService {
     priority: number;
     isActive: boolean;
   }>, adminId: string) {
+    if (updates.conditions !== undefined) {
+      this.assertValidConditions(updates.conditions);
+    }
+
     const segment = await prisma.featureSegment.update({
       where: { id: segmentId },
       data: updates
@@ -466,6 +527,8 @@ export class FeatureFlagsService {
     // Log admin action
     await logAdminAction(adminId, 'SEGMENT_UPDATED', segmentId, updates);
 
+    publishFlagChange({ flagId: segment.featureFlagId, action: 'segment_updated' });
+
     return { success: true, data: segment };
   }
 
@@ -489,6 +552,8 @@ export class FeatureFlagsService {
       name: segment.name
     });
 
+    publishFlagChange({ key: segment.featureFlag.key, flagId: segment.featureFlagId, action: 'segment_deleted' });
+
     return { success: true, message: 'Segment deleted successfully' };
   }
 
@@ -496,7 +561,7 @@ export class FeatureFlagsService {
    * FEATURE EVALUATION
    */
 
-  async evaluateFeatureFlag(key: string, userId?: string, context?: { userAgent?: string; ipAddress?: string; }) {
+  async evaluateFeatureFlag(key: string, userId?: string, context?: FlagEvaluationContext) {
     const flag = await prisma.featureFlag.findUnique({
       where: { key },
       include: {
@@ -509,55 +574,59 @@ export class FeatureFlagsService {
       return { success: true, enabled: false, value: null, reason: 'Flag not found or archived' };
     }
 
-    // Check if feature is completely disabled
-    if (!flag.isActive) {
-      return { success: true, enabled: false, value: flag.defaultValue, reason: 'Flag disabled' };
-    }
+    const segmentContext = await this.buildSegmentContext(
+      userId,
+      context,
+      flag.isActive && flag.segments.length > 0 && flagRequiresUser(flag)
+    );
 
-    // Check direct user targeting
-    if (userId && flag.userIds.includes(userId)) {
-      return { success: true, enabled: true, value: flag.value, reason: 'Direct targeting' };
-    }
+    return { success: true, ...evaluateFlag(flag, userId, segmentContext) };
+  }
 
-    // Check segmentation rules
-    for (const segment of flag.segments) {
-      if (this.evaluateSegment(segment.conditions, userId, context)) {
-        return { success: true, enabled: true, value: flag.value, reason: `Segment: ${segment.name}`, segment };
-      }
-    }
+  async buildSegmentContext(
+    userId: string | undefined,
+    context: FlagEvaluationContext | undefined,
+    loadUser: boolean
+  ): Promise<SegmentContext> {
+    const user = userId && loadUser ? await this.loadSegmentUser(userId) : null;
 
-    // Check rollout percentage
-    if (userId) {
-      const hash = this.simpleHash(userId + flag.id);
-      const rolloutBucket = (hash % 100) / 100;
-      if (rolloutBucket <= (flag.rolloutPercentage / 100)) {
-        return { success: true, enabled: true, value: flag.value, reason: 'Rollout percentage' };
-      }
-    }
+    return {
+      user: user || (userId ? { id: userId } : undefined),
+      device: parseUserAgent(context?.userAgent),
+      country: context?.country,
+      attributes: context?.attributes,
+      now: new Date()
+    };
+  }
 
-    // Check if user is in active experiment
-    if (userId && flag.experiments.length > 0) {
-      for (const experiment of flag.experiments) {
-        const experimentVariant = this.getExperimentVariant(experiment, userId);
-        if (experimentVariant) {
-          return {
-            success: true,
-            enabled: true,
-            value: experimentVariant.value,
-            reason: `Experiment: ${experiment.name}`,
-            experiment,
-            variant: experimentVariant
-          };
-        }
-      }
+  async loadSegmentUser(userId: string): Promise<SegmentUserContext | null> {
+    const [user, memberships, subscription] = await Promise.all([
+      prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true, role: true, email: true, createdAt: true }
+      }),
+      prisma.communityMember.findMany({
+        where: { userId, status: 'active' },
+        select: { communityId: true }
+      }),
+      prisma.subscription.findFirst({
+        where: { customer: { userId }, communityId: null, status: { in: ['ACTIVE', 'TRIALING'] } },
+        orderBy: { createdAt: 'desc' },
+        select: { tier: true }
+      })
+    ]);
+
+    if (!user) {
+      return null;
     }
 
-    // Default behavior
     return {
-      success: true,
-      enabled: false,
-      value: flag.defaultValue,
-      reason: 'Default rule'
+      id: user.id,
+      role: user.role,
+      email: user.email,
+      createdAt: user.createdAt,
+      subscriptionTier: subscription?.tier,
+      communityIds: memberships.map(membership => membership.communityId)
     };
   }
 
@@ -673,10 +742,12 @@ export class FeatureFlagsService {
     };
   }
 
-  async getExperimentAnalytics(experimentId: string): Promise<{
+  async getExperimentAnalytics(experimentId: string, options?: { confidence?: number }): Promise<{
     totalParticipants: number;
     variantDistribution: Array<{ variant: string; count: number; percentage: number }>;
-    metrics: Array<{ name: string; type: 'primary' | 'secondary'; data: any }>;
+    metrics: ExperimentMetricResult[];
+    sampleRatioMismatch: ReturnType<typeof detectSampleRatioMismatch>;
+    warnings: string[];
   }> {
     const experiment = await prisma.aBExperiment.findUnique({
       where: { id: experimentId },
@@ -687,82 +758,259 @@ export class FeatureFlagsService {
       throw new Error('Experiment not found');
     }
 
-    const variantCounts = experiment.usages.reduce((acc, usage) => {
-      if (usage.variant) {
-        acc[usage.variant] = (acc[usage.variant] || 0) + 1;
+    // A participant is counted once, in the variant of their first exposure
+    const firstExposure = new Map<string, { variant: string; timestamp: Date }>();
+    for (const usage of experiment.usages) {
+      if (!usage.variant) continue;
+      const existing = firstExposure.get(usage.userId);
+      if (!existing || usage.timestamp < existing.timestamp) {
+        firstExposure.set(usage.userId, { variant: usage.variant, timestamp: usage.timestamp });
       }
+    }
+
+    const configuredVariants = (Array.isArray(experiment.variants) ? experiment.variants : []) as Array<{
+      name: string;
+      percentage: number;
+    }>;
+
+    const variantCounts = configuredVariants.reduce((acc, variant) => {
+      acc[variant.name] = 0;
       return acc;
     }, {} as Record<string, number>);
+    for (const exposure of firstExposure.values()) {
+      variantCounts[exposure.variant] = (variantCounts[exposure.variant] || 0) + 1;
+    }
 
-    const totalParticipants = experiment.usages.length;
+    const totalParticipants = firstExposure.size;
     const variantDistribution = Object.entries(variantCounts).map(([variant, count]) => ({
       variant,
       count,
       percentage: totalParticipants > 0 ? (count / totalParticipants) * 100 : 0
     }));
 
+    const warnings: string[] = [];
+
+    const sampleRatioMismatch = detectSampleRatioMismatch(
+      configuredVariants.map(variant => ({
+        variant: variant.name,
+        count: variantCounts[variant.name] || 0,
+        percentage: variant.percentage || 0
+      }))
+    );
+    if (sampleRatioMismatch.detected) {
+      warnings.push(
+        `Sample ratio mismatch detected (p=${sampleRatioMismatch.pValue.toExponential(2)}): ` +
+        'observed assignment differs from the configured split, results may be unreliable'
+      );
+    }
+
+    const unknownVariants = Object.keys(variantCounts).filter(
+      name => !configuredVariants.some(variant => variant.name === name)
+    );
+    if (unknownVariants.length > 0) {
+      warnings.push(`Usage recorded for unconfigured variants: ${unknownVariants.join(', ')}`);
+    }
+
+    const metricDefinitions = (Array.isArray(experiment.metrics) ? experiment.metrics : []) as ExperimentMetric[];
+    if (metricDefinitions.length === 0) {
+      warnings.push('No conversion metrics defined for this experiment');
+    }
+
+    const metrics: ExperimentMetricResult[] = [];
+    for (const metric of metricDefinitions) {
+      const source = metric.source || 'feature_usage';
+      const conversions = await this.getMetricConversions(experiment, metric, firstExposure);
+
+      const samples = Object.keys(variantCounts).map(name => ({
+        name,
+        participants: variantCounts[name],
+        conversions: conversions[name] || 0
+      }));
+      const variants = analyzeVariants(samples, { confidence: options?.confidence });
+
+      const leading = variants
+        .filter(variant => variant.significant && (variant.uplift ?? 0) > 0)
+        .sort((a, b) => b.conversionRate - a.conversionRate)[0];
+
+      metrics.push({
+        name: metric.name,
+        type: metric.type,
+        data: {
+          source,
+          action: source === 'feature_usage' ? metric.action || metric.name : undefined,
+          event: source === 'event' ? metric.event : undefined,
+          variants,
+          leadingVariant: leading ? leading.name : null
+        }
+      });
+    }
+
     return {
       totalParticipants,
       variantDistribution,
-      metrics: [] // TODO: implement when we have metrics data
+      metrics,
+      sampleRatioMismatch,
+      warnings
     };
   }
 
+  async declareExperimentWinner(experimentId: string, variantName: string, options: { promote?: boolean }, adminId: string) {
+    const experiment = await prisma.aBExperiment.findUnique({
+      where: { id: experimentId },
+      include: { featureFlag: true }
+    });
+
+    if (!experiment) {
+      throw new Error('Experiment not found');
+    }
+
+    const variants = (Array.isArray(experiment.variants) ? experiment.variants : []) as Array<{ name: string; value: any }>;
+    const winner = variants.find(variant => variant.name === variantName);
+    if (!winner) {
+      throw new Error('Variant not found in experiment');
+    }
+
+    const updatedExperiment = await prisma.aBExperiment.update({
+      where: { id: experimentId },
+      data: {
+        winnerVariant: winner.name,
+        status: 'COMPLETED',
+        isActive: false,
+        ...(!experiment.endDate ? { endDate: new Date() } : {})
+      }
+    });
+
+    let featureFlag = experiment.featureFlag;
+    if (options.promote) {
+      featureFlag = await prisma.featureFlag.update({
+        where: { id: experiment.featureFlagId },
+        data: {
+          value: winner.value,
+          updatedById: adminId,
+          updatedAt: new Date()
+        }
+      });
+    }
+
+    // Log admin action
+    await logAdminAction(adminId, 'EXPERIMENT_WINNER_DECLARED', experimentId, {
+      name: experiment.name,
+      featureFlagKey: experiment.featureFlag.key,
+      winnerVariant: winner.name,
+      promoted: !!options.promote
+    });
+
+    publishFlagChange({ key: experiment.featureFlag.key, flagId: experiment.featureFlagId, action: 'experiment_completed' });
+
+    return { success: true, data: { experiment: updatedExperiment, featureFlag } };
+  }
+
   /**
    * PRIVATE HELPER METHODS
    */
 
-  private evaluateSegment(conditions: any, userId?: string, context?: any): boolean {
-    try {
-      // Simple rule evaluation - can be extended with a more complex rules engine
-      if (!conditions) return false;
+  private async getMetricConversions(
+    experiment: { featureFlagId: string; startDate: Date | null; endDate: Date | null },
+    metric: ExperimentMetric,
+    firstExposure: Map<string, { variant: string; timestamp: Date }>
+  ): Promise<Record<string, number>> {
+    const userIds = Array.from(firstExposure.keys());
+    if (userIds.length === 0) {
+      return {};
+    }
 
-      // Example conditions might be:
-      // { "rule": "userType", "value": ["premium", "admin"] }
-      // { "rule": "deviceType", "value": ["mobile", "tablet"] }
-      // etc.
+    const timestamp = {
+      ...(experiment.startDate ? { gte: experiment.startDate } : {}),
+      ...(experiment.endDate ? { lte: experiment.endDate } : {})
+    };
 
-      return true; // TODO: implement proper rule evaluation
-    } catch (error) {
-      console.error('Error evaluating segment:', error);
-      return false;
+    let events: Array<{ userId: string; timestamp: Date }> = [];
+    if ((metric.source || 'feature_usage') === 'feature_usage') {
+      const usages = await prisma.featureUsage.findMany({
+        where: {
+          featureFlagId: experiment.featureFlagId,
+          userId: { in: userIds },
+          action: metric.action || metric.name,
+          timestamp
+        },
+        select: { userId: true, timestamp: true }
+      });
+      events = usages;
+    } else if (metric.event === 'enrollment') {
+      const enrollments = await prisma.enrollment.findMany({
+        where: { userId: { in: userIds }, enrolledAt: timestamp },
+        select: { userId: true, enrolledAt: true }
+      });
+      events = enrollments.map(enrollment => ({ userId: enrollment.userId, timestamp: enrollment.enrolledAt }));
+    } else if (metric.event === 'post_created') {
+      const posts = await prisma.post.findMany({
+        where: { authorId: { in: userIds }, createdAt: timestamp },
+        select: { authorId: true, createdAt: true }
+      });
+      events = posts.map(post => ({ userId: post.authorId, timestamp: post.createdAt }));
+    } else if (metric.event === 'payment_succeeded') {
+      const payments = await prisma.payment.findMany({
+        where: { status: 'SUCCEEDED', customer: { userId: { in: userIds } }, createdAt: timestamp },
+        select: { createdAt: true, customer: { select: { userId: true } } }
+      });
+      events = payments.map(payment => ({ userId: payment.customer.userId, timestamp: payment.createdAt }));
     }
-  }
 
-  private getExperimentVariant(experiment: any, userId: string): { name: string; value: any } | null {
-    if (!experiment.variants || !Array.isArray(experiment.variants)) {
-      return null;
+    // Only conversions after the participant first saw the experiment count
+    const converted = new Set<string>();
+    for (const event of events) {
+      const exposure = firstExposure.get(event.userId);
+      if (exposure && event.timestamp >= exposure.timestamp) {
+        converted.add(event.userId);
+      }
     }
 
-    const hash = this.simpleHash(userId + experiment.id);
-    const totalWeight = experiment.variants.reduce((sum: number, variant: any) => sum + (variant.percentage || 0), 0);
+    const conversions: Record<string, number> = {};
+    for (const userId of converted) {
+      const variant = firstExposure.get(userId)!.variant;
+      conversions[variant] = (conversions[variant] || 0) + 1;
+    }
+    return conversions;
+  }
 
-    if (totalWeight === 0) return null;
+  private assertValidMetrics(metrics: ExperimentMetric[]) {
+    const errors: string[] = [];
 
-    let cumulativeWeight = 0;
-    const randomValue = (hash % 100) / 100;
+    if (!Array.isArray(metrics)) {
+      throw new ValidationError('Invalid experiment metrics', ['metrics: must be an array']);
+    }
 
-    for (const variant of experiment.variants) {
-      cumulativeWeight += (variant.percentage || 0) / totalWeight;
-      if (randomValue <= cumulativeWeight) {
-        return {
-          name: variant.name,
-          value: variant.value
-        };
+    metrics.forEach((metric, index) => {
+      const path = `metrics[${index}]`;
+      if (!metric || !metric.name) {
+        errors.push(`${path}.name: required`);
       }
+      if (metric?.type !== 'primary' && metric?.type !== 'secondary') {
+        errors.push(`${path}.type: must be primary or secondary`);
+      }
+      const source = metric?.source || 'feature_usage';
+      if (source !== 'feature_usage' && source !== 'event') {
+        errors.push(`${path}.source: must be feature_usage or event`);
+      }
+      if (source === 'event' && !EXPERIMENT_METRIC_EVENTS.includes(metric.event as ExperimentMetricEvent)) {
+        errors.push(`${path}.event: must be one of ${EXPERIMENT_METRIC_EVENTS.join(', ')}`);
+      }
+    });
+
+    if (metrics.filter(metric => metric?.type === 'primary').length > 1) {
+      errors.push('metrics: only one primary metric is allowed');
     }
 
-    return null;
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid experiment metrics', errors);
+    }
   }
 
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+  private assertValidConditions(conditions: any) {
+    const errors = validateSegmentRule(conditions);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid segment conditions', errors);
     }
-    return Math.abs(hash);
   }
 }
 
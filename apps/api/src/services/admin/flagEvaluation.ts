@@ -0,0 +1,160 @@
+// Pure feature flag evaluation shared by FeatureFlagsService (database-backed,
+// one flag per call) and the in-process FeatureFlagClient (cached, bulk).
+
+import { SegmentContext, evaluateSegmentRule, ruleRequiresUser, validateSegmentRule } from './segmentRules';
+
+export interface EvaluableSegment {
+  id: string;
+  name: string;
+  conditions: any;
+  priority: number;
+}
+
+export interface EvaluableExperiment {
+  id: string;
+  name: string;
+  variants: any;
+}
+
+export interface EvaluableFlag {
+  id: string;
+  key: string;
+  value: any;
+  defaultValue: any;
+  isActive: boolean;
+  isArchived: boolean;
+  rolloutPercentage: number;
+  userIds: string[];
+  segments: EvaluableSegment[];
+  experiments: EvaluableExperiment[];
+}
+
+export interface FlagEvaluation {
+  enabled: boolean;
+  value: any;
+  reason: string;
+  segment?: EvaluableSegment;
+  experiment?: EvaluableExperiment;
+  variant?: { name: string; value: any };
+}
+
+/**
+ * Evaluate a flag for a user. Segments must already be filtered to active ones
+ * and ordered by priority, experiments to running ones.
+ */
+export function evaluateFlag(flag: EvaluableFlag, userId: string | undefined, context: SegmentContext): FlagEvaluation {
+  if (flag.isArchived) {
+    return { enabled: false, value: null, reason: 'Flag not found or archived' };
+  }
+
+  // Check if feature is completely disabled
+  if (!flag.isActive) {
+    return { enabled: false, value: flag.defaultValue, reason: 'Flag disabled' };
+  }
+
+  // Check direct user targeting
+  if (userId && flag.userIds.includes(userId)) {
+    return { enabled: true, value: flag.value, reason: 'Direct targeting' };
+  }
+
+  // Check segmentation rules
+  for (const segment of flag.segments) {
+    const evaluation = evaluateSegment(segment.conditions, context);
+    if (evaluation.matched) {
+      return {
+        enabled: true,
+        value: flag.value,
+        reason: `Segment: ${segment.name} (${evaluation.explanation})`,
+        segment
+      };
+    }
+  }
+
+  // Check rollout percentage
+  if (userId) {
+    const hash = simpleHash(userId + flag.id);
+    const rolloutBucket = (hash % 100) / 100;
+    if (rolloutBucket <= (flag.rolloutPercentage / 100)) {
+      return { enabled: true, value: flag.value, reason: 'Rollout percentage' };
+    }
+  }
+
+  // Check if user is in active experiment
+  if (userId && flag.experiments.length > 0) {
+    for (const experiment of flag.experiments) {
+      const experimentVariant = getExperimentVariant(experiment, userId);
+      if (experimentVariant) {
+        return {
+          enabled: true,
+          value: experimentVariant.value,
+          reason: `Experiment: ${experiment.name}`,
+          experiment,
+          variant: experimentVariant
+        };
+      }
+    }
+  }
+
+  // Default behavior
+  return {
+    enabled: false,
+    value: flag.defaultValue,
+    reason: 'Default rule'
+  };
+}
+
+/**
+ * Whether evaluating the flag's segments needs the user record loaded.
+ */
+export function flagRequiresUser(flag: Pick<EvaluableFlag, 'segments'>): boolean {
+  return flag.segments.some(segment => ruleRequiresUser(segment.conditions));
+}
+
+function evaluateSegment(conditions: any, context: SegmentContext): { matched: boolean; explanation: string } {
+  try {
+    if (!conditions || validateSegmentRule(conditions).length > 0) {
+      return { matched: false, explanation: 'invalid conditions' };
+    }
+
+    return evaluateSegmentRule(conditions, context);
+  } catch (error) {
+    console.error('Error evaluating segment:', error);
+    return { matched: false, explanation: 'evaluation error' };
+  }
+}
+
+function getExperimentVariant(experiment: EvaluableExperiment, userId: string): { name: string; value: any } | null {
+  if (!experiment.variants || !Array.isArray(experiment.variants)) {
+    return null;
+  }
+
+  const hash = simpleHash(userId + experiment.id);
+  const totalWeight = experiment.variants.reduce((sum: number, variant: any) => sum + (variant.percentage || 0), 0);
+
+  if (totalWeight === 0) return null;
+
+  let cumulativeWeight = 0;
+  const randomValue = (hash % 100) / 100;
+
+  for (const variant of experiment.variants) {
+    cumulativeWeight += (variant.percentage || 0) / totalWeight;
+    if (randomValue <= cumulativeWeight) {
+      return {
+        name: variant.name,
+        value: variant.value
+      };
+    }
+  }
+
+  return null;
+}
+
+function simpleHash(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
@@ -0,0 +1,477 @@
+import { prisma } from '../../lib/prisma';
+import { logAdminAction } from '../../utils/auditLogger';
+import { getRequestTotals } from '../../lib/metrics';
+import { ValidationError } from '../../utils/errors';
+import { featureFlagsService } from './featureFlags.service';
+
+export type FlagScheduleType = 'ENABLE' | 'DISABLE' | 'ROLLOUT_RAMP' | 'ARCHIVE';
+
+export interface RampStep {
+  percentage: number;
+  at: string;
+}
+
+export interface CreateFlagScheduleRequest {
+  type: FlagScheduleType;
+  // When the change (or the first ramp step) happens; defaults to now
+  runAt?: Date | string;
+  // Explicit ramp steps, or `percentages` spaced `intervalHours` apart
+  steps?: Array<{ percentage: number; at: Date | string }>;
+  percentages?: number[];
+  intervalHours?: number;
+  // ARCHIVE only: archive this many days after runAt/now
+  archiveAfterDays?: number;
+  // ROLLOUT_RAMP only: server error rate (0-1) that reverts the ramp
+  rollbackThreshold?: number;
+  rollbackMinRequests?: number;
+}
+
+interface MetricsBaseline {
+  total: number;
+  errors: number;
+  takenAt: string;
+}
+
+interface PreviousFlagState {
+  isActive: boolean;
+  rolloutPercentage: number;
+}
+
+const OPEN_STATUSES = ['PENDING', 'ACTIVE', 'PAUSED'];
+
+const FINAL_STEP_MONITOR_MS = 60 * 60 * 1000;
+
+/**
+ * Build the ordered step list for a rollout ramp. Either explicit steps are
+ * given, or a list of percentages that are spaced `intervalHours` apart
+ * starting at `start`. Returns validation errors rather than throwing so the
+ * caller can report all of them at once.
+ */
+export function buildRampSteps(
+  input: Pick<CreateFlagScheduleRequest, 'steps' | 'percentages' | 'intervalHours'>,
+  start: Date
+): { steps: RampStep[]; errors: string[] } {
+  const errors: string[] = [];
+  let steps: RampStep[] = [];
+
+  if (input.steps && input.steps.length > 0) {
+    steps = input.steps.map(step => ({
+      percentage: Number(step.percentage),
+      at: new Date(step.at).toISOString()
+    }));
+  } else if (input.percentages && input.percentages.length > 0) {
+    const intervalHours = input.intervalHours ?? 24;
+    if (!(intervalHours > 0)) {
+      errors.push('intervalHours must be greater than 0');
+    }
+    steps = input.percentages.map((percentage, index) => ({
+      percentage: Number(percentage),
+      at: new Date(start.getTime() + index * intervalHours * 60 * 60 * 1000).toISOString()
+    }));
+  } else {
+    errors.push('A rollout ramp needs steps or percentages');
+    return { steps, errors };
+  }
+
+  steps.forEach((step, index) => {
+    if (!Number.isFinite(step.percentage) || step.percentage < 0 || step.percentage > 100) {
+      errors.push(`steps[${index}].percentage must be between 0 and 100`);
+    }
+    if (Number.isNaN(new Date(step.at).getTime())) {
+      errors.push(`steps[${index}].at must be a valid date`);
+    }
+    if (index > 0) {
+      const previous = steps[index - 1];
+      if (step.percentage <= previous.percentage) {
+        errors.push(`steps[${index}].percentage must be greater than the previous step`);
+      }
+      if (new Date(step.at).getTime() <= new Date(previous.at).getTime()) {
+        errors.push(`steps[${index}].at must be after the previous step`);
+      }
+    }
+  });
+
+  return { steps, errors };
+}
+
+/**
+ * Error rate observed since `baseline`, or null when there is not enough
+ * traffic to judge. Counters reset on restart, so a baseline larger than the
+ * current totals is treated as stale.
+ */
+export function errorRateSince(
+  baseline: MetricsBaseline | null,
+  current: { total: number; errors: number },
+  minRequests: number
+): number | null {
+  if (!baseline || current.total < baseline.total) {
+    return null;
+  }
+  const total = current.total - baseline.total;
+  if (total < minRequests || total === 0) {
+    return null;
+  }
+  return (current.errors - baseline.errors) / total;
+}
+
+export class FlagScheduleService {
+  private processing = false;
+
+  async listSchedules(flagId: string) {
+    const schedules = await prisma.featureFlagSchedule.findMany({
+      where: { featureFlagId: flagId },
+      include: {
+        createdBy: {
+          select: { id: true, email: true, username: true }
+        }
+      },
+      orderBy: { runAt: 'desc' }
+    });
+
+    return { success: true, data: schedules };
+  }
+
+  async createSchedule(flagId: string, data: CreateFlagScheduleRequest, adminId: string) {
+    const flag = await prisma.featureFlag.findUnique({
+      where: { id: flagId }
+    });
+
+    if (!flag) {
+      throw new Error('Feature flag not found');
+    }
+
+    if (flag.isArchived) {
+      throw new Error('Cannot schedule changes for archived feature flag');
+    }
+
+    const now = new Date();
+    let runAt = data.runAt ? new Date(data.runAt) : now;
+    let steps: RampStep[] | undefined;
+    const errors: string[] = [];
+
+    if (Number.isNaN(runAt.getTime())) {
+      errors.push('runAt must be a valid date');
+      runAt = now;
+    }
+
+    if (data.type === 'ARCHIVE' && data.archiveAfterDays !== undefined) {
+      runAt = new Date(runAt.getTime() + data.archiveAfterDays * 24 * 60 * 60 * 1000);
+    }
+
+    if (data.type === 'ROLLOUT_RAMP') {
+      const ramp = buildRampSteps(data, runAt);
+      errors.push(...ramp.errors);
+      steps = ramp.steps;
+      if (steps.length > 0) {
+        runAt = new Date(steps[0].at);
+      }
+    }
+
+    if (data.rollbackThreshold !== undefined && data.type !== 'ROLLOUT_RAMP') {
+      errors.push('rollbackThreshold is only supported for rollout ramps');
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid schedule', errors);
+    }
+
+    const schedule = await prisma.featureFlagSchedule.create({
+      data: {
+        featureFlagId: flagId,
+        type: data.type,
+        runAt,
+        steps: steps as any,
+        rollbackThreshold: data.rollbackThreshold,
+        rollbackMinRequests: data.rollbackMinRequests ?? 100,
+        createdById: adminId
+      }
+    });
+
+    await logAdminAction(adminId, 'FEATURE_FLAG_SCHEDULE_CREATED', flagId, {
+      scheduleId: schedule.id,
+      key: flag.key,
+      type: data.type,
+      runAt,
+      steps
+    });
+
+    return { success: true, data: schedule };
+  }
+
+  async pauseSchedule(scheduleId: string, adminId: string) {
+    const schedule = await this.getOpenSchedule(scheduleId);
+
+    if (schedule.status === 'PAUSED') {
+      throw new Error('Schedule is already paused');
+    }
+
+    const updated = await prisma.featureFlagSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'PAUSED' }
+    });
+
+    await logAdminAction(adminId, 'FEATURE_FLAG_SCHEDULE_PAUSED', schedule.featureFlagId, {
+      scheduleId,
+      currentStep: schedule.currentStep
+    });
+
+    return { success: true, data: updated };
+  }
+
+  async resumeSchedule(scheduleId: string, adminId: string) {
+    const schedule = await this.getOpenSchedule(scheduleId);
+
+    if (schedule.status !== 'PAUSED') {
+      throw new Error('Schedule is not paused');
+    }
+
+    // Push the remaining ramp steps back by the time spent paused so a long
+    // pause does not fire several steps in a row on resume.
+    const pausedForMs = Date.now() - new Date(schedule.updatedAt).getTime();
+    const steps = (schedule.steps as RampStep[] | null)?.map((step, index) => index < schedule.currentStep
+      ? step
+      : { ...step, at: new Date(new Date(step.at).getTime() + pausedForMs).toISOString() });
+
+    const updated = await prisma.featureFlagSchedule.update({
+      where: { id: scheduleId },
+      data: {
+        status: schedule.currentStep > 0 ? 'ACTIVE' : 'PENDING',
+        runAt: new Date(new Date(schedule.runAt).getTime() + pausedForMs),
+        steps: steps as any
+      }
+    });
+
+    await logAdminAction(adminId, 'FEATURE_FLAG_SCHEDULE_RESUMED', schedule.featureFlagId, {
+      scheduleId,
+      currentStep: schedule.currentStep
+    });
+
+    return { success: true, data: updated };
+  }
+
+  async cancelSchedule(scheduleId: string, adminId: string) {
+    const schedule = await this.getOpenSchedule(scheduleId);
+
+    const updated = await prisma.featureFlagSchedule.update({
+      where: { id: scheduleId },
+      data: { status: 'CANCELLED', completedAt: new Date() }
+    });
+
+    await logAdminAction(adminId, 'FEATURE_FLAG_SCHEDULE_CANCELLED', schedule.featureFlagId, {
+      scheduleId,
+      currentStep: schedule.currentStep
+    });
+
+    return { success: true, data: updated };
+  }
+
+  /**
+   * Run from cron every minute. Starts due schedules, advances active ramps
+   * by at most one step per run and rolls ramps back when the error rate
+   * since the last step crosses the schedule's threshold.
+   *
+   * Error rates come from this process's request metrics, so with several
+   * API instances each one judges only the traffic it served.
+   */
+  async processDueSchedules() {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const now = new Date();
+      const schedules = await prisma.featureFlagSchedule.findMany({
+        where: {
+          OR: [
+            { status: 'PENDING', runAt: { lte: now } },
+            { status: 'ACTIVE' }
+          ]
+        },
+        orderBy: { runAt: 'asc' }
+      });
+
+      for (const schedule of schedules) {
+        try {
+          if (schedule.status === 'PENDING') {
+            await this.startSchedule(schedule);
+          } else {
+            await this.advanceRamp(schedule, now);
+          }
+        } catch (error: any) {
+          console.error(`Failed to process feature flag schedule ${schedule.id}:`, error);
+          await prisma.featureFlagSchedule.update({
+            where: { id: schedule.id },
+            data: { status: 'FAILED', lastError: error.message, completedAt: new Date() }
+          });
+          await logAdminAction(schedule.createdById, 'FEATURE_FLAG_SCHEDULE_FAILED', schedule.featureFlagId, {
+            scheduleId: schedule.id,
+            error: error.message
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to process feature flag schedules:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async startSchedule(schedule: any) {
+    const flag = await prisma.featureFlag.findUnique({
+      where: { id: schedule.featureFlagId }
+    });
+
+    if (!flag) {
+      throw new Error('Feature flag not found');
+    }
+
+    const previousState: PreviousFlagState = {
+      isActive: flag.isActive,
+      rolloutPercentage: flag.rolloutPercentage
+    };
+
+    // Claim the schedule so a second instance running the same cron skips it
+    const claimed = await prisma.featureFlagSchedule.updateMany({
+      where: { id: schedule.id, status: 'PENDING' },
+      data: {
+        status: schedule.type === 'ROLLOUT_RAMP' ? 'ACTIVE' : 'COMPLETED',
+        previousState: previousState as any,
+        completedAt: schedule.type === 'ROLLOUT_RAMP' ? null : new Date()
+      }
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    switch (schedule.type) {
+      case 'ENABLE':
+      case 'DISABLE':
+        await featureFlagsService.toggleFeatureFlag(flag.id, schedule.type === 'ENABLE', schedule.createdById);
+        break;
+      case 'ARCHIVE':
+        await featureFlagsService.deleteFeatureFlag(flag.id, schedule.createdById);
+        break;
+      case 'ROLLOUT_RAMP':
+        await this.advanceRamp({ ...schedule, status: 'ACTIVE', previousState }, new Date());
+        return;
+    }
+
+    await logAdminAction(schedule.createdById, 'FEATURE_FLAG_SCHEDULE_EXECUTED', flag.id, {
+      scheduleId: schedule.id,
+      key: flag.key,
+      type: schedule.type,
+      previousState
+    });
+  }
+
+  private async advanceRamp(schedule: any, now: Date) {
+    const steps: RampStep[] = schedule.steps || [];
+    const monitored = schedule.rollbackThreshold !== null && schedule.rollbackThreshold !== undefined;
+    let errorRate: number | null = null;
+
+    if (monitored && schedule.currentStep > 0) {
+      errorRate = errorRateSince(schedule.metricsBaseline, getRequestTotals(), schedule.rollbackMinRequests);
+      if (errorRate !== null && errorRate >= schedule.rollbackThreshold) {
+        await this.rollBack(schedule, errorRate);
+        return;
+      }
+    }
+
+    if (schedule.currentStep >= steps.length) {
+      // Keep watching the final step until enough traffic has been seen, for
+      // at most the monitoring window
+      const baselineAt = schedule.metricsBaseline?.takenAt ? new Date(schedule.metricsBaseline.takenAt).getTime() : 0;
+      if (monitored && errorRate === null && now.getTime() - baselineAt < FINAL_STEP_MONITOR_MS) {
+        return;
+      }
+
+      await prisma.featureFlagSchedule.updateMany({
+        where: { id: schedule.id, status: 'ACTIVE' },
+        data: { status: 'COMPLETED', completedAt: now }
+      });
+      return;
+    }
+
+    const step = steps[schedule.currentStep];
+    if (new Date(step.at).getTime() > now.getTime()) {
+      return;
+    }
+
+    // Only the instance that moves currentStep forward applies the step
+    const baseline = getRequestTotals();
+    const claimed = await prisma.featureFlagSchedule.updateMany({
+      where: { id: schedule.id, status: 'ACTIVE', currentStep: schedule.currentStep },
+      data: {
+        currentStep: schedule.currentStep + 1,
+        metricsBaseline: { ...baseline, takenAt: now.toISOString() },
+        ...(schedule.currentStep + 1 >= steps.length && !monitored
+          ? { status: 'COMPLETED', completedAt: now }
+          : {})
+      }
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    await featureFlagsService.updateFeatureFlag(schedule.featureFlagId, {
+      isActive: true,
+      rolloutPercentage: step.percentage
+    }, schedule.createdById);
+
+    await logAdminAction(schedule.createdById, 'FEATURE_FLAG_RAMP_STEP', schedule.featureFlagId, {
+      scheduleId: schedule.id,
+      step: schedule.currentStep + 1,
+      totalSteps: steps.length,
+      rolloutPercentage: step.percentage
+    });
+  }
+
+  private async rollBack(schedule: any, errorRate: number) {
+    const claimed = await prisma.featureFlagSchedule.updateMany({
+      where: { id: schedule.id, status: 'ACTIVE' },
+      data: {
+        status: 'ROLLED_BACK',
+        completedAt: new Date(),
+        lastError: `Error rate ${(errorRate * 100).toFixed(2)}% exceeded threshold ${(schedule.rollbackThreshold * 100).toFixed(2)}%`
+      }
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const previousState: PreviousFlagState | null = schedule.previousState;
+    if (previousState) {
+      await featureFlagsService.updateFeatureFlag(schedule.featureFlagId, {
+        isActive: previousState.isActive,
+        rolloutPercentage: previousState.rolloutPercentage
+      }, schedule.createdById);
+    }
+
+    await logAdminAction(schedule.createdById, 'FEATURE_FLAG_RAMP_ROLLED_BACK', schedule.featureFlagId, {
+      scheduleId: schedule.id,
+      step: schedule.currentStep,
+      errorRate,
+      threshold: schedule.rollbackThreshold,
+      restoredState: previousState
+    });
+  }
+
+  private async getOpenSchedule(scheduleId: string) {
+    const schedule = await prisma.featureFlagSchedule.findUnique({
+      where: { id: scheduleId }
+    });
+
+    if (!schedule) {
+      throw new Error('Schedule not found');
+    }
+
+    if (!OPEN_STATUSES.includes(schedule.status)) {
+      throw new Error(`Schedule is already ${schedule.status.toLowerCase()}`);
+    }
+
+    return schedule;
+  }
+}
+
+export const flagScheduleService = new FlagScheduleService();
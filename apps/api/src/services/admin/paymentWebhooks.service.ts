@@ -0,0 +1,74 @@
+import { logAdminAction } from '../../utils/auditLogger';
+
+export interface WebhookEventFilters {
+  status?: string[];
+  type?: string;
+  page?: number;
+  limit?: number;
+}
+
+// By default admins see the events that need attention
+const DEFAULT_STATUSES = ['FAILED', 'DEAD'];
+
+function loadWebhookService() {
+  // The payment package is optional, as in index.ts
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return require('@sk-clone/payment').webhookService;
+  } catch {
+    return null;
+  }
+}
+
+export class PaymentWebhooksService {
+  async listEvents(filters: WebhookEventFilters) {
+    return await this.webhooks().listEvents({
+      ...filters,
+      status: filters.status?.length ? filters.status : DEFAULT_STATUSES,
+    });
+  }
+
+  async getEvent(id: string) {
+    const event = await this.webhooks().getEvent(id);
+    if (!event) {
+      throw new Error('Webhook event not found');
+    }
+    return event;
+  }
+
+  async replayEvent(id: string, adminId: string) {
+    const result = await this.webhooks().replayEvent(id);
+
+    await logAdminAction(adminId, 'PAYMENT_WEBHOOK_REPLAYED', id, {
+      eventId: result.eventId,
+      type: result.type,
+      error: result.error,
+    });
+
+    return result;
+  }
+
+  /** Retry failed events that are due. Run from cron; a no-op without payments. */
+  async retryDueEvents() {
+    const webhooks = loadWebhookService();
+    if (!webhooks) {
+      return null;
+    }
+    try {
+      return await webhooks.retryDueEvents();
+    } catch (error) {
+      console.error('Failed to retry payment webhooks:', error);
+      return null;
+    }
+  }
+
+  private webhooks() {
+    const webhooks = loadWebhookService();
+    if (!webhooks) {
+      throw new Error('Payments are not enabled');
+    }
+    return webhooks;
+  }
+}
+
+export const paymentWebhooksService = new PaymentWebhooksService();
@@ -0,0 +1,355 @@
+// Segment rule language for feature flag targeting.
+//
+// A segment's `conditions` JSON is a tree of rules. Composite nodes combine
+// child rules with AND/OR/NOT, leaf nodes compare one attribute of the
+// evaluation context against a value:
+//
+//   {
+//     "all": [
+//       { "attribute": "user.role", "operator": "in", "value": ["ADMIN", "MODERATOR"] },
+//       { "not": { "attribute": "geo.country", "operator": "eq", "value": "US" } },
+//       { "any": [
+//         { "attribute": "user.accountAgeDays", "operator": "gte", "value": 30 },
+//         { "attribute": "user.communities", "operator": "contains", "value": "community-id" }
+//       ] }
+//     ]
+//   }
+
+export type SegmentOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'matches'
+  | 'exists';
+
+export type SegmentAttribute =
+  | 'user.id'
+  | 'user.role'
+  | 'user.accountAgeDays'
+  | 'user.emailDomain'
+  | 'user.subscriptionTier'
+  | 'user.communities'
+  | 'device.type'
+  | 'device.os'
+  | 'device.browser'
+  | 'geo.country'
+  | `custom.${string}`;
+
+export interface SegmentCondition {
+  attribute: SegmentAttribute;
+  operator: SegmentOperator;
+  value?: any;
+}
+
+export type SegmentRule =
+  | { all: SegmentRule[] }
+  | { any: SegmentRule[] }
+  | { not: SegmentRule }
+  | SegmentCondition;
+
+export interface SegmentUserContext {
+  id: string;
+  role?: string | null;
+  email?: string | null;
+  createdAt?: Date | null;
+  subscriptionTier?: string | null;
+  communityIds?: string[];
+}
+
+export interface SegmentDeviceContext {
+  type: 'mobile' | 'tablet' | 'desktop' | 'bot' | 'unknown';
+  os: string;
+  browser: string;
+}
+
+export interface SegmentContext {
+  user?: SegmentUserContext;
+  device?: SegmentDeviceContext;
+  country?: string;
+  attributes?: Record<string, any>;
+  now?: Date;
+}
+
+export interface SegmentEvaluation {
+  matched: boolean;
+  explanation: string;
+}
+
+const MAX_RULE_DEPTH = 10;
+
+const OPERATORS: SegmentOperator[] = [
+  'eq', 'neq', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte',
+  'contains', 'starts_with', 'ends_with', 'matches', 'exists'
+];
+
+const ATTRIBUTES: SegmentAttribute[] = [
+  'user.id',
+  'user.role',
+  'user.accountAgeDays',
+  'user.emailDomain',
+  'user.subscriptionTier',
+  'user.communities',
+  'device.type',
+  'device.os',
+  'device.browser',
+  'geo.country'
+];
+
+const LIST_OPERATORS: SegmentOperator[] = ['in', 'not_in'];
+const NUMERIC_OPERATORS: SegmentOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validate a segment rule tree. Returns a list of problems, empty when valid.
+ */
+export function validateSegmentRule(rule: any, path = 'conditions', depth = 0): string[] {
+  if (depth > MAX_RULE_DEPTH) {
+    return [`${path}: rules cannot be nested more than ${MAX_RULE_DEPTH} levels deep`];
+  }
+
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return [`${path}: rule must be an object`];
+  }
+
+  if ('all' in rule || 'any' in rule) {
+    const key = 'all' in rule ? 'all' : 'any';
+    const children = rule[key];
+    if (!Array.isArray(children) || children.length === 0) {
+      return [`${path}.${key}: must be a non-empty array of rules`];
+    }
+    return children.flatMap((child: any, index: number) =>
+      validateSegmentRule(child, `${path}.${key}[${index}]`, depth + 1)
+    );
+  }
+
+  if ('not' in rule) {
+    return validateSegmentRule(rule.not, `${path}.not`, depth + 1);
+  }
+
+  const errors: string[] = [];
+  const { attribute, operator, value } = rule;
+
+  if (typeof attribute !== 'string' || !isKnownAttribute(attribute)) {
+    errors.push(`${path}.attribute: unknown attribute "${attribute}"`);
+  }
+
+  if (!OPERATORS.includes(operator)) {
+    errors.push(`${path}.operator: unknown operator "${operator}"`);
+    return errors;
+  }
+
+  if (operator === 'exists') {
+    return errors;
+  }
+
+  if (value === undefined) {
+    errors.push(`${path}.value: required for operator "${operator}"`);
+  } else if (LIST_OPERATORS.includes(operator) && !Array.isArray(value)) {
+    errors.push(`${path}.value: must be an array for operator "${operator}"`);
+  } else if (NUMERIC_OPERATORS.includes(operator) && typeof value !== 'number') {
+    errors.push(`${path}.value: must be a number for operator "${operator}"`);
+  } else if (operator === 'matches') {
+    try {
+      new RegExp(value);
+    } catch {
+      errors.push(`${path}.value: invalid regular expression`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Evaluate a segment rule tree against a context. The explanation describes
+ * which conditions decided the outcome, e.g. `user.role in [ADMIN] (was ADMIN)`.
+ */
+export function evaluateSegmentRule(rule: SegmentRule, context: SegmentContext): SegmentEvaluation {
+  if ('all' in rule) {
+    const explanations: string[] = [];
+    for (const child of rule.all) {
+      const result = evaluateSegmentRule(child, context);
+      if (!result.matched) {
+        return { matched: false, explanation: result.explanation };
+      }
+      explanations.push(result.explanation);
+    }
+    return { matched: true, explanation: explanations.join(' AND ') };
+  }
+
+  if ('any' in rule) {
+    const explanations: string[] = [];
+    for (const child of rule.any) {
+      const result = evaluateSegmentRule(child, context);
+      if (result.matched) {
+        return { matched: true, explanation: result.explanation };
+      }
+      explanations.push(result.explanation);
+    }
+    return { matched: false, explanation: `none of (${explanations.join(' OR ')})` };
+  }
+
+  if ('not' in rule) {
+    const result = evaluateSegmentRule(rule.not, context);
+    return { matched: !result.matched, explanation: `NOT (${result.explanation})` };
+  }
+
+  const actual = resolveAttribute(rule.attribute, context);
+  const matched = compare(actual, rule.operator, rule.value);
+  const expected = rule.operator === 'exists' ? '' : ` ${formatValue(rule.value)}`;
+
+  return {
+    matched,
+    explanation: `${rule.attribute} ${rule.operator}${expected} (was ${formatValue(actual)})`
+  };
+}
+
+/**
+ * Whether any condition in the tree needs the user record loaded.
+ */
+export function ruleRequiresUser(rule: any): boolean {
+  if (!rule || typeof rule !== 'object') return false;
+  if (Array.isArray(rule.all)) return rule.all.some(ruleRequiresUser);
+  if (Array.isArray(rule.any)) return rule.any.some(ruleRequiresUser);
+  if (rule.not) return ruleRequiresUser(rule.not);
+  return typeof rule.attribute === 'string' && rule.attribute.startsWith('user.') && rule.attribute !== 'user.id';
+}
+
+/**
+ * Classify a user-agent string into device type, OS and browser.
+ */
+export function parseUserAgent(userAgent?: string): SegmentDeviceContext {
+  if (!userAgent) {
+    return { type: 'unknown', os: 'unknown', browser: 'unknown' };
+  }
+
+  const ua = userAgent.toLowerCase();
+
+  let type: SegmentDeviceContext['type'] = 'desktop';
+  if (/bot|crawler|spider|slurp|headless/.test(ua)) {
+    type = 'bot';
+  } else if (/ipad|tablet|kindle|silk|(android(?!.*mobile))/.test(ua)) {
+    type = 'tablet';
+  } else if (/mobi|iphone|ipod|android|windows phone/.test(ua)) {
+    type = 'mobile';
+  }
+
+  let os = 'unknown';
+  if (/windows/.test(ua)) os = 'windows';
+  else if (/iphone|ipad|ipod|ios/.test(ua)) os = 'ios';
+  else if (/android/.test(ua)) os = 'android';
+  else if (/mac os x|macintosh/.test(ua)) os = 'macos';
+  else if (/cros/.test(ua)) os = 'chromeos';
+  else if (/linux/.test(ua)) os = 'linux';
+
+  let browser = 'unknown';
+  if (/edg\//.test(ua)) browser = 'edge';
+  else if (/opr\/|opera/.test(ua)) browser = 'opera';
+  else if (/firefox|fxios/.test(ua)) browser = 'firefox';
+  else if (/chrome|crios/.test(ua)) browser = 'chrome';
+  else if (/safari/.test(ua)) browser = 'safari';
+
+  return { type, os, browser };
+}
+
+function isKnownAttribute(attribute: string): boolean {
+  return ATTRIBUTES.includes(attribute as SegmentAttribute) || /^custom\.[a-zA-Z0-9_.-]+$/.test(attribute);
+}
+
+function resolveAttribute(attribute: SegmentAttribute, context: SegmentContext): any {
+  const { user, device } = context;
+
+  switch (attribute) {
+    case 'user.id':
+      return user?.id;
+    case 'user.role':
+      return user?.role ?? undefined;
+    case 'user.accountAgeDays':
+      if (!user?.createdAt) return undefined;
+      return Math.floor(((context.now || new Date()).getTime() - new Date(user.createdAt).getTime()) / DAY_MS);
+    case 'user.emailDomain':
+      return user?.email ? user.email.split('@').pop()?.toLowerCase() : undefined;
+    case 'user.subscriptionTier':
+      return user ? user.subscriptionTier || 'FREE' : undefined;
+    case 'user.communities':
+      return user?.communityIds;
+    case 'device.type':
+      return device?.type;
+    case 'device.os':
+      return device?.os;
+    case 'device.browser':
+      return device?.browser;
+    case 'geo.country':
+      return context.country?.toUpperCase();
+    default:
+      return context.attributes?.[attribute.slice('custom.'.length)];
+  }
+}
+
+function compare(actual: any, operator: SegmentOperator, expected: any): boolean {
+  if (operator === 'exists') {
+    const exists = actual !== undefined && actual !== null;
+    return expected === false ? !exists : exists;
+  }
+
+  if (actual === undefined || actual === null) {
+    return operator === 'neq' || operator === 'not_in';
+  }
+
+  switch (operator) {
+    case 'eq':
+      return Array.isArray(actual) ? actual.some(item => looseEquals(item, expected)) : looseEquals(actual, expected);
+    case 'neq':
+      return Array.isArray(actual) ? !actual.some(item => looseEquals(item, expected)) : !looseEquals(actual, expected);
+    case 'in':
+      return (expected as any[]).some(item =>
+        Array.isArray(actual) ? actual.some(a => looseEquals(a, item)) : looseEquals(actual, item)
+      );
+    case 'not_in':
+      return !(expected as any[]).some(item =>
+        Array.isArray(actual) ? actual.some(a => looseEquals(a, item)) : looseEquals(actual, item)
+      );
+    case 'gt':
+      return Number(actual) > expected;
+    case 'gte':
+      return Number(actual) >= expected;
+    case 'lt':
+      return Number(actual) < expected;
+    case 'lte':
+      return Number(actual) <= expected;
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(item => looseEquals(item, expected))
+        : String(actual).toLowerCase().includes(String(expected).toLowerCase());
+    case 'starts_with':
+      return String(actual).toLowerCase().startsWith(String(expected).toLowerCase());
+    case 'ends_with':
+      return String(actual).toLowerCase().endsWith(String(expected).toLowerCase());
+    case 'matches':
+      return new RegExp(expected).test(String(actual));
+    default:
+      return false;
+  }
+}
+
+// Strings compare case-insensitively so "admin" matches the ADMIN role
+function looseEquals(a: any, b: any): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a === b;
+}
+
+function formatValue(value: any): string {
+  if (value === undefined || value === null) return 'unset';
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  return String(value);
+}
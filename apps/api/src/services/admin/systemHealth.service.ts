@@ -252,7 +252,7 @@ export class SystemHealthService {
           status: responseTime > 5000 ? 'unhealthy' : 'healthy',
           responseTime,
           connected: true,
-          clusterHealth: health.body.status
+          clusterHealth: health.status
         };
       } catch (error) {
         services.elasticsearch = {
@@ -1,5 +1,6 @@
 import { prisma } from '../../lib/prisma';
 import { logAdminAction, logSecurityEvent } from '../../utils/auditLogger';
+import { socketService } from '../socket.service';
 import { UserRole } from '@prisma/client';
 
 interface CreateUserRequest {
@@ -264,6 +265,7 @@ export class UsersService {
         isActive: false
       }
     });
+    socketService?.disconnectUser(userId, 'account_disabled');
 
     // Log admin action
     await logAdminAction(adminId, 'USER_DELETED', userId, {
@@ -310,6 +312,7 @@ export class UsersService {
       where: { id: userId },
       data: { isActive: false }
     });
+    socketService?.disconnectUser(userId, 'account_disabled');
 
     // Log admin action
     await logAdminAction(adminId, 'USER_BANNED', userId, {
@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { eventService } from './eventService';
+import { NotFoundError } from '../utils/errors';
+import { buildCalendar, ICalEvent } from '../utils/ical';
+import { parseRRule } from '../utils/rrule';
+
+// rsvps: events the user RSVPed to; communities: every event in their communities
+export type CalendarFeedScope = 'rsvps' | 'communities';
+
+export const FEED_SCOPES: CalendarFeedScope[] = ['rsvps', 'communities'];
+
+// Feeds keep events that ended this recently, so they don't vanish from
+// calendars the moment they're over
+const FEED_HISTORY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UID_DOMAIN = 'skool';
+
+interface CalendarEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  meetingUrl: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  createdAt: Date;
+  occurrenceStart: Date | null;
+  cancelledAt: Date | null;
+  community: { slug: string };
+}
+
+interface CalendarSeries {
+  id: string;
+  title: string;
+  description: string | null;
+  location: string | null;
+  meetingUrl: string | null;
+  rrule: string;
+  timezone: string;
+  startsAt: Date;
+  endsAt: Date;
+  createdAt: Date;
+  community: { slug: string };
+  occurrences: CalendarEvent[];
+}
+
+const appUrl = () => process.env.APP_URL || 'http://localhost:3000';
+const apiUrl = () => process.env.API_URL || 'http://localhost:4000';
+
+function generateFeedToken() {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export class CalendarService {
+  /**
+   * An .ics file for one event. For an occurrence of a recurring event,
+   * `series` exports the whole series instead. Events the user can't see
+   * don't exist.
+   */
+  async exportEvent(eventId: string, userId: string, options: { series?: boolean } = {}) {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: { community: true },
+    });
+
+    if (!event || !(await eventService.canViewEvents(event.communityId, userId))) {
+      throw new NotFoundError('Event not found');
+    }
+
+    if (options.series && event.seriesId) {
+      const series: CalendarSeries = await prisma.eventSeries.findUnique({
+        where: { id: event.seriesId },
+        include: this.seriesInclude(),
+      });
+
+      return {
+        filename: `${this.slugify(series.title)}.ics`,
+        content: buildCalendar(this.toSeriesEvents(series), { name: series.title }),
+      };
+    }
+
+    return {
+      filename: `${this.slugify(event.title)}.ics`,
+      content: buildCalendar([this.toICalEvent(event)], { name: event.title }),
+    };
+  }
+
+  async getFeed(userId: string) {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { userId },
+    });
+
+    return feed ? this.toFeed(feed) : null;
+  }
+
+  /** Create the user's private feed URL, replacing (and so revoking) any earlier one. */
+  async createFeed(userId: string) {
+    const token = generateFeedToken();
+
+    const feed = await prisma.calendarFeed.upsert({
+      where: { userId },
+      create: { userId, token },
+      update: { token, createdAt: new Date(), lastAccessedAt: null },
+    });
+
+    return this.toFeed(feed);
+  }
+
+  async revokeFeed(userId: string) {
+    const { count } = await prisma.calendarFeed.deleteMany({
+      where: { userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundError('No calendar feed to revoke');
+    }
+  }
+
+  /** The calendar behind a feed URL. The token is the only credential. */
+  async renderFeed(token: string, scope: CalendarFeedScope = 'rsvps') {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { token },
+    });
+
+    if (!feed) {
+      throw new NotFoundError('Calendar feed not found');
+    }
+
+    await prisma.calendarFeed.update({
+      where: { id: feed.id },
+      data: { lastAccessedAt: new Date() },
+    });
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+    const events = scope === 'communities'
+      ? await this.communityEvents(feed.userId, since)
+      : await this.rsvpEvents(feed.userId, since);
+
+    return buildCalendar(events, {
+      name: scope === 'communities' ? 'Community events' : 'My events',
+    });
+  }
+
+  private async rsvpEvents(userId: string, since: Date): Promise<ICalEvent[]> {
+    const rsvps: Array<{ status: string; event: CalendarEvent }> = await prisma.eventAttendee.findMany({
+      where: {
+        userId,
+        status: { not: 'declined' },
+        event: { endsAt: { gte: since } },
+      },
+      include: {
+        event: {
+          include: { community: true },
+        },
+      },
+    });
+
+    // Only confirmed RSVPs are definite; maybes and waitlist places are tentative
+    return rsvps.map(rsvp => this.toICalEvent(rsvp.event, rsvp.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE'));
+  }
+
+  private async communityEvents(userId: string, since: Date): Promise<ICalEvent[]> {
+    const inMyCommunities = { community: { members: { some: { userId } } } };
+
+    const [events, series]: [CalendarEvent[], CalendarSeries[]] = await Promise.all([
+      prisma.event.findMany({
+        where: {
+          ...inMyCommunities,
+          seriesId: null,
+          endsAt: { gte: since },
+        },
+        include: { community: true },
+      }),
+      prisma.eventSeries.findMany({
+        where: inMyCommunities,
+        include: this.seriesInclude(),
+      }),
+    ]);
+
+    const current = series.filter(item => {
+      const { until } = parseRRule(item.rrule);
+      return !until || until >= since;
+    });
+
+    return [
+      ...events.map(event => this.toICalEvent(event)),
+      ...current.flatMap(item => this.toSeriesEvents(item)),
+    ];
+  }
+
+  // Occurrences that differ from the series: edited or cancelled ones
+  private seriesInclude() {
+    return {
+      community: true,
+      occurrences: {
+        where: {
+          OR: [{ isOverride: true }, { cancelledAt: { not: null } }],
+        },
+        include: { community: true },
+      },
+    };
+  }
+
+  /** The series' master event with its rule, plus an override for each occurrence that differs. */
+  private toSeriesEvents(series: CalendarSeries): ICalEvent[] {
+    const uid = `series-${series.id}@${UID_DOMAIN}`;
+
+    return [
+      {
+        uid,
+        start: series.startsAt,
+        end: series.endsAt,
+        summary: series.title,
+        description: series.description,
+        location: series.location ?? series.meetingUrl,
+        url: `${appUrl()}/communities/${series.community.slug}/events`,
+        status: 'CONFIRMED',
+        rrule: series.rrule,
+        created: series.createdAt,
+        timeZone: series.timezone,
+      },
+      ...series.occurrences.map(occurrence => ({
+        ...this.toICalEvent(occurrence),
+        uid,
+        recurrenceId: occurrence.occurrenceStart!,
+        timeZone: series.timezone,
+      })),
+    ];
+  }
+
+  private toICalEvent(event: CalendarEvent, status: 'CONFIRMED' | 'TENTATIVE' = 'CONFIRMED'): ICalEvent {
+    return {
+      uid: `event-${event.id}@${UID_DOMAIN}`,
+      start: event.startsAt,
+      end: event.endsAt,
+      summary: event.title,
+      description: event.description,
+      location: event.location ?? event.meetingUrl,
+      url: `${appUrl()}/communities/${event.community.slug}/events/${event.id}`,
+      status: event.cancelledAt ? 'CANCELLED' : status,
+      created: event.createdAt,
+    };
+  }
+
+  private toFeed(feed: { token: string; createdAt: Date; lastAccessedAt: Date | null }) {
+    const url = `${apiUrl()}/api/calendar/feeds/${feed.token}.ics`;
+
+    return {
+      urls: {
+        rsvps: url,
+        communities: `${url}?scope=communities`,
+      },
+      createdAt: feed.createdAt,
+      lastAccessedAt: feed.lastAccessedAt,
+    };
+  }
+
+  private slugify(title: string) {
+    return title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'event';
+  }
+}
+
+export const calendarService = new CalendarService();
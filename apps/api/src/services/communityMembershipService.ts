@@ -0,0 +1,208 @@
+import { prisma } from '../lib/prisma';
+import { logAuditEvent } from '../utils/auditLogger';
+import { notificationService } from './notification.service';
+import { memberService } from './memberService';
+
+export type BillingCycle = 'month' | 'year';
+
+export interface CommunityAccess {
+  allowed: boolean;
+  reason?: 'not_found' | 'subscription_required' | 'payment_past_due';
+  graceEndsAt?: Date | null;
+}
+
+// How long a member keeps access after a failed renewal before removal
+const GRACE_PERIOD_DAYS = parseInt(process.env.COMMUNITY_GRACE_PERIOD_DAYS || '7', 10);
+
+// Staff keep access to paid communities without a subscription
+const STAFF_ROLES = ['owner', 'admin', 'moderator'];
+
+const ACTIVE_STATUSES = ['ACTIVE', 'TRIALING'];
+const ENDED_STATUSES = ['CANCELED', 'UNPAID', 'INCOMPLETE_EXPIRED'];
+
+function loadPaymentPackage() {
+  // Loaded lazily like the payment routes: the payment package is optional
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require('@sk-clone/payment');
+}
+
+export class CommunityMembershipService {
+  /**
+   * Start a checkout for a paid community. Membership is created when the
+   * payment provider reports the subscription as active.
+   */
+  async createCheckout(communityId: string, user: { id: string; email: string }, interval: BillingCycle) {
+    const community = await prisma.community.findUnique({ where: { id: communityId } });
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+    if (!community.isPaid) {
+      throw new Error('Community is free to join');
+    }
+
+    const price = interval === 'year' ? community.priceYearly : community.priceMonthly;
+    if (!price) {
+      throw new Error('No price set for this billing interval');
+    }
+
+    const member = await prisma.communityMember.findUnique({
+      where: { communityId_userId: { communityId, userId: user.id } },
+    });
+    if (member && member.status === 'active') {
+      throw new Error('Already a member');
+    }
+
+    const { subscriptionService } = loadPaymentPackage();
+    const session = await subscriptionService.createSubscription({
+      userId: user.id,
+      email: user.email,
+      communityId,
+      amount: Math.round(price * 100),
+      currency: community.currency,
+      interval,
+      description: `${community.name} membership`,
+    });
+
+    await logAuditEvent(user.id, 'COMMUNITY_CHECKOUT_STARTED', 'community', communityId, { interval, price });
+
+    return { sessionUrl: session.url, sessionId: session.id };
+  }
+
+  /**
+   * Bring a member's access in line with their community subscription:
+   * active → member, past due → grace period, ended → removed.
+   */
+  async syncSubscription(subscriptionId: string) {
+    const subscription = await prisma.subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { customer: { select: { userId: true } } },
+    });
+
+    if (!subscription || !subscription.communityId) {
+      return null;
+    }
+
+    const communityId = subscription.communityId;
+    const userId = subscription.customer.userId;
+    const member = await prisma.communityMember.findUnique({
+      where: { communityId_userId: { communityId, userId } },
+    });
+
+    if (ACTIVE_STATUSES.includes(subscription.status)) {
+      if (!member) {
+        await memberService.joinCommunity(communityId, userId);
+        const community = await prisma.community.findUnique({ where: { id: communityId } });
+        if (community) {
+          await notificationService.notifyMemberJoined(community.ownerId, communityId, userId);
+        }
+      }
+      return await prisma.communityMember.update({
+        where: { communityId_userId: { communityId, userId } },
+        data: { status: 'active', subscriptionId, gracePeriodEndsAt: null },
+      });
+    }
+
+    if (!member || STAFF_ROLES.includes(member.role)) {
+      return member;
+    }
+
+    if (subscription.status === 'PAST_DUE') {
+      // Keep an existing grace period rather than restarting it on every retry
+      if (member.status === 'past_due') {
+        return member;
+      }
+      const gracePeriodEndsAt = new Date(Date.now() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+      const updated = await prisma.communityMember.update({
+        where: { communityId_userId: { communityId, userId } },
+        data: { status: 'past_due', subscriptionId, gracePeriodEndsAt },
+      });
+      await notificationService.notifyCommunityMembershipStatus(userId, communityId, 'past_due', gracePeriodEndsAt);
+      await logAuditEvent(userId, 'COMMUNITY_MEMBERSHIP_PAST_DUE', 'community', communityId, {
+        subscriptionId,
+        gracePeriodEndsAt,
+      });
+      return updated;
+    }
+
+    if (ENDED_STATUSES.includes(subscription.status)) {
+      await this.removeMember(communityId, userId, `subscription_${subscription.status.toLowerCase()}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Remove members whose grace period ran out. Run from cron.
+   */
+  async expireGracePeriods() {
+    const expired = await prisma.communityMember.findMany({
+      where: {
+        status: 'past_due',
+        gracePeriodEndsAt: { lte: new Date() },
+      },
+      select: { communityId: true, userId: true },
+    });
+
+    for (const member of expired) {
+      try {
+        await this.removeMember(member.communityId, member.userId, 'grace_period_expired');
+      } catch (error) {
+        console.error(`Failed to remove lapsed member ${member.userId} from ${member.communityId}:`, error);
+      }
+    }
+
+    return expired.length;
+  }
+
+  async checkAccess(communityId: string, userId?: string): Promise<CommunityAccess> {
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: { id: true, isPaid: true },
+    });
+
+    if (!community) {
+      return { allowed: false, reason: 'not_found' };
+    }
+    if (!community.isPaid) {
+      return { allowed: true };
+    }
+    if (!userId) {
+      return { allowed: false, reason: 'subscription_required' };
+    }
+
+    const member = await prisma.communityMember.findUnique({
+      where: { communityId_userId: { communityId, userId } },
+    });
+
+    if (!member) {
+      return { allowed: false, reason: 'subscription_required' };
+    }
+    if (STAFF_ROLES.includes(member.role) || member.status === 'active') {
+      return { allowed: true };
+    }
+    if (member.status === 'past_due' && member.gracePeriodEndsAt && member.gracePeriodEndsAt > new Date()) {
+      return { allowed: true, reason: 'payment_past_due', graceEndsAt: member.gracePeriodEndsAt };
+    }
+
+    return { allowed: false, reason: 'subscription_required' };
+  }
+
+  private async removeMember(communityId: string, userId: string, reason: string) {
+    const member = await prisma.communityMember.findUnique({
+      where: { communityId_userId: { communityId, userId } },
+    });
+    if (!member || STAFF_ROLES.includes(member.role)) {
+      return;
+    }
+
+    await memberService.leaveCommunity(communityId, userId);
+    await notificationService.notifyCommunityMembershipStatus(userId, communityId, 'removed');
+    await logAuditEvent(userId, 'COMMUNITY_MEMBERSHIP_REMOVED', 'community', communityId, {
+      reason,
+      subscriptionId: member.subscriptionId,
+    });
+  }
+}
+
+export const communityMembershipService = new CommunityMembershipService();
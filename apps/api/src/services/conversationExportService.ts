@@ -0,0 +1,453 @@
+import { prisma } from '../lib/prisma';
+import { s3Service } from './s3.service';
+import { notificationService } from './notification.service';
+import { createZip, ZipEntry } from '../utils/zip';
+import { NotFoundError } from '../utils/errors';
+
+// Conversations up to this size are archived during the request; larger ones
+// are queued for cron and the requester is notified when the archive is ready
+export const SYNC_EXPORT_MESSAGE_LIMIT = 500;
+
+// Attachments beyond this total are listed in the archive but not included
+export const MAX_EXPORT_ATTACHMENT_BYTES = 250 * 1024 * 1024;
+
+// Folders user uploads are stored under, as <folder>/<userId>/...
+const UPLOAD_FOLDERS = ['uploads', 'files', 'images'];
+
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DOWNLOAD_URL_TTL_SECONDS = 60 * 60;
+// An export stuck in PROCESSING this long was interrupted and is retried
+const STALE_PROCESSING_MS = 60 * 60 * 1000;
+
+export interface ExportedAttachment {
+  url: string;
+  // Path of the file inside the archive; null when it was not included
+  file: string | null;
+}
+
+export interface ConversationExportData {
+  conversationId: string;
+  type: string;
+  name: string | null;
+  participantCount: number;
+  messageCount: number;
+  exportedAt: string;
+  participants: Array<{
+    id: string;
+    username: string;
+    name: string;
+    joinedAt: Date;
+  }>;
+  messages: Array<{
+    id: string;
+    parentId: string | null;
+    sender: {
+      id: string;
+      username: string;
+      name: string;
+    };
+    content: string;
+    messageType: string;
+    isEdited: boolean;
+    isPinned: boolean;
+    reactions: any;
+    attachments: Array<string | ExportedAttachment>;
+    createdAt: Date;
+    editedAt: Date | null;
+  }>;
+}
+
+const displayName = (user: { username: string; firstName?: string | null; lastName?: string | null }) =>
+  `${user.firstName || ''} ${user.lastName || ''}`.trim();
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Keep archive paths portable across operating systems
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+
+// Attachment URLs are free text, so only files the sender uploaded themselves
+// are fetched; any other key could be someone else's private file
+const isUploadOf = (key: string, userId: string) => {
+  const [folder, owner] = key.split('/');
+  return UPLOAD_FOLDERS.includes(folder) && owner === userId;
+};
+
+/** A standalone, readable HTML transcript of an export. */
+export function renderTranscript(data: ConversationExportData): string {
+  const title = escapeHtml(data.name || 'Conversation');
+  const participants = data.participants
+    .map(participant => escapeHtml(participant.name || participant.username))
+    .join(', ');
+
+  const messages = data.messages.map(message => {
+    const attachments = message.attachments.map(attachment => {
+      const { url, file } = typeof attachment === 'string' ? { url: attachment, file: null } : attachment;
+      const href = escapeHtml(file || url);
+      const label = escapeHtml(file ? file.split('/').pop()! : url);
+      return `<li><a href="${href}">${label}</a>${file ? '' : ' (not included)'}</li>`;
+    }).join('');
+
+    return `
+    <div class="message${message.parentId ? ' reply' : ''}" id="message-${escapeHtml(message.id)}">
+      <div class="meta">
+        <strong>${escapeHtml(message.sender.name || message.sender.username)}</strong>
+        <time datetime="${new Date(message.createdAt).toISOString()}">${new Date(message.createdAt).toUTCString()}</time>
+        ${message.isEdited ? '<span class="flag">edited</span>' : ''}
+        ${message.isPinned ? '<span class="flag">pinned</span>' : ''}
+      </div>
+      <div class="content">${escapeHtml(message.content).replace(/\n/g, '<br>')}</div>
+      ${attachments ? `<ul class="attachments">${attachments}</ul>` : ''}
+    </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 800px; margin: 2rem auto; color: #1f2937; }
+    header { border-bottom: 1px solid #e5e7eb; margin-bottom: 1rem; }
+    .message { padding: 0.5rem 0; border-bottom: 1px solid #f3f4f6; }
+    .reply { margin-left: 2rem; }
+    .meta { font-size: 0.85rem; color: #6b7280; }
+    .meta strong { color: #111827; }
+    .flag { margin-left: 0.5rem; font-style: italic; }
+    .content { margin-top: 0.25rem; white-space: normal; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${title}</h1>
+    <p>Participants: ${participants}</p>
+    <p>${data.messageCount} messages, exported ${escapeHtml(data.exportedAt)}</p>
+  </header>
+  <main>${messages}
+  </main>
+</body>
+</html>
+`;
+}
+
+export class ConversationExportService {
+  private processing = false;
+
+  /** The conversation as plain data, as returned by the JSON export. */
+  async getExportData(conversationId: string, userId: string): Promise<ConversationExportData> {
+    await this.assertParticipant(conversationId, userId);
+    return this.loadExportData(conversationId);
+  }
+
+  /**
+   * Start a ZIP export of a conversation. Small conversations are archived
+   * straight away; larger ones are queued and the requester is notified when
+   * the archive is ready. An export already in progress is returned as is.
+   */
+  async requestExport(conversationId: string, userId: string) {
+    await this.assertParticipant(conversationId, userId);
+
+    const inProgress = await prisma.conversationExport.findFirst({
+      where: {
+        conversationId,
+        requestedBy: userId,
+        status: { in: ['PENDING', 'PROCESSING'] },
+      },
+    });
+    if (inProgress) {
+      return this.toView(inProgress);
+    }
+
+    const messageCount = await prisma.message.count({ where: { conversationId } });
+    const queued = messageCount > SYNC_EXPORT_MESSAGE_LIMIT;
+
+    const record = await prisma.conversationExport.create({
+      data: {
+        conversationId,
+        requestedBy: userId,
+        messageCount,
+        // Inline exports skip PENDING so cron never picks them up as well
+        status: queued ? 'PENDING' : 'PROCESSING',
+        ...(!queued && { startedAt: new Date() }),
+      },
+    });
+
+    if (queued) {
+      return this.toView(record);
+    }
+
+    return this.toView(await this.generate(record));
+  }
+
+  /** An export's status, with a short-lived download link once it is ready. */
+  async getExport(exportId: string, userId: string) {
+    const record = await prisma.conversationExport.findUnique({
+      where: { id: exportId },
+    });
+
+    if (!record || record.requestedBy !== userId) {
+      throw new NotFoundError('Export not found');
+    }
+
+    return this.toView(record);
+  }
+
+  /**
+   * Run from cron every minute. Builds queued exports, retries ones that were
+   * interrupted and removes archives that have expired.
+   */
+  async processPendingExports() {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const now = new Date();
+
+      await prisma.conversationExport.updateMany({
+        where: {
+          status: 'PROCESSING',
+          startedAt: { lte: new Date(now.getTime() - STALE_PROCESSING_MS) },
+        },
+        data: { status: 'PENDING' },
+      });
+
+      await this.expireExports(now);
+
+      const pending = await prisma.conversationExport.findMany({
+        where: { status: 'PENDING' },
+        orderBy: { createdAt: 'asc' },
+        take: 5,
+      });
+
+      for (const record of pending) {
+        // Claim the export so a second instance running the same cron skips it
+        const claimed = await prisma.conversationExport.updateMany({
+          where: { id: record.id, status: 'PENDING' },
+          data: { status: 'PROCESSING', startedAt: new Date() },
+        });
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        const result = await this.generate(record);
+        if (result.status === 'READY') {
+          await notificationService.notifyConversationExportReady(record.requestedBy, record.conversationId, record.id);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to process conversation exports:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // Access was checked when the export was requested, so a member who has
+  // since left the conversation still gets their archive
+  private async loadExportData(conversationId: string): Promise<ConversationExportData> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        participants: {
+          include: {
+            user: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+        },
+        messages: {
+          include: {
+            sender: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: 'asc',
+          },
+        },
+      },
+    });
+
+    if (!conversation) {
+      throw new NotFoundError('Conversation not found');
+    }
+
+    return {
+      conversationId: conversation.id,
+      type: conversation.type,
+      name: conversation.name,
+      participantCount: conversation.participants.length,
+      messageCount: conversation.messages.length,
+      exportedAt: new Date().toISOString(),
+      participants: conversation.participants.map((p: any) => ({
+        id: p.user.id,
+        username: p.user.username,
+        name: displayName(p.user),
+        joinedAt: p.joinedAt,
+      })),
+      messages: conversation.messages.map((message: any) => ({
+        id: message.id,
+        parentId: message.parentId || null,
+        sender: {
+          id: message.sender.id,
+          username: message.sender.username,
+          name: displayName(message.sender),
+        },
+        content: message.content,
+        messageType: message.messageType,
+        isEdited: message.isEdited,
+        isPinned: message.isPinned,
+        reactions: message.reactions || [],
+        // Files of deleted messages are not exported
+        attachments: message.messageType === 'deleted' ? [] : message.attachments || [],
+        createdAt: message.createdAt,
+        editedAt: message.editedAt,
+      })),
+    };
+  }
+
+  // Build the archive, store it in the private bucket and record the result
+  private async generate(record: any) {
+    try {
+      const data = await this.loadExportData(record.conversationId);
+      const archive = await this.buildArchive(data);
+      const key = `exports/conversations/${record.conversationId}/${record.id}.zip`;
+
+      await s3Service.uploadBuffer(archive, key, 'application/zip', 'private');
+
+      const completedAt = new Date();
+      return await prisma.conversationExport.update({
+        where: { id: record.id },
+        data: {
+          status: 'READY',
+          fileKey: key,
+          fileSize: archive.length,
+          messageCount: data.messageCount,
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + EXPORT_TTL_MS),
+          error: null,
+        },
+      });
+    } catch (error: any) {
+      console.error(`Failed to build conversation export ${record.id}:`, error);
+      return prisma.conversationExport.update({
+        where: { id: record.id },
+        data: { status: 'FAILED', error: error.message },
+      });
+    }
+  }
+
+  // transcript.html and conversation.json at the top level, with attachment
+  // files under attachments/<messageId>/
+  private async buildArchive(data: ConversationExportData): Promise<Buffer> {
+    const files: ZipEntry[] = [];
+    let attachmentBytes = 0;
+
+    for (const message of data.messages) {
+      const exported: ExportedAttachment[] = [];
+
+      for (const [index, url] of (message.attachments as string[]).entries()) {
+        const location = s3Service.getKeyFromUrl(url);
+        let file: string | null = null;
+
+        if (location && isUploadOf(location.key, message.sender.id) && attachmentBytes < MAX_EXPORT_ATTACHMENT_BYTES) {
+          try {
+            const content = await s3Service.getFile(location.key, location.bucket);
+            if (attachmentBytes + content.length <= MAX_EXPORT_ATTACHMENT_BYTES) {
+              file = `attachments/${message.id}/${index + 1}-${safeFileName(location.key.split('/').pop()!)}`;
+              files.push({ name: file, data: content });
+              attachmentBytes += content.length;
+            }
+          } catch (error) {
+            // A file removed from storage should not fail the whole export
+            console.error(`Failed to fetch attachment ${location.key} for export:`, error);
+          }
+        }
+
+        exported.push({ url, file });
+      }
+
+      message.attachments = exported;
+    }
+
+    return createZip([
+      { name: 'transcript.html', data: renderTranscript(data) },
+      { name: 'conversation.json', data: JSON.stringify(data, null, 2) },
+      ...files,
+    ]);
+  }
+
+  private async expireExports(now: Date) {
+    const expired = await prisma.conversationExport.findMany({
+      where: {
+        status: 'READY',
+        expiresAt: { lte: now },
+      },
+    });
+
+    for (const record of expired) {
+      try {
+        if (record.fileKey) {
+          await s3Service.deleteFile(record.fileKey, 'private');
+        }
+        await prisma.conversationExport.update({
+          where: { id: record.id },
+          data: { status: 'EXPIRED', fileKey: null },
+        });
+      } catch (error) {
+        console.error(`Failed to expire conversation export ${record.id}:`, error);
+      }
+    }
+  }
+
+  private async toView(record: any) {
+    const downloadUrl = record.status === 'READY' && record.fileKey
+      ? await s3Service.getPresignedDownloadUrl(record.fileKey, 'private', DOWNLOAD_URL_TTL_SECONDS)
+      : null;
+
+    return {
+      id: record.id,
+      conversationId: record.conversationId,
+      status: record.status,
+      messageCount: record.messageCount,
+      fileSize: record.fileSize ?? null,
+      error: record.status === 'FAILED' ? record.error : null,
+      createdAt: record.createdAt,
+      completedAt: record.completedAt ?? null,
+      expiresAt: record.expiresAt ?? null,
+      downloadUrl,
+    };
+  }
+
+  private async assertParticipant(conversationId: string, userId: string) {
+    const participant = await prisma.conversationParticipant.findUnique({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+    });
+
+    if (!participant) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+  }
+}
+
+export const conversationExportService = new ConversationExportService();
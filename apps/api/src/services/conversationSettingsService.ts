@@ -0,0 +1,141 @@
+import { prisma } from '../lib/prisma';
+import { ValidationError, NotFoundError } from '../utils/errors';
+
+export interface ConversationSettings {
+  isMuted: boolean;
+  mutedUntil: Date | null;
+  isArchived: boolean;
+  isStarred: boolean;
+  // null follows the user's global notification preferences
+  pushNotifications: boolean | null;
+  emailNotifications: boolean | null;
+}
+
+export interface UpdateConversationSettingsRequest {
+  muted?: boolean;
+  // Mute until this time; omitted or null mutes until unmuted
+  mutedUntil?: Date | string | null;
+  archived?: boolean;
+  starred?: boolean;
+  pushNotifications?: boolean | null;
+  emailNotifications?: boolean | null;
+}
+
+const SETTINGS_FIELDS = [
+  'isMuted',
+  'mutedUntil',
+  'isArchived',
+  'archivedAt',
+  'isStarred',
+  'pushNotifications',
+  'emailNotifications',
+];
+
+/** Whether a participant's mute is in effect. Timed mutes lapse on their own. */
+export function isMuted(participant: { isMuted?: boolean; mutedUntil?: Date | null }, now: Date = new Date()) {
+  if (!participant.isMuted) {
+    return false;
+  }
+  return !participant.mutedUntil || new Date(participant.mutedUntil).getTime() > now.getTime();
+}
+
+export function toSettings(participant: any): ConversationSettings {
+  const muted = isMuted(participant);
+  return {
+    isMuted: muted,
+    mutedUntil: muted ? participant.mutedUntil || null : null,
+    isArchived: !!participant.isArchived,
+    isStarred: !!participant.isStarred,
+    pushNotifications: participant.pushNotifications ?? null,
+    emailNotifications: participant.emailNotifications ?? null,
+  };
+}
+
+/**
+ * Attach the viewer's own settings to a conversation and drop everyone
+ * else's; whether someone muted or archived a chat is private to them.
+ */
+export function withViewerSettings<T extends { participants?: any[] }>(conversation: T, userId: string) {
+  const own = conversation.participants?.find(p => p.userId === userId);
+  return {
+    ...conversation,
+    participants: conversation.participants?.map(participant => {
+      const visible = { ...participant };
+      SETTINGS_FIELDS.forEach(field => delete visible[field]);
+      return visible;
+    }),
+    settings: own ? toSettings(own) : null,
+  };
+}
+
+export class ConversationSettingsService {
+  async getSettings(conversationId: string, userId: string) {
+    const participant = await this.getParticipant(conversationId, userId);
+    return toSettings(participant);
+  }
+
+  async updateSettings(conversationId: string, userId: string, data: UpdateConversationSettingsRequest) {
+    await this.getParticipant(conversationId, userId);
+
+    const update: Record<string, any> = {};
+
+    if (data.muted !== undefined || data.mutedUntil !== undefined) {
+      const mutedUntil = data.mutedUntil ? new Date(data.mutedUntil) : null;
+      if (mutedUntil && (Number.isNaN(mutedUntil.getTime()) || mutedUntil.getTime() <= Date.now())) {
+        throw new ValidationError('mutedUntil must be a future date');
+      }
+      // Giving an end time implies muting
+      const muted = data.muted ?? true;
+      update.isMuted = muted;
+      update.mutedUntil = muted ? mutedUntil : null;
+    }
+
+    if (data.archived !== undefined) {
+      update.isArchived = data.archived;
+      update.archivedAt = data.archived ? new Date() : null;
+    }
+
+    if (data.starred !== undefined) {
+      update.isStarred = data.starred;
+    }
+
+    if (data.pushNotifications !== undefined) {
+      update.pushNotifications = data.pushNotifications;
+    }
+
+    if (data.emailNotifications !== undefined) {
+      update.emailNotifications = data.emailNotifications;
+    }
+
+    const participant = await prisma.conversationParticipant.update({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+      data: update,
+    });
+
+    return toSettings(participant);
+  }
+
+  private async getParticipant(conversationId: string, userId: string) {
+    const participant = await prisma.conversationParticipant.findUnique({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+    });
+
+    if (!participant) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+
+    return participant;
+  }
+}
+
+export const conversationSettingsService = new ConversationSettingsService();
@@ -0,0 +1,180 @@
+import { prisma } from '../lib/prisma';
+import { logAuditEvent } from '../utils/auditLogger';
+import { BadRequestError, NotFoundError } from '../utils/errors';
+import { courseService } from './courseService';
+
+// Community staff see every course in their community without buying it
+const STAFF_ROLES = ['owner', 'admin', 'moderator'];
+
+function loadPaymentPackage() {
+  // Loaded lazily like the payment routes: the payment package is optional
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  return require('@sk-clone/payment');
+}
+
+export class CoursePurchaseService {
+  /**
+   * Start a one-time payment for a paid course. The amount always comes
+   * from the course record; the enrollment is created when the payment
+   * provider reports the payment as succeeded.
+   */
+  async createCheckout(courseId: string, user: { id: string; email: string }) {
+    const course = await prisma.course.findUnique({ where: { id: courseId } });
+
+    if (!course || !course.isPublished) {
+      throw new NotFoundError('Course not found');
+    }
+    if (!(course.price > 0)) {
+      throw new BadRequestError('Course is free');
+    }
+
+    const enrollment = await prisma.enrollment.findUnique({
+      where: { userId_courseId: { userId: user.id, courseId } },
+    });
+    if (enrollment?.status === 'ACTIVE') {
+      throw new BadRequestError('Already enrolled in this course');
+    }
+
+    const { paymentService } = loadPaymentPackage();
+    const { payment, clientSecret } = await paymentService.createPaymentIntent({
+      userId: user.id,
+      email: user.email,
+      amount: Math.round(course.price * 100),
+      currency: course.currency,
+      description: `Course purchase: ${course.title}`,
+      courseId,
+    });
+
+    await logAuditEvent(user.id, 'COURSE_CHECKOUT_STARTED', 'course', courseId, {
+      paymentId: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+    });
+
+    return {
+      clientSecret,
+      paymentId: payment.id,
+      amount: payment.amount,
+      currency: payment.currency,
+    };
+  }
+
+  /**
+   * Bring the enrollment for a course payment in line with the payment's
+   * status: enroll on success, revoke on a full refund and flag partial
+   * refunds for review. Payments that are not for a course are ignored.
+   */
+  async syncPayment(paymentId: string) {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: { customer: true },
+    });
+
+    if (!payment?.courseId) {
+      return null;
+    }
+
+    const userId = payment.customer.userId;
+    const courseId = payment.courseId;
+    const enrollment = await prisma.enrollment.findUnique({
+      where: { userId_courseId: { userId, courseId } },
+    });
+
+    switch (payment.status) {
+      case 'SUCCEEDED': {
+        if (enrollment?.status === 'ACTIVE') {
+          if (enrollment.paymentId !== payment.id) {
+            // Paid twice, e.g. two checkouts completed in parallel
+            await logAuditEvent(userId, 'COURSE_DUPLICATE_PAYMENT', 'course', courseId, {
+              paymentId: payment.id,
+              enrollmentPaymentId: enrollment.paymentId,
+            });
+          }
+          return enrollment;
+        }
+
+        await courseService.enrollInCourse(userId, courseId, payment.id);
+        await logAuditEvent(userId, 'COURSE_PURCHASED', 'course', courseId, {
+          paymentId: payment.id,
+          amount: payment.amount,
+          currency: payment.currency,
+        });
+        return await prisma.enrollment.findUnique({
+          where: { userId_courseId: { userId, courseId } },
+        });
+      }
+
+      case 'REFUNDED':
+      case 'PARTIALLY_REFUNDED': {
+        // Only the enrollment this payment bought is affected by its refund
+        if (!enrollment || enrollment.paymentId !== payment.id) {
+          return enrollment;
+        }
+
+        const revoke = payment.status === 'REFUNDED';
+        const status = revoke ? 'REVOKED' : 'REFUND_REVIEW';
+        if (enrollment.status === status) {
+          return enrollment;
+        }
+
+        const updated = await prisma.enrollment.update({
+          where: { id: enrollment.id },
+          data: { status, revokedAt: revoke ? new Date() : null },
+        });
+        await logAuditEvent(
+          userId,
+          revoke ? 'COURSE_ENROLLMENT_REVOKED' : 'COURSE_ENROLLMENT_REFUND_REVIEW',
+          'course',
+          courseId,
+          { paymentId: payment.id, refundAmount: payment.refundAmount }
+        );
+        return updated;
+      }
+
+      default:
+        return enrollment;
+    }
+  }
+
+  /**
+   * Whether the user may open the paid lessons of a course. Free courses,
+   * the instructor and community staff always can; everyone else needs an
+   * enrollment that has not been revoked.
+   */
+  async hasAccess(courseId: string, userId?: string) {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      select: { price: true, instructorId: true, communityId: true },
+    });
+
+    // Missing courses are left to the route handler's 404
+    if (!course || !(course.price > 0)) {
+      return true;
+    }
+    if (!userId) {
+      return false;
+    }
+    if (course.instructorId === userId) {
+      return true;
+    }
+
+    const [member, enrollment] = await Promise.all([
+      prisma.communityMember.findUnique({
+        where: { communityId_userId: { communityId: course.communityId, userId } },
+        select: { role: true },
+      }),
+      prisma.enrollment.findUnique({
+        where: { userId_courseId: { userId, courseId } },
+        select: { status: true },
+      }),
+    ]);
+
+    if (member && STAFF_ROLES.includes(member.role)) {
+      return true;
+    }
+    // Partially refunded purchases keep access while they are reviewed
+    return !!enrollment && enrollment.status !== 'REVOKED';
+  }
+}
+
+export const coursePurchaseService = new CoursePurchaseService();
@@ -1,5 +1,6 @@
+import { randomUUID } from 'crypto';
 import { prisma } from '../lib/prisma';
-import { NotFoundError, BadRequestError } from '../utils/errors';
+import { NotFoundError, BadRequestError, PaymentRequiredError } from '../utils/errors';
 import { notificationService } from './notification.service';
 
 export class CourseService {
@@ -308,7 +309,24 @@ export class CourseService {
     return lesson;
   }
 
-  async enrollInCourse(userId: string, courseId: string) {
+  /**
+   * Enroll a user in a course. Paid courses can only be enrolled into with
+   * the succeeded payment that bought them, see coursePurchaseService.
+   */
+  async enrollInCourse(userId: string, courseId: string, paymentId?: string) {
+    const course = await prisma.course.findUnique({
+      where: { id: courseId },
+      select: { id: true, price: true },
+    });
+
+    if (!course) {
+      throw new NotFoundError('Course not found');
+    }
+
+    if (course.price > 0 && !paymentId) {
+      throw new PaymentRequiredError('This course must be purchased before enrolling');
+    }
+
     // Check if already enrolled
     const existingProgress = await prisma.userProgress.findFirst({
       where: {
@@ -318,11 +336,18 @@ export class CourseService {
       },
     });
 
-    if (existingProgress) {
+    // Buying back a revoked course keeps the progress made before the refund
+    if (existingProgress && !paymentId) {
       throw new BadRequestError('Already enrolled in this course');
     }
 
-    const enrollment = await prisma.userProgress.create({
+    await prisma.enrollment.upsert({
+      where: { userId_courseId: { userId, courseId } },
+      update: { paymentId, status: 'ACTIVE', revokedAt: null },
+      create: { id: randomUUID(), userId, courseId, paymentId },
+    });
+
+    const enrollment = existingProgress || await prisma.userProgress.create({
       data: {
         userId,
         courseId,
@@ -1,6 +1,14 @@
 import cron from 'node-cron';
 import { emailService } from './email.service';
 import { notificationService } from './notification.service';
+import { flagScheduleService } from './admin/flagSchedules.service';
+import { communityMembershipService } from './communityMembershipService';
+import { paymentWebhooksService } from './admin/paymentWebhooks.service';
+import { scheduledMessageService } from './scheduledMessageService';
+import { conversationExportService } from './conversationExportService';
+import { eventService } from './eventService';
+import { eventSeriesService } from './eventSeriesService';
+import { eventReminderService } from './eventReminderService';
 
 export class CronService {
   start() {
@@ -10,6 +18,46 @@ export class CronService {
       emailService.processEmailQueue();
     });
 
+    // Apply scheduled feature flag changes and rollout ramp steps every minute
+    cron.schedule('* * * * *', () => {
+      flagScheduleService.processDueSchedules();
+    });
+
+    // Send scheduled and recurring messages that are due
+    cron.schedule('* * * * *', () => {
+      scheduledMessageService.processDueMessages();
+    });
+
+    // Build queued conversation export archives and clean up expired ones
+    cron.schedule('* * * * *', () => {
+      conversationExportService.processPendingExports();
+    });
+
+    // Release unclaimed event spot offers to the next people on the waitlist
+    cron.schedule('* * * * *', () => {
+      eventService.expireOffers();
+    });
+
+    // Send event reminders that are due
+    cron.schedule('* * * * *', () => {
+      eventReminderService.sendDueReminders();
+    });
+
+    // Retry payment webhooks that failed and are due for another attempt
+    cron.schedule('* * * * *', () => {
+      paymentWebhooksService.retryDueEvents();
+    });
+
+    // Create the occurrences of recurring events as they come into range
+    cron.schedule('30 * * * *', () => {
+      eventSeriesService.materializeDueSeries();
+    });
+
+    // Remove paid community members whose grace period has run out
+    cron.schedule('0 * * * *', () => {
+      communityMembershipService.expireGracePeriods();
+    });
+
     // Send daily digests at midnight
     cron.schedule('0 0 * * *', () => {
       console.log('Sending daily digests...');
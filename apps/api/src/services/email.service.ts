@@ -32,7 +32,7 @@ export class EmailService {
   
   private async loadTemplates() {
     const templateDir = path.join(__dirname, '../templates/email');
-    const templates = ['notification', 'digest', 'password-reset', 'welcome']; // Add other templates here
+    const templates = ['notification', 'digest', 'password-reset', 'welcome', 'community-invite']; // Add other templates here
     
     for (const template of templates) {
       try {
@@ -0,0 +1,202 @@
+import { prisma } from '../lib/prisma';
+import { notificationService } from './notification.service';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Attendees with these statuses get reminders; waitlisted attendees and
+// unclaimed offers don't until they have a spot
+export const REMINDED_STATUSES = ['confirmed', 'maybe'];
+
+export const MAX_REMINDERS = 5;
+// Four weeks
+export const MAX_REMINDER_MINUTES = 4 * 7 * 24 * 60;
+
+const MINUTE_MS = 60 * 1000;
+const BATCH_SIZE = 500;
+
+interface ReminderSchedule {
+  reminderMinutes: number[];
+  customReminders: boolean;
+}
+
+/** Deduplicate and sort a reminder schedule, earliest reminder first. */
+export function normalizeReminderMinutes(minutes: number[]): number[] {
+  const unique = [...new Set(minutes)].sort((a, b) => b - a);
+
+  if (unique.length > MAX_REMINDERS) {
+    throw new ValidationError(`At most ${MAX_REMINDERS} reminders can be set`);
+  }
+  for (const value of unique) {
+    if (!Number.isInteger(value) || value < 1 || value > MAX_REMINDER_MINUTES) {
+      throw new ValidationError(`Reminders must be between 1 and ${MAX_REMINDER_MINUTES} minutes before the event`);
+    }
+  }
+
+  return unique;
+}
+
+export class EventReminderService {
+  /**
+   * Bring the pending event_reminders rows of an event (or of some of its
+   * attendees) in line with their schedules: each attendee's own, or else the
+   * event's defaults. Sent reminders are kept, so rescheduling never repeats
+   * one that already went out, and times already past are skipped.
+   */
+  async scheduleReminders(eventId: string, userIds?: string[]) {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    // Deleted events take their reminders with them
+    if (!event) {
+      return 0;
+    }
+
+    const attendees: Array<ReminderSchedule & { userId: string }> = event.cancelledAt
+      ? []
+      : await prisma.eventAttendee.findMany({
+        where: {
+          eventId,
+          status: { in: REMINDED_STATUSES },
+          ...(userIds && { userId: { in: userIds } }),
+        },
+      });
+
+    const now = Date.now();
+    const reminders = attendees.flatMap(attendee =>
+      this.minutesFor(event, attendee)
+        .map(minutes => new Date(new Date(event.startsAt).getTime() - minutes * MINUTE_MS))
+        .filter(remindAt => remindAt.getTime() > now)
+        .map(remindAt => ({ eventId, userId: attendee.userId, remindAt }))
+    );
+
+    await prisma.$transaction([
+      prisma.eventReminder.deleteMany({
+        where: {
+          eventId,
+          sent: false,
+          ...(userIds && { userId: { in: userIds } }),
+        },
+      }),
+      prisma.eventReminder.createMany({
+        data: reminders,
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return reminders.length;
+  }
+
+  async getReminders(eventId: string, userId: string) {
+    const attendee = await this.getAttendee(eventId, userId);
+
+    const reminders = await prisma.eventReminder.findMany({
+      where: { eventId, userId },
+      orderBy: { remindAt: 'asc' },
+    });
+
+    return {
+      reminderMinutes: this.minutesFor(attendee.event, attendee),
+      customReminders: attendee.customReminders,
+      reminders,
+    };
+  }
+
+  /**
+   * Set the attendee's own reminder schedule; an empty one turns their
+   * reminders off. Null goes back to the event's defaults.
+   */
+  async setReminders(eventId: string, userId: string, minutes: number[] | null) {
+    await this.getAttendee(eventId, userId);
+
+    await prisma.eventAttendee.update({
+      where: { eventId_userId: { eventId, userId } },
+      data: minutes === null
+        ? { reminderMinutes: [], customReminders: false }
+        : { reminderMinutes: normalizeReminderMinutes(minutes), customReminders: true },
+    });
+    await this.scheduleReminders(eventId, [userId]);
+
+    return this.getReminders(eventId, userId);
+  }
+
+  /**
+   * Deliver reminders that are due. Each is claimed before delivery, so
+   * overlapping runs can't send it twice; a failed delivery is released to
+   * be retried on the next run. When several of an attendee's reminders for
+   * an event are due at once (e.g. after downtime), only one is delivered.
+   */
+  async sendDueReminders() {
+    const now = new Date();
+
+    // Reminders for events that have started or were cancelled are no use
+    const { count: dropped } = await prisma.eventReminder.deleteMany({
+      where: {
+        sent: false,
+        event: {
+          OR: [{ startsAt: { lte: now } }, { cancelledAt: { not: null } }],
+        },
+      },
+    });
+
+    const due: Array<{ id: string; eventId: string; userId: string }> = await prisma.eventReminder.findMany({
+      where: {
+        sent: false,
+        remindAt: { lte: now },
+      },
+      orderBy: { remindAt: 'asc' },
+      take: BATCH_SIZE,
+    });
+
+    const groups = new Map<string, typeof due>();
+    for (const reminder of due) {
+      const key = `${reminder.eventId}:${reminder.userId}`;
+      groups.set(key, [...(groups.get(key) ?? []), reminder]);
+    }
+
+    let sent = 0;
+    for (const reminders of groups.values()) {
+      const ids = reminders.map(reminder => reminder.id);
+      const { eventId, userId } = reminders[0];
+
+      const { count } = await prisma.eventReminder.updateMany({
+        where: { id: { in: ids }, sent: false },
+        data: { sent: true, sentAt: now },
+      });
+      if (count === 0) {
+        continue;
+      }
+
+      try {
+        await notificationService.notifyEventReminder(eventId, userId);
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send reminder for event ${eventId} to user ${userId}:`, error);
+        await prisma.eventReminder.updateMany({
+          where: { id: { in: ids } },
+          data: { sent: false, sentAt: null },
+        });
+      }
+    }
+
+    return { sent, dropped };
+  }
+
+  private minutesFor(event: { reminderMinutes: number[] }, attendee: ReminderSchedule) {
+    return attendee.customReminders ? attendee.reminderMinutes : event.reminderMinutes;
+  }
+
+  private async getAttendee(eventId: string, userId: string) {
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+      include: { event: true },
+    });
+
+    if (!attendee) {
+      throw new NotFoundError('You have not RSVPed to this event');
+    }
+
+    return attendee;
+  }
+}
+
+export const eventReminderService = new EventReminderService();
@@ -0,0 +1,329 @@
+import { prisma } from '../lib/prisma';
+import { ValidationError } from '../utils/errors';
+import { RRule, parseRRule, formatRRule, expandRRule, countOccurrencesBefore } from '../utils/rrule';
+
+// Occurrences of a series exist as events this far ahead, so they can be
+// listed and RSVPed to like any other event
+export const MATERIALIZE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SeriesFields {
+  title?: string;
+  description?: string | null;
+  location?: string | null;
+  meetingUrl?: string | null;
+  maxAttendees?: number | null;
+  waitlistLimit?: number | null;
+  claimWindowHours?: number;
+  reminderMinutes?: number[];
+}
+
+// Series without a time zone of their own repeat at the same UTC time
+const DEFAULT_TIME_ZONE = 'UTC';
+
+const TEMPLATE_FIELDS: Array<keyof SeriesFields> = [
+  'title',
+  'description',
+  'location',
+  'meetingUrl',
+  'maxAttendees',
+  'waitlistLimit',
+  'claimWindowHours',
+  'reminderMinutes',
+];
+
+interface SeriesRecord extends Required<SeriesFields> {
+  id: string;
+  communityId: string;
+  creatorId: string;
+  rrule: string;
+  // IANA time zone the rule is expanded in
+  timezone: string;
+  startsAt: Date;
+  endsAt: Date;
+  materializedUntil: Date;
+}
+
+interface OccurrenceRecord {
+  id: string;
+  seriesId: string | null;
+  occurrenceStart: Date | null;
+  startsAt: Date;
+  endsAt: Date;
+  isOverride: boolean;
+}
+
+const horizon = () => new Date(Date.now() + MATERIALIZE_DAYS * DAY_MS);
+
+const pickTemplate = (fields: SeriesFields) =>
+  Object.fromEntries(TEMPLATE_FIELDS.filter(field => fields[field] !== undefined).map(field => [field, fields[field]]));
+
+export class EventSeriesService {
+  /** Create a recurring event and its occurrences over the next MATERIALIZE_DAYS. */
+  async createSeries(data: SeriesFields & {
+    communityId: string;
+    creatorId: string;
+    title: string;
+    startsAt: Date;
+    endsAt: Date;
+    rrule: string;
+    timezone?: string;
+  }) {
+    const rule = parseRRule(data.rrule);
+
+    const series: SeriesRecord = await prisma.eventSeries.create({
+      data: {
+        ...pickTemplate(data),
+        communityId: data.communityId,
+        creatorId: data.creatorId,
+        rrule: formatRRule(rule),
+        timezone: data.timezone ?? DEFAULT_TIME_ZONE,
+        startsAt: data.startsAt,
+        endsAt: data.endsAt,
+        materializedUntil: data.startsAt,
+      },
+    });
+
+    // Series starting beyond the horizon still get their first occurrence
+    await this.materialize(series, new Date(Math.max(horizon().getTime(), data.startsAt.getTime())));
+
+    return series;
+  }
+
+  /**
+   * Create the occurrences of a series up to `until` that don't exist yet.
+   * Cancelled and individually edited occurrences keep their rows, so they
+   * are never recreated.
+   */
+  async materialize(series: SeriesRecord, until: Date) {
+    const starts = expandRRule(parseRRule(series.rrule), series.startsAt, {
+      from: series.materializedUntil,
+      to: until,
+      timeZone: series.timezone,
+    });
+    const duration = series.endsAt.getTime() - series.startsAt.getTime();
+
+    if (starts.length > 0) {
+      await prisma.event.createMany({
+        data: starts.map(start => ({
+          communityId: series.communityId,
+          creatorId: series.creatorId,
+          seriesId: series.id,
+          occurrenceStart: start,
+          startsAt: start,
+          endsAt: new Date(start.getTime() + duration),
+          title: series.title,
+          description: series.description,
+          location: series.location,
+          meetingUrl: series.meetingUrl,
+          maxAttendees: series.maxAttendees,
+          waitlistLimit: series.waitlistLimit,
+          claimWindowHours: series.claimWindowHours,
+          reminderMinutes: series.reminderMinutes,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    await prisma.eventSeries.update({
+      where: { id: series.id },
+      data: { materializedUntil: until },
+    });
+
+    return starts.length;
+  }
+
+  /** Keep every series materialized MATERIALIZE_DAYS ahead. */
+  async materializeDueSeries() {
+    const until = horizon();
+    const due: SeriesRecord[] = await prisma.eventSeries.findMany({
+      where: { materializedUntil: { lt: until } },
+    });
+
+    let created = 0;
+    for (const series of due) {
+      try {
+        created += await this.materialize(series, until);
+      } catch (error) {
+        console.error(`Failed to materialize event series ${series.id}:`, error);
+      }
+    }
+
+    return { series: due.length, created };
+  }
+
+  /**
+   * Apply an edit to an occurrence and every later one. The series is split
+   * at the occurrence: the earlier part keeps the old rule, ending just before
+   * it, and the rest moves to a new series with the changes. Later occurrences
+   * keep their RSVPs when the new rule still has them (shifted by however far
+   * the edited occurrence moved); the others are removed and returned so
+   * their attendees can be told. Individually edited occurrences move to the
+   * new series but keep their own details.
+   */
+  async updateFollowing(occurrence: OccurrenceRecord, changes: SeriesFields & {
+    startsAt?: Date;
+    endsAt?: Date;
+    rrule?: string;
+    timezone?: string;
+  }) {
+    const series: SeriesRecord = await prisma.eventSeries.findUnique({
+      where: { id: occurrence.seriesId! },
+    });
+    const pivot = new Date(occurrence.occurrenceStart!);
+    const oldRule = parseRRule(series.rrule);
+    const earlier = countOccurrencesBefore(oldRule, series.startsAt, pivot, series.timezone);
+    const timezone = changes.timezone ?? series.timezone;
+
+    const shift = changes.startsAt ? changes.startsAt.getTime() - new Date(occurrence.startsAt).getTime() : 0;
+    const startsAt = new Date(pivot.getTime() + shift);
+    const duration = changes.startsAt || changes.endsAt
+      ? (changes.endsAt ?? occurrence.endsAt).getTime() - (changes.startsAt ?? occurrence.startsAt).getTime()
+      : series.endsAt.getTime() - series.startsAt.getTime();
+    if (duration <= 0) {
+      throw new ValidationError('End time must be after start time');
+    }
+
+    const rule: RRule = changes.rrule
+      ? parseRRule(changes.rrule)
+      : { ...oldRule, ...(oldRule.count && { count: oldRule.count - earlier }) };
+    const template = pickTemplate(changes);
+
+    const result = await prisma.$transaction(async (tx: any) => {
+      // Materializing again from the start fills in occurrences the new rule
+      // has that the old one didn't
+      const seriesData = {
+        ...template,
+        rrule: formatRRule(rule),
+        timezone,
+        startsAt,
+        endsAt: new Date(startsAt.getTime() + duration),
+        materializedUntil: startsAt,
+      };
+
+      // Editing from the first occurrence changes the whole series in place
+      const target: SeriesRecord = earlier === 0
+        ? await tx.eventSeries.update({ where: { id: series.id }, data: seriesData })
+        : await tx.eventSeries.create({
+          data: {
+            ...pickTemplate(series),
+            ...seriesData,
+            communityId: series.communityId,
+            creatorId: series.creatorId,
+          },
+        });
+
+      if (earlier > 0) {
+        await tx.eventSeries.update({
+          where: { id: series.id },
+          data: {
+            rrule: formatRRule({ ...oldRule, count: undefined, until: new Date(pivot.getTime() - 1000) }),
+            materializedUntil: pivot,
+          },
+        });
+      }
+
+      const following: OccurrenceRecord[] = await tx.event.findMany({
+        where: { seriesId: series.id, occurrenceStart: { gte: pivot } },
+        orderBy: { occurrenceStart: shift > 0 ? 'desc' : 'asc' },
+      });
+      const lastStart = following.reduce(
+        (last, event) => Math.max(last, new Date(event.occurrenceStart!).getTime() + shift),
+        horizon().getTime()
+      );
+      const kept = new Set(
+        expandRRule(rule, startsAt, { to: new Date(lastStart), timeZone: timezone }).map(start => start.getTime())
+      );
+
+      const removed = following.filter(event =>
+        !kept.has(new Date(event.occurrenceStart!).getTime() + shift)
+      );
+      const removedEvents = await tx.event.findMany({
+        where: { id: { in: removed.map(event => event.id) } },
+        include: {
+          community: true,
+          attendees: { select: { userId: true } },
+        },
+      });
+      await tx.event.deleteMany({
+        where: { id: { in: removed.map(event => event.id) } },
+      });
+
+      // Moving in the direction of the shift avoids clashing with the
+      // occurrence_start of a row that hasn't moved yet
+      const updated: string[] = [];
+      for (const event of following) {
+        const occurrenceStart = new Date(new Date(event.occurrenceStart!).getTime() + shift);
+        if (!kept.has(occurrenceStart.getTime())) {
+          continue;
+        }
+
+        const keepOwnDetails = event.isOverride && event.id !== occurrence.id;
+        await tx.event.update({
+          where: { id: event.id },
+          data: {
+            seriesId: target.id,
+            occurrenceStart,
+            ...(!keepOwnDetails && {
+              ...template,
+              startsAt: occurrenceStart,
+              endsAt: new Date(occurrenceStart.getTime() + duration),
+              isOverride: false,
+            }),
+          },
+        });
+        updated.push(event.id);
+      }
+
+      return { series: target, updated, removed: removedEvents };
+    });
+
+    await this.materialize(result.series, horizon());
+
+    return result;
+  }
+
+  /**
+   * End a series before the given occurrence, removing it and every later
+   * occurrence. Returns the removed occurrences so their attendees can be told.
+   */
+  async endSeriesFrom(occurrence: OccurrenceRecord) {
+    const series: SeriesRecord = await prisma.eventSeries.findUnique({
+      where: { id: occurrence.seriesId! },
+    });
+    const pivot = new Date(occurrence.occurrenceStart!);
+    const rule = parseRRule(series.rrule);
+
+    const removed = await prisma.event.findMany({
+      where: { seriesId: series.id, occurrenceStart: { gte: pivot } },
+      include: {
+        community: true,
+        attendees: { select: { userId: true } },
+      },
+    });
+
+    if (countOccurrencesBefore(rule, series.startsAt, pivot, series.timezone) === 0) {
+      // Nothing is left of the series; its occurrences cascade with it
+      await prisma.eventSeries.delete({ where: { id: series.id } });
+      return removed;
+    }
+
+    await prisma.$transaction([
+      prisma.eventSeries.update({
+        where: { id: series.id },
+        data: {
+          rrule: formatRRule({ ...rule, count: undefined, until: new Date(pivot.getTime() - 1000) }),
+          materializedUntil: pivot,
+        },
+      }),
+      prisma.event.deleteMany({
+        where: { seriesId: series.id, occurrenceStart: { gte: pivot } },
+      }),
+    ]);
+
+    return removed;
+  }
+}
+
+export const eventSeriesService = new EventSeriesService();
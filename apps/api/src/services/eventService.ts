@@ -1,8 +1,137 @@
+import crypto from 'crypto';
 import { prisma } from '../lib/prisma';
 import { notificationService } from './notification.service';
-import { NotFoundError, ValidationError } from '../utils/errors';
+import { memberService } from './memberService';
+import { eventSeriesService } from './eventSeriesService';
+import { eventReminderService, normalizeReminderMinutes } from './eventReminderService';
+import { ForbiddenError, NotFoundError, ValidationError } from '../utils/errors';
+import { createXlsx } from '../utils/xlsx';
+
+// Community roles that can create and manage events
+export const EVENT_MANAGER_ROLES = ['owner', 'admin', 'moderator'];
+
+export const RSVP_STATUSES = ['confirmed', 'maybe', 'declined'];
+
+// Statuses the service assigns itself when an event is at capacity
+export const ATTENDEE_STATUSES = [...RSVP_STATUSES, 'offered', 'waitlisted'];
+
+// Whether a confirmed attendee came, recorded by event managers
+export const ATTENDANCE_STATUSES = ['attended', 'no_show'];
+
+// Check-in codes leave out characters that are easily misread
+const CHECK_IN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CHECK_IN_CODE_LENGTH = 6;
+
+// Which occurrences of a recurring event an edit or cancellation applies to
+export type EventEditScope = 'occurrence' | 'following';
+
+export type AttendeeExportFormat = 'csv' | 'xlsx';
+
+// What an attendee tells the organizers when registering
+export interface RegistrationDetails {
+  phone?: string;
+  dietaryRestrictions?: string;
+  allergies?: string;
+  specialRequirements?: string;
+}
+
+type EventChanges = Partial<{
+  title: string;
+  description: string;
+  location: string;
+  meetingUrl: string;
+  startsAt: Date;
+  endsAt: Date;
+  maxAttendees: number | null;
+  waitlistLimit: number | null;
+  claimWindowHours: number;
+  reminderMinutes: number[];
+  rrule: string;
+  timezone: string;
+}>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface AttendeeRecord {
+  id: string;
+  eventId: string;
+  userId: string;
+  status: string;
+  waitlistPosition: number | null;
+  offerExpiresAt: Date | null;
+  attendance?: string | null;
+  checkInCode?: string | null;
+}
+
+// Quote a CSV field when it contains a separator, quote or line break
+function csvField(value: string | number | null) {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function generateCheckInCode() {
+  return Array.from(
+    { length: CHECK_IN_CODE_LENGTH },
+    () => CHECK_IN_CODE_ALPHABET[crypto.randomInt(CHECK_IN_CODE_ALPHABET.length)]
+  ).join('');
+}
+
+const USER_SELECT = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+};
+
+const EVENT_INCLUDE = {
+  community: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  creator: {
+    select: USER_SELECT,
+  },
+  series: {
+    select: {
+      id: true,
+      rrule: true,
+    },
+  },
+  _count: {
+    select: {
+      attendees: {
+        where: { status: 'confirmed' as const },
+      },
+    },
+  },
+};
 
 export class EventService {
+  /**
+   * Events of private communities are only visible to members; to anyone
+   * else they don't exist.
+   */
+  async canViewEvents(communityId: string, userId: string) {
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: { isPublic: true },
+    });
+
+    if (!community) {
+      return false;
+    }
+    return community.isPublic || memberService.isMember(communityId, userId);
+  }
+
+  async canManageEvents(communityId: string, userId: string) {
+    const role = await memberService.getMemberRole(communityId, userId);
+    return !!role && EVENT_MANAGER_ROLES.includes(role);
+  }
+
   async createEvent(data: {
     communityId: string;
     creatorId: string;
@@ -13,14 +142,38 @@ export class EventService {
     startsAt: Date;
     endsAt: Date;
     maxAttendees?: number;
+    waitlistLimit?: number;
+    claimWindowHours?: number;
+    reminderMinutes?: number[];
+    rrule?: string;
+    timezone?: string;
   }) {
     // Validate dates
     if (new Date(data.startsAt) >= new Date(data.endsAt)) {
       throw new ValidationError('End time must be after start time');
     }
+    if (!(await this.canManageEvents(data.communityId, data.creatorId))) {
+      throw new ForbiddenError('Only community owners, admins and moderators can create events');
+    }
+    if (data.reminderMinutes) {
+      data = { ...data, reminderMinutes: normalizeReminderMinutes(data.reminderMinutes) };
+    }
+
+    // Recurring events are created as a series; return its first occurrence
+    const { timezone, ...eventData } = data;
+    if (data.rrule) {
+      const series = await eventSeriesService.createSeries({ ...eventData, rrule: data.rrule, timezone });
+
+      return prisma.event.findFirst({
+        where: { seriesId: series.id },
+        include: EVENT_INCLUDE,
+        orderBy: { occurrenceStart: 'asc' },
+      });
+    }
 
+    // One-off events are stored as instants, so their time zone isn't kept
     const event = await prisma.event.create({
-      data,
+      data: eventData,
       include: {
         community: true,
         creator: {
@@ -37,23 +190,35 @@ export class EventService {
     return event;
   }
 
-  async updateEvent(eventId: string, data: Partial<{
-    title: string;
-    description: string;
-    location: string;
-    meetingUrl: string;
-    startsAt: Date;
-    endsAt: Date;
-    maxAttendees: number;
-  }>) {
-    // Validate dates if both are provided
-    if (data.startsAt && data.endsAt && new Date(data.startsAt) >= new Date(data.endsAt)) {
+  async updateEvent(eventId: string, userId: string, data: EventChanges, scope: EventEditScope = 'occurrence') {
+    const existing = await this.getManageableEvent(eventId, userId);
+
+    // Validate dates against the stored ones when only one is changed
+    const startsAt = data.startsAt ?? existing.startsAt;
+    const endsAt = data.endsAt ?? existing.endsAt;
+    if (new Date(startsAt) >= new Date(endsAt)) {
       throw new ValidationError('End time must be after start time');
     }
 
+    if (data.reminderMinutes) {
+      data = { ...data, reminderMinutes: normalizeReminderMinutes(data.reminderMinutes) };
+    }
+
+    const editsFollowing = !!existing.seriesId && scope === 'following';
+    if ((data.rrule !== undefined || data.timezone !== undefined) && !editsFollowing) {
+      throw new ValidationError('The recurrence can only be changed for an occurrence and the ones following it');
+    }
+    if (editsFollowing) {
+      return this.updateFollowingOccurrences(existing, data);
+    }
+
+    // Occurrences edited on their own no longer follow later series edits
     const event = await prisma.event.update({
       where: { id: eventId },
-      data,
+      data: {
+        ...data,
+        ...(existing.seriesId && { isOverride: true }),
+      },
       include: {
         community: true,
         creator: {
@@ -83,17 +248,26 @@ export class EventService {
       });
     }
 
+    if (this.changesReminders(data)) {
+      await eventReminderService.scheduleReminders(eventId);
+    }
+
+    // Raising or removing the capacity opens spots for the waitlist
+    if (data.maxAttendees !== undefined) {
+      await this.promoteFromWaitlist(eventId);
+    }
+
     return event;
   }
 
-  async deleteEvent(eventId: string) {
-    const event = await prisma.event.findUnique({
-      where: { id: eventId },
-      include: { community: true },
-    });
+  async deleteEvent(eventId: string, userId: string, scope: EventEditScope = 'occurrence') {
+    const event = await this.getManageableEvent(eventId, userId);
 
-    if (!event) {
-      throw new NotFoundError('Event not found');
+    if (event.seriesId && scope === 'following') {
+      const removed = await eventSeriesService.endSeriesFrom(event);
+      await this.notifyOccurrencesCancelled(removed);
+
+      return { id: eventId, cancelled: removed.length };
     }
 
     // Notify attendees of event cancellation
@@ -112,12 +286,179 @@ export class EventService {
       });
     }
 
+    // A cancelled occurrence keeps its row so the series doesn't recreate it
+    if (event.seriesId) {
+      const cancelled = await prisma.event.update({
+        where: { id: eventId },
+        data: { cancelledAt: new Date() },
+      });
+      await eventReminderService.scheduleReminders(eventId);
+
+      return cancelled;
+    }
+
     return prisma.event.delete({
       where: { id: eventId },
     });
   }
 
-  async attendEvent(eventId: string, userId: string, status: string = 'going') {
+  private async updateFollowingOccurrences(
+    existing: { id: string; seriesId: string | null; occurrenceStart: Date | null; startsAt: Date; endsAt: Date; isOverride: boolean },
+    data: EventChanges
+  ) {
+    const { updated, removed } = await eventSeriesService.updateFollowing(existing, data);
+    await this.notifyOccurrencesCancelled(removed);
+
+    const event = await prisma.event.findUnique({
+      where: { id: existing.id },
+      include: EVENT_INCLUDE,
+    });
+
+    const attendees: Array<{ userId: string }> = await prisma.eventAttendee.findMany({
+      where: { eventId: { in: updated } },
+      distinct: ['userId'],
+      select: { userId: true },
+    });
+
+    for (const attendee of attendees) {
+      await notificationService.create({
+        userId: attendee.userId,
+        type: 'EVENT_UPDATED',
+        title: 'Event Updated',
+        message: `The event "${event.title}" has been updated from ${new Date(event.startsAt).toUTCString()} on`,
+        actionUrl: `/communities/${event.community.slug}/events/${event.id}`,
+      });
+    }
+
+    if (this.changesReminders(data)) {
+      for (const eventId of updated) {
+        await eventReminderService.scheduleReminders(eventId);
+      }
+    }
+
+    if (data.maxAttendees !== undefined) {
+      for (const eventId of updated) {
+        await this.promoteFromWaitlist(eventId);
+      }
+    }
+
+    return event;
+  }
+
+  // One notification per attendee, however many of their occurrences were removed
+  private async notifyOccurrencesCancelled(removed: Array<{
+    title: string;
+    community: { name: string; slug: string };
+    attendees: Array<{ userId: string }>;
+  }>) {
+    const notified = new Set<string>();
+
+    for (const event of removed) {
+      for (const { userId } of event.attendees) {
+        if (notified.has(userId)) {
+          continue;
+        }
+        notified.add(userId);
+
+        await notificationService.create({
+          userId,
+          type: 'EVENT_CANCELLED',
+          title: 'Event Cancelled',
+          message: `Upcoming occurrences of "${event.title}" in ${event.community.name} have been cancelled`,
+          actionUrl: `/communities/${event.community.slug}/events`,
+        });
+      }
+    }
+  }
+
+  /**
+   * Events in the given community, or in every community the user belongs to,
+   * that overlap the date range. Without a range only upcoming events are listed.
+   */
+  async listEvents(userId: string, options: {
+    communityId?: string;
+    from?: Date;
+    to?: Date;
+    limit?: number;
+  } = {}) {
+    const { communityId, from = new Date(), to, limit = 50 } = options;
+
+    if (communityId && !(await this.canViewEvents(communityId, userId))) {
+      throw new NotFoundError('Community not found');
+    }
+
+    const events = await prisma.event.findMany({
+      where: {
+        ...(communityId
+          ? { communityId }
+          : { community: { members: { some: { userId } } } }),
+        endsAt: { gte: from },
+        ...(to && { startsAt: { lte: to } }),
+        cancelledAt: null,
+      },
+      include: EVENT_INCLUDE,
+      orderBy: { startsAt: 'asc' },
+      take: limit,
+    });
+
+    const rsvps: Array<{ eventId: string; status: string }> = await prisma.eventAttendee.findMany({
+      where: {
+        userId,
+        eventId: { in: events.map((event: { id: string }) => event.id) },
+      },
+      select: { eventId: true, status: true },
+    });
+    const statusByEvent = new Map(rsvps.map(rsvp => [rsvp.eventId, rsvp.status]));
+
+    return events.map((event: { id: string; _count: { attendees: number } }) => ({
+      ...event,
+      attendeeCount: event._count.attendees,
+      myStatus: statusByEvent.get(event.id) ?? null,
+    }));
+  }
+
+  async getEvent(eventId: string, userId: string) {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: EVENT_INCLUDE,
+    });
+
+    if (!event || !(await this.canViewEvents(event.communityId, userId))) {
+      throw new NotFoundError('Event not found');
+    }
+
+    const [counts, rsvp, canManage] = await Promise.all([
+      prisma.eventAttendee.groupBy({
+        by: ['status'],
+        where: { eventId },
+        _count: { _all: true },
+      }),
+      prisma.eventAttendee.findUnique({
+        where: { eventId_userId: { eventId, userId } },
+      }),
+      this.canManageEvent(event, userId),
+    ]);
+
+    const attendeeCounts = Object.fromEntries(ATTENDEE_STATUSES.map(status => [status, 0]));
+    for (const count of counts as Array<{ status: string; _count: { _all: number } }>) {
+      attendeeCounts[count.status] = count._count._all;
+    }
+
+    return {
+      ...event,
+      attendeeCount: attendeeCounts.confirmed,
+      attendeeCounts,
+      spotsLeft: event.maxAttendees
+        ? Math.max(event.maxAttendees - attendeeCounts.confirmed - attendeeCounts.offered, 0)
+        : null,
+      myStatus: rsvp?.status ?? null,
+      myWaitlistPosition: rsvp?.status === 'waitlisted' ? await this.getWaitlistRank(rsvp) : null,
+      myOfferExpiresAt: rsvp?.status === 'offered' ? rsvp.offerExpiresAt : null,
+      canManage,
+    };
+  }
+
+  async attendEvent(eventId: string, userId: string, status: string = 'confirmed') {
     const event = await prisma.event.findUnique({
       where: { id: eventId },
     });
@@ -125,77 +466,687 @@ export class EventService {
     if (!event) {
       throw new NotFoundError('Event not found');
     }
+    if (!(await memberService.isMember(event.communityId, userId))) {
+      throw new ForbiddenError('Join the community to RSVP to its events');
+    }
 
-    return prisma.eventAttendee.upsert({
-      where: {
-        eventId_userId: {
-          eventId,
-          userId,
+    return this.setAttendance(event, userId, status);
+  }
+
+  /**
+   * Register with details for the organizers. Registering is a confirmed RSVP,
+   * so when the event is full the attendee joins its waitlist with them.
+   */
+  async completeRegistration(eventId: string, userId: string, registration: RegistrationDetails) {
+    const attendee = await this.attendEvent(eventId, userId, 'confirmed');
+
+    return prisma.eventAttendee.update({
+      where: { id: attendee.id },
+      data: { registration },
+      include: {
+        user: {
+          select: USER_SELECT,
         },
       },
-      create: {
+    });
+  }
+
+  async cancelAttendance(eventId: string, userId: string) {
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { eventId_userId: { eventId, userId } },
+    });
+
+    if (!attendee) {
+      throw new NotFoundError('You have not RSVPed to this event');
+    }
+
+    await prisma.eventAttendee.delete({
+      where: { id: attendee.id },
+    });
+    await eventReminderService.scheduleReminders(eventId, [userId]);
+
+    if (this.holdsSpot(attendee)) {
+      await this.promoteFromWaitlist(eventId);
+    }
+
+    return { eventId, userId, status: null };
+  }
+
+  async getEventAttendees(eventId: string, userId: string, status?: string) {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { communityId: true, creatorId: true },
+    });
+
+    if (!event || !(await this.canViewEvents(event.communityId, userId))) {
+      throw new NotFoundError('Event not found');
+    }
+
+    const attendees = await prisma.eventAttendee.findMany({
+      where: {
         eventId,
-        userId,
-        status,
+        ...(status && { status }),
       },
-      update: {
-        status,
+      include: {
+        user: {
+          select: USER_SELECT,
+        },
       },
+      orderBy: { joinedAt: 'asc' },
     });
+
+    // Check-in codes and registration details are only for the attendee
+    // themselves and the event's managers
+    if (await this.canManageEvent(event, userId)) {
+      return attendees;
+    }
+    return attendees.map((attendee: AttendeeRecord) => (
+      attendee.userId === userId ? attendee : { ...attendee, checkInCode: null, registration: null }
+    ));
+  }
+
+  /** Event managers can add any community member to an event. */
+  async addAttendee(eventId: string, actorId: string, userId: string, status: string = 'confirmed') {
+    const event = await this.getManageableEvent(eventId, actorId);
+
+    if (!(await memberService.isMember(event.communityId, userId))) {
+      throw new ValidationError('Only community members can attend its events');
+    }
+
+    return this.setAttendance(event, userId, status);
+  }
+
+  /**
+   * Attendees can change their own RSVP; event managers can change anyone's
+   * and mark confirmed attendees as attended or no-show. Setting a marked
+   * attendee back to their RSVP status clears the mark.
+   */
+  async updateAttendeeStatus(attendeeId: string, actorId: string, status: string) {
+    const attendee = await this.getAttendeeForActor(attendeeId, actorId);
+
+    if (ATTENDANCE_STATUSES.includes(status) || (attendee.attendance && status === attendee.status)) {
+      if (!(await this.canManageEvent(attendee.event, actorId))) {
+        throw new ForbiddenError('Only event managers can record attendance');
+      }
+
+      return this.recordAttendance(attendee, ATTENDANCE_STATUSES.includes(status) ? status : null);
+    }
+
+    return this.setAttendance(attendee.event, attendee.userId, status);
+  }
+
+  /** Event managers check attendees in with the code the attendee was given. */
+  async checkInAttendee(attendeeId: string, actorId: string, checkInCode: string) {
+    const attendee = await this.getAttendeeForActor(attendeeId, actorId);
+
+    if (!(await this.canManageEvent(attendee.event, actorId))) {
+      throw new ForbiddenError('Only event managers can check attendees in');
+    }
+    if (!attendee.checkInCode || attendee.checkInCode !== checkInCode.trim().toUpperCase()) {
+      throw new ValidationError('Invalid check-in code');
+    }
+
+    return this.recordAttendance(attendee, 'attended');
+  }
+
+  /**
+   * Give confirmed attendees without a check-in code one, unique within the
+   * event, and return the codes of all confirmed attendees.
+   */
+  async generateCheckInCodes(eventId: string, actorId: string) {
+    await this.getManageableEvent(eventId, actorId);
+
+    const [attendees, issued]: Array<Array<{ id: string; checkInCode: string | null }>> = await Promise.all([
+      prisma.eventAttendee.findMany({
+        where: { eventId, status: 'confirmed' },
+        select: { id: true, checkInCode: true },
+        orderBy: { joinedAt: 'asc' },
+      }),
+      prisma.eventAttendee.findMany({
+        where: { eventId, checkInCode: { not: null } },
+        select: { id: true, checkInCode: true },
+      }),
+    ]);
+    const taken = new Set(issued.map(attendee => attendee.checkInCode));
+
+    const codes = [];
+    for (const attendee of attendees) {
+      let checkInCode = attendee.checkInCode;
+      if (!checkInCode) {
+        do {
+          checkInCode = generateCheckInCode();
+        } while (taken.has(checkInCode));
+        taken.add(checkInCode);
+
+        await prisma.eventAttendee.update({
+          where: { id: attendee.id },
+          data: { checkInCode },
+        });
+      }
+      codes.push({ attendeeId: attendee.id, checkInCode });
+    }
+
+    return codes;
   }
 
-  async getEventAttendees(eventId: string) {
-    return prisma.eventAttendee.findMany({
+  /**
+   * Attendee counts by status and attendance, for event managers. The
+   * check-in rate is the percentage of confirmed attendees who attended.
+   */
+  async getAttendanceStats(eventId: string, actorId: string) {
+    await this.getManageableEvent(eventId, actorId);
+
+    const attendees: Array<{ status: string; attendance: string | null }> = await prisma.eventAttendee.findMany({
       where: { eventId },
+      select: { status: true, attendance: true },
+    });
+    const count = (matches: (attendee: { status: string; attendance: string | null }) => boolean) =>
+      attendees.filter(matches).length;
+
+    const confirmed = count(attendee => attendee.status === 'confirmed');
+    const attended = count(attendee => attendee.attendance === 'attended');
+
+    return {
+      total: attendees.length,
+      confirmed,
+      maybe: count(attendee => attendee.status === 'maybe'),
+      declined: count(attendee => attendee.status === 'declined'),
+      offered: count(attendee => attendee.status === 'offered'),
+      waitlisted: count(attendee => attendee.status === 'waitlisted'),
+      attended,
+      noShow: count(attendee => attendee.attendance === 'no_show'),
+      checkInRate: confirmed > 0 ? Math.round((attended / confirmed) * 100) : 0,
+    };
+  }
+
+  async removeAttendee(attendeeId: string, actorId: string) {
+    const attendee = await this.getAttendeeForActor(attendeeId, actorId);
+
+    await prisma.eventAttendee.delete({
+      where: { id: attendeeId },
+    });
+    await eventReminderService.scheduleReminders(attendee.eventId, [attendee.userId]);
+
+    if (this.holdsSpot(attendee)) {
+      await this.promoteFromWaitlist(attendee.eventId);
+    }
+
+    return { id: attendeeId, eventId: attendee.eventId, userId: attendee.userId };
+  }
+
+  /** Attendees as CSV or Excel, for event managers; all of them unless some are picked. */
+  async exportAttendees(
+    eventId: string,
+    actorId: string,
+    attendeeIds?: string[],
+    format: AttendeeExportFormat = 'csv'
+  ) {
+    const event = await this.getManageableEvent(eventId, actorId);
+
+    const attendees = await prisma.eventAttendee.findMany({
+      where: {
+        eventId,
+        ...(attendeeIds && { id: { in: attendeeIds } }),
+      },
       include: {
         user: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-            avatarUrl: true,
-          },
+          select: USER_SELECT,
         },
       },
+      orderBy: { joinedAt: 'asc' },
     });
+
+    const rows = [
+      ['Name', 'Username', 'Status', 'Attendance', 'Check-in code', 'Waitlist position', 'RSVPed at'],
+      ...attendees.map((attendee: AttendeeRecord & { joinedAt: Date; user: Record<string, string | null> }) => [
+        [attendee.user.firstName, attendee.user.lastName].filter(Boolean).join(' '),
+        attendee.user.username,
+        attendee.status,
+        attendee.attendance,
+        attendee.checkInCode,
+        attendee.waitlistPosition,
+        new Date(attendee.joinedAt).toISOString(),
+      ]),
+    ];
+
+    if (format === 'xlsx') {
+      return {
+        filename: `event-${event.id}-attendees.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        content: createXlsx('Attendees', rows),
+      };
+    }
+
+    return {
+      filename: `event-${event.id}-attendees.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: rows.map(row => row.map(csvField).join(',')).join('\r\n'),
+    };
   }
 
-  async sendEventReminders() {
-    // Find events starting in the next 24 hours that haven't sent reminders yet
-    const oneDayFromNow = new Date();
-    oneDayFromNow.setDate(oneDayFromNow.getDate() + 1);
+  /** Event managers can message some of the event's attendees. */
+  async messageAttendees(eventId: string, actorId: string, attendeeIds: string[], message: string) {
+    const event = await this.getManageableEvent(eventId, actorId);
 
-    const events = await prisma.event.findMany({
-      where: {
-        startsAt: {
-          gte: new Date(),
-          lte: oneDayFromNow,
+    const attendees: Array<{ userId: string }> = await prisma.eventAttendee.findMany({
+      where: { eventId, id: { in: attendeeIds } },
+      select: { userId: true },
+    });
+
+    for (const attendee of attendees) {
+      await notificationService.create({
+        userId: attendee.userId,
+        type: 'EVENT_UPDATED',
+        title: `Message about "${event.title}"`,
+        message,
+        actionUrl: `/communities/${event.community.slug}/events/${event.id}`,
+      });
+    }
+
+    return { sent: attendees.length };
+  }
+
+  /** The waitlist in order, for event managers. */
+  async getWaitlist(eventId: string, actorId: string) {
+    await this.getManageableEvent(eventId, actorId);
+
+    const waitlist = await prisma.eventAttendee.findMany({
+      where: { eventId, status: 'waitlisted' },
+      include: {
+        user: {
+          select: USER_SELECT,
         },
-        remindersSent: false,
+      },
+      orderBy: { waitlistPosition: 'asc' },
+    });
+
+    return waitlist.map((attendee: AttendeeRecord, index: number) => ({
+      ...attendee,
+      waitlistPosition: index + 1,
+    }));
+  }
+
+  /**
+   * Give a waitlisted attendee a spot straight away. Managers can promote
+   * past the event's capacity.
+   */
+  async promoteAttendee(eventId: string, actorId: string, attendeeId: string) {
+    const event = await this.getManageableEvent(eventId, actorId);
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { id: attendeeId },
+    });
+
+    if (!attendee || attendee.eventId !== eventId) {
+      throw new NotFoundError('Attendee not found');
+    }
+    if (attendee.status !== 'waitlisted' && attendee.status !== 'offered') {
+      throw new ValidationError('Only waitlisted attendees can be promoted');
+    }
+
+    const promoted = await prisma.eventAttendee.update({
+      where: { id: attendeeId },
+      data: {
+        status: 'confirmed',
+        waitlistPosition: null,
+        offerExpiresAt: null,
       },
       include: {
-        attendees: {
-          include: { user: true },
+        user: {
+          select: USER_SELECT,
         },
-        community: true,
       },
     });
 
-    for (const event of events) {
-      // Send reminders to all attendees
-      for (const attendee of event.attendees) {
-        await notificationService.notifyEventReminder(event.id, attendee.userId);
+    await eventReminderService.scheduleReminders(eventId, [attendee.userId]);
+
+    await notificationService.create({
+      userId: attendee.userId,
+      type: 'EVENT_UPDATED',
+      title: 'You\'re off the waitlist',
+      message: `You have a spot at "${event.title}"`,
+      actionUrl: `/communities/${event.community.slug}/events/${event.id}`,
+    });
+
+    return promoted;
+  }
+
+  /** Move a waitlisted attendee to a new place (1-based) in the waitlist. */
+  async moveWaitlistEntry(eventId: string, actorId: string, attendeeId: string, position: number) {
+    await this.getManageableEvent(eventId, actorId);
+
+    await prisma.$transaction(async (tx: any) => {
+      await this.lockEvent(tx, eventId);
+
+      const waitlist: AttendeeRecord[] = await tx.eventAttendee.findMany({
+        where: { eventId, status: 'waitlisted' },
+        orderBy: { waitlistPosition: 'asc' },
+      });
+      const index = waitlist.findIndex(attendee => attendee.id === attendeeId);
+
+      if (index === -1) {
+        throw new NotFoundError('Attendee is not on the waitlist');
+      }
+
+      const [moved] = waitlist.splice(index, 1);
+      waitlist.splice(Math.min(Math.max(position, 1), waitlist.length + 1) - 1, 0, moved);
+
+      // Renumber from 1 so positions stay contiguous
+      for (const [i, attendee] of waitlist.entries()) {
+        if (attendee.waitlistPosition !== i + 1) {
+          await tx.eventAttendee.update({
+            where: { id: attendee.id },
+            data: { waitlistPosition: i + 1 },
+          });
+        }
+      }
+    });
+
+    return this.getWaitlist(eventId, actorId);
+  }
+
+  /**
+   * Offer open spots to the front of the waitlist. An offer holds the spot
+   * for the event's claim window; the attendee claims it by confirming their
+   * RSVP, otherwise it expires and passes to the next person.
+   */
+  async promoteFromWaitlist(eventId: string) {
+    const { event, offers } = await prisma.$transaction(async (tx: any) => {
+      const event = await this.lockEvent(tx, eventId);
+
+      if (event.cancelledAt || new Date(event.endsAt) < new Date()) {
+        return { event, offers: [] as AttendeeRecord[] };
+      }
+
+      const taken = event.maxAttendees
+        ? await tx.eventAttendee.count({ where: this.spotsTakenWhere(eventId) })
+        : 0;
+      const openSpots = event.maxAttendees ? event.maxAttendees - taken : undefined;
+
+      if (openSpots !== undefined && openSpots <= 0) {
+        return { event, offers: [] as AttendeeRecord[] };
+      }
+
+      const offers: AttendeeRecord[] = await tx.eventAttendee.findMany({
+        where: { eventId, status: 'waitlisted' },
+        orderBy: { waitlistPosition: 'asc' },
+        take: openSpots,
+      });
+      const offerExpiresAt = new Date(Date.now() + event.claimWindowHours * HOUR_MS);
+
+      if (offers.length > 0) {
+        await tx.eventAttendee.updateMany({
+          where: { id: { in: offers.map(offer => offer.id) } },
+          data: {
+            status: 'offered',
+            waitlistPosition: null,
+            offerExpiresAt,
+          },
+        });
+      }
+
+      return {
+        event,
+        offers: offers.map(offer => ({ ...offer, offerExpiresAt })),
+      };
+    });
+
+    for (const offer of offers) {
+      await notificationService.create({
+        userId: offer.userId,
+        type: 'EVENT_UPDATED',
+        title: 'A spot opened up',
+        message: `A spot opened up at "${event.title}". Claim it by ${offer.offerExpiresAt!.toUTCString()}`,
+        actionUrl: `/communities/${event.community.slug}/events/${event.id}`,
+      });
+    }
+
+    return offers.length;
+  }
+
+  /** Release spot offers that weren't claimed in time and offer them onwards. */
+  async expireOffers() {
+    const now = new Date();
+    const expired = await prisma.eventAttendee.findMany({
+      where: {
+        status: 'offered',
+        offerExpiresAt: { lte: now },
+      },
+      include: {
+        event: {
+          include: { community: true },
+        },
+      },
+    });
+
+    const eventIds = new Set<string>();
+    let released = 0;
+    for (const offer of expired) {
+      // A claim may have landed since the offer was read
+      const { count } = await prisma.eventAttendee.updateMany({
+        where: { id: offer.id, status: 'offered', offerExpiresAt: { lte: now } },
+        data: { status: 'declined', offerExpiresAt: null },
+      });
+      if (count === 0) {
+        continue;
       }
 
-      // Mark reminders as sent
-      await prisma.event.update({
-        where: { id: event.id },
-        data: { remindersSent: true },
+      released++;
+      eventIds.add(offer.eventId);
+      await notificationService.create({
+        userId: offer.userId,
+        type: 'EVENT_UPDATED',
+        title: 'Spot offer expired',
+        message: `Your spot at "${offer.event.title}" was released because it wasn't claimed in time`,
+        actionUrl: `/communities/${offer.event.community.slug}/events/${offer.eventId}`,
       });
     }
 
-    return { message: `Sent reminders for ${events.length} events` };
+    for (const eventId of eventIds) {
+      await this.promoteFromWaitlist(eventId);
+    }
+
+    return { released };
+  }
+
+  /**
+   * Record an RSVP. Confirmations beyond the event's capacity join the end of
+   * its waitlist; the capacity check runs with the event row locked so
+   * concurrent RSVPs can't overfill it. Confirming while holding a spot offer
+   * claims the spot.
+   */
+  private async setAttendance(event: { id: string }, userId: string, status: string) {
+    if (!RSVP_STATUSES.includes(status)) {
+      throw new ValidationError(`Status must be one of: ${RSVP_STATUSES.join(', ')}`);
+    }
+
+    const { attendee, freedSpot } = await prisma.$transaction(async (tx: any) => {
+      const locked = await this.lockEvent(tx, event.id);
+
+      if (locked.cancelledAt) {
+        throw new ValidationError('This event has been cancelled');
+      }
+      if (new Date(locked.endsAt) < new Date()) {
+        throw new ValidationError('This event has already ended');
+      }
+
+      const existing: AttendeeRecord | null = await tx.eventAttendee.findUnique({
+        where: { eventId_userId: { eventId: event.id, userId } },
+      });
+      const heldSpot = !!existing && this.holdsSpot(existing);
+
+      let data = { status, waitlistPosition: null as number | null, offerExpiresAt: null as Date | null };
+      if (status === 'confirmed' && !heldSpot) {
+        if (existing?.status === 'waitlisted') {
+          data = { ...data, status: 'waitlisted', waitlistPosition: existing.waitlistPosition };
+        } else if (!(await this.hasOpenSpot(tx, locked, userId))) {
+          data = { ...data, status: 'waitlisted', waitlistPosition: await this.nextWaitlistPosition(tx, locked) };
+        }
+      }
+
+      const attendee = await tx.eventAttendee.upsert({
+        where: {
+          eventId_userId: {
+            eventId: event.id,
+            userId,
+          },
+        },
+        create: {
+          eventId: event.id,
+          userId,
+          ...data,
+        },
+        update: data,
+        include: {
+          user: {
+            select: USER_SELECT,
+          },
+        },
+      });
+
+      return { attendee, freedSpot: heldSpot && data.status !== 'confirmed' };
+    });
+
+    await eventReminderService.scheduleReminders(event.id, [userId]);
+
+    if (freedSpot) {
+      await this.promoteFromWaitlist(event.id);
+    }
+
+    return attendee;
+  }
+
+  // Only confirmed attendees can be marked as having come or not
+  private async recordAttendance(attendee: { id: string; status: string }, attendance: string | null) {
+    if (attendee.status !== 'confirmed') {
+      throw new ValidationError('Only confirmed attendees can be checked in or marked as no-show');
+    }
+
+    return prisma.eventAttendee.update({
+      where: { id: attendee.id },
+      data: {
+        attendance,
+        checkedInAt: attendance === 'attended' ? new Date() : null,
+      },
+      include: {
+        user: {
+          select: USER_SELECT,
+        },
+      },
+    });
+  }
+
+  // Reminders are timed from the start, so moving it reschedules them
+  private changesReminders(data: EventChanges) {
+    return data.startsAt !== undefined || data.reminderMinutes !== undefined;
+  }
+
+  // Serializes capacity changes for an event until the transaction ends
+  private async lockEvent(tx: any, eventId: string) {
+    await tx.$queryRaw`SELECT id FROM "events" WHERE id = ${eventId} FOR UPDATE`;
+
+    const event = await tx.event.findUnique({
+      where: { id: eventId },
+      include: { community: true },
+    });
+
+    if (!event) {
+      throw new NotFoundError('Event not found');
+    }
+
+    return event;
+  }
+
+  // Confirmed attendees and unexpired offers both hold a spot
+  private spotsTakenWhere(eventId: string) {
+    return {
+      eventId,
+      OR: [
+        { status: 'confirmed' },
+        { status: 'offered', offerExpiresAt: { gt: new Date() } },
+      ],
+    };
+  }
+
+  private holdsSpot(attendee: { status: string; offerExpiresAt: Date | null }) {
+    return attendee.status === 'confirmed'
+      || (attendee.status === 'offered' && !!attendee.offerExpiresAt && new Date(attendee.offerExpiresAt) > new Date());
+  }
+
+  private async hasOpenSpot(tx: any, event: { id: string; maxAttendees: number | null }, userId: string) {
+    if (!event.maxAttendees) {
+      return true;
+    }
+
+    const taken = await tx.eventAttendee.count({
+      where: {
+        ...this.spotsTakenWhere(event.id),
+        userId: { not: userId },
+      },
+    });
+
+    return taken < event.maxAttendees;
+  }
+
+  private async nextWaitlistPosition(tx: any, event: { id: string; waitlistLimit: number | null }) {
+    const waitlisted = await tx.eventAttendee.aggregate({
+      where: { eventId: event.id, status: 'waitlisted' },
+      _count: { _all: true },
+      _max: { waitlistPosition: true },
+    });
+
+    if (event.waitlistLimit !== null && waitlisted._count._all >= event.waitlistLimit) {
+      throw new ValidationError('This event and its waitlist are full');
+    }
+
+    return (waitlisted._max.waitlistPosition ?? 0) + 1;
+  }
+
+  private async getWaitlistRank(attendee: { eventId: string; waitlistPosition: number | null }) {
+    const ahead = await prisma.eventAttendee.count({
+      where: {
+        eventId: attendee.eventId,
+        status: 'waitlisted',
+        waitlistPosition: { lt: attendee.waitlistPosition ?? 0 },
+      },
+    });
+
+    return ahead + 1;
+  }
+
+  private async canManageEvent(event: { communityId: string; creatorId: string }, userId: string) {
+    return event.creatorId === userId || this.canManageEvents(event.communityId, userId);
+  }
+
+  private async getManageableEvent(eventId: string, userId: string) {
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      include: { community: true },
+    });
+
+    if (!event) {
+      throw new NotFoundError('Event not found');
+    }
+    if (!(await this.canManageEvent(event, userId))) {
+      throw new ForbiddenError('Only the event creator or community staff can manage this event');
+    }
+
+    return event;
+  }
+
+  private async getAttendeeForActor(attendeeId: string, actorId: string) {
+    const attendee = await prisma.eventAttendee.findUnique({
+      where: { id: attendeeId },
+      include: { event: true },
+    });
+
+    if (!attendee) {
+      throw new NotFoundError('Attendee not found');
+    }
+    if (attendee.userId !== actorId && !(await this.canManageEvent(attendee.event, actorId))) {
+      throw new ForbiddenError('Only the attendee or event managers can change this RSVP');
+    }
+
+    return attendee;
   }
 
   async getUpcomingEvents(communityId?: string, limit: number = 10) {
@@ -207,6 +1158,7 @@ export class EventService {
         startsAt: {
           gte: new Date(),
         },
+        cancelledAt: null,
       },
       include: {
         community: true,
@@ -0,0 +1,181 @@
+import { prisma } from '../lib/prisma';
+import { featureFlagsService } from './admin/featureFlags.service';
+import { onFlagChange } from './admin/featureFlagEvents';
+import { EvaluableFlag, evaluateFlag, flagRequiresUser } from './admin/flagEvaluation';
+import { SegmentUserContext, parseUserAgent } from './admin/segmentRules';
+
+export interface FlagContext {
+  userId?: string;
+  // Pre-loaded user attributes; loaded (and cached) on demand when omitted
+  user?: SegmentUserContext;
+  userAgent?: string;
+  country?: string;
+  attributes?: Record<string, any>;
+}
+
+export interface EvaluatedFlag {
+  enabled: boolean;
+  value: any;
+  variant: string | null;
+  reason: string;
+}
+
+interface FeatureFlagClientOptions {
+  refreshIntervalMs?: number;
+  userCacheTtlMs?: number;
+}
+
+/**
+ * In-process feature flag client. All non-archived flags are kept in memory
+ * and reloaded when a flag changes (see featureFlagEvents) or on a slow
+ * periodic refresh, so evaluation does not hit the database on hot paths.
+ */
+export class FeatureFlagClient {
+  private flags: Map<string, EvaluableFlag> = new Map();
+  private userCache: Map<string, { user: SegmentUserContext | null; expiresAt: number }> = new Map();
+  private loading: Promise<void> | null = null;
+  private loadedAt: Date | null = null;
+  private refreshTimer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private readonly refreshIntervalMs: number;
+  private readonly userCacheTtlMs: number;
+
+  constructor(options: FeatureFlagClientOptions = {}) {
+    this.refreshIntervalMs = options.refreshIntervalMs ?? 5 * 60 * 1000;
+    this.userCacheTtlMs = options.userCacheTtlMs ?? 60 * 1000;
+  }
+
+  async start() {
+    if (!this.unsubscribe) {
+      this.unsubscribe = onFlagChange(() => {
+        this.refresh().catch(error => console.error('Failed to refresh feature flags:', error));
+      });
+    }
+
+    if (!this.refreshTimer && this.refreshIntervalMs > 0) {
+      this.refreshTimer = setInterval(() => {
+        this.refresh().catch(error => console.error('Failed to refresh feature flags:', error));
+      }, this.refreshIntervalMs);
+      this.refreshTimer.unref();
+    }
+
+    await this.refresh();
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  async refresh(): Promise<void> {
+    // Collapse concurrent refreshes (e.g. a burst of admin edits) into one query
+    if (this.loading) {
+      return this.loading;
+    }
+
+    this.loading = (async () => {
+      try {
+        const flags = await prisma.featureFlag.findMany({
+          where: { isArchived: false },
+          include: {
+            segments: { where: { isActive: true }, orderBy: { priority: 'desc' } },
+            experiments: { where: { isActive: true, status: 'RUNNING' } }
+          }
+        });
+
+        this.flags = new Map(flags.map((flag: EvaluableFlag) => [flag.key, flag]));
+        this.loadedAt = new Date();
+      } finally {
+        this.loading = null;
+      }
+    })();
+
+    return this.loading;
+  }
+
+  async isEnabled(key: string, ctx: FlagContext = {}): Promise<boolean> {
+    return (await this.evaluate(key, ctx)).enabled;
+  }
+
+  async getVariant(key: string, ctx: FlagContext = {}): Promise<string | null> {
+    return (await this.evaluate(key, ctx)).variant;
+  }
+
+  async evaluate(key: string, ctx: FlagContext = {}): Promise<EvaluatedFlag> {
+    await this.ensureLoaded();
+
+    const flag = this.flags.get(key);
+    if (!flag) {
+      return { enabled: false, value: null, variant: null, reason: 'Flag not found or archived' };
+    }
+
+    const results = await this.evaluateFlags([flag], ctx);
+    return results[key];
+  }
+
+  async evaluateAll(ctx: FlagContext = {}): Promise<Record<string, EvaluatedFlag>> {
+    await this.ensureLoaded();
+    return this.evaluateFlags(Array.from(this.flags.values()), ctx);
+  }
+
+  getLoadedAt() {
+    return this.loadedAt;
+  }
+
+  private async evaluateFlags(flags: EvaluableFlag[], ctx: FlagContext): Promise<Record<string, EvaluatedFlag>> {
+    let user: SegmentUserContext | null | undefined = ctx.user;
+    if (!user && ctx.userId && flags.some(flag => flag.isActive && flagRequiresUser(flag))) {
+      user = await this.getUser(ctx.userId);
+    }
+
+    const segmentContext = {
+      user: user || (ctx.userId ? { id: ctx.userId } : undefined),
+      device: parseUserAgent(ctx.userAgent),
+      country: ctx.country,
+      attributes: ctx.attributes,
+      now: new Date()
+    };
+
+    const results: Record<string, EvaluatedFlag> = {};
+    for (const flag of flags) {
+      const evaluation = evaluateFlag(flag, ctx.userId, segmentContext);
+      results[flag.key] = {
+        enabled: evaluation.enabled,
+        value: evaluation.value,
+        variant: evaluation.variant?.name ?? null,
+        reason: evaluation.reason
+      };
+    }
+    return results;
+  }
+
+  private async getUser(userId: string): Promise<SegmentUserContext | null> {
+    const cached = this.userCache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.user;
+    }
+
+    const user = await featureFlagsService.loadSegmentUser(userId);
+    this.userCache.set(userId, { user, expiresAt: Date.now() + this.userCacheTtlMs });
+
+    // Keep the cache bounded; entries are cheap to reload
+    if (this.userCache.size > 10000) {
+      const oldest = this.userCache.keys().next().value;
+      if (oldest) this.userCache.delete(oldest);
+    }
+
+    return user;
+  }
+
+  private async ensureLoaded() {
+    if (!this.loadedAt) {
+      await this.refresh();
+    }
+  }
+}
+
+export const featureFlagClient = new FeatureFlagClient();
@@ -0,0 +1,451 @@
+import crypto from 'crypto';
+import { prisma } from '../lib/prisma';
+import { logAuditEvent } from '../utils/auditLogger';
+import { notificationService } from './notification.service';
+import { emailService } from './email.service';
+import { memberService } from './memberService';
+
+// Higher rank can manage lower ranks. Owners are never assigned by invite.
+const ROLE_RANK: Record<string, number> = {
+  member: 0,
+  moderator: 1,
+  admin: 2,
+  owner: 3,
+};
+
+const INVITE_ROLES = ['member', 'moderator', 'admin'];
+
+// Invitations to paid communities only skip checkout for staff roles
+const STAFF_ROLES = ['moderator', 'admin'];
+
+// Attempts to claim a use of a shared link before giving up under contention
+const CLAIM_ATTEMPTS = 3;
+
+export interface CreateInvitationInput {
+  email?: string;
+  username?: string;
+  role?: string;
+  maxUses?: number;
+  expiresIn?: number; // hours
+}
+
+const invitationInclude = {
+  community: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+      logoUrl: true,
+      isPaid: true,
+    },
+  },
+  inviter: {
+    select: {
+      id: true,
+      username: true,
+      firstName: true,
+      lastName: true,
+      avatarUrl: true,
+    },
+  },
+};
+
+function generateInviteCode() {
+  return crypto.randomBytes(8).toString('base64url');
+}
+
+function isExpired(invitation: { expiresAt: Date | null }) {
+  return !!invitation.expiresAt && invitation.expiresAt.getTime() <= Date.now();
+}
+
+export class InvitationService {
+  async createInvitation(communityId: string, inviterId: string, input: CreateInvitationInput) {
+    const role = input.role || 'member';
+    await this.assertCanInvite(communityId, inviterId, role);
+
+    const expiresAt = input.expiresIn
+      ? new Date(Date.now() + input.expiresIn * 60 * 60 * 1000)
+      : null;
+
+    const isDirect = !!(input.email || input.username);
+    let inviteeId: string | null = null;
+    let email: string | null = null;
+
+    if (isDirect) {
+      const invitee = input.username
+        ? await prisma.user.findUnique({ where: { username: input.username } })
+        : await prisma.user.findUnique({ where: { email: input.email!.toLowerCase() } });
+
+      if (input.username && !invitee) {
+        throw new Error('User not found');
+      }
+
+      inviteeId = invitee?.id || null;
+      email = invitee?.email || input.email!.toLowerCase();
+
+      if (inviteeId && await memberService.isMember(communityId, inviteeId)) {
+        throw new Error('Already a member');
+      }
+
+      const pending = await prisma.communityInvitation.findFirst({
+        where: {
+          communityId,
+          type: 'DIRECT',
+          status: 'PENDING',
+          OR: [
+            ...(inviteeId ? [{ inviteeId }] : []),
+            { email },
+          ],
+        },
+      });
+      if (pending && !isExpired(pending)) {
+        throw new Error('Invitation already pending');
+      }
+    }
+
+    const invitation = await prisma.communityInvitation.create({
+      data: {
+        communityId,
+        code: generateInviteCode(),
+        type: isDirect ? 'DIRECT' : 'LINK',
+        role,
+        inviterId,
+        inviteeId,
+        email,
+        // A direct invitation is for one person
+        maxUses: isDirect ? 1 : input.maxUses ?? null,
+        expiresAt,
+      },
+      include: invitationInclude,
+    });
+
+    await logAuditEvent(inviterId, 'COMMUNITY_INVITE_CREATED', 'community_invitation', invitation.id, {
+      communityId,
+      type: invitation.type,
+      role,
+      inviteeId,
+      email,
+      maxUses: invitation.maxUses,
+      expiresAt,
+    });
+
+    if (inviteeId) {
+      await notificationService.notifyCommunityInvite(inviteeId, communityId, inviterId);
+    } else if (email) {
+      await this.sendInviteEmail(invitation, email);
+    }
+
+    return invitation;
+  }
+
+  async listInvitations(communityId: string, userId: string) {
+    await this.assertCanInvite(communityId, userId);
+
+    const invitations = await prisma.communityInvitation.findMany({
+      where: { communityId, status: 'PENDING' },
+      include: {
+        ...invitationInclude,
+        invitee: {
+          select: {
+            id: true,
+            username: true,
+            avatarUrl: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.filter((invitation: any) => !isExpired(invitation));
+  }
+
+  async revokeInvitation(communityId: string, invitationId: string, userId: string) {
+    await this.assertCanInvite(communityId, userId);
+
+    const invitation = await prisma.communityInvitation.findUnique({
+      where: { id: invitationId },
+    });
+
+    if (!invitation || invitation.communityId !== communityId) {
+      throw new Error('Invitation not found');
+    }
+
+    if (invitation.status !== 'PENDING') {
+      throw new Error('Invitation is no longer valid');
+    }
+
+    const revoked = await prisma.communityInvitation.update({
+      where: { id: invitationId },
+      data: {
+        status: 'REVOKED',
+        revokedAt: new Date(),
+        revokedById: userId,
+      },
+    });
+
+    await logAuditEvent(userId, 'COMMUNITY_INVITE_REVOKED', 'community_invitation', invitationId, {
+      communityId,
+      type: invitation.type,
+      uses: invitation.uses,
+    });
+
+    return revoked;
+  }
+
+  async getPendingInvitations(userId: string) {
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      return [];
+    }
+
+    const invitations = await prisma.communityInvitation.findMany({
+      where: {
+        type: 'DIRECT',
+        status: 'PENDING',
+        OR: [{ inviteeId: userId }, { email: user.email.toLowerCase() }],
+      },
+      include: invitationInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.filter((invitation: any) => !isExpired(invitation));
+  }
+
+  async acceptInvitation(invitationId: string, userId: string) {
+    const invitation = await this.getDirectInvitation(invitationId, userId);
+    return this.acceptDirect(invitation, userId);
+  }
+
+  async declineInvitation(invitationId: string, userId: string) {
+    const invitation = await this.getDirectInvitation(invitationId, userId);
+
+    await prisma.communityInvitation.update({
+      where: { id: invitation.id },
+      data: {
+        status: 'DECLINED',
+        inviteeId: userId,
+        respondedAt: new Date(),
+      },
+    });
+
+    await logAuditEvent(userId, 'COMMUNITY_INVITE_DECLINED', 'community_invitation', invitation.id, {
+      communityId: invitation.communityId,
+    });
+  }
+
+  /**
+   * Join with an invite code. Direct invitations only work for the invited
+   * user; shared links work for anyone until they expire or run out of uses.
+   */
+  async joinByCode(code: string, userId: string) {
+    const invitation = await prisma.communityInvitation.findUnique({
+      where: { code },
+      include: invitationInclude,
+    });
+
+    if (!invitation) {
+      throw new Error('Invitation not found');
+    }
+
+    if (invitation.type === 'DIRECT') {
+      const direct = await this.getDirectInvitation(invitation.id, userId);
+      const member = await this.acceptDirect(direct, userId);
+      return { community: invitation.community, member };
+    }
+
+    this.assertUsable(invitation);
+
+    if (await memberService.isMember(invitation.communityId, userId)) {
+      throw new Error('Already a member');
+    }
+
+    this.assertPaymentNotRequired(invitation);
+
+    const exhausted = await this.claimUse(invitation);
+
+    let member;
+    try {
+      member = await memberService.joinCommunity(invitation.communityId, userId, invitation.role);
+    } catch (error) {
+      await this.releaseUse(invitation, exhausted);
+      throw error;
+    }
+
+    await logAuditEvent(userId, 'COMMUNITY_INVITE_ACCEPTED', 'community_invitation', invitation.id, {
+      communityId: invitation.communityId,
+      type: invitation.type,
+      role: invitation.role,
+      inviterId: invitation.inviterId,
+    });
+
+    return { community: invitation.community, member };
+  }
+
+  private async acceptDirect(invitation: any, userId: string) {
+    if (await memberService.isMember(invitation.communityId, userId)) {
+      throw new Error('Already a member');
+    }
+
+    this.assertPaymentNotRequired(invitation);
+
+    const claimed = await prisma.communityInvitation.updateMany({
+      where: { id: invitation.id, status: 'PENDING' },
+      data: {
+        status: 'ACCEPTED',
+        inviteeId: userId,
+        uses: 1,
+        respondedAt: new Date(),
+      },
+    });
+    if (claimed.count === 0) {
+      throw new Error('Invitation is no longer valid');
+    }
+
+    let member;
+    try {
+      member = await memberService.joinCommunity(invitation.communityId, userId, invitation.role);
+    } catch (error) {
+      // Hand the invitation back so it can be accepted again
+      await prisma.communityInvitation.updateMany({
+        where: { id: invitation.id, status: 'ACCEPTED', inviteeId: userId },
+        data: {
+          status: 'PENDING',
+          inviteeId: invitation.inviteeId,
+          uses: invitation.uses,
+          respondedAt: null,
+        },
+      });
+      throw error;
+    }
+
+    await logAuditEvent(userId, 'COMMUNITY_INVITE_ACCEPTED', 'community_invitation', invitation.id, {
+      communityId: invitation.communityId,
+      type: invitation.type,
+      role: invitation.role,
+      inviterId: invitation.inviterId,
+    });
+
+    return member;
+  }
+
+  // Increment `uses` only if nobody else changed it since we read it, so a
+  // link with maxUses cannot be over-claimed by concurrent joins. Returns
+  // whether this claim took the last use and expired the link.
+  private async claimUse(invitation: any): Promise<boolean> {
+    let current = invitation;
+
+    for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+      const exhausts = current.maxUses !== null && current.uses + 1 >= current.maxUses;
+      const claimed = await prisma.communityInvitation.updateMany({
+        where: { id: current.id, status: 'PENDING', uses: current.uses },
+        data: {
+          uses: { increment: 1 },
+          ...(exhausts ? { status: 'EXPIRED' } : {}),
+        },
+      });
+      if (claimed.count > 0) {
+        return exhausts;
+      }
+
+      current = await prisma.communityInvitation.findUnique({ where: { id: invitation.id } });
+      if (!current) {
+        throw new Error('Invitation not found');
+      }
+      this.assertUsable(current);
+    }
+
+    throw new Error('Invitation is no longer valid');
+  }
+
+  // Give back a use claimed for a join that then failed, reopening the link
+  // if that claim was what expired it.
+  private async releaseUse(invitation: any, exhausted: boolean) {
+    await prisma.communityInvitation.updateMany({
+      where: { id: invitation.id, ...(exhausted ? { status: 'EXPIRED' } : {}) },
+      data: {
+        uses: { decrement: 1 },
+        ...(exhausted ? { status: 'PENDING' } : {}),
+      },
+    });
+  }
+
+  private assertUsable(invitation: any) {
+    if (invitation.status !== 'PENDING') {
+      throw new Error('Invitation is no longer valid');
+    }
+    if (isExpired(invitation)) {
+      throw new Error('Invitation expired');
+    }
+    if (invitation.maxUses !== null && invitation.uses >= invitation.maxUses) {
+      throw new Error('Invitation is no longer valid');
+    }
+  }
+
+  private async getDirectInvitation(invitationId: string, userId: string) {
+    const [invitation, user] = await Promise.all([
+      prisma.communityInvitation.findUnique({
+        where: { id: invitationId },
+        include: { community: { select: { slug: true, isPaid: true } } },
+      }),
+      prisma.user.findUnique({ where: { id: userId } }),
+    ]);
+
+    const isInvitee = !!invitation && !!user && (
+      invitation.inviteeId === userId ||
+      (!invitation.inviteeId && invitation.email === user.email.toLowerCase())
+    );
+
+    if (!invitation || invitation.type !== 'DIRECT' || !isInvitee) {
+      throw new Error('Invitation not found');
+    }
+
+    this.assertUsable(invitation);
+    return invitation;
+  }
+
+  // Members of paid communities join through /:slug/checkout; an invitation
+  // only waives payment for the staff it appoints.
+  private assertPaymentNotRequired(invitation: any) {
+    if (invitation.community.isPaid && !STAFF_ROLES.includes(invitation.role)) {
+      throw new Error('Payment required: start a checkout to join this community');
+    }
+  }
+
+  private async assertCanInvite(communityId: string, userId: string, role: string = 'member') {
+    if (!INVITE_ROLES.includes(role)) {
+      throw new Error('Invalid role');
+    }
+
+    const inviterRole = await memberService.getMemberRole(communityId, userId);
+    if (!inviterRole || ROLE_RANK[inviterRole] < ROLE_RANK.moderator) {
+      throw new Error('Insufficient permissions');
+    }
+
+    // Only the owner can hand out admin; nobody can grant their own rank or above
+    if (inviterRole !== 'owner' && ROLE_RANK[role] >= ROLE_RANK[inviterRole]) {
+      throw new Error('Insufficient permissions');
+    }
+  }
+
+  private async sendInviteEmail(invitation: any, email: string) {
+    const inviter = invitation.inviter;
+    try {
+      await emailService.queueEmail({
+        to: email,
+        subject: `You're invited to join ${invitation.community.name}`,
+        template: 'community-invite',
+        data: {
+          communityName: invitation.community.name,
+          inviterName: inviter.firstName || inviter.username,
+          inviteUrl: `${process.env.FRONTEND_URL}/invite/${invitation.code}`,
+          expiresAt: invitation.expiresAt?.toUTCString(),
+        },
+      });
+    } catch (error) {
+      // The invitation stays valid and can be shared manually
+      console.error('Failed to queue community invite email:', error);
+    }
+  }
+}
+
+export const invitationService = new InvitationService();
@@ -0,0 +1,314 @@
+import { prisma } from '../lib/prisma';
+import { logAuditEvent } from '../utils/auditLogger';
+import { ValidationError } from '../utils/errors';
+import { notificationService } from './notification.service';
+import { memberService } from './memberService';
+
+export interface JoinQuestion {
+  id: string;
+  question: string;
+  required?: boolean;
+}
+
+export interface JoinSettings {
+  joinQuestions?: JoinQuestion[] | null;
+  autoApproveDomains?: string[];
+  autoApprovePaid?: boolean;
+}
+
+const MODERATOR_ROLES = ['owner', 'admin', 'moderator'];
+const MAX_QUESTIONS = 10;
+const MAX_ANSWER_LENGTH = 2000;
+
+const requestInclude = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      avatarUrl: true,
+    },
+  },
+};
+
+/**
+ * Validate application questions set by community admins. Returns a list of
+ * problems so they can be reported together.
+ */
+export function validateJoinQuestions(questions: unknown): string[] {
+  if (questions === null || questions === undefined) {
+    return [];
+  }
+  if (!Array.isArray(questions)) {
+    return ['joinQuestions must be an array'];
+  }
+  if (questions.length > MAX_QUESTIONS) {
+    return [`At most ${MAX_QUESTIONS} questions are allowed`];
+  }
+
+  const errors: string[] = [];
+  const ids = new Set<string>();
+  questions.forEach((question: any, index) => {
+    if (!question || typeof question.id !== 'string' || !question.id) {
+      errors.push(`joinQuestions[${index}].id is required`);
+    } else if (ids.has(question.id)) {
+      errors.push(`joinQuestions[${index}].id must be unique`);
+    } else {
+      ids.add(question.id);
+    }
+    if (typeof question?.question !== 'string' || question.question.length < 1 || question.question.length > 500) {
+      errors.push(`joinQuestions[${index}].question must be 1-500 characters`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Check answers against the community's questions; required questions need a
+ * non-empty answer and unknown question ids are rejected.
+ */
+export function validateJoinAnswers(questions: JoinQuestion[], answers: Record<string, any> = {}): string[] {
+  const errors: string[] = [];
+  const known = new Set(questions.map(question => question.id));
+
+  for (const question of questions) {
+    const answer = answers[question.id];
+    if (question.required && (typeof answer !== 'string' || !answer.trim())) {
+      errors.push(`An answer to "${question.question}" is required`);
+    }
+  }
+  for (const [id, answer] of Object.entries(answers)) {
+    if (!known.has(id)) {
+      errors.push(`Unknown question ${id}`);
+    } else if (typeof answer !== 'string' || answer.length > MAX_ANSWER_LENGTH) {
+      errors.push(`Answers must be text of at most ${MAX_ANSWER_LENGTH} characters`);
+    }
+  }
+  return errors;
+}
+
+export class JoinRequestService {
+  /**
+   * Ask to join a private community. Requests matching an auto-approval rule
+   * are approved immediately; otherwise moderators are notified.
+   */
+  async requestToJoin(communityId: string, userId: string, data: { answers?: Record<string, string>; message?: string } = {}) {
+    const [community, user] = await Promise.all([
+      prisma.community.findUnique({ where: { id: communityId } }),
+      prisma.user.findUnique({ where: { id: userId } }),
+    ]);
+
+    if (!community) {
+      throw new Error('Community not found');
+    }
+    if (!user) {
+      throw new Error('User not found');
+    }
+    if (community.isPublic) {
+      throw new Error('Community does not require approval');
+    }
+    this.assertPaymentNotRequired(community);
+    if (await memberService.isMember(communityId, userId)) {
+      throw new Error('Already a member');
+    }
+
+    const pending = await prisma.communityJoinRequest.findFirst({
+      where: { communityId, userId, status: 'PENDING' },
+    });
+    if (pending) {
+      throw new Error('Join request already pending');
+    }
+
+    const questions: JoinQuestion[] = (community.joinQuestions as JoinQuestion[] | null) || [];
+    const errors = validateJoinAnswers(questions, data.answers);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid answers', errors);
+    }
+
+    const autoApprovedBy = await this.matchAutoApproval(community, user);
+
+    const request = await prisma.communityJoinRequest.create({
+      data: {
+        communityId,
+        userId,
+        answers: data.answers,
+        message: data.message,
+        status: autoApprovedBy ? 'APPROVED' : 'PENDING',
+        autoApprovedBy,
+        reviewedAt: autoApprovedBy ? new Date() : null,
+      },
+      include: requestInclude,
+    });
+
+    await logAuditEvent(userId, 'COMMUNITY_JOIN_REQUESTED', 'community_join_request', request.id, {
+      communityId,
+      autoApprovedBy,
+    });
+
+    if (autoApprovedBy) {
+      const member = await memberService.joinCommunity(communityId, userId);
+      await notificationService.notifyMemberJoined(community.ownerId, communityId, userId);
+      return { request, member };
+    }
+
+    const moderators = await prisma.communityMember.findMany({
+      where: { communityId, role: { in: MODERATOR_ROLES } },
+      select: { userId: true },
+    });
+    await Promise.all(moderators.map((moderator: { userId: string }) =>
+      notificationService.notifyCommunityJoinRequest(moderator.userId, communityId, userId)));
+
+    return { request, member: null };
+  }
+
+  async listRequests(communityId: string, moderatorId: string, status: string = 'PENDING') {
+    await this.assertModerator(communityId, moderatorId);
+
+    return await prisma.communityJoinRequest.findMany({
+      where: { communityId, status },
+      include: requestInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async getOwnRequest(communityId: string, userId: string) {
+    return await prisma.communityJoinRequest.findFirst({
+      where: { communityId, userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async approveRequest(communityId: string, requestId: string, moderatorId: string) {
+    await this.assertModerator(communityId, moderatorId);
+    // Checked before claiming, so the request stays pending if it can't be approved
+    const community = await prisma.community.findUnique({
+      where: { id: communityId },
+      select: { isPaid: true },
+    });
+    this.assertPaymentNotRequired(community);
+    const request = await this.claimPending(communityId, requestId, {
+      status: 'APPROVED',
+      reviewedById: moderatorId,
+      reviewedAt: new Date(),
+    });
+
+    let member = null;
+    if (!await memberService.isMember(communityId, request.userId)) {
+      member = await memberService.joinCommunity(communityId, request.userId);
+    }
+
+    await logAuditEvent(moderatorId, 'COMMUNITY_JOIN_APPROVED', 'community_join_request', requestId, {
+      communityId,
+      userId: request.userId,
+    });
+    await notificationService.notifyCommunityJoinReviewed(request.userId, communityId, true);
+
+    return { request: { ...request, status: 'APPROVED' }, member };
+  }
+
+  async rejectRequest(communityId: string, requestId: string, moderatorId: string, reason?: string) {
+    await this.assertModerator(communityId, moderatorId);
+    const request = await this.claimPending(communityId, requestId, {
+      status: 'REJECTED',
+      reviewedById: moderatorId,
+      reviewedAt: new Date(),
+      rejectionReason: reason,
+    });
+
+    await logAuditEvent(moderatorId, 'COMMUNITY_JOIN_REJECTED', 'community_join_request', requestId, {
+      communityId,
+      userId: request.userId,
+      reason,
+    });
+    await notificationService.notifyCommunityJoinReviewed(request.userId, communityId, false, reason);
+
+    return { ...request, status: 'REJECTED', rejectionReason: reason };
+  }
+
+  async cancelRequest(communityId: string, requestId: string, userId: string) {
+    const request = await prisma.communityJoinRequest.findUnique({ where: { id: requestId } });
+    if (!request || request.communityId !== communityId || request.userId !== userId) {
+      throw new Error('Join request not found');
+    }
+
+    await this.claimPending(communityId, requestId, { status: 'CANCELLED' });
+  }
+
+  async updateJoinSettings(communityId: string, settings: JoinSettings) {
+    const errors = validateJoinQuestions(settings.joinQuestions);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid join questions', errors);
+    }
+
+    return await prisma.community.update({
+      where: { id: communityId },
+      data: {
+        joinQuestions: settings.joinQuestions === undefined ? undefined : settings.joinQuestions as any,
+        autoApproveDomains: settings.autoApproveDomains?.map(domain => domain.trim().toLowerCase().replace(/^@/, '')),
+        autoApprovePaid: settings.autoApprovePaid,
+      },
+    });
+  }
+
+  private async matchAutoApproval(community: any, user: any): Promise<string | null> {
+    const domain = user.email.split('@')[1]?.toLowerCase();
+    if (domain && (community.autoApproveDomains || []).includes(domain)) {
+      return `email_domain:${domain}`;
+    }
+
+    if (community.autoApprovePaid) {
+      const subscription = await prisma.subscription.findFirst({
+        where: {
+          customer: { userId: user.id },
+          communityId: null,
+          status: { in: ['ACTIVE', 'TRIALING'] },
+          tier: { not: 'FREE' },
+        },
+        select: { tier: true },
+      });
+      if (subscription) {
+        return `subscription:${subscription.tier}`;
+      }
+    }
+
+    return null;
+  }
+
+  // Move a pending request to its final state; fails if someone else already
+  // reviewed it so two moderators cannot both act on the same request.
+  private async claimPending(communityId: string, requestId: string, data: Record<string, any>) {
+    const request = await prisma.communityJoinRequest.findUnique({ where: { id: requestId } });
+    if (!request || request.communityId !== communityId) {
+      throw new Error('Join request not found');
+    }
+
+    const claimed = await prisma.communityJoinRequest.updateMany({
+      where: { id: requestId, status: 'PENDING' },
+      data,
+    });
+    if (claimed.count === 0) {
+      throw new Error('Join request already reviewed');
+    }
+
+    return request;
+  }
+
+  // Members of paid communities join through /:slug/checkout; neither
+  // auto-approval nor a moderator can waive payment.
+  private assertPaymentNotRequired(community: { isPaid: boolean } | null) {
+    if (community?.isPaid) {
+      throw new Error('Payment required: start a checkout to join this community');
+    }
+  }
+
+  private async assertModerator(communityId: string, userId: string) {
+    const role = await memberService.getMemberRole(communityId, userId);
+    if (!role || !MODERATOR_ROLES.includes(role)) {
+      throw new Error('Insufficient permissions');
+    }
+  }
+}
+
+export const joinRequestService = new JoinRequestService();
@@ -1,7 +1,7 @@
 import { prisma } from '../lib/prisma';
 
 export class MemberService {
-  async joinCommunity(communityId: string, userId: string) {
+  async joinCommunity(communityId: string, userId: string, role: string = 'member') {
     // Check if already member
     const existing = await prisma.communityMember.findUnique({
       where: {
@@ -20,7 +20,7 @@ export class MemberService {
       data: {
         communityId,
         userId,
-        role: 'member',
+        role,
       },
     });
 
@@ -140,24 +140,6 @@ export class MemberService {
 
     return !!member;
   }
-
-  async getPendingInvitations(userId: string) {
-    // This would require an invitation model which doesn't exist in the schema
-    // For now, we'll return an empty array
-    return [];
-  }
-
-  async acceptInvitation(invitationId: string, userId: string) {
-    // This would require an invitation model which doesn't exist in the schema
-    // For now, we'll throw an error
-    throw new Error('Invitation functionality not implemented');
-  }
-
-  async declineInvitation(invitationId: string) {
-    // This would require an invitation model which doesn't exist in the schema
-    // For now, we'll throw an error
-    throw new Error('Invitation functionality not implemented');
-  }
 }
 
 export const memberService = new MemberService();
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { prisma } from '../lib/prisma';
+import { socketService } from './socket.service';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Upper bound on the messages touched by one delivered/read call, so a
+// client catching up on a long backlog works through it in batches
+export const RECEIPT_BATCH_SIZE = 500;
+
+export class MessageReceiptService {
+  /**
+   * Record that messages reached the user's device. Messages the user sent
+   * or cannot see are ignored. Returns the ids that were recorded.
+   */
+  async markDelivered(userId: string, messageIds: string[]) {
+    if (messageIds.length > RECEIPT_BATCH_SIZE) {
+      throw new ValidationError(`At most ${RECEIPT_BATCH_SIZE} messages can be marked at once`);
+    }
+
+    const messages: Array<{ id: string; conversationId: string }> = await prisma.message.findMany({
+      where: {
+        id: { in: messageIds },
+        senderId: { not: userId },
+        conversation: {
+          participants: {
+            some: { userId },
+          },
+        },
+      },
+      select: { id: true, conversationId: true },
+    });
+
+    if (messages.length === 0) {
+      return { delivered: [] as string[] };
+    }
+
+    const now = new Date();
+    const ids = messages.map(message => message.id);
+    await this.upsertReceipts(userId, ids, { deliveredAt: now });
+
+    // One event per conversation rather than per message
+    const byConversation = new Map<string, string[]>();
+    for (const message of messages) {
+      byConversation.set(message.conversationId, [...(byConversation.get(message.conversationId) || []), message.id]);
+    }
+    byConversation.forEach((conversationMessageIds, conversationId) => {
+      socketService.emitDelivered(conversationId, conversationMessageIds, userId, now);
+    });
+
+    return { delivered: ids };
+  }
+
+  /**
+   * Mark everything in a conversation as read up to and including
+   * `upToMessageId` (or the latest message). Only messages after the
+   * participant's previous read position are touched, in one batch.
+   */
+  async markRead(conversationId: string, userId: string, upToMessageId?: string) {
+    const participant = await prisma.conversationParticipant.findUnique({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+    });
+
+    if (!participant) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+
+    const now = new Date();
+    let readUpTo = now;
+    if (upToMessageId) {
+      const upTo = await prisma.message.findUnique({
+        where: { id: upToMessageId },
+        select: { conversationId: true, createdAt: true },
+      });
+      if (!upTo || upTo.conversationId !== conversationId) {
+        throw new NotFoundError('Message not found');
+      }
+      readUpTo = upTo.createdAt;
+    }
+
+    // Reading never moves the position backwards
+    if (participant.lastReadAt && participant.lastReadAt >= readUpTo) {
+      return { read: 0, lastReadAt: participant.lastReadAt };
+    }
+
+    const unread: Array<{ id: string; createdAt: Date }> = await prisma.message.findMany({
+      where: {
+        conversationId,
+        senderId: { not: userId },
+        createdAt: {
+          ...(participant.lastReadAt && { gt: participant.lastReadAt }),
+          lte: readUpTo,
+        },
+      },
+      select: { id: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+      take: RECEIPT_BATCH_SIZE,
+    });
+
+    // A backlog larger than one batch advances only as far as it got
+    const lastReadAt = unread.length === RECEIPT_BATCH_SIZE ? unread[unread.length - 1].createdAt : readUpTo;
+
+    if (unread.length > 0) {
+      await this.upsertReceipts(userId, unread.map(message => message.id), { readAt: now });
+    }
+
+    await prisma.conversationParticipant.update({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+      data: { lastReadAt },
+    });
+
+    if (await this.showsReadReceipts(userId)) {
+      socketService.emitReadReceipt(conversationId, userId, lastReadAt);
+    }
+
+    return { read: unread.length, lastReadAt };
+  }
+
+  /**
+   * Delivery and read state of a message for each recipient. Read times of
+   * recipients who hide read receipts are left out, and so is anything that
+   * would give them away: such recipients only show a delivery their device
+   * reported.
+   */
+  async getReceipts(messageId: string, userId: string) {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        conversation: {
+          include: {
+            participants: {
+              include: {
+                user: {
+                  select: {
+                    id: true,
+                    username: true,
+                    firstName: true,
+                    lastName: true,
+                    avatarUrl: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!message || !message.conversation.participants.some((p: any) => p.userId === userId)) {
+      throw new NotFoundError('Message not found');
+    }
+
+    const recipients = message.conversation.participants.filter((p: any) => p.userId !== message.senderId);
+    const recipientIds = recipients.map((p: any) => p.userId);
+
+    const [receipts, hidden] = await Promise.all([
+      prisma.messageReceipt.findMany({
+        where: { messageId, userId: { in: recipientIds } },
+      }),
+      prisma.userPreferences.findMany({
+        where: { userId: { in: recipientIds }, showReadReceipts: false },
+        select: { userId: true },
+      }),
+    ]);
+
+    const receiptByUser = new Map(receipts.map((receipt: any) => [receipt.userId, receipt]));
+    const hiddenUsers = new Set(hidden.map((preference: any) => preference.userId));
+
+    const entries = recipients.map((participant: any) => {
+      const receipt: any = receiptByUser.get(participant.userId);
+      // Messages from before a participant's last read position count as read
+      // even without a receipt row
+      const readAt = receipt?.readAt
+        || (participant.lastReadAt && participant.lastReadAt >= message.createdAt ? participant.lastReadAt : null);
+      const showRead = !hiddenUsers.has(participant.userId);
+
+      return {
+        user: participant.user,
+        deliveredAt: receipt?.deliveredAt || (showRead ? readAt : null) || null,
+        readAt: showRead ? readAt : null,
+      };
+    });
+
+    return {
+      messageId,
+      seenBy: entries.filter((entry: any) => entry.readAt),
+      deliveredTo: entries.filter((entry: any) => entry.deliveredAt),
+      recipients: entries,
+    };
+  }
+
+  async getReadReceiptSetting(userId: string) {
+    return { showReadReceipts: await this.showsReadReceipts(userId) };
+  }
+
+  async updateReadReceiptSetting(userId: string, showReadReceipts: boolean) {
+    await prisma.userPreferences.upsert({
+      where: { userId },
+      update: { showReadReceipts },
+      create: { userId, showReadReceipts },
+    });
+
+    return { showReadReceipts };
+  }
+
+  private async showsReadReceipts(userId: string) {
+    const preferences = await prisma.userPreferences.findUnique({
+      where: { userId },
+      select: { showReadReceipts: true },
+    });
+    return preferences?.showReadReceipts ?? true;
+  }
+
+  // Insert missing receipts and fill in the given timestamp on existing ones
+  // that do not have it yet, without overwriting an earlier time. Reads don't
+  // record a delivery time, which would reveal when hidden reads happened.
+  private async upsertReceipts(userId: string, messageIds: string[], times: { deliveredAt: Date } | { readAt: Date }) {
+    await prisma.messageReceipt.createMany({
+      data: messageIds.map(messageId => ({ messageId, userId, ...times })),
+      skipDuplicates: true,
+    });
+
+    if ('deliveredAt' in times) {
+      await prisma.messageReceipt.updateMany({
+        where: { userId, messageId: { in: messageIds }, deliveredAt: null },
+        data: { deliveredAt: times.deliveredAt },
+      });
+    } else {
+      await prisma.messageReceipt.updateMany({
+        where: { userId, messageId: { in: messageIds }, readAt: null },
+        data: { readAt: times.readAt },
+      });
+    }
+  }
+}
+
+export const messageReceiptService = new MessageReceiptService();
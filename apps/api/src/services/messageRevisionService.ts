@@ -0,0 +1,207 @@
+import { prisma } from '../lib/prisma';
+import { logAdminAction } from '../utils/auditLogger';
+import { ForbiddenError, NotFoundError } from '../utils/errors';
+
+// Roles with the content.view permission; they can read any message's
+// history, including what was deleted
+export const MODERATOR_ROLES = ['MODERATOR', 'ADMIN', 'SUPER_ADMIN'];
+
+const USER_SELECT = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+};
+
+interface RevisionRecord {
+  id: string;
+  action: 'EDIT' | 'DELETE';
+  content: string;
+  attachments: string[];
+  metadata: unknown;
+  createdAt: Date;
+  editor: any;
+}
+
+export class MessageRevisionService {
+  /**
+   * Earlier versions of a message, oldest first. Participants can see them
+   * when the conversation has edit history turned on, but never the content
+   * of deleted messages. Moderators can always see them; their access is
+   * audit logged.
+   */
+  async getRevisions(messageId: string, user: { id: string; role?: string }) {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        conversation: {
+          include: {
+            participants: {
+              where: { userId: user.id },
+            },
+          },
+        },
+      },
+    });
+
+    if (!message) {
+      throw new NotFoundError('Message not found');
+    }
+
+    const isParticipant = message.conversation.participants.length > 0;
+    const canSeeAsParticipant = isParticipant && message.messageType !== 'deleted';
+    const isModerator = MODERATOR_ROLES.includes(user.role ?? '');
+
+    if (!canSeeAsParticipant && !isModerator) {
+      throw new NotFoundError('Message not found');
+    }
+    if (!isModerator && !message.conversation.editHistoryVisible) {
+      throw new ForbiddenError('Edit history is not enabled for this conversation');
+    }
+
+    const asModerator = isModerator && !(canSeeAsParticipant && message.conversation.editHistoryVisible);
+    const revisions: RevisionRecord[] = await prisma.messageRevision.findMany({
+      where: {
+        messageId,
+        ...(!asModerator && { action: 'EDIT' }),
+      },
+      include: {
+        editor: {
+          select: USER_SELECT,
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (asModerator) {
+      await logAdminAction(user.id, 'MESSAGE_HISTORY_VIEWED', messageId, {
+        conversationId: message.conversationId,
+        revisionCount: revisions.length,
+      });
+    }
+
+    return {
+      messageId,
+      content: message.content,
+      attachments: message.attachments,
+      isEdited: message.isEdited,
+      editedAt: message.editedAt,
+      revisions: revisions.map(revision => this.toRevision(revision)),
+    };
+  }
+
+  /** Turn edit history for participants on or off. Only the conversation's creator can. */
+  async setEditHistoryVisible(conversationId: string, userId: string, visible: boolean) {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: {
+        participants: {
+          where: { userId },
+        },
+      },
+    });
+
+    if (!conversation || conversation.participants.length === 0) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+    if (conversation.createdBy !== userId) {
+      throw new ForbiddenError('Only the conversation creator can change edit history visibility');
+    }
+
+    const updated = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { editHistoryVisible: visible },
+    });
+
+    return { conversationId, editHistoryVisible: updated.editHistoryVisible };
+  }
+
+  /**
+   * A message as moderators review it for abuse reports: deleted messages
+   * show the content they had before deletion, along with every revision and
+   * the reports filed against the message. Each view is audit logged.
+   */
+  async getMessageForModeration(messageId: string, moderatorId: string, reportId?: string) {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        sender: {
+          select: USER_SELECT,
+        },
+        conversation: {
+          select: {
+            id: true,
+            type: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!message) {
+      throw new NotFoundError('Message not found');
+    }
+
+    const [revisions, reports]: [RevisionRecord[], any[]] = await Promise.all([
+      prisma.messageRevision.findMany({
+        where: { messageId },
+        include: {
+          editor: {
+            select: USER_SELECT,
+          },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      prisma.report.findMany({
+        where: { targetType: 'message', targetId: messageId },
+        select: {
+          id: true,
+          reason: true,
+          description: true,
+          status: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const deletion = revisions.find(revision => revision.action === 'DELETE');
+
+    await logAdminAction(moderatorId, 'MESSAGE_VIEWED', messageId, {
+      conversationId: message.conversationId,
+      reportId,
+      deleted: !!deletion,
+    });
+
+    return {
+      id: message.id,
+      conversation: message.conversation,
+      sender: message.sender,
+      content: deletion ? deletion.content : message.content,
+      attachments: deletion ? deletion.attachments : message.attachments,
+      metadata: deletion ? deletion.metadata : message.metadata,
+      isDeleted: !!deletion,
+      deletedAt: deletion?.createdAt ?? null,
+      deletedBy: deletion?.editor ?? null,
+      isEdited: message.isEdited,
+      createdAt: message.createdAt,
+      editedAt: message.editedAt,
+      revisions: revisions.map(revision => this.toRevision(revision)),
+      reports,
+    };
+  }
+
+  private toRevision(revision: RevisionRecord) {
+    return {
+      id: revision.id,
+      action: revision.action,
+      content: revision.content,
+      attachments: revision.attachments,
+      editor: revision.editor,
+      createdAt: revision.createdAt,
+    };
+  }
+}
+
+export const messageRevisionService = new MessageRevisionService();
@@ -1,14 +1,23 @@
 import { prisma } from '../lib/prisma';
 import { notificationService } from './notification.service';
 import { socketService } from './socket.service';
+import { searchService } from './searchService';
+import { parsePollPayload } from './pollService';
 import { ValidationError, NotFoundError } from '../utils/errors';
 
 export class MessageService {
-  async sendMessage(conversationId: string, senderId: string, content: string, type: string = 'text', attachments: string[] = []) {
+  /**
+   * Send a message, or a thread reply when `parentId` is given. Replies to a
+   * reply join the thread of its parent so threads stay one level deep.
+   * Structured types such as polls carry their payload in `metadata`.
+   */
+  async sendMessage(conversationId: string, senderId: string, content: string, type: string = 'text', attachments: string[] = [], parentId?: string, metadata?: unknown) {
     if (!content || content.trim().length === 0) {
       throw new ValidationError('Message content is required');
     }
 
+    const payload = this.validatePayload(type, metadata);
+
     // Verify user is participant in conversation
     const participant = await prisma.conversationParticipant.findUnique({
       where: {
@@ -23,6 +32,8 @@ export class MessageService {
       throw new NotFoundError('Conversation not found or access denied');
     }
 
+    const threadId = parentId ? await this.resolveThreadId(conversationId, parentId) : null;
+
     const message = await prisma.message.create({
       data: {
         conversationId,
@@ -30,6 +41,8 @@ export class MessageService {
         content,
         messageType: type,
         ...(attachments.length > 0 && { attachments }),
+        ...(threadId && { parentId: threadId }),
+        ...(payload && { metadata: payload }),
       },
       include: {
         sender: {
@@ -66,12 +79,224 @@ export class MessageService {
     // Send notification for new message
     await notificationService.notifyNewMessage(conversationId, senderId, content);
 
-    // Notify participants via WebSocket
-    socketService.sendMessage(conversationId, message);
+    if (threadId) {
+      const parent = await prisma.message.update({
+        where: { id: threadId },
+        data: {
+          replyCount: { increment: 1 },
+          lastReplyAt: message.createdAt,
+        },
+      });
+
+      // The sender has seen everything in the thread up to their own reply
+      await this.recordThreadRead(threadId, senderId);
+
+      // Replies stay out of the main timeline; open threads update from this
+      socketService.sendThreadReply(conversationId, threadId, message, parent.replyCount);
+    } else {
+      // Notify participants via WebSocket
+      socketService.sendMessage(conversationId, message);
+    }
+
+    // Keep the search index in step without holding up the send
+    searchService.indexMessage(message.id).catch(console.error);
 
     return message;
   }
 
+  /**
+   * A page of replies to a message, oldest first, along with the parent and
+   * how many replies the user has not read yet.
+   */
+  async getThread(messageId: string, userId: string, limit: number = 50, cursor?: string) {
+    const parent = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        sender: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            avatarUrl: true,
+          },
+        },
+      },
+    });
+
+    if (!parent || parent.parentId) {
+      throw new NotFoundError('Thread not found');
+    }
+
+    await this.assertParticipant(parent.conversationId, userId);
+
+    const replies = await prisma.message.findMany({
+      where: {
+        parentId: messageId,
+      },
+      include: {
+        sender: {
+          select: {
+            id: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            avatarUrl: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+      take: limit + 1,
+      ...(cursor && {
+        cursor: {
+          id: cursor,
+        },
+        skip: 1,
+      }),
+    });
+
+    const hasMore = replies.length > limit;
+    const replyList = hasMore ? replies.slice(0, -1) : replies;
+    const unread = await this.getThreadUnreadCounts(userId, [parent]);
+
+    return {
+      parent,
+      replies: replyList,
+      hasMore,
+      nextCursor: hasMore ? replyList[replyList.length - 1]?.id : null,
+      unreadCount: unread[messageId] || 0,
+    };
+  }
+
+  async markThreadRead(messageId: string, userId: string) {
+    const parent = await prisma.message.findUnique({ where: { id: messageId } });
+
+    if (!parent || parent.parentId) {
+      throw new NotFoundError('Thread not found');
+    }
+
+    await this.assertParticipant(parent.conversationId, userId);
+    await this.recordThreadRead(messageId, userId);
+
+    return { message: 'Thread marked as read' };
+  }
+
+  /**
+   * Unread reply counts for the threads among `messages`, keyed by parent
+   * id. Replies the user sent themselves never count as unread.
+   */
+  async getThreadUnreadCounts(userId: string, messages: Array<{ id: string; replyCount?: number | null }>) {
+    const threadIds = messages.filter(m => (m.replyCount || 0) > 0).map(m => m.id);
+    if (threadIds.length === 0) {
+      return {} as Record<string, number>;
+    }
+
+    const reads = await prisma.messageThreadRead.findMany({
+      where: {
+        userId,
+        messageId: { in: threadIds },
+      },
+    });
+    const lastReadAt = new Map(reads.map((read: { messageId: string; lastReadAt: Date }) => [read.messageId, read.lastReadAt]));
+
+    // One query for every thread, each with its own read position
+    const counts: Array<{ parentId: string; _count: { _all: number } }> = await prisma.message.groupBy({
+      by: ['parentId'],
+      where: {
+        senderId: { not: userId },
+        OR: threadIds.map(threadId => ({
+          parentId: threadId,
+          ...(lastReadAt.has(threadId) && { createdAt: { gt: lastReadAt.get(threadId) } }),
+        })),
+      },
+      _count: { _all: true },
+    });
+    const countByThread = new Map(counts.map(count => [count.parentId, count._count._all]));
+
+    return threadIds.reduce((acc, threadId) => {
+      acc[threadId] = countByThread.get(threadId) ?? 0;
+      return acc;
+    }, {} as Record<string, number>);
+  }
+
+  // Check the payload of structured message types. Basic types carry no
+  // payload.
+  private validatePayload(type: string, metadata: unknown) {
+    switch (type) {
+      case 'poll':
+        return parsePollPayload(metadata);
+      default:
+        if (metadata !== undefined && metadata !== null) {
+          throw new ValidationError(`Messages of type ${type} do not take metadata`);
+        }
+        return null;
+    }
+  }
+
+  private async resolveThreadId(conversationId: string, parentId: string) {
+    const parent = await prisma.message.findUnique({
+      where: { id: parentId },
+      select: { id: true, conversationId: true, parentId: true, messageType: true },
+    });
+
+    if (!parent || parent.conversationId !== conversationId) {
+      throw new NotFoundError('Parent message not found');
+    }
+
+    if (parent.messageType === 'deleted') {
+      throw new ValidationError('Cannot reply to a deleted message');
+    }
+
+    return parent.parentId || parent.id;
+  }
+
+  private async recordThreadRead(messageId: string, userId: string) {
+    return prisma.messageThreadRead.upsert({
+      where: {
+        messageId_userId: {
+          messageId,
+          userId,
+        },
+      },
+      update: {
+        lastReadAt: new Date(),
+      },
+      create: {
+        messageId,
+        userId,
+      },
+    });
+  }
+
+  // The stored version of a message before an edit or deletion
+  private revisionOf(message: any, editorId: string, action: 'EDIT' | 'DELETE') {
+    return {
+      messageId: message.id,
+      editorId,
+      action,
+      content: message.content,
+      attachments: message.attachments ?? [],
+      ...(message.metadata != null && { metadata: message.metadata }),
+    };
+  }
+
+  private async assertParticipant(conversationId: string, userId: string) {
+    const participant = await prisma.conversationParticipant.findUnique({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+    });
+
+    if (!participant) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+  }
+
   async editMessage(messageId: string, userId: string, content: string, attachments?: string[]) {
     if (!content || content.trim().length === 0) {
       throw new ValidationError('Message content is required');
@@ -103,26 +328,32 @@ export class MessageService {
       throw new NotFoundError('Conversation not found or access denied');
     }
 
-    const updatedMessage = await prisma.message.update({
-      where: { id: messageId },
-      data: {
-        content,
-        ...(attachments !== undefined && { attachments }),
-        isEdited: true,
-        editedAt: new Date(),
-      },
-      include: {
-        sender: {
-          select: {
-            id: true,
-            username: true,
-            firstName: true,
-            lastName: true,
-            avatarUrl: true,
+    // Keep the previous version as a revision
+    const [, updatedMessage] = await prisma.$transaction([
+      prisma.messageRevision.create({
+        data: this.revisionOf(existingMessage, userId, 'EDIT'),
+      }),
+      prisma.message.update({
+        where: { id: messageId },
+        data: {
+          content,
+          ...(attachments !== undefined && { attachments }),
+          isEdited: true,
+          editedAt: new Date(),
+        },
+        include: {
+          sender: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+              avatarUrl: true,
+            },
           },
         },
-      },
-    });
+      }),
+    ]);
 
     // Notify participants via WebSocket
     socketService.sendMessage(existingMessage.conversationId, {
@@ -133,6 +364,8 @@ export class MessageService {
       editedAt: new Date(),
     });
 
+    searchService.indexMessage(messageId).catch(console.error);
+
     return updatedMessage;
   }
 
@@ -170,16 +403,22 @@ export class MessageService {
       throw new NotFoundError('Conversation not found or access denied');
     }
 
-    // Instead of deleting, mark as deleted to preserve conversation history
-    const updatedMessage = await prisma.message.update({
-      where: { id: messageId },
-      data: {
-        content: '[Message deleted]',
-        messageType: 'deleted',
-        isEdited: true,
-        editedAt: new Date(),
-      },
-    });
+    // Instead of deleting, mark as deleted to preserve conversation history.
+    // The deleted content stays available to moderators as a revision.
+    await prisma.$transaction([
+      prisma.messageRevision.create({
+        data: this.revisionOf(existingMessage, userId, 'DELETE'),
+      }),
+      prisma.message.update({
+        where: { id: messageId },
+        data: {
+          content: '[Message deleted]',
+          messageType: 'deleted',
+          isEdited: true,
+          editedAt: new Date(),
+        },
+      }),
+    ]);
 
     // Notify participants via WebSocket
     socketService.sendMessage(existingMessage.conversationId, {
@@ -188,6 +427,8 @@ export class MessageService {
       isDeleted: true,
     });
 
+    searchService.removeMessage(messageId).catch(console.error);
+
     return { message: 'Message deleted successfully' };
   }
 
@@ -209,6 +450,7 @@ export class MessageService {
     const messages = await prisma.message.findMany({
       where: {
         conversationId,
+        parentId: null,
       },
       include: {
         sender: {
@@ -235,9 +477,13 @@ export class MessageService {
 
     const hasMore = messages.length > limit;
     const messageList = hasMore ? messages.slice(0, -1) : messages;
+    const threadUnread = await this.getThreadUnreadCounts(userId, messageList);
 
     return {
-      messages: messageList,
+      messages: messageList.map((message: any) => ({
+        ...message,
+        ...(message.replyCount > 0 && { unreadReplyCount: threadUnread[message.id] || 0 }),
+      })),
       hasMore,
       nextCursor: hasMore ? messageList[messageList.length - 1]?.id : null,
     };
@@ -3,6 +3,7 @@ import { NotificationType } from '@prisma/client';
 import { emailService } from './email.service';
 import { pushService } from './push.service';
 import { socketService } from './socket.service';
+import { isMuted } from './conversationSettingsService';
 
 // For rate limiting
 const notificationRateLimit = new Map<string, { count: number; lastReset: Date }>();
@@ -19,6 +20,25 @@ interface NotificationData {
   imageUrl?: string;
 }
 
+// Per-source overrides of the user's push and email preferences, e.g. from a
+// conversation's settings. Undefined or null follows the preferences.
+interface ChannelOverrides {
+  push?: boolean | null;
+  email?: boolean | null;
+}
+
+// How long until a date, e.g. "15 minutes" or "1 day"
+function formatTimeUntil(date: Date) {
+  const minutes = Math.max(Math.round((new Date(date).getTime() - Date.now()) / 60000), 1);
+  const [amount, unit] = minutes < 60
+    ? [minutes, 'minute']
+    : minutes < 24 * 60
+      ? [Math.round(minutes / 60), 'hour']
+      : [Math.round(minutes / (24 * 60)), 'day'];
+
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
 export class NotificationService {
   private checkRateLimit(userId: string): boolean {
     const now = new Date();
@@ -46,7 +66,7 @@ export class NotificationService {
     return true;
   }
   
-  async create(notification: NotificationData) {
+  async create(notification: NotificationData, overrides: ChannelOverrides = {}) {
     // Check rate limit
     if (!this.checkRateLimit(notification.userId)) {
       console.warn(`Rate limit exceeded for user ${notification.userId}`);
@@ -76,12 +96,12 @@ export class NotificationService {
     }
 
     // Queue email notification if enabled
-    if (this.shouldSendEmail(preferences, notification.type)) {
+    if (this.shouldSendEmail(preferences, notification.type, overrides.email)) {
       await this.queueEmail(notification);
     }
 
     // Send push notification if enabled
-    if (this.shouldSendPush(preferences, notification.type)) {
+    if (this.shouldSendPush(preferences, notification.type, overrides.push)) {
       await this.sendPushNotification(notification);
     }
 
@@ -338,8 +358,11 @@ export class NotificationService {
     return preferences;
   }
 
-  private shouldSendEmail(preferences: any, type: NotificationType): boolean {
+  // An override replaces the category setting; the channel's master switch
+  // still wins.
+  private shouldSendEmail(preferences: any, type: NotificationType, override?: boolean | null): boolean {
     if (!preferences.emailEnabled) return false;
+    if (override !== undefined && override !== null) return override;
 
     const categoryMap: Record<string, keyof typeof preferences> = {
       POST_LIKED: 'emailPosts',
@@ -357,8 +380,9 @@ export class NotificationService {
     return category ? preferences[category] : true;
   }
 
-  private shouldSendPush(preferences: any, type: NotificationType): boolean {
+  private shouldSendPush(preferences: any, type: NotificationType, override?: boolean | null): boolean {
     if (!preferences.pushEnabled) return false;
+    if (override !== undefined && override !== null) return override;
 
     const categoryMap: Record<string, keyof typeof preferences> = {
       POST_LIKED: 'pushPosts',
@@ -483,7 +507,8 @@ export class NotificationService {
     if (!conversation) return;
 
     const sender = conversation.participants.find((p: any) => p.userId === senderId);
-    const recipients = conversation.participants.filter((p: any) => p.userId !== senderId);
+    // Participants who muted the conversation get nothing
+    const recipients = conversation.participants.filter((p: any) => p.userId !== senderId && !isMuted(p));
 
     for (const recipient of recipients) {
       await this.create({
@@ -495,6 +520,9 @@ export class NotificationService {
         message: message.substring(0, 100),
         actionUrl: `/messages?conversation=${conversationId}`,
         imageUrl: sender?.user.avatarUrl || undefined,
+      }, {
+        push: recipient.pushNotifications,
+        email: recipient.emailNotifications,
       });
     }
   }
@@ -564,7 +592,7 @@ export class NotificationService {
       userId,
       type: NotificationType.EVENT_REMINDER,
       title: 'Event Reminder',
-      message: `"${event.title}" is starting soon in ${event.community.name}`,
+      message: `"${event.title}" in ${event.community.name} starts in ${formatTimeUntil(event.startsAt)}`,
       actionUrl: `/communities/${event.community.slug}/events/${event.id}`,
       data: { eventId },
     });
@@ -671,6 +699,17 @@ export class NotificationService {
     });
   }
 
+  async notifyConversationExportReady(userId: string, conversationId: string, exportId: string) {
+    await this.create({
+      userId,
+      type: NotificationType.ACCOUNT_UPDATE,
+      title: 'Conversation Export Ready',
+      message: 'Your conversation export is ready to download',
+      actionUrl: `/messages?conversation=${conversationId}`,
+      data: { conversationId, exportId },
+    });
+  }
+
   async notifyCommunityInvite(userId: string, communityId: string, inviterId: string) {
     const [community, inviter] = await Promise.all([
       prisma.community.findUnique({ where: { id: communityId } }),
@@ -707,6 +746,40 @@ export class NotificationService {
     });
   }
 
+  async notifyCommunityJoinReviewed(userId: string, communityId: string, approved: boolean, reason?: string) {
+    const community = await prisma.community.findUnique({ where: { id: communityId } });
+
+    if (!community) return;
+
+    await this.create({
+      userId,
+      type: NotificationType.COMMUNITY_JOIN_REVIEWED,
+      title: approved ? 'Join Request Approved' : 'Join Request Declined',
+      message: approved
+        ? `Your request to join ${community.name} was approved`
+        : `Your request to join ${community.name} was declined${reason ? `: ${reason}` : ''}`,
+      actionUrl: `/communities/${community.slug}`,
+      data: { communityId, approved, reason },
+    });
+  }
+
+  async notifyCommunityMembershipStatus(userId: string, communityId: string, status: 'past_due' | 'removed', graceEndsAt?: Date) {
+    const community = await prisma.community.findUnique({ where: { id: communityId } });
+
+    if (!community) return;
+
+    await this.create({
+      userId,
+      type: NotificationType.ACCOUNT_UPDATE,
+      title: status === 'past_due' ? 'Payment Failed' : 'Membership Ended',
+      message: status === 'past_due'
+        ? `We couldn't renew your ${community.name} membership. Update your payment method${graceEndsAt ? ` before ${graceEndsAt.toDateString()}` : ''} to keep access.`
+        : `Your ${community.name} membership has ended`,
+      actionUrl: status === 'past_due' ? '/settings/billing' : `/communities/${community.slug}`,
+      data: { communityId, status, graceEndsAt },
+    });
+  }
+
   async notifyMemberJoined(userId: string, communityId: string, newMemberId: string) {
     const [community, newMember] = await Promise.all([
       prisma.community.findUnique({ where: { id: communityId } }),
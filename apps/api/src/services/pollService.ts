@@ -0,0 +1,232 @@
+import { prisma } from '../lib/prisma';
+import { socketService } from './socket.service';
+import { ValidationError, NotFoundError, ForbiddenError } from '../utils/errors';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+const MAX_OPTION_LENGTH = 200;
+
+export interface CreatePollRequest {
+  options: string[];
+  allowMultiple?: boolean;
+  anonymous?: boolean;
+  closesAt?: Date | string | null;
+}
+
+// Stored in messages.metadata for poll messages; the question is the content
+export interface PollPayload {
+  options: Array<{ id: string; text: string }>;
+  allowMultiple: boolean;
+  anonymous: boolean;
+  closesAt: string | null;
+  closedAt: string | null;
+}
+
+/**
+ * Validate the payload of a new poll message and return what is stored.
+ * Options get ids by position; they cannot change once the poll is sent.
+ */
+export function parsePollPayload(metadata: unknown, now: Date = new Date()): PollPayload {
+  const errors: string[] = [];
+  const data = (metadata && typeof metadata === 'object' ? metadata : {}) as Partial<CreatePollRequest>;
+  const options = Array.isArray(data.options)
+    ? data.options.map(option => (typeof option === 'string' ? option.trim() : ''))
+    : [];
+
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    errors.push(`A poll needs ${MIN_POLL_OPTIONS}-${MAX_POLL_OPTIONS} options`);
+  }
+  if (options.some(option => option.length === 0 || option.length > MAX_OPTION_LENGTH)) {
+    errors.push(`Poll options must be 1-${MAX_OPTION_LENGTH} characters`);
+  }
+  if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+    errors.push('Poll options must be unique');
+  }
+  if (data.allowMultiple !== undefined && typeof data.allowMultiple !== 'boolean') {
+    errors.push('allowMultiple must be a boolean');
+  }
+  if (data.anonymous !== undefined && typeof data.anonymous !== 'boolean') {
+    errors.push('anonymous must be a boolean');
+  }
+
+  const closesAt = data.closesAt ? new Date(data.closesAt) : null;
+  if (closesAt && (Number.isNaN(closesAt.getTime()) || closesAt <= now)) {
+    errors.push('closesAt must be a future date');
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Invalid poll', errors);
+  }
+
+  return {
+    options: options.map((text, index) => ({ id: String(index + 1), text })),
+    allowMultiple: data.allowMultiple ?? false,
+    anonymous: data.anonymous ?? false,
+    closesAt: closesAt ? closesAt.toISOString() : null,
+    closedAt: null,
+  };
+}
+
+/** Whether a poll has been closed by its creator or reached its closing time. */
+export function isPollClosed(poll: PollPayload, now: Date = new Date()) {
+  return !!poll.closedAt || (!!poll.closesAt && new Date(poll.closesAt) <= now);
+}
+
+export class PollService {
+  /**
+   * Replace the user's votes on a poll. Single-choice polls take exactly one
+   * option.
+   */
+  async vote(messageId: string, userId: string, optionIds: string[]) {
+    const { message, poll } = await this.getPoll(messageId, userId);
+
+    if (isPollClosed(poll)) {
+      throw new ValidationError('This poll is closed');
+    }
+
+    const chosen = Array.from(new Set(optionIds));
+    const known = new Set(poll.options.map(option => option.id));
+    if (chosen.length === 0 || chosen.some(optionId => !known.has(optionId))) {
+      throw new ValidationError('Unknown poll option');
+    }
+    if (!poll.allowMultiple && chosen.length > 1) {
+      throw new ValidationError('This poll only allows one choice');
+    }
+
+    await prisma.$transaction([
+      prisma.messagePollVote.deleteMany({ where: { messageId, userId } }),
+      prisma.messagePollVote.createMany({
+        data: chosen.map(optionId => ({ messageId, userId, optionId })),
+      }),
+    ]);
+
+    return this.publishResults(message, poll, userId);
+  }
+
+  async retractVote(messageId: string, userId: string) {
+    const { message, poll } = await this.getPoll(messageId, userId);
+
+    if (isPollClosed(poll)) {
+      throw new ValidationError('This poll is closed');
+    }
+
+    await prisma.messagePollVote.deleteMany({ where: { messageId, userId } });
+
+    return this.publishResults(message, poll, userId);
+  }
+
+  /** Close a poll before its closing time. Only its creator can. */
+  async closePoll(messageId: string, userId: string) {
+    const { message, poll } = await this.getPoll(messageId, userId);
+
+    if (message.senderId !== userId) {
+      throw new ForbiddenError('Only the poll creator can close it');
+    }
+    if (isPollClosed(poll)) {
+      throw new ValidationError('This poll is already closed');
+    }
+
+    const closed = { ...poll, closedAt: new Date().toISOString() };
+    await prisma.message.update({
+      where: { id: messageId },
+      data: { metadata: closed },
+    });
+
+    return this.publishResults(message, closed, userId);
+  }
+
+  async getResults(messageId: string, userId: string) {
+    const { message, poll } = await this.getPoll(messageId, userId);
+    return this.buildResults(message, poll, userId);
+  }
+
+  // Send the new tallies to everyone in the conversation and return the
+  // caller's view of them
+  private async publishResults(message: any, poll: PollPayload, userId: string) {
+    const { results, votes } = await this.tally(message, poll);
+
+    socketService.updateConversation(message.conversationId, {
+      type: 'poll_update',
+      conversationId: message.conversationId,
+      messageId: message.id,
+      poll: results,
+    });
+
+    return { ...results, myVotes: this.votesOf(votes, userId) };
+  }
+
+  private async buildResults(message: any, poll: PollPayload, userId: string) {
+    const { results, votes } = await this.tally(message, poll);
+    return { ...results, myVotes: this.votesOf(votes, userId) };
+  }
+
+  // Vote counts per option, the same for everyone in the conversation.
+  // Voters are listed unless the poll is anonymous.
+  private async tally(message: any, poll: PollPayload) {
+    const votes: Array<{ optionId: string; userId: string; user?: any }> = await prisma.messagePollVote.findMany({
+      where: { messageId: message.id },
+      ...(!poll.anonymous && {
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+              avatarUrl: true,
+            },
+          },
+        },
+      }),
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const results = {
+      messageId: message.id,
+      question: message.content,
+      allowMultiple: poll.allowMultiple,
+      anonymous: poll.anonymous,
+      closesAt: poll.closesAt,
+      closed: isPollClosed(poll),
+      totalVoters: new Set(votes.map(vote => vote.userId)).size,
+      options: poll.options.map(option => {
+        const optionVotes = votes.filter(vote => vote.optionId === option.id);
+        return {
+          id: option.id,
+          text: option.text,
+          votes: optionVotes.length,
+          ...(!poll.anonymous && { voters: optionVotes.map(vote => vote.user) }),
+        };
+      }),
+    };
+
+    return { results, votes };
+  }
+
+  private votesOf(votes: Array<{ optionId: string; userId: string }>, userId: string) {
+    return votes.filter(vote => vote.userId === userId).map(vote => vote.optionId);
+  }
+
+  private async getPoll(messageId: string, userId: string) {
+    const message = await prisma.message.findUnique({
+      where: { id: messageId },
+      include: {
+        conversation: {
+          include: {
+            participants: {
+              where: { userId },
+            },
+          },
+        },
+      },
+    });
+
+    if (!message || message.messageType !== 'poll' || message.conversation.participants.length === 0) {
+      throw new NotFoundError('Poll not found');
+    }
+
+    return { message, poll: message.metadata as PollPayload };
+  }
+}
+
+export const pollService = new PollService();
@@ -0,0 +1,392 @@
+import { prisma } from '../lib/prisma';
+import { memberService } from './memberService';
+import { ForbiddenError, ValidationError } from '../utils/errors';
+
+// Who is online, shared by every API instance. Each socket connection is
+// registered with an expiry that the instance holding it keeps extending;
+// connections of an instance that dies simply run out. When REDIS_URL is set
+// the registry lives in Redis, otherwise in this process only.
+
+export type PresenceStatus = 'online' | 'away' | 'do_not_disturb' | 'invisible';
+
+export const PRESENCE_STATUSES: PresenceStatus[] = ['online', 'away', 'do_not_disturb', 'invisible'];
+export const MAX_CUSTOM_STATUS_LENGTH = 100;
+
+// Instances refresh their connections every HEARTBEAT_INTERVAL_MS; a
+// connection that misses a few refreshes is considered gone
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const PRESENCE_TTL_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+export interface Presence {
+  userId: string;
+  // 'offline' for users without a live connection and for invisible users
+  status: PresenceStatus | 'offline';
+  customStatus: string | null;
+  lastSeen: string | null;
+}
+
+export interface PresenceConnection {
+  userId: string;
+  connectionId: string;
+}
+
+interface StoredStatus {
+  status: PresenceStatus;
+  customStatus: string | null;
+  lastSeen: string | null;
+}
+
+interface PresenceStore {
+  // Returns true when the user had no live connection before
+  addConnection(userId: string, connectionId: string, expiresAt: number, now: number): Promise<boolean>;
+  // Returns true when the user has no live connection left
+  removeConnection(userId: string, connectionId: string, now: number): Promise<boolean>;
+  refresh(connections: PresenceConnection[], expiresAt: number): Promise<void>;
+  getOnline(userIds: string[], now: number): Promise<Set<string>>;
+  getOnlineUserIds(now: number): Promise<string[]>;
+  // Drops users whose connections all expired and returns them
+  removeExpired(now: number): Promise<string[]>;
+  getStatuses(userIds: string[]): Promise<Map<string, StoredStatus>>;
+  setStatus(userId: string, status: StoredStatus): Promise<void>;
+}
+
+const DEFAULT_STATUS: StoredStatus = { status: 'online', customStatus: null, lastSeen: null };
+
+class MemoryPresenceStore implements PresenceStore {
+  private connections = new Map<string, Map<string, number>>(); // userId -> connectionId -> expiresAt
+  private statuses = new Map<string, StoredStatus>();
+
+  async addConnection(userId: string, connectionId: string, expiresAt: number, now: number) {
+    const wasOnline = this.isOnline(userId, now);
+    if (!this.connections.has(userId)) {
+      this.connections.set(userId, new Map());
+    }
+    this.connections.get(userId)!.set(connectionId, expiresAt);
+    return !wasOnline;
+  }
+
+  async removeConnection(userId: string, connectionId: string, now: number) {
+    this.connections.get(userId)?.delete(connectionId);
+    if (this.isOnline(userId, now)) {
+      return false;
+    }
+    this.connections.delete(userId);
+    return true;
+  }
+
+  async refresh(connections: PresenceConnection[], expiresAt: number) {
+    for (const { userId, connectionId } of connections) {
+      this.connections.get(userId)?.set(connectionId, expiresAt);
+    }
+  }
+
+  async getOnline(userIds: string[], now: number) {
+    return new Set(userIds.filter(userId => this.isOnline(userId, now)));
+  }
+
+  async getOnlineUserIds(now: number) {
+    return Array.from(this.connections.keys()).filter(userId => this.isOnline(userId, now));
+  }
+
+  async removeExpired(now: number) {
+    const expired = Array.from(this.connections.keys()).filter(userId => !this.isOnline(userId, now));
+    expired.forEach(userId => this.connections.delete(userId));
+    return expired;
+  }
+
+  async getStatuses(userIds: string[]) {
+    const statuses = new Map<string, StoredStatus>();
+    userIds.forEach(userId => {
+      const status = this.statuses.get(userId);
+      if (status) {
+        statuses.set(userId, status);
+      }
+    });
+    return statuses;
+  }
+
+  async setStatus(userId: string, status: StoredStatus) {
+    this.statuses.set(userId, status);
+  }
+
+  private isOnline(userId: string, now: number) {
+    const connections = this.connections.get(userId);
+    return !!connections && Array.from(connections.values()).some(expiresAt => expiresAt > now);
+  }
+}
+
+const ONLINE_KEY = 'presence:online';
+const connectionsKey = (userId: string) => `presence:connections:${userId}`;
+const statusKey = (userId: string) => `presence:status:${userId}`;
+
+const REMOVE_IF_EXPIRED = `
+local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+if score and tonumber(score) <= tonumber(ARGV[2]) then
+  return redis.call('ZREM', KEYS[1], ARGV[1])
+end
+return 0`;
+
+// presence:online scores each user by the expiry of their longest-lived
+// connection; presence:connections:<userId> scores each connection by its own
+class RedisPresenceStore implements PresenceStore {
+  constructor(private redis: any) {}
+
+  async addConnection(userId: string, connectionId: string, expiresAt: number, now: number) {
+    const score = await this.redis.zscore(ONLINE_KEY, userId);
+    await this.redis.multi()
+      .zadd(connectionsKey(userId), expiresAt, connectionId)
+      .pexpireat(connectionsKey(userId), expiresAt)
+      .zadd(ONLINE_KEY, 'GT', expiresAt, userId)
+      .exec();
+    return score === null || Number(score) <= now;
+  }
+
+  async removeConnection(userId: string, connectionId: string, now: number) {
+    const results = await this.redis.multi()
+      .zrem(connectionsKey(userId), connectionId)
+      .zremrangebyscore(connectionsKey(userId), '-inf', now)
+      .zcard(connectionsKey(userId))
+      .exec();
+    const [, remaining] = results[2];
+    if (Number(remaining) > 0) {
+      return false;
+    }
+    await this.redis.zrem(ONLINE_KEY, userId);
+    return true;
+  }
+
+  async refresh(connections: PresenceConnection[], expiresAt: number) {
+    if (connections.length === 0) {
+      return;
+    }
+    const pipeline = this.redis.pipeline();
+    for (const { userId, connectionId } of connections) {
+      pipeline.zadd(connectionsKey(userId), expiresAt, connectionId);
+      pipeline.pexpireat(connectionsKey(userId), expiresAt);
+      pipeline.zadd(ONLINE_KEY, 'GT', expiresAt, userId);
+    }
+    await pipeline.exec();
+  }
+
+  async getOnline(userIds: string[], now: number) {
+    if (userIds.length === 0) {
+      return new Set<string>();
+    }
+    const scores: Array<string | null> = await this.redis.zmscore(ONLINE_KEY, ...userIds);
+    return new Set(userIds.filter((_userId, index) => scores[index] !== null && Number(scores[index]) > now));
+  }
+
+  async getOnlineUserIds(now: number): Promise<string[]> {
+    return this.redis.zrangebyscore(ONLINE_KEY, `(${now}`, '+inf');
+  }
+
+  async removeExpired(now: number) {
+    const candidates: string[] = await this.redis.zrangebyscore(ONLINE_KEY, '-inf', now);
+    const expired: string[] = [];
+    // Every instance sweeps; only the one whose removal succeeds reports the
+    // user. The score is checked again in case they reconnected meanwhile.
+    for (const userId of candidates) {
+      if (await this.redis.eval(REMOVE_IF_EXPIRED, 1, ONLINE_KEY, userId, now)) {
+        expired.push(userId);
+      }
+    }
+    return expired;
+  }
+
+  async getStatuses(userIds: string[]) {
+    const statuses = new Map<string, StoredStatus>();
+    if (userIds.length === 0) {
+      return statuses;
+    }
+    const pipeline = this.redis.pipeline();
+    userIds.forEach(userId => pipeline.hgetall(statusKey(userId)));
+    const results: Array<[Error | null, Record<string, string>]> = await pipeline.exec();
+    results.forEach(([error, hash], index) => {
+      if (!error && hash && hash.status) {
+        statuses.set(userIds[index], {
+          status: hash.status as PresenceStatus,
+          customStatus: hash.customStatus || null,
+          lastSeen: hash.lastSeen || null,
+        });
+      }
+    });
+    return statuses;
+  }
+
+  async setStatus(userId: string, status: StoredStatus) {
+    await this.redis.hset(statusKey(userId), {
+      status: status.status,
+      customStatus: status.customStatus ?? '',
+      lastSeen: status.lastSeen ?? '',
+    });
+  }
+}
+
+function createStore(): PresenceStore {
+  if (process.env.REDIS_URL && process.env.NODE_ENV !== 'test') {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { Redis } = require('ioredis');
+      return new RedisPresenceStore(new Redis(process.env.REDIS_URL));
+    } catch (err) {
+      // Redis is optional; presence is then only known to this instance
+    }
+  }
+  return new MemoryPresenceStore();
+}
+
+export class PresenceService {
+  private store: PresenceStore = createStore();
+
+  /**
+   * Register a new connection. Returns the user's presence when they just
+   * came online, so the caller can announce it.
+   */
+  async connect(userId: string, connectionId: string): Promise<Presence | null> {
+    const now = Date.now();
+    const cameOnline = await this.store.addConnection(userId, connectionId, now + PRESENCE_TTL_MS, now);
+    if (!cameOnline) {
+      return null;
+    }
+    const [presence] = await this.getPresence([userId]);
+    return presence.status === 'offline' ? null : presence;
+  }
+
+  /**
+   * Drop a connection. Returns the user's presence when it was their last one
+   * and others could see them online.
+   */
+  async disconnect(userId: string, connectionId: string): Promise<Presence | null> {
+    const wentOffline = await this.store.removeConnection(userId, connectionId, Date.now());
+    if (!wentOffline) {
+      return null;
+    }
+    return this.markOffline(userId);
+  }
+
+  /** Extend the connections this instance still holds. */
+  async heartbeat(connections: PresenceConnection[]) {
+    await this.store.refresh(connections, Date.now() + PRESENCE_TTL_MS);
+  }
+
+  /**
+   * Take users whose connections all expired (their instance went away) off
+   * the online list and return their new presence.
+   */
+  async expireStale(): Promise<Presence[]> {
+    const expired = await this.store.removeExpired(Date.now());
+    const presence = await Promise.all(expired.map(userId => this.markOffline(userId)));
+    return presence.filter((entry): entry is Presence => entry !== null);
+  }
+
+  /**
+   * Change the user's status and custom status text. Returns what the user
+   * sees and what everyone else sees (invisible users appear offline).
+   */
+  async setStatus(userId: string, update: { status?: string; customStatus?: string | null }) {
+    if (update.status !== undefined && !PRESENCE_STATUSES.includes(update.status as PresenceStatus)) {
+      throw new ValidationError(`Status must be one of: ${PRESENCE_STATUSES.join(', ')}`);
+    }
+    const customStatus = typeof update.customStatus === 'string' ? update.customStatus.trim() : update.customStatus;
+    if (customStatus && customStatus.length > MAX_CUSTOM_STATUS_LENGTH) {
+      throw new ValidationError(`Custom status must be at most ${MAX_CUSTOM_STATUS_LENGTH} characters`);
+    }
+
+    const current = await this.getStoredStatus(userId);
+    const next: StoredStatus = {
+      ...current,
+      ...(update.status !== undefined && { status: update.status as PresenceStatus }),
+      ...(customStatus !== undefined && { customStatus: customStatus || null }),
+    };
+    await this.store.setStatus(userId, next);
+
+    const online = await this.store.getOnline([userId], Date.now());
+    return {
+      own: this.toPresence(userId, next, online.has(userId), true),
+      visible: this.toPresence(userId, next, online.has(userId), false),
+    };
+  }
+
+  /** The user's own presence, including an invisible status. */
+  async getOwnPresence(userId: string): Promise<Presence> {
+    const [status, online] = await Promise.all([
+      this.getStoredStatus(userId),
+      this.store.getOnline([userId], Date.now()),
+    ]);
+    return this.toPresence(userId, status, online.has(userId), true);
+  }
+
+  /** Presence of other users as they are shown to everyone else. */
+  async getPresence(userIds: string[]): Promise<Presence[]> {
+    const [statuses, online] = await Promise.all([
+      this.store.getStatuses(userIds),
+      this.store.getOnline(userIds, Date.now()),
+    ]);
+    return userIds.map(userId =>
+      this.toPresence(userId, statuses.get(userId) ?? DEFAULT_STATUS, online.has(userId), false)
+    );
+  }
+
+  async isOnline(userId: string) {
+    const [presence] = await this.getPresence([userId]);
+    return presence.status !== 'offline';
+  }
+
+  // Includes invisible users; for instance health reporting only
+  async getOnlineUserIds() {
+    return this.store.getOnlineUserIds(Date.now());
+  }
+
+  /**
+   * Members of a community who are currently online, for members of that
+   * community.
+   */
+  async getCommunityPresence(communityId: string, userId: string) {
+    const isMember = await memberService.isMember(communityId, userId);
+    if (!isMember) {
+      throw new ForbiddenError('Unauthorized');
+    }
+
+    const members: Array<{ userId: string }> = await prisma.communityMember.findMany({
+      where: { communityId, status: { in: ['active', 'past_due'] } },
+      select: { userId: true },
+    });
+    const memberIds = members.map(member => member.userId);
+    const online = await this.store.getOnline(memberIds, Date.now());
+    const presence = await this.getPresence(memberIds.filter(memberId => online.has(memberId)));
+
+    return {
+      members: presence.filter(entry => entry.status !== 'offline'),
+      memberCount: memberIds.length,
+    };
+  }
+
+  // Record when a user was last seen. Invisible users already appear offline,
+  // so nothing changes for anyone else.
+  private async markOffline(userId: string): Promise<Presence | null> {
+    const current = await this.getStoredStatus(userId);
+    if (current.status === 'invisible') {
+      return null;
+    }
+    const next = { ...current, lastSeen: new Date().toISOString() };
+    await this.store.setStatus(userId, next);
+    return this.toPresence(userId, next, false, false);
+  }
+
+  private async getStoredStatus(userId: string): Promise<StoredStatus> {
+    const statuses = await this.store.getStatuses([userId]);
+    return statuses.get(userId) ?? DEFAULT_STATUS;
+  }
+
+  private toPresence(userId: string, stored: StoredStatus, isOnline: boolean, isSelf: boolean): Presence {
+    const hidden = stored.status === 'invisible' && !isSelf;
+    return {
+      userId,
+      status: !isOnline || hidden ? 'offline' : stored.status,
+      customStatus: hidden ? null : stored.customStatus,
+      lastSeen: isOnline && !hidden ? null : stored.lastSeen,
+    };
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -174,6 +174,84 @@ export class S3Service {
     return getSignedUrl(this.s3Client, command, { expiresIn });
   }
 
+  /**
+   * Download a file's contents
+   */
+  async getFile(key: string, bucket: 'public' | 'private' = 'public'): Promise<Buffer> {
+    const bucketName = bucket === 'public'
+      ? awsConfig.s3.publicBucket
+      : awsConfig.s3.privateBucket;
+
+    const command = new GetObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+    });
+
+    const response = await this.s3Client.send(command);
+    const bytes = await response.Body!.transformToByteArray();
+
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Upload content generated on the server, e.g. an export archive
+   */
+  async uploadBuffer(
+    body: Buffer,
+    key: string,
+    contentType: string,
+    bucket: 'public' | 'private' = 'private'
+  ) {
+    const bucketName = bucket === 'public'
+      ? awsConfig.s3.publicBucket
+      : awsConfig.s3.privateBucket;
+
+    const command = new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      Body: body,
+      ContentType: contentType,
+    });
+
+    await this.s3Client.send(command);
+
+    return {
+      key,
+      bucket: bucketName,
+      size: body.length,
+    };
+  }
+
+  /**
+   * Resolve a URL from uploadFile or getFileUrl back to its key and bucket.
+   * Returns null for URLs that are not ours.
+   */
+  getKeyFromUrl(url: string): { key: string; bucket: 'public' | 'private' } | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+
+    const key = decodeURIComponent(parsed.pathname.replace(/^\//, ''));
+    if (!key) {
+      return null;
+    }
+
+    if (awsConfig.cloudfront.domain && parsed.hostname === awsConfig.cloudfront.domain) {
+      return { key, bucket: 'public' };
+    }
+    if (parsed.hostname === `${awsConfig.s3.publicBucket}.s3.${awsConfig.region}.amazonaws.com`) {
+      return { key, bucket: 'public' };
+    }
+    if (parsed.hostname === `${awsConfig.s3.privateBucket}.s3.${awsConfig.region}.amazonaws.com`) {
+      return { key, bucket: 'private' };
+    }
+
+    return null;
+  }
+
   async fileExists(key: string, bucket: 'public' | 'private' = 'public') {
     const bucketName = bucket === 'public'
       ? awsConfig.s3.publicBucket
@@ -0,0 +1,273 @@
+import { prisma } from '../lib/prisma';
+import { messageService } from './messageService';
+import { ValidationError, NotFoundError } from '../utils/errors';
+
+export type MessageRecurrence = 'DAILY' | 'WEEKDAYS' | 'WEEKLY';
+
+export interface ScheduleMessageRequest {
+  content: string;
+  type?: string;
+  attachments?: string[];
+  parentId?: string;
+  sendAt: Date | string;
+  recurrence?: MessageRecurrence | null;
+  recurrenceEndsAt?: Date | string | null;
+}
+
+export type UpdateScheduledMessageRequest = Partial<ScheduleMessageRequest>;
+
+const RECURRENCES: MessageRecurrence[] = ['DAILY', 'WEEKDAYS', 'WEEKLY'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The first occurrence of a recurrence after `now`, counting from `from`.
+ * Occurrences missed while nothing was running are skipped rather than sent
+ * in a burst. Days are UTC days.
+ */
+export function nextOccurrence(from: Date, recurrence: MessageRecurrence, now: Date = new Date()): Date {
+  let next = new Date(from.getTime());
+
+  do {
+    if (recurrence === 'WEEKLY') {
+      next = new Date(next.getTime() + 7 * DAY_MS);
+    } else {
+      next = new Date(next.getTime() + DAY_MS);
+      if (recurrence === 'WEEKDAYS') {
+        while (next.getUTCDay() === 0 || next.getUTCDay() === 6) {
+          next = new Date(next.getTime() + DAY_MS);
+        }
+      }
+    }
+  } while (next.getTime() <= now.getTime());
+
+  return next;
+}
+
+export class ScheduledMessageService {
+  private processing = false;
+
+  async scheduleMessage(conversationId: string, senderId: string, data: ScheduleMessageRequest) {
+    await this.assertParticipant(conversationId, senderId);
+
+    const fields = this.validate(data);
+
+    return prisma.scheduledMessage.create({
+      data: {
+        conversationId,
+        senderId,
+        content: fields.content!,
+        messageType: fields.messageType || 'text',
+        attachments: fields.attachments || [],
+        parentId: fields.parentId,
+        sendAt: fields.sendAt!,
+        recurrence: fields.recurrence,
+        recurrenceEndsAt: fields.recurrenceEndsAt,
+      },
+    });
+  }
+
+  /** The user's pending scheduled messages in a conversation. */
+  async getScheduledMessages(conversationId: string, userId: string) {
+    await this.assertParticipant(conversationId, userId);
+
+    return prisma.scheduledMessage.findMany({
+      where: {
+        conversationId,
+        senderId: userId,
+        status: 'PENDING',
+      },
+      orderBy: {
+        sendAt: 'asc',
+      },
+    });
+  }
+
+  async updateScheduledMessage(scheduledMessageId: string, userId: string, data: UpdateScheduledMessageRequest) {
+    const scheduled = await this.getPendingMessage(scheduledMessageId, userId);
+    // Dropping the recurrence drops its end date with it
+    const changes = data.recurrence === null && !('recurrenceEndsAt' in data)
+      ? { ...data, recurrenceEndsAt: null }
+      : data;
+    const fields = this.validate({
+      content: scheduled.content,
+      sendAt: scheduled.sendAt,
+      recurrence: scheduled.recurrence,
+      recurrenceEndsAt: scheduled.recurrenceEndsAt,
+      ...changes,
+    }, changes);
+
+    // Guard on the status so an edit never lands after cron has sent it
+    const updated = await prisma.scheduledMessage.updateMany({
+      where: { id: scheduledMessageId, status: 'PENDING', sendAt: scheduled.sendAt },
+      data: fields,
+    });
+    if (updated.count === 0) {
+      throw new ValidationError('Scheduled message has already been sent');
+    }
+
+    return prisma.scheduledMessage.findUnique({ where: { id: scheduledMessageId } });
+  }
+
+  async cancelScheduledMessage(scheduledMessageId: string, userId: string) {
+    const scheduled = await this.getPendingMessage(scheduledMessageId, userId);
+
+    const cancelled = await prisma.scheduledMessage.updateMany({
+      where: { id: scheduledMessageId, status: 'PENDING', sendAt: scheduled.sendAt },
+      data: { status: 'CANCELLED' },
+    });
+    if (cancelled.count === 0) {
+      throw new ValidationError('Scheduled message has already been sent');
+    }
+
+    return { message: 'Scheduled message cancelled' };
+  }
+
+  /**
+   * Run from cron every minute. Sends each due message through the normal
+   * send path and moves recurring ones on to their next occurrence.
+   */
+  async processDueMessages() {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+
+    try {
+      const now = new Date();
+      const due = await prisma.scheduledMessage.findMany({
+        where: {
+          status: 'PENDING',
+          sendAt: { lte: now },
+        },
+        orderBy: { sendAt: 'asc' },
+        take: 100,
+      });
+
+      for (const scheduled of due) {
+        await this.deliver(scheduled, now);
+      }
+    } catch (error) {
+      console.error('Failed to process scheduled messages:', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async deliver(scheduled: any, now: Date) {
+    const next = scheduled.recurrence ? nextOccurrence(scheduled.sendAt, scheduled.recurrence, now) : null;
+    const finished = !next || (scheduled.recurrenceEndsAt && next > scheduled.recurrenceEndsAt);
+
+    // Claim this occurrence so a second instance running the same cron skips it
+    const claimed = await prisma.scheduledMessage.updateMany({
+      where: { id: scheduled.id, status: 'PENDING', sendAt: scheduled.sendAt },
+      data: finished ? { status: 'SENT' } : { sendAt: next },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    try {
+      const message = await messageService.sendMessage(
+        scheduled.conversationId,
+        scheduled.senderId,
+        scheduled.content,
+        scheduled.messageType,
+        scheduled.attachments,
+        scheduled.parentId || undefined
+      );
+
+      await prisma.scheduledMessage.update({
+        where: { id: scheduled.id },
+        data: {
+          occurrences: { increment: 1 },
+          lastSentAt: now,
+          lastMessageId: message.id,
+          lastError: null,
+        },
+      });
+    } catch (error: any) {
+      // The sender left the conversation or the thread is gone; later
+      // occurrences would fail the same way
+      console.error(`Failed to send scheduled message ${scheduled.id}:`, error);
+      await prisma.scheduledMessage.update({
+        where: { id: scheduled.id },
+        data: { status: 'FAILED', lastError: error.message },
+      });
+    }
+  }
+
+  private async getPendingMessage(scheduledMessageId: string, userId: string) {
+    const scheduled = await prisma.scheduledMessage.findUnique({
+      where: { id: scheduledMessageId },
+    });
+
+    if (!scheduled || scheduled.senderId !== userId) {
+      throw new NotFoundError('Scheduled message not found');
+    }
+
+    if (scheduled.status !== 'PENDING') {
+      throw new ValidationError('Only pending scheduled messages can be changed');
+    }
+
+    return scheduled;
+  }
+
+  // Check the merged request and return the columns to write. `changes`
+  // limits the result to the fields being edited.
+  private validate(data: ScheduleMessageRequest, changes: UpdateScheduledMessageRequest = data) {
+    const errors: string[] = [];
+    const sendAt = new Date(data.sendAt);
+    const recurrenceEndsAt = data.recurrenceEndsAt ? new Date(data.recurrenceEndsAt) : null;
+
+    if (!data.content || data.content.trim().length === 0) {
+      errors.push('Message content is required');
+    }
+    if (Number.isNaN(sendAt.getTime())) {
+      errors.push('sendAt must be a valid date');
+    } else if ('sendAt' in changes && sendAt.getTime() <= Date.now()) {
+      errors.push('sendAt must be in the future');
+    }
+    if (data.recurrence && !RECURRENCES.includes(data.recurrence)) {
+      errors.push(`recurrence must be one of ${RECURRENCES.join(', ')}`);
+    }
+    if (recurrenceEndsAt) {
+      if (!data.recurrence) {
+        errors.push('recurrenceEndsAt needs a recurrence');
+      } else if (Number.isNaN(recurrenceEndsAt.getTime()) || recurrenceEndsAt <= sendAt) {
+        errors.push('recurrenceEndsAt must be a date after sendAt');
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid scheduled message', errors);
+    }
+
+    return {
+      ...('content' in changes && { content: data.content }),
+      ...('type' in changes && { messageType: data.type }),
+      ...('attachments' in changes && { attachments: data.attachments }),
+      ...('parentId' in changes && { parentId: data.parentId }),
+      ...('sendAt' in changes && { sendAt }),
+      ...('recurrence' in changes && { recurrence: data.recurrence || null }),
+      ...('recurrenceEndsAt' in changes && { recurrenceEndsAt }),
+    };
+  }
+
+  private async assertParticipant(conversationId: string, userId: string) {
+    const participant = await prisma.conversationParticipant.findUnique({
+      where: {
+        conversationId_userId: {
+          conversationId,
+          userId,
+        },
+      },
+    });
+
+    if (!participant) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+  }
+}
+
+export const scheduledMessageService = new ScheduledMessageService();
@@ -1,5 +1,7 @@
 import { prisma } from '../lib/prisma';
 import { Client } from '@elastic/elasticsearch';
+import { Prisma } from '@prisma/client';
+import { NotFoundError } from '../utils/errors';
 
 // Initialize Elasticsearch client
 const esClient = new Client({
@@ -17,6 +19,20 @@ const INDEX_NAMES = {
   courses: 'courses'
 };
 
+// Messages are private to their conversations, so they live outside
+// INDEX_NAMES and are never part of the public 'all' search
+const MESSAGE_INDEX = 'messages';
+
+// Messages are synced in batches since a full sync covers every conversation
+const MESSAGE_SYNC_BATCH_SIZE = 1000;
+
+// Postgres text search config; 'simple' does no stemming, which suits
+// chat in any language. Must match the expression index on messages.content.
+const MESSAGE_TS_CONFIG = 'simple';
+
+const HIGHLIGHT_PRE_TAG = '<mark>';
+const HIGHLIGHT_POST_TAG = '</mark>';
+
 interface SearchOptions {
   query: string;
   type: string;
@@ -31,6 +47,20 @@ interface SearchOptions {
   proximitySearch?: { distance: number; terms: string[] }; // Proximity search
 }
 
+export interface MessageSearchOptions {
+  query?: string;
+  // Limit the search to one conversation instead of all of the user's
+  conversationId?: string;
+  senderId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  hasAttachment?: boolean;
+  isPinned?: boolean;
+  messageType?: string;
+  page?: number;
+  limit?: number;
+}
+
 interface SearchResults {
   hits: any[];
   total: number;
@@ -366,6 +396,275 @@ export class SearchService {
     };
   }
 
+  /**
+   * Search the messages of every conversation the user takes part in,
+   * ranked by relevance with highlighted snippets. Falls back to Postgres
+   * full-text search when Elasticsearch is unavailable.
+   */
+  async searchMessages(userId: string, options: MessageSearchOptions): Promise<SearchResults> {
+    const conversationIds = await this.getSearchableConversationIds(userId, options.conversationId);
+
+    if (conversationIds.length === 0) {
+      return { hits: [], total: 0, took: 0 };
+    }
+
+    const { query, page = 1, limit = 20 } = options;
+    const filter: any[] = [
+      { terms: { conversationId: conversationIds } },
+    ];
+
+    if (options.senderId) {
+      filter.push({ term: { senderId: options.senderId } });
+    }
+    if (options.messageType) {
+      filter.push({ term: { messageType: options.messageType } });
+    }
+    if (options.hasAttachment !== undefined) {
+      filter.push({ term: { hasAttachment: options.hasAttachment } });
+    }
+    if (options.isPinned !== undefined) {
+      filter.push({ term: { isPinned: options.isPinned } });
+    }
+    if (options.startDate || options.endDate) {
+      filter.push({
+        range: {
+          createdAt: {
+            ...(options.startDate && { gte: options.startDate }),
+            ...(options.endDate && { lte: options.endDate }),
+          },
+        },
+      });
+    }
+
+    try {
+      const response: any = await esClient.search({
+        index: MESSAGE_INDEX,
+        body: {
+          from: (page - 1) * limit,
+          size: limit,
+          query: {
+            bool: {
+              filter,
+              ...(query && {
+                must: [
+                  {
+                    match: {
+                      content: {
+                        query,
+                        fuzziness: 'AUTO',
+                        operator: 'and',
+                      },
+                    },
+                  },
+                ],
+              }),
+            },
+          },
+          // Without a query there is nothing to rank, so newest first
+          sort: query
+            ? [{ _score: { order: 'desc' } }, { createdAt: { order: 'desc' } }]
+            : [{ createdAt: { order: 'desc' } }],
+          highlight: {
+            pre_tags: [HIGHLIGHT_PRE_TAG],
+            post_tags: [HIGHLIGHT_POST_TAG],
+            fields: {
+              content: { fragment_size: 150, number_of_fragments: 2 },
+            },
+          },
+        },
+      });
+
+      return {
+        hits: response.hits.hits.map((hit: any) => ({
+          _id: hit._id,
+          _index: hit._index,
+          _score: hit._score,
+          _source: hit._source,
+          highlight: hit.highlight
+        })),
+        total: typeof response.hits.total === 'number'
+          ? response.hits.total
+          : response.hits.total.value,
+        took: response.took
+      };
+    } catch (error) {
+      console.error('Elasticsearch message search error:', error);
+      return this.fallbackMessageSearch(conversationIds, options);
+    }
+  }
+
+  // Index or re-index a single message after it is sent, edited or pinned
+  async indexMessage(messageId: string) {
+    try {
+      const message = await prisma.message.findUnique({
+        where: { id: messageId },
+        include: {
+          sender: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+              avatarUrl: true
+            }
+          }
+        }
+      });
+
+      if (!message) {
+        return;
+      }
+
+      await esClient.index({
+        index: MESSAGE_INDEX,
+        id: message.id,
+        body: this.toMessageDocument(message)
+      });
+    } catch (error) {
+      console.error(`Error indexing message ${messageId}:`, error);
+    }
+  }
+
+  // Remove a deleted message from the index
+  async removeMessage(messageId: string) {
+    try {
+      await esClient.delete({ index: MESSAGE_INDEX, id: messageId });
+    } catch (error: any) {
+      if (error?.meta?.statusCode !== 404) {
+        console.error(`Error removing message ${messageId} from index:`, error);
+      }
+    }
+  }
+
+  // Conversations the search covers; a single requested conversation must
+  // be one the user is in
+  private async getSearchableConversationIds(userId: string, conversationId?: string): Promise<string[]> {
+    const participations = await prisma.conversationParticipant.findMany({
+      where: {
+        userId,
+        ...(conversationId && { conversationId }),
+      },
+      select: { conversationId: true },
+    });
+
+    if (conversationId && participations.length === 0) {
+      throw new NotFoundError('Conversation not found or access denied');
+    }
+
+    return participations.map((participation: { conversationId: string }) => participation.conversationId);
+  }
+
+  // Postgres full-text search over messages, shaped like Elasticsearch hits
+  private async fallbackMessageSearch(conversationIds: string[], options: MessageSearchOptions): Promise<SearchResults> {
+    const { query, page = 1, limit = 20 } = options;
+    // The config is inlined rather than bound so the planner can use the
+    // expression index
+    const tsConfig = Prisma.raw(`'${MESSAGE_TS_CONFIG}'::regconfig`);
+    const tsQuery = query ? Prisma.sql`websearch_to_tsquery(${tsConfig}, ${query})` : null;
+    const document = Prisma.sql`to_tsvector(${tsConfig}, m.content)`;
+
+    const conditions = [
+      Prisma.sql`m.conversation_id IN (${Prisma.join(conversationIds)})`,
+      Prisma.sql`m.is_deleted = false`,
+      Prisma.sql`m.message_type::text <> 'deleted'`,
+    ];
+
+    if (tsQuery) {
+      conditions.push(Prisma.sql`${document} @@ ${tsQuery}`);
+    }
+    if (options.senderId) {
+      conditions.push(Prisma.sql`m.sender_id = ${options.senderId}`);
+    }
+    if (options.messageType) {
+      conditions.push(Prisma.sql`m.message_type::text = ${options.messageType}`);
+    }
+    if (options.hasAttachment !== undefined) {
+      conditions.push(options.hasAttachment
+        ? Prisma.sql`cardinality(m.attachments) > 0`
+        : Prisma.sql`cardinality(m.attachments) = 0`);
+    }
+    if (options.isPinned !== undefined) {
+      conditions.push(Prisma.sql`m.is_pinned = ${options.isPinned}`);
+    }
+    if (options.startDate) {
+      conditions.push(Prisma.sql`m.created_at >= ${options.startDate}`);
+    }
+    if (options.endDate) {
+      conditions.push(Prisma.sql`m.created_at <= ${options.endDate}`);
+    }
+
+    const where = Prisma.join(conditions, ' AND ');
+    const highlightOptions = `StartSel=${HIGHLIGHT_PRE_TAG}, StopSel=${HIGHLIGHT_POST_TAG}, MaxFragments=2, MaxWords=25, MinWords=10`;
+
+    const [rows, counts] = await Promise.all([
+      prisma.$queryRaw<any[]>`
+        SELECT
+          m.id,
+          m.conversation_id AS "conversationId",
+          m.sender_id AS "senderId",
+          m.content,
+          m.message_type::text AS "messageType",
+          m.attachments,
+          m.is_pinned AS "isPinned",
+          m.parent_id AS "parentId",
+          m.created_at AS "createdAt",
+          m.edited_at AS "editedAt",
+          u.username,
+          u.first_name AS "firstName",
+          u.last_name AS "lastName",
+          u.avatar_url AS "avatarUrl",
+          ${tsQuery ? Prisma.sql`ts_rank(${document}, ${tsQuery})` : Prisma.sql`0`} AS rank,
+          ${tsQuery ? Prisma.sql`ts_headline(${tsConfig}, m.content, ${tsQuery}, ${highlightOptions})` : Prisma.sql`NULL`} AS snippet
+        FROM messages m
+        JOIN users u ON u.id = m.sender_id
+        WHERE ${where}
+        ORDER BY rank DESC, m.created_at DESC
+        LIMIT ${limit} OFFSET ${(page - 1) * limit}
+      `,
+      prisma.$queryRaw<Array<{ total: number }>>`
+        SELECT COUNT(*)::int AS total FROM messages m WHERE ${where}
+      `,
+    ]);
+
+    return {
+      hits: rows.map((row: any) => ({
+        _id: row.id,
+        _index: MESSAGE_INDEX,
+        _score: Number(row.rank),
+        _source: this.toMessageDocument({
+          ...row,
+          sender: {
+            id: row.senderId,
+            username: row.username,
+            firstName: row.firstName,
+            lastName: row.lastName,
+            avatarUrl: row.avatarUrl,
+          },
+        }),
+        ...(row.snippet && { highlight: { content: [row.snippet] } }),
+      })),
+      total: counts[0]?.total || 0,
+      took: 0
+    };
+  }
+
+  private toMessageDocument(message: any) {
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      senderId: message.senderId,
+      sender: message.sender,
+      content: message.content,
+      messageType: message.messageType,
+      attachments: message.attachments || [],
+      hasAttachment: (message.attachments || []).length > 0,
+      isPinned: message.isPinned,
+      parentId: message.parentId,
+      createdAt: message.createdAt,
+      editedAt: message.editedAt
+    };
+  }
+
   // Enhanced search suggestions/autocomplete with popularity weighting
   async suggest(indices: string[], query: string, field: string, size: number = 10) {
     try {
@@ -455,6 +754,8 @@ export class SearchService {
       await this.syncCommunities();
       // Sync courses
       await this.syncCourses();
+      // Sync messages
+      await this.syncMessages();
       
       console.log('All indices synced successfully');
     } catch (error) {
@@ -476,6 +777,8 @@ export class SearchService {
         return this.syncCommunities();
       case 'courses':
         return this.syncCourses();
+      case 'messages':
+        return this.syncMessages();
       default:
         throw new Error(`Unknown index: ${index}`);
     }
@@ -745,6 +1048,55 @@ export class SearchService {
       throw error;
     }
   }
+  // Sync messages to Elasticsearch, a batch at a time
+  private async syncMessages() {
+    try {
+      let cursor: string | undefined;
+      let synced = 0;
+
+      for (;;) {
+        const messages = await prisma.message.findMany({
+          where: {
+            isDeleted: false,
+            messageType: { not: 'deleted' }
+          },
+          include: {
+            sender: {
+              select: {
+                id: true,
+                username: true,
+                firstName: true,
+                lastName: true,
+                avatarUrl: true
+              }
+            }
+          },
+          orderBy: { id: 'asc' },
+          take: MESSAGE_SYNC_BATCH_SIZE,
+          ...(cursor && { cursor: { id: cursor }, skip: 1 })
+        });
+
+        if (messages.length === 0) {
+          break;
+        }
+
+        const body = messages.flatMap((message: any) => [
+          { index: { _index: MESSAGE_INDEX, _id: message.id } },
+          this.toMessageDocument(message)
+        ]);
+
+        await esClient.bulk({ body, refresh: true });
+
+        synced += messages.length;
+        cursor = messages[messages.length - 1].id;
+      }
+
+      console.log(`Synced ${synced} messages to Elasticsearch`);
+    } catch (error) {
+      console.error('Error syncing messages:', error);
+      throw error;
+    }
+  }
 }
 
 export const searchService = new SearchService();
\ No newline at end of file
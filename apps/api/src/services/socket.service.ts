@@ -3,10 +3,43 @@ import { Server as SocketServer, Socket } from 'socket.io';
 import { verifyAccessToken } from '../utils/jwt';
 import { prisma } from '../lib/prisma';
 import { recordSocketEvent } from '../lib/metrics';
+import { presenceService, Presence, HEARTBEAT_INTERVAL_MS } from './presenceService';
+import { userService } from './userService';
+
+export type SessionRevokedReason = 'token_invalid' | 'token_expired' | 'token_revoked' | 'account_disabled';
+
+type SessionCheck = { userId: string; expiresAt: number } | { reason: SessionRevokedReason };
+
+// Events clients may emit. Anything else is rejected.
+const CLIENT_EVENTS = [
+  'join_conversation',
+  'leave_conversation',
+  'typing',
+  'stop_typing',
+  'set_status',
+  'reauthenticate',
+];
+
+// Events that act on a conversation the socket must already have joined
+const CONVERSATION_EVENTS = ['typing', 'stop_typing'];
+
+// Client events allowed per socket in each window. Typing indicators fire on
+// every few keystrokes, so they get a budget of their own.
+const RATE_LIMIT_WINDOW_MS = 10 * 1000;
+const EVENT_RATE_LIMITS: Record<string, number> = {
+  typing: 40,
+  stop_typing: 40,
+  default: 20,
+};
+
+// How often sockets on this instance have their tokens and accounts checked
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
 
 export class SocketService {
   private io: SocketServer;
-  private userSockets: Map<string, Set<string>> = new Map(); // userId -> socketIds
+  private userSockets: Map<string, Set<string>> = new Map(); // userId -> socketIds on this instance
+  private heartbeatTimer: NodeJS.Timeout;
+  private sessionTimer: NodeJS.Timeout;
 
   constructor(server: HttpServer) {
     this.io = new SocketServer(server, {
@@ -33,6 +66,16 @@ export class SocketService {
     }
 
     this.initialize();
+
+    // Keep this instance's connections alive in the presence registry and
+    // announce users whose instance stopped doing so
+    this.heartbeatTimer = setInterval(() => this.refreshPresence(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+
+    // Disconnect sockets whose token expired or was revoked, or whose account
+    // was disabled since they connected
+    this.sessionTimer = setInterval(() => this.revalidateSessions(), SESSION_CHECK_INTERVAL_MS);
+    this.sessionTimer.unref();
   }
 
   private initialize() {
@@ -40,8 +83,13 @@ export class SocketService {
     this.io.use(async (socket, next) => {
       try {
         const token = socket.handshake.auth.token;
-        const payload = verifyAccessToken(token);
-        socket.data.userId = payload.userId;
+        const session = await this.verifySession(token);
+        if ('reason' in session) {
+          return next(new Error('Authentication failed'));
+        }
+        socket.data.userId = session.userId;
+        socket.data.token = token;
+        socket.data.tokenExpiresAt = session.expiresAt;
         next();
       } catch (error) {
         next(new Error('Authentication failed'));
@@ -64,6 +112,14 @@ export class SocketService {
     }
     this.userSockets.get(userId)!.add(socket.id);
 
+    presenceService.connect(userId, socket.id).then(presence => {
+      if (presence) {
+        this.emitPresence(presence);
+      }
+    }).catch(error => {
+      console.error('Failed to register presence:', error);
+    });
+
     // Update last active time in database
     prisma.users.update({
       where: { id: userId },
@@ -78,10 +134,28 @@ export class SocketService {
     // Join conversation rooms
     this.joinUserConversations(socket, userId);
 
+    // Every client event is rate limited and checked before its handler runs
+    socket.use((packet, next) => this.guardEvent(socket, packet, next));
+
     // Handle events
-    socket.on('join_conversation', (conversationId: string) => {
+    socket.on('join_conversation', async (conversationId: string) => {
       recordSocketEvent('join_conversation');
-      socket.join(`conversation:${conversationId}`);
+      try {
+        const participant = typeof conversationId === 'string' && await prisma.conversationParticipant.findUnique({
+          where: {
+            conversationId_userId: {
+              conversationId,
+              userId,
+            },
+          },
+        });
+        if (!participant) {
+          return this.rejectEvent(socket, 'join_conversation', 'not_a_participant', conversationId);
+        }
+        socket.join(`conversation:${conversationId}`);
+      } catch (error) {
+        console.error('Failed to join conversation:', error);
+      }
     });
 
     socket.on('leave_conversation', (conversationId: string) => {
@@ -110,6 +184,30 @@ export class SocketService {
       });
     });
 
+    socket.on('set_status', async ({ status, customStatus }: any, ack?: (result: any) => void) => {
+      recordSocketEvent('set_status');
+      try {
+        const presence = await this.setUserStatus(userId, { status, customStatus });
+        ack?.({ presence });
+      } catch (error: any) {
+        ack?.({ error: error.message });
+      }
+    });
+
+    // Access tokens are short-lived; clients send a fresh one to keep the
+    // socket open past the expiry of the one they connected with
+    socket.on('reauthenticate', async (token: string, ack?: (result: any) => void) => {
+      recordSocketEvent('reauthenticate');
+      const session = await this.verifySession(token);
+      if ('reason' in session || session.userId !== userId) {
+        ack?.({ error: 'reason' in session ? session.reason : 'token_invalid' });
+        return this.revokeSocket(socket, 'reason' in session ? session.reason : 'token_invalid');
+      }
+      socket.data.token = token;
+      socket.data.tokenExpiresAt = session.expiresAt;
+      ack?.({ expiresAt: new Date(session.expiresAt).toISOString() });
+    });
+
     socket.on('disconnect', async () => {
       recordSocketEvent('disconnect');
       console.log(`User ${userId} disconnected from socket ${socket.id}`);
@@ -119,23 +217,170 @@ export class SocketService {
         userSocketSet.delete(socket.id);
         if (userSocketSet.size === 0) {
           this.userSockets.delete(userId);
-          
+        }
+      }
+
+      try {
+        // The user may still be connected to another instance
+        const presence = await presenceService.disconnect(userId, socket.id);
+        if (presence) {
           // Update last active time in database
-          try {
-            await prisma.users.update({
-              where: { id: userId },
-              data: { lastActive: new Date() },
-            });
-          } catch (error) {
-            console.error('Failed to update user last active time:', error);
-          }
-          
-          this.io.emit('user_status', { userId, isOnline: false, lastSeen: new Date().toISOString() });
+          await prisma.users.update({
+            where: { id: userId },
+            data: { lastActive: new Date() },
+          });
+          this.emitPresence(presence);
         }
+      } catch (error) {
+        console.error('Failed to update user presence:', error);
       }
     });
+  }
+
+  // Drop client events that are unknown, over the socket's rate limit or aimed
+  // at a conversation the socket has not joined
+  private guardEvent(socket: Socket, packet: any[], next: (err?: Error) => void) {
+    const [event, payload] = packet;
+
+    if (!CLIENT_EVENTS.includes(event)) {
+      return this.rejectEvent(socket, event, 'unknown_event', undefined, packet);
+    }
+
+    const retryAfter = this.consumeRateLimit(socket, event);
+    if (retryAfter > 0) {
+      recordSocketEvent('rate_limited');
+      return this.rejectEvent(socket, event, 'rate_limited', payload?.conversationId, packet, retryAfter);
+    }
 
-    this.io.emit('user_status', { userId, isOnline: true });
+    if (CONVERSATION_EVENTS.includes(event)) {
+      const conversationId = payload?.conversationId;
+      if (typeof conversationId !== 'string' || !socket.rooms.has(`conversation:${conversationId}`)) {
+        return this.rejectEvent(socket, event, 'not_a_participant', conversationId, packet);
+      }
+    }
+
+    next();
+  }
+
+  // Fixed window counter per socket and event. Returns how many milliseconds
+  // the socket has to wait when it is over the limit, otherwise 0.
+  private consumeRateLimit(socket: Socket, event: string) {
+    const bucket = event in EVENT_RATE_LIMITS ? event : 'default';
+    const now = Date.now();
+    const windows: Record<string, { count: number; resetAt: number }> = socket.data.rateLimits ??= {};
+    const window = windows[bucket];
+
+    if (!window || window.resetAt <= now) {
+      windows[bucket] = { count: 1, resetAt: now + RATE_LIMIT_WINDOW_MS };
+      return 0;
+    }
+    if (window.count >= EVENT_RATE_LIMITS[bucket]) {
+      return window.resetAt - now;
+    }
+    window.count++;
+    return 0;
+  }
+
+  // Tell the client why an event was dropped, through its acknowledgement
+  // callback when it passed one
+  private rejectEvent(
+    socket: Socket,
+    event: string,
+    reason: 'unknown_event' | 'rate_limited' | 'not_a_participant',
+    conversationId?: string,
+    packet?: any[],
+    retryAfterMs?: number
+  ) {
+    const rejection = {
+      event,
+      reason,
+      ...(conversationId !== undefined && { conversationId }),
+      ...(retryAfterMs !== undefined && { retryAfter: Math.ceil(retryAfterMs / 1000) }),
+    };
+    const ack = packet?.[packet.length - 1];
+    if (typeof ack === 'function') {
+      ack({ error: reason, ...rejection });
+    }
+    socket.emit('event_rejected', rejection);
+  }
+
+  private async verifySession(token: unknown): Promise<SessionCheck> {
+    let payload: ReturnType<typeof verifyAccessToken> & { exp?: number };
+    try {
+      payload = verifyAccessToken(token as string);
+    } catch (error: any) {
+      return { reason: error?.name === 'TokenExpiredError' ? 'token_expired' : 'token_invalid' };
+    }
+
+    if (userService.isTokenBlacklisted(token as string)) {
+      return { reason: 'token_revoked' };
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: payload.userId },
+      select: { isActive: true },
+    });
+    if (!user || !user.isActive) {
+      return { reason: 'account_disabled' };
+    }
+
+    return { userId: payload.userId, expiresAt: (payload.exp ?? 0) * 1000 };
+  }
+
+  private async revalidateSessions() {
+    try {
+      const sockets = Array.from(this.io.sockets.sockets.values());
+      if (sockets.length === 0) {
+        return;
+      }
+
+      const userIds = Array.from(new Set(sockets.map(socket => socket.data.userId as string)));
+      const activeUsers: Array<{ id: string }> = await prisma.user.findMany({
+        where: { id: { in: userIds }, isActive: true },
+        select: { id: true },
+      });
+      const active = new Set(activeUsers.map(user => user.id));
+      const now = Date.now();
+
+      for (const socket of sockets) {
+        if (userService.isTokenBlacklisted(socket.data.token)) {
+          this.revokeSocket(socket, 'token_revoked');
+        } else if (socket.data.tokenExpiresAt <= now) {
+          this.revokeSocket(socket, 'token_expired');
+        } else if (!active.has(socket.data.userId)) {
+          this.revokeSocket(socket, 'account_disabled');
+        }
+      }
+    } catch (error) {
+      console.error('Failed to revalidate socket sessions:', error);
+    }
+  }
+
+  private revokeSocket(socket: Socket, reason: SessionRevokedReason) {
+    recordSocketEvent('session_revoked');
+    socket.emit('session_revoked', { reason });
+    socket.disconnect(true);
+  }
+
+  /** Disconnect the sockets on this instance that use a token that was just revoked. */
+  revokeToken(token: string) {
+    for (const socket of this.io.sockets.sockets.values()) {
+      if (socket.data.token === token) {
+        this.revokeSocket(socket, 'token_revoked');
+      }
+    }
+  }
+
+  /** Disconnect all of a user's sockets on every instance, e.g. when they are banned. */
+  disconnectUser(userId: string, reason: SessionRevokedReason) {
+    recordSocketEvent('session_revoked');
+    this.io.to(`user:${userId}`).emit('session_revoked', { reason });
+    this.io.in(`user:${userId}`).disconnectSockets(true);
+  }
+
+  /** Take a user's sockets out of a conversation they are no longer part of. */
+  removeFromConversation(conversationId: string, userId: string) {
+    this.io.in(`user:${userId}`).socketsLeave(`conversation:${conversationId}`);
   }
 
   private async joinUserConversations(socket: Socket, userId: string) {
@@ -154,6 +399,18 @@ export class SocketService {
     this.io.to(`conversation:${conversationId}`).emit('new_message', message);
   }
 
+  // Emit a thread reply; clients update the parent's reply count and any open thread
+  sendThreadReply(conversationId: string, threadId: string, message: any, replyCount: number) {
+    recordSocketEvent('thread_reply');
+    this.io.to(`conversation:${conversationId}`).emit('thread_reply', {
+      conversationId,
+      threadId,
+      message,
+      replyCount,
+      lastReplyAt: message.createdAt,
+    });
+  }
+
   sendNotification(userId: string, notification: any) {
     recordSocketEvent('notification');
     this.io.to(`user:${userId}`).emit('notification', notification);
@@ -179,31 +436,67 @@ export class SocketService {
     });
   }
 
-  // Emit a delivered event for a new message
-  emitDelivered(conversationId: string, messageId: string, deliveredAt: Date) {
+  // Emit a delivered event for messages that reached a recipient
+  emitDelivered(conversationId: string, messageIds: string[], userId: string, deliveredAt: Date) {
     recordSocketEvent('message_delivered');
     this.io.to(`conversation:${conversationId}`).emit('message_delivered', {
       conversationId,
-      messageId,
+      messageIds,
+      userId,
       deliveredAt: deliveredAt.toISOString(),
     });
   }
 
-  getOnlineUsers(): string[] {
-    return Array.from(this.userSockets.keys());
+  /**
+   * Change a user's status and tell everyone who can see the change, plus the
+   * user's other devices. Returns the user's own view of their presence.
+   */
+  async setUserStatus(userId: string, update: { status?: string; customStatus?: string | null }) {
+    const { own, visible } = await presenceService.setStatus(userId, update);
+    this.io.to(`user:${userId}`).emit('presence_updated', own);
+    this.emitPresence(visible);
+    return own;
   }
 
-  isUserOnline(userId: string): boolean {
-    return this.userSockets.has(userId);
+  // Announce a presence change to all connected clients
+  private emitPresence(presence: Presence) {
+    recordSocketEvent('user_status');
+    this.io.emit('user_status', { ...presence, isOnline: presence.status !== 'offline' });
+  }
+
+  private async refreshPresence() {
+    try {
+      const connections = Array.from(this.userSockets.entries()).flatMap(([userId, socketIds]) =>
+        Array.from(socketIds).map(connectionId => ({ userId, connectionId }))
+      );
+      await presenceService.heartbeat(connections);
+
+      const expired = await presenceService.expireStale();
+      expired.forEach(presence => this.emitPresence(presence));
+    } catch (error) {
+      console.error('Failed to refresh presence:', error);
+    }
+  }
+
+  // Users connected to any instance, including invisible ones
+  async getOnlineUsers(): Promise<string[]> {
+    return presenceService.getOnlineUserIds();
+  }
+
+  async isUserOnline(userId: string): Promise<boolean> {
+    return presenceService.isOnline(userId);
   }
 
   async getUserStatus(userId: string): Promise<{ isOnline: boolean; lastSeen?: string }> {
-    const isOnline = this.userSockets.has(userId);
-    if (isOnline) {
+    const [presence] = await presenceService.getPresence([userId]);
+    if (presence.status !== 'offline') {
       return { isOnline: true };
     }
-    
-    // For offline users, get lastSeen from the database
+    if (presence.lastSeen) {
+      return { isOnline: false, lastSeen: presence.lastSeen };
+    }
+
+    // Not seen since the registry was last reset; fall back to the database
     try {
       const user = await prisma.users.findUnique({
         where: { id: userId },
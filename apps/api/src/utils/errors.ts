@@ -48,4 +48,14 @@ export class ForbiddenError extends Error {
     this.statusCode = 403;
     this.name = 'ForbiddenError';
   }
-}
\ No newline at end of file
+}
+
+export class PaymentRequiredError extends Error {
+  statusCode: number;
+
+  constructor(message: string) {
+    super(message);
+    this.statusCode = 402;
+    this.name = 'PaymentRequiredError';
+  }
+}
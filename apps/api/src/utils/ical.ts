@@ -0,0 +1,197 @@
+import { toZonedTime, zoneName, zoneOffset, zoneTransitions, ZoneTransition } from './timezone';
+
+/**
+ * A minimal RFC 5545 (iCalendar) writer for event exports and feeds. Times
+ * are written in each event's time zone, declared by a VTIMEZONE with its
+ * daylight saving rules, so calendar apps expand RRULEs the same way the API
+ * does.
+ */
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  // Recurring events: the rule on the series' master event...
+  rrule?: string;
+  // ...and, on an occurrence that differs from the series, the original start
+  recurrenceId?: Date;
+  created?: Date;
+  // IANA time zone of the event; UTC by default
+  timeZone?: string;
+}
+
+const PRODUCT_ID = '-//Skool//Events//EN';
+const DEFAULT_TIME_ZONE = 'UTC';
+const MAX_LINE_OCTETS = 75;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MINUTE_MS = 60 * 1000;
+
+export const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// 20251104T170000Z
+export const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Wall-clock time without a zone, as used with TZID and in VTIMEZONE
+const formatFloating = (local: Date) => formatUtc(local).replace(/Z$/, '');
+
+// +0100
+const formatOffset = (offset: number) => {
+  const minutes = Math.abs(offset) / MINUTE_MS;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${offset < 0 ? '-' : '+'}${pad(Math.floor(minutes / 60))}${pad(minutes % 60)}`;
+};
+
+/**
+ * One observance of a VTIMEZONE, starting at the transition. With `yearly`
+ * it repeats on the same weekday of the month, the way daylight saving
+ * rules are written (e.g. the last Sunday of March).
+ */
+function observanceLines(timeZone: string, transition: ZoneTransition, yearly: boolean): string[] {
+  const kind = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+  const local = new Date(transition.at.getTime() + transition.offsetFrom);
+  const day = local.getUTCDate();
+  const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+  const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+
+  return [
+    `BEGIN:${kind}`,
+    `DTSTART:${formatFloating(local)}`,
+    `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+    `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+    ...(yearly ? [`RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${ordinal}${WEEKDAYS[local.getUTCDay()]}`] : []),
+    `TZNAME:${zoneName(transition.at, timeZone)}`,
+    `END:${kind}`,
+  ];
+}
+
+/**
+ * The VTIMEZONE of an IANA zone, with the zone's rules as of `year`, which
+ * should be before the first event using it. A zone that switches to and
+ * from daylight saving that year gets yearly observances; any other changes
+ * are written as they happen.
+ */
+function timeZoneLines(timeZone: string, year: number): string[] {
+  const transitions = zoneTransitions(timeZone, year);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const start = new Date(Date.UTC(year, 0, 1));
+    const offset = formatOffset(zoneOffset(start.getTime(), timeZone));
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      `TZNAME:${zoneName(start, timeZone)}`,
+      'END:STANDARD'
+    );
+  } else {
+    const yearly = transitions.length === 2;
+    lines.push(...transitions.flatMap(transition => observanceLines(timeZone, transition, yearly)));
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/** Fold a content line to 75 octets, without splitting multi-byte characters. */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+function eventLines(event: ICalEvent, now: Date): string[] {
+  const timeZone = event.timeZone ?? DEFAULT_TIME_ZONE;
+  const local = (date: Date) => `TZID=${timeZone}:${formatFloating(toZonedTime(date, timeZone))}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART;${local(event.start)}`,
+    `DTEND;${local(event.end)}`,
+  ];
+
+  if (event.recurrenceId) {
+    lines.push(`RECURRENCE-ID;${local(event.recurrenceId)}`);
+  }
+  if (event.rrule) {
+    lines.push(`RRULE:${event.rrule}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.location) {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`);
+  }
+  if (event.created) {
+    lines.push(`CREATED:${formatUtc(event.created)}`);
+  }
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+export function buildCalendar(events: ICalEvent[], options: { name?: string; now?: Date } = {}): string {
+  const now = options.now ?? new Date();
+
+  // Each zone's rules are taken from the year before its first event, so
+  // they are in force from before any of its events
+  const firstYears = new Map<string, number>();
+  for (const event of events) {
+    const timeZone = event.timeZone ?? DEFAULT_TIME_ZONE;
+    const year = new Date(Math.min(event.start.getTime(), event.recurrenceId?.getTime() ?? Infinity)).getUTCFullYear();
+    firstYears.set(timeZone, Math.min(firstYears.get(timeZone) ?? year, year));
+  }
+  if (firstYears.size === 0) {
+    firstYears.set(DEFAULT_TIME_ZONE, now.getUTCFullYear());
+  }
+  const timeZones = [...firstYears.keys()];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+    `X-WR-TIMEZONE:${timeZones.length === 1 ? timeZones[0] : DEFAULT_TIME_ZONE}`,
+    ...timeZones.flatMap(timeZone => timeZoneLines(timeZone, firstYears.get(timeZone)! - 1)),
+    ...events.flatMap(event => eventLines(event, now)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,256 @@
+import { ValidationError } from './errors';
+import { fromZonedTime, toZonedTime } from './timezone';
+
+/**
+ * The subset of RFC 5545 recurrence rules events support: DAILY, WEEKLY and
+ * MONTHLY frequencies with INTERVAL, BYDAY, COUNT and UNTIL. Occurrences are
+ * computed in the series' time zone, so they keep the local time of day of
+ * the first occurrence across daylight saving changes.
+ */
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RRuleDay {
+  // 0 = Sunday, as Date#getUTCDay
+  weekday: number;
+  // Monthly rules only: 1 = first, -1 = last, and so on
+  ordinal?: number;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleDay[];
+  count?: number;
+  until?: Date;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_RRULE_COUNT = 730;
+// Stops rules whose BYDAY never matches from looping forever
+const MAX_PERIODS = 5000;
+
+const invalid = (reason: string) => new ValidationError(`Invalid recurrence rule: ${reason}`);
+
+const parseUntil = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) {
+    throw invalid('UNTIL must be a date like 20251231 or 20251231T235959Z');
+  }
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59'] = match;
+  const until = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+  if (Number.isNaN(until.getTime())) {
+    throw invalid('UNTIL is not a valid date');
+  }
+  return until;
+};
+
+const startOfUTCDay = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const formatUntil = (until: Date) => until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function parseRRule(value: string): RRule {
+  const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, fieldValue] = part.split('=');
+    if (!key || fieldValue === undefined) {
+      throw invalid(`"${part}" is not a NAME=VALUE pair`);
+    }
+    fields.set(key.toUpperCase(), fieldValue.toUpperCase());
+  }
+
+  for (const key of fields.keys()) {
+    if (!['FREQ', 'INTERVAL', 'BYDAY', 'COUNT', 'UNTIL'].includes(key)) {
+      throw invalid(`${key} is not supported`);
+    }
+  }
+
+  const freq = fields.get('FREQ') as RRuleFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw invalid(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const interval = fields.has('INTERVAL') ? Number(fields.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 99) {
+    throw invalid('INTERVAL must be between 1 and 99');
+  }
+
+  const byDay = (fields.get('BYDAY')?.split(',') ?? []).map(day => {
+    const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(day);
+    if (!match) {
+      throw invalid(`"${day}" is not a valid BYDAY value`);
+    }
+    const ordinal = match[1] ? Number(match[1]) : undefined;
+    if (ordinal !== undefined && (freq !== 'MONTHLY' || ordinal === 0 || ordinal < -4 || ordinal > 4)) {
+      throw invalid('BYDAY ordinals are only supported on MONTHLY rules, from -4 to 4');
+    }
+    return { weekday: WEEKDAYS.indexOf(match[2]), ...(ordinal !== undefined && { ordinal }) };
+  });
+
+  if (fields.has('COUNT') && fields.has('UNTIL')) {
+    throw invalid('COUNT and UNTIL cannot be combined');
+  }
+
+  const rule: RRule = { freq, interval, byDay };
+  if (fields.has('COUNT')) {
+    const count = Number(fields.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1 || count > MAX_RRULE_COUNT) {
+      throw invalid(`COUNT must be between 1 and ${MAX_RRULE_COUNT}`);
+    }
+    rule.count = count;
+  }
+  if (fields.has('UNTIL')) {
+    rule.until = parseUntil(fields.get('UNTIL')!);
+  }
+
+  return rule;
+}
+
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`).join(',')}`);
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  }
+
+  return parts.join(';');
+}
+
+// Candidate days of the period that starts on `periodStart` (a local midnight)
+function periodDays(rule: RRule, periodStart: Date, dtstart: Date): Date[] {
+  const year = periodStart.getUTCFullYear();
+  const month = periodStart.getUTCMonth();
+
+  if (rule.freq === 'DAILY') {
+    const matches = rule.byDay.length === 0 || rule.byDay.some(day => day.weekday === periodStart.getUTCDay());
+    return matches ? [periodStart] : [];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map(day => day.weekday) : [dtstart.getUTCDay()];
+    // Weeks start on Monday (WKST=MO)
+    return weekdays.map(weekday => new Date(periodStart.getTime() + ((weekday + 6) % 7) * DAY_MS));
+  }
+
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  if (rule.byDay.length === 0) {
+    // Months without the start date's day (e.g. the 31st) are skipped
+    const day = dtstart.getUTCDate();
+    return day <= daysInMonth ? [new Date(Date.UTC(year, month, day))] : [];
+  }
+
+  const days: Date[] = [];
+  for (const { weekday, ordinal } of rule.byDay) {
+    const first = 1 + ((weekday - new Date(Date.UTC(year, month, 1)).getUTCDay() + 7) % 7);
+    const matching: number[] = [];
+    for (let day = first; day <= daysInMonth; day += 7) {
+      matching.push(day);
+    }
+    const selected = ordinal === undefined
+      ? matching
+      : [matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal]].filter(Boolean);
+    days.push(...selected.map(day => new Date(Date.UTC(year, month, day))));
+  }
+  return days;
+}
+
+function nextPeriod(rule: RRule, periodStart: Date): Date {
+  if (rule.freq === 'MONTHLY') {
+    return new Date(Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + rule.interval, 1));
+  }
+  const days = rule.freq === 'WEEKLY' ? 7 * rule.interval : rule.interval;
+  return new Date(periodStart.getTime() + days * DAY_MS);
+}
+
+function firstPeriod(rule: RRule, dtstart: Date): Date {
+  const day = startOfUTCDay(dtstart);
+  if (rule.freq === 'MONTHLY') {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+  if (rule.freq === 'WEEKLY') {
+    return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+  }
+  return day;
+}
+
+/**
+ * Start times of the occurrences of a rule up to `to`, in the IANA time zone
+ * `timeZone` (UTC by default). The first occurrence is always `dtstart`, and
+ * COUNT counts from it even when `from` skips some.
+ */
+export function expandRRule(
+  rule: RRule,
+  dtstart: Date,
+  options: { from?: Date; to: Date; timeZone?: string }
+): Date[] {
+  const timeZone = options.timeZone ?? 'UTC';
+  const end = rule.until && rule.until < options.to ? rule.until : options.to;
+  const from = options.from ?? dtstart;
+  const occurrences: Date[] = [];
+  let count = 0;
+
+  if (dtstart > end) {
+    return occurrences;
+  }
+
+  // Candidates are generated in local time; the day of slack covers the
+  // zone's offset when comparing them with `end`
+  const localStart = toZonedTime(dtstart, timeZone);
+  const localEnd = new Date(toZonedTime(end, timeZone).getTime() + DAY_MS);
+  const timeOfDay = localStart.getTime() - startOfUTCDay(localStart).getTime();
+
+  const take = (start: Date) => {
+    count++;
+    if (start >= from) {
+      occurrences.push(start);
+    }
+  };
+
+  take(dtstart);
+
+  let periodStart = firstPeriod(rule, localStart);
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    if (periodStart > localEnd || (rule.count && count >= rule.count)) {
+      break;
+    }
+
+    const starts = periodDays(rule, periodStart, localStart)
+      .map(day => new Date(day.getTime() + timeOfDay))
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    for (const localTime of starts) {
+      if (localTime <= localStart) {
+        continue;
+      }
+      const start = fromZonedTime(localTime, timeZone);
+      if (start > end || (rule.count && count >= rule.count)) {
+        return occurrences;
+      }
+      take(start);
+    }
+
+    periodStart = nextPeriod(rule, periodStart);
+  }
+
+  return occurrences;
+}
+
+/** How many occurrences of the rule start before `before`. */
+export function countOccurrencesBefore(rule: RRule, dtstart: Date, before: Date, timeZone?: string): number {
+  return expandRRule(rule, dtstart, { to: new Date(before.getTime() - 1), timeZone }).length;
+}
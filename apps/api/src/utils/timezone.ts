@@ -0,0 +1,109 @@
+/**
+ * IANA time zone arithmetic on top of Intl. Local times are represented as
+ * "floating" Dates whose UTC fields hold the wall-clock time in the zone.
+ */
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string) {
+  let format = formatters.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, format);
+  }
+  return format;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Milliseconds the zone is ahead of UTC at the given instant. */
+export function zoneOffset(time: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    formatter(timeZone).formatToParts(new Date(time)).map(part => [part.type, part.value])
+  );
+  const local = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute, +parts.second);
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+/** The wall-clock time in the zone at the given instant, as a floating Date. */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + zoneOffset(date.getTime(), timeZone));
+}
+
+/**
+ * The instant a wall-clock time in the zone happens. As RFC 5545 has it,
+ * times repeated when clocks go back resolve to the first one, and times
+ * skipped when they go forward are read with the offset from before the gap.
+ */
+export function fromZonedTime(local: Date, timeZone: string): Date {
+  const time = local.getTime();
+  // Offsets either side of any transition around this time
+  const before = zoneOffset(time - DAY_MS, timeZone);
+  const after = zoneOffset(time + DAY_MS, timeZone);
+
+  const candidates = [time - before, time - after]
+    .filter(instant => zoneOffset(instant, timeZone) === time - instant)
+    .sort((a, b) => a - b);
+
+  return new Date(candidates[0] ?? time - before);
+}
+
+export interface ZoneTransition {
+  at: Date;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+/** Changes of the zone's offset during a (UTC) year, such as daylight saving starting and ending. */
+export function zoneTransitions(timeZone: string, year: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+
+  // Zones change offset at most once a day; find the day, then the minute
+  let offsetFrom = zoneOffset(Date.UTC(year, 0, 1), timeZone);
+  for (let day = Date.UTC(year, 0, 1); day < end; day += DAY_MS) {
+    const offsetTo = zoneOffset(day + DAY_MS, timeZone);
+    if (offsetFrom === offsetTo) {
+      continue;
+    }
+
+    let before = day;
+    let after = day + DAY_MS;
+    while (after - before > MINUTE_MS) {
+      const middle = before + Math.floor((after - before) / 2 / MINUTE_MS) * MINUTE_MS;
+      if (zoneOffset(middle, timeZone) === offsetFrom) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+    transitions.push({ at: new Date(after), offsetFrom, offsetTo });
+    offsetFrom = offsetTo;
+  }
+
+  return transitions;
+}
+
+/** The zone's short name at the given instant, e.g. EST or GMT+1. */
+export function zoneName(date: Date, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+  return parts.find(part => part.type === 'timeZoneName')?.value ?? timeZone;
+}
@@ -5,29 +5,36 @@ import { AttendeeManagement } from './AttendeeManagement';
 
 // Mock the hooks
 jest.mock('../../hooks/useEventAttendees', () => ({
+  ...jest.requireActual('../../hooks/useEventAttendees'),
   useEventAttendees: jest.fn(() => ({
     data: [
       {
         id: '1',
         eventId: 'event-1',
-        name: 'John Doe',
-        email: 'john@example.com',
-        phone: '+1234567890',
+        userId: 'user-1',
         status: 'confirmed',
-        ticketType: 'VIP',
-        registeredAt: '2024-01-15T10:00:00Z',
+        attendance: null,
+        waitlistPosition: null,
+        offerExpiresAt: null,
+        joinedAt: '2024-01-15T10:00:00Z',
         checkInCode: 'ABC123',
+        checkedInAt: null,
+        registration: { phone: '+1234567890' },
+        user: { id: 'user-1', username: 'johnd', firstName: 'John', lastName: 'Doe', avatarUrl: null },
       },
       {
         id: '2',
         eventId: 'event-1',
-        name: 'Jane Smith',
-        email: 'jane@example.com',
-        phone: '+0987654321',
-        status: 'registered',
-        ticketType: 'Standard',
-        registeredAt: '2024-01-16T14:30:00Z',
+        userId: 'user-2',
+        status: 'maybe',
+        attendance: null,
+        waitlistPosition: null,
+        offerExpiresAt: null,
+        joinedAt: '2024-01-16T14:30:00Z',
         checkInCode: 'DEF456',
+        checkedInAt: null,
+        registration: null,
+        user: { id: 'user-2', username: 'janes', firstName: 'Jane', lastName: 'Smith', avatarUrl: null },
       },
     ],
     isLoading: false,
@@ -42,6 +49,13 @@ jest.mock('../../hooks/useEventAttendees', () => ({
   useExportAttendees: jest.fn(() => ({
     mutateAsync: jest.fn(),
   })),
+  useCheckInAttendee: jest.fn(() => ({
+    mutateAsync: jest.fn(),
+  })),
+  useGenerateCheckInCodes: jest.fn(() => ({
+    mutateAsync: jest.fn(),
+    isPending: false,
+  })),
 }));
 
 jest.mock('../../lib/toast', () => ({
@@ -82,18 +96,18 @@ describe('AttendeeManagement', () => {
     render(<AttendeeManagement {...defaultProps} />);
     
     expect(screen.getByText('John Doe')).toBeInTheDocument();
-    expect(screen.getByText('john@example.com')).toBeInTheDocument();
+    expect(screen.getByText('@johnd')).toBeInTheDocument();
+    expect(screen.getByText('ABC123')).toBeInTheDocument();
     expect(screen.getByText('+1234567890')).toBeInTheDocument();
-    expect(screen.getByText('VIP')).toBeInTheDocument();
     
     expect(screen.getByText('Jane Smith')).toBeInTheDocument();
-    expect(screen.getByText('jane@example.com')).toBeInTheDocument();
+    expect(screen.getByText('@janes')).toBeInTheDocument();
   });
 
   it('filters attendees by search term', async () => {
     render(<AttendeeManagement {...defaultProps} />);
     
-    const searchInput = screen.getByPlaceholderText('Search attendees by name, email, or phone...');
+    const searchInput = screen.getByPlaceholderText('Search attendees by name, username, or check-in code...');
     
     // Search for John
     fireEvent.change(searchInput, { target: { value: 'John' } });
@@ -191,10 +205,10 @@ describe('AttendeeManagement', () => {
     render(<AttendeeManagement {...defaultProps} />);
     
     const confirmedBadge = screen.getByText('Confirmed');
-    const registeredBadge = screen.getByText('Registered');
+    const maybeBadge = screen.getByText('Maybe');
     
     expect(confirmedBadge).toBeInTheDocument();
-    expect(registeredBadge).toBeInTheDocument();
+    expect(maybeBadge).toBeInTheDocument();
   });
 
   it('handles status updates', async () => {
@@ -24,6 +24,7 @@ import {
   FileText,
   Printer
 } from 'lucide-react';
+import jsPDF from 'jspdf';
 import { cn, formatDate, getInitials } from '../../lib/utils';
 import { useToast } from '../../lib/toast';
 import {
@@ -31,8 +32,14 @@ import {
   useUpdateAttendeeStatus,
   useSendAttendeeMessage,
   useExportAttendees,
+  useCheckInAttendee,
+  useGenerateCheckInCodes,
+  getAttendeeName,
+  getDisplayStatus,
   EventAttendee,
   AttendeeStatus,
+  AttendanceStatus,
+  RsvpStatus,
 } from '../../hooks/useEventAttendees';
 
 interface AttendeeManagementProps {
@@ -42,20 +49,36 @@ interface AttendeeManagementProps {
   className?: string;
 }
 
-const STATUS_CONFIG = {
-  registered: { label: 'Registered', color: 'blue', icon: Clock },
-  confirmed: { label: 'Confirmed', color: 'green', icon: CheckCircle },
-  attended: { label: 'Attended', color: 'purple', icon: UserCheck },
-  no_show: { label: 'No Show', color: 'red', icon: UserX },
-  cancelled: { label: 'Cancelled', color: 'gray', icon: XCircle },
+// Offered and waitlisted follow from the event's capacity, so they can't be picked
+const STATUS_CONFIG: Record<RsvpStatus | AttendanceStatus, {
+  label: string;
+  color: string;
+  icon: typeof Clock;
+  selectable: boolean;
+}> = {
+  confirmed: { label: 'Confirmed', color: 'green', icon: CheckCircle, selectable: true },
+  maybe: { label: 'Maybe', color: 'blue', icon: Clock, selectable: true },
+  declined: { label: 'Declined', color: 'gray', icon: XCircle, selectable: true },
+  offered: { label: 'Spot Offered', color: 'yellow', icon: Clock, selectable: false },
+  waitlisted: { label: 'Waitlisted', color: 'yellow', icon: Clock, selectable: false },
+  attended: { label: 'Attended', color: 'purple', icon: UserCheck, selectable: true },
+  no_show: { label: 'No Show', color: 'red', icon: UserX, selectable: true },
 };
 
+// CSV and Excel files come from the API; PDF and Print are built from the list
 const EXPORT_FORMATS = [
   { format: 'csv', label: 'CSV', icon: FileSpreadsheet },
-  { format: 'excel', label: 'Excel', icon: FileSpreadsheet },
+  { format: 'xlsx', label: 'Excel', icon: FileSpreadsheet },
   { format: 'pdf', label: 'PDF', icon: FileText },
   { format: 'print', label: 'Print', icon: Printer },
-];
+] as const;
+
+type ExportFormat = typeof EXPORT_FORMATS[number]['format'];
+
+const EXPORT_HEADERS = ['Name', 'Username', 'Status', 'Check-in Code', 'Registration Date'];
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
 
 export function AttendeeManagement({
   eventId,
@@ -64,7 +87,7 @@ export function AttendeeManagement({
   className,
 }: AttendeeManagementProps) {
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<AttendeeStatus | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<RsvpStatus | AttendanceStatus | 'all'>('all');
   const [selectedAttendees, setSelectedAttendees] = useState<Set<string>>(new Set());
   const [showCheckInModal, setShowCheckInModal] = useState(false);
   const [checkInCode, setCheckInCode] = useState('');
@@ -77,16 +100,18 @@ export function AttendeeManagement({
   const updateStatus = useUpdateAttendeeStatus();
   const sendMessage = useSendAttendeeMessage();
   const exportAttendees = useExportAttendees();
+  const checkIn = useCheckInAttendee();
+  const generateCodes = useGenerateCheckInCodes();
 
   // Filter attendees based on search and status
   const filteredAttendees = useMemo(() => {
     return attendees.filter(attendee => {
       const matchesSearch = searchTerm === '' || 
-        attendee.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        attendee.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        attendee.phone?.includes(searchTerm);
+        getAttendeeName(attendee).toLowerCase().includes(searchTerm.toLowerCase()) ||
+        attendee.user.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
+        attendee.checkInCode?.includes(searchTerm.toUpperCase());
       
-      const matchesStatus = statusFilter === 'all' || attendee.status === statusFilter;
+      const matchesStatus = statusFilter === 'all' || getDisplayStatus(attendee) === statusFilter;
       
       return matchesSearch && matchesStatus;
     });
@@ -96,8 +121,8 @@ export function AttendeeManagement({
   const stats = useMemo(() => {
     const total = attendees.length;
     const confirmed = attendees.filter(a => a.status === 'confirmed').length;
-    const attended = attendees.filter(a => a.status === 'attended').length;
-    const noShow = attendees.filter(a => a.status === 'no_show').length;
+    const attended = attendees.filter(a => a.attendance === 'attended').length;
+    const noShow = attendees.filter(a => a.attendance === 'no_show').length;
     
     return { total, confirmed, attended, noShow };
   }, [attendees]);
@@ -141,7 +166,7 @@ export function AttendeeManagement({
   const handleSendMessage = async (attendeeIds: string[], message: string) => {
     try {
       setBulkActionLoading(true);
-      await sendMessage.mutateAsync({ attendeeIds, message });
+      await sendMessage.mutateAsync({ eventId, attendeeIds, message });
       addToast({
         type: 'success',
         title: 'Message sent',
@@ -160,8 +185,91 @@ export function AttendeeManagement({
     }
   };
 
-  const handleExport = async (format: string) => {
+  // Like the API exports: the selected attendees, or all of them
+  const exportRows = () => {
+    const picked = selectedAttendees.size > 0
+      ? attendees.filter(a => selectedAttendees.has(a.id))
+      : attendees;
+
+    return picked.map(attendee => [
+      getAttendeeName(attendee),
+      attendee.user.username,
+      STATUS_CONFIG[getDisplayStatus(attendee)].label,
+      attendee.checkInCode || '-',
+      formatDate(attendee.joinedAt),
+    ]);
+  };
+
+  const exportPdf = () => {
+    const pdf = new jsPDF('l', 'mm', 'a4');
+    const columnX = [14, 84, 134, 184, 224];
+    let y = 20;
+
+    pdf.setFontSize(16);
+    pdf.text(`Attendees: ${eventTitle}`, 14, y);
+    pdf.setFontSize(10);
+    for (const [index, row] of [EXPORT_HEADERS, ...exportRows()].entries()) {
+      y += 8;
+      if (y > 195) {
+        pdf.addPage();
+        y = 20;
+      }
+      pdf.setFont('helvetica', index === 0 ? 'bold' : 'normal');
+      row.forEach((cell, column) => pdf.text(String(cell), columnX[column], y, { maxWidth: 66 }));
+    }
+
+    pdf.save(`attendees-${eventTitle}-${formatDate(new Date())}.pdf`);
+  };
+
+  const printAttendees = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const html = `
+      <html>
+        <head><title>Attendees: ${escapeHtml(eventTitle)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; margin: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+        </style>
+        </head>
+        <body>
+          <h1>Attendees: ${escapeHtml(eventTitle)}</h1>
+          <table>
+            <thead>
+              <tr>${EXPORT_HEADERS.map(header => `<th>${header}</th>`).join('')}</tr>
+            </thead>
+            <tbody>
+              ${exportRows().map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}
+            </tbody>
+          </table>
+          <script>window.onload = () => { window.print(); window.close(); };</script>
+        </body>
+      </html>
+    `;
+    printWindow.document.write(html);
+    printWindow.document.close();
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (format === 'print') {
+      printAttendees();
+      return;
+    }
+
     try {
+      if (format === 'pdf') {
+        exportPdf();
+        addToast({
+          type: 'success',
+          title: 'Export complete',
+          message: 'Attendees exported as PDF',
+        });
+        return;
+      }
+
       const data = await exportAttendees.mutateAsync({ 
         eventId, 
         format,
@@ -182,7 +290,7 @@ export function AttendeeManagement({
       addToast({
         type: 'success',
         title: 'Export complete',
-        message: `Attendees exported as ${format.toUpperCase()}`,
+        message: `Attendees exported as ${format === 'xlsx' ? 'Excel' : 'CSV'}`,
       });
     } catch (error) {
       console.error('Export failed:', error);
@@ -196,8 +304,9 @@ export function AttendeeManagement({
 
   const handleCheckIn = async () => {
     try {
-      // Validate check-in code and mark attendance
-      const attendee = attendees.find(a => a.checkInCode === checkInCode);
+      // Find whose code it is; the API checks it again when checking them in
+      const code = checkInCode.trim().toUpperCase();
+      const attendee = attendees.find(a => a.checkInCode === code);
       if (!attendee) {
         addToast({
           type: 'error',
@@ -207,15 +316,15 @@ export function AttendeeManagement({
         return;
       }
       
-      await updateStatus.mutateAsync({ 
+      await checkIn.mutateAsync({ 
         attendeeId: attendee.id, 
-        status: 'attended' 
+        checkInCode: code 
       });
       
       addToast({
         type: 'success',
         title: 'Check-in successful',
-        message: `${attendee.name} has been marked as attended`,
+        message: `${getAttendeeName(attendee)} has been marked as attended`,
       });
       
       setCheckInCode('');
@@ -230,12 +339,28 @@ export function AttendeeManagement({
     }
   };
 
-  const getMimeType = (format: string): string => {
+  const handleGenerateCodes = async () => {
+    try {
+      const codes = await generateCodes.mutateAsync(eventId);
+      addToast({
+        type: 'success',
+        title: 'Check-in codes ready',
+        message: `${codes.length} confirmed attendee(s) have a check-in code`,
+      });
+    } catch (error) {
+      console.error('Failed to generate check-in codes:', error);
+      addToast({
+        type: 'error',
+        title: 'Generation failed',
+        message: 'Could not generate check-in codes',
+      });
+    }
+  };
+
+  const getMimeType = (format: 'csv' | 'xlsx'): string => {
     switch (format) {
       case 'csv': return 'text/csv';
-      case 'excel': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-      case 'pdf': return 'application/pdf';
-      default: return 'text/plain';
+      case 'xlsx': return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
     }
   };
 
@@ -347,7 +472,7 @@ export function AttendeeManagement({
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
           <Input
             type="text"
-            placeholder="Search attendees by name, email, or phone..."
+            placeholder="Search attendees by name, username, or check-in code..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10"
@@ -355,7 +480,7 @@ export function AttendeeManagement({
         </div>
         <select
           value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value as AttendeeStatus | 'all')}
+          onChange={(e) => setStatusFilter(e.target.value as RsvpStatus | AttendanceStatus | 'all')}
           className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
           <option value="all">All Status</option>
@@ -424,8 +549,8 @@ export function AttendeeManagement({
               />
               <div className="flex-1 grid grid-cols-6 gap-4 text-sm font-medium text-gray-600">
                 <div>Name</div>
-                <div>Email</div>
-                <div>Phone</div>
+                <div>Username</div>
+                <div>Check-in Code</div>
                 <div>Registration Date</div>
                 <div>Status</div>
                 <div>Actions</div>
@@ -433,7 +558,9 @@ export function AttendeeManagement({
             </div>
             
             {filteredAttendees.map((attendee) => {
-              const statusConfig = STATUS_CONFIG[attendee.status];
+              const name = getAttendeeName(attendee);
+              const displayStatus = getDisplayStatus(attendee);
+              const statusConfig = STATUS_CONFIG[displayStatus];
               const StatusIcon = statusConfig.icon;
               
               return (
@@ -449,19 +576,19 @@ export function AttendeeManagement({
                   <div className="flex-1 grid grid-cols-6 gap-4 items-center">
                     <div className="flex items-center">
                       <div className="w-8 h-8 bg-gray-200 rounded-full flex items-center justify-center text-sm font-medium text-gray-600 mr-3">
-                        {getInitials(attendee.name)}
+                        {getInitials(name)}
                       </div>
                       <div>
-                        <p className="font-medium text-gray-900">{attendee.name}</p>
-                        {attendee.ticketType && (
-                          <p className="text-xs text-gray-500">{attendee.ticketType}</p>
+                        <p className="font-medium text-gray-900">{name}</p>
+                        {attendee.registration?.phone && (
+                          <p className="text-xs text-gray-500">{attendee.registration.phone}</p>
                         )}
                       </div>
                     </div>
-                    <div className="text-sm text-gray-600">{attendee.email}</div>
-                    <div className="text-sm text-gray-600">{attendee.phone || '-'}</div>
+                    <div className="text-sm text-gray-600">@{attendee.user.username}</div>
+                    <div className="text-sm text-gray-600 font-mono">{attendee.checkInCode || '-'}</div>
                     <div className="text-sm text-gray-600">
-                      {formatDate(attendee.registeredAt)}
+                      {formatDate(attendee.joinedAt)}
                     </div>
                     <div>
                       <Badge
@@ -474,19 +601,19 @@ export function AttendeeManagement({
                     </div>
                     <div className="flex items-center space-x-2">
                       <select
-                        value={attendee.status}
+                        value={displayStatus}
                         onChange={(e) => handleUpdateStatus(attendee.id, e.target.value as AttendeeStatus)}
                         className="text-xs px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
                       >
                         {Object.entries(STATUS_CONFIG).map(([status, config]) => (
-                          <option key={status} value={status}>
+                          <option key={status} value={status} disabled={!config.selectable}>
                             {config.label}
                           </option>
                         ))}
                       </select>
                       <button
                         onClick={() => {
-                          const message = prompt(`Send message to ${attendee.name}:`);
+                          const message = prompt(`Send message to ${name}:`);
                           if (message) {
                             handleSendMessage([attendee.id], message);
                           }
@@ -527,6 +654,13 @@ export function AttendeeManagement({
               >
                 Check In
               </Button>
+              <Button
+                onClick={handleGenerateCodes}
+                variant="outline"
+                disabled={generateCodes.isPending}
+              >
+                Generate Codes
+              </Button>
               <Button
                 onClick={() => {
                   setShowCheckInModal(false);
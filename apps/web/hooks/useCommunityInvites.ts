@@ -6,7 +6,10 @@ interface Invite {
   id: string;
   code: string;
   communityId: string;
-  createdBy: string;
+  type: 'DIRECT' | 'LINK';
+  role: string;
+  inviterId: string;
+  email: string | null;
   expiresAt: string | null;
   uses: number;
   maxUses: number | null;
@@ -17,7 +20,7 @@ export function useCommunityInvites(communitySlug: string) {
     queryKey: ['community-invites', communitySlug],
     queryFn: async () => {
       const { data } = await api.get(`/api/communities/${communitySlug}/invites`);
-      return data;
+      return data.data;
     },
     enabled: !!communitySlug,
   });
@@ -32,16 +35,22 @@ export function useCreateInvite() {
       communitySlug,
       maxUses,
       expiresIn,
+      email,
+      username,
+      role,
     }: {
       communitySlug: string;
       maxUses?: number;
       expiresIn?: number; // hours
+      email?: string;
+      username?: string;
+      role?: string;
     }) => {
       const response = await api.post(
         `/api/communities/${communitySlug}/invites`,
-        { maxUses, expiresIn }
+        { maxUses, expiresIn, email, username, role }
       );
-      return response.data;
+      return response.data.data;
     },
     onSuccess: (data, { communitySlug }) => {
       queryClient.invalidateQueries({
@@ -76,7 +85,7 @@ export function useDeleteInvite() {
       });
       addToast({
         type: 'success',
-        title: 'Invite deleted',
+        title: 'Invite revoked',
       });
     },
   });
@@ -88,7 +97,7 @@ export function useJoinByInvite() {
   return useMutation({
     mutationFn: async (inviteCode: string) => {
       const response = await api.post('/api/communities/join', { inviteCode });
-      return response.data;
+      return response.data.data;
     },
     onSuccess: (data) => {
       addToast({
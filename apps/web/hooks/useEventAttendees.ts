@@ -3,39 +3,61 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { api } from '../lib/api';
 
-export type AttendeeStatus = 'registered' | 'confirmed' | 'attended' | 'no_show' | 'cancelled';
+// The attendee's RSVP; offered and waitlisted are set by the event's capacity
+export type RsvpStatus = 'confirmed' | 'maybe' | 'declined' | 'offered' | 'waitlisted';
 
+// Recorded by event managers for confirmed attendees
+export type AttendanceStatus = 'attended' | 'no_show';
+
+// Statuses event managers can set; attendance replaces a confirmed RSVP in the list
+export type AttendeeStatus = 'confirmed' | 'maybe' | 'declined' | AttendanceStatus;
+
+export interface RegistrationDetails {
+  phone?: string;
+  dietaryRestrictions?: string;
+  allergies?: string;
+  specialRequirements?: string;
+}
+
+// Attendees are community members, so their name comes from their profile
 export interface EventAttendee {
   id: string;
   eventId: string;
-  userId?: string;
-  name: string;
-  email: string;
-  phone?: string;
-  status: AttendeeStatus;
-  ticketType?: string;
-  registeredAt: string;
-  checkInCode?: string;
-  checkedInAt?: string;
-  notes?: string;
+  userId: string;
+  status: RsvpStatus;
+  attendance: AttendanceStatus | null;
+  waitlistPosition: number | null;
+  offerExpiresAt: string | null;
+  joinedAt: string;
+  checkInCode: string | null;
+  checkedInAt: string | null;
+  registration: RegistrationDetails | null;
+  user: {
+    id: string;
+    username: string;
+    firstName: string | null;
+    lastName: string | null;
+    avatarUrl: string | null;
+  };
 }
 
 export interface CreateAttendeeData {
   eventId: string;
-  name: string;
-  email: string;
-  phone?: string;
-  ticketType?: string;
-  status?: AttendeeStatus;
+  userId: string;
+  status?: 'confirmed' | 'maybe' | 'declined';
 }
 
 export interface UpdateAttendeeData {
-  name?: string;
-  email?: string;
-  phone?: string;
-  status?: AttendeeStatus;
-  ticketType?: string;
-  notes?: string;
+  status: AttendeeStatus;
+}
+
+export function getAttendeeName(attendee: EventAttendee) {
+  return [attendee.user.firstName, attendee.user.lastName].filter(Boolean).join(' ') || attendee.user.username;
+}
+
+// What the attendee list shows: attendance once recorded, otherwise the RSVP
+export function getDisplayStatus(attendee: EventAttendee): RsvpStatus | AttendanceStatus {
+  return attendee.attendance ?? attendee.status;
 }
 
 export function useEventAttendees(eventId: string) {
@@ -74,6 +96,7 @@ export function useUpdateAttendeeStatus() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['event-attendees', data.eventId] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-stats', data.eventId] });
     },
   });
 }
@@ -108,12 +131,16 @@ export function useDeleteEventAttendee() {
 
 export function useSendAttendeeMessage() {
   return useMutation({
-    mutationFn: async ({ attendeeIds, message }: { attendeeIds: string[]; message: string }) => {
-      const { data } = await api.post('/api/event-attendees/send-message', {
+    mutationFn: async ({ eventId, attendeeIds, message }: {
+      eventId: string;
+      attendeeIds: string[];
+      message: string;
+    }) => {
+      const { data } = await api.post(`/api/events/${eventId}/attendees/message`, {
         attendeeIds,
         message,
       });
-      return data;
+      return data as { sent: number };
     },
   });
 }
@@ -126,7 +153,7 @@ export function useExportAttendees() {
       attendeeIds 
     }: { 
       eventId: string; 
-      format: string; 
+      format: 'csv' | 'xlsx';
       attendeeIds?: string[] 
     }) => {
       const { data } = await api.post(`/api/events/${eventId}/attendees/export`, {
@@ -152,6 +179,7 @@ export function useCheckInAttendee() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['event-attendees', data.eventId] });
+      queryClient.invalidateQueries({ queryKey: ['attendance-stats', data.eventId] });
     },
   });
 }
@@ -178,11 +206,13 @@ export function useAttendanceStats(eventId: string) {
       const { data } = await api.get(`/api/events/${eventId}/attendance-stats`);
       return data as {
         total: number;
-        registered: number;
         confirmed: number;
+        maybe: number;
+        declined: number;
+        offered: number;
+        waitlisted: number;
         attended: number;
         noShow: number;
-        cancelled: number;
         checkInRate: number;
       };
     },
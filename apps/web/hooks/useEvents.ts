@@ -121,21 +121,12 @@ export function useCompleteEventRegistration() {
   return useMutation({
     mutationFn: async ({ eventId, registrationData }: {
       eventId: string;
+      // Name and email come from the member's profile
       registrationData: {
-        firstName: string;
-        lastName: string;
-        email: string;
-        phone: string;
+        phone?: string;
         dietaryRestrictions?: string;
         allergies?: string;
         specialRequirements?: string;
-        guestCount?: number;
-        guests?: Array<{
-          name: string;
-          email: string;
-          dietaryRestrictions?: string;
-        }>;
-        paymentMethod?: string;
       }
     }) => {
       const response = await api.post(`/api/events/${eventId}/complete-registration`, registrationData);
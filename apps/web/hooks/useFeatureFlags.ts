@@ -0,0 +1,36 @@
+import { useQuery } from '@tanstack/react-query';
+import { api } from '../lib/api';
+
+export interface EvaluatedFlag {
+  enabled: boolean;
+  value: any;
+  variant: string | null;
+}
+
+export interface FlagBootstrap {
+  flags: Record<string, EvaluatedFlag>;
+  evaluatedAt: string;
+}
+
+export function useFeatureFlags(initialData?: FlagBootstrap) {
+  return useQuery<FlagBootstrap>({
+    queryKey: ['feature-flags'],
+    queryFn: async () => {
+      const { data } = await api.get('/api/flags/bootstrap');
+      return data.data;
+    },
+    initialData,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useFeatureFlag(key: string) {
+  const { data } = useFeatureFlags();
+  const flag = data?.flags[key];
+
+  return {
+    enabled: flag?.enabled ?? false,
+    value: flag?.value ?? null,
+    variant: flag?.variant ?? null,
+  };
+}
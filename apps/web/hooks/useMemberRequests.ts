@@ -6,13 +6,16 @@ interface MemberRequest {
   id: string;
   userId: string;
   communityId: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
   message?: string;
+  answers?: Record<string, string>;
+  rejectionReason?: string;
   createdAt: string;
   user: {
     id: string;
     username: string;
     email: string;
+    avatarUrl?: string;
   };
 }
 
@@ -21,7 +24,7 @@ export function useMemberRequests(communitySlug: string) {
     queryKey: ['member-requests', communitySlug],
     queryFn: async () => {
       const { data } = await api.get(`/api/communities/${communitySlug}/requests`);
-      return data;
+      return data.data;
     },
     enabled: !!communitySlug,
   });
@@ -42,7 +45,7 @@ export function useApproveMemberRequest() {
       const response = await api.post(
         `/api/communities/${communitySlug}/requests/${requestId}/approve`
       );
-      return response.data;
+      return response.data.data;
     },
     onSuccess: (_, { communitySlug }) => {
       queryClient.invalidateQueries({
@@ -67,14 +70,17 @@ export function useRejectMemberRequest() {
     mutationFn: async ({
       communitySlug,
       requestId,
+      reason,
     }: {
       communitySlug: string;
       requestId: string;
+      reason?: string;
     }) => {
       const response = await api.post(
-        `/api/communities/${communitySlug}/requests/${requestId}/reject`
+        `/api/communities/${communitySlug}/requests/${requestId}/reject`,
+        { reason }
       );
-      return response.data;
+      return response.data.data;
     },
     onSuccess: (_, { communitySlug }) => {
       queryClient.invalidateQueries({
@@ -0,0 +1,59 @@
+import { customerService } from '../services/customerService';
+import { InMemoryGateway } from '../gateway';
+import { configurePayments } from '../store';
+import { createPrismaMock, MockPrismaClient } from './prismaMock';
+
+describe('CustomerService', () => {
+  let prisma: MockPrismaClient;
+  let gateway: InMemoryGateway;
+
+  beforeEach(() => {
+    prisma = createPrismaMock();
+    gateway = new InMemoryGateway();
+    configurePayments({ prisma, gateway });
+  });
+
+  describe('getOrCreateCustomer', () => {
+    it('returns the customer already on record', async () => {
+      const customer = { id: 'customer-1', userId: 'user-1', stripeCustomerId: 'cus_1' };
+      prisma.customer.findUnique.mockResolvedValue(customer);
+
+      await expect(customerService.getOrCreateCustomer('user-1', 'jane@example.com')).resolves.toBe(customer);
+      expect(gateway.customers.size).toBe(0);
+      expect(prisma.customer.create).not.toHaveBeenCalled();
+    });
+
+    it('creates the customer with the gateway on first use', async () => {
+      prisma.customer.findUnique.mockResolvedValue(null);
+      prisma.customer.create.mockImplementation(({ data }) => Promise.resolve(data));
+
+      const customer = await customerService.getOrCreateCustomer('user-1', 'jane@example.com');
+
+      const [remote] = [...gateway.customers.values()];
+      expect(remote.email).toBe('jane@example.com');
+      expect(customer).toEqual(expect.objectContaining({
+        userId: 'user-1',
+        stripeCustomerId: remote.id,
+        email: 'jane@example.com',
+      }));
+    });
+  });
+
+  describe('createPortalSession', () => {
+    it('opens the billing portal for the customer', async () => {
+      const remote = await gateway.createCustomer('jane@example.com');
+      prisma.customer.findUnique.mockResolvedValue({ id: 'customer-1', stripeCustomerId: remote.id });
+
+      const url = await customerService.createPortalSession('user-1', 'https://app.test/billing');
+
+      expect(url).toBe(`https://billing.memory.test/${remote.id}?return_url=${encodeURIComponent('https://app.test/billing')}`);
+    });
+
+    it('requires a billing account', async () => {
+      prisma.customer.findUnique.mockResolvedValue(null);
+
+      await expect(customerService.createPortalSession('user-1', 'https://app.test/billing'))
+        .rejects.toThrow('No billing account');
+    });
+  });
+});
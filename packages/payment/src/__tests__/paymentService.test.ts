@@ -0,0 +1,125 @@
+import { paymentService } from '../services/paymentService';
+import { InMemoryGateway } from '../gateway';
+import { configurePayments } from '../store';
+import { createPrismaMock, MockPrismaClient } from './prismaMock';
+
+describe('PaymentService', () => {
+  let prisma: MockPrismaClient;
+  let gateway: InMemoryGateway;
+  let customer: { id: string; userId: string; stripeCustomerId: string };
+
+  beforeEach(async () => {
+    prisma = createPrismaMock();
+    gateway = new InMemoryGateway();
+    configurePayments({ prisma, gateway });
+
+    const remote = await gateway.createCustomer('jane@example.com');
+    customer = { id: 'customer-1', userId: 'user-1', stripeCustomerId: remote.id };
+    prisma.customer.findUnique.mockResolvedValue(customer);
+    prisma.payment.create.mockImplementation(({ data }) => Promise.resolve(data));
+    prisma.payment.upsert.mockImplementation(({ create }) => Promise.resolve(create));
+  });
+
+  describe('createPaymentIntent', () => {
+    it('creates the payment with the gateway and records it as pending', async () => {
+      const { payment, clientSecret } = await paymentService.createPaymentIntent({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        amount: 4900,
+        courseId: 'course-1',
+        description: 'Course: Woodworking',
+      });
+
+      const remote = gateway.payments.get(payment.stripePaymentId)!;
+      expect(clientSecret).toBe(remote.clientSecret);
+      expect(remote).toEqual(expect.objectContaining({
+        customerId: customer.stripeCustomerId,
+        amount: 4900,
+        currency: 'usd',
+        metadata: { userId: 'user-1', courseId: 'course-1' },
+      }));
+      expect(payment).toEqual(expect.objectContaining({
+        customerId: 'customer-1',
+        amount: 4900,
+        status: 'PENDING',
+        courseId: 'course-1',
+      }));
+    });
+
+    it('rejects amounts that are not a positive number of cents', async () => {
+      for (const amount of [0, -100, 12.5]) {
+        await expect(paymentService.createPaymentIntent({ userId: 'user-1', email: 'jane@example.com', amount }))
+          .rejects.toThrow('Invalid amount');
+      }
+      expect(gateway.payments.size).toBe(0);
+    });
+  });
+
+  describe('syncFromGateway', () => {
+    it('records the outcome of a payment', async () => {
+      const remote = await gateway.createPaymentIntent({
+        customerId: customer.stripeCustomerId,
+        amount: 4900,
+        currency: 'usd',
+        metadata: { userId: 'user-1', courseId: 'course-1' },
+      });
+      gateway.simulatePaymentFailed(remote.id, 'Insufficient funds');
+
+      const payment = await paymentService.syncFromGateway(gateway.payments.get(remote.id)!);
+
+      expect(prisma.payment.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { stripePaymentId: remote.id },
+        update: expect.objectContaining({ status: 'FAILED', failureReason: 'Insufficient funds' }),
+      }));
+      expect(payment).toEqual(expect.objectContaining({ customerId: 'customer-1', courseId: 'course-1' }));
+    });
+
+    it('rejects payments of unknown customers', async () => {
+      prisma.customer.findUnique.mockResolvedValue(null);
+      const remote = await gateway.createPaymentIntent({
+        customerId: customer.stripeCustomerId,
+        amount: 4900,
+        currency: 'usd',
+        metadata: {},
+      });
+
+      await expect(paymentService.syncFromGateway(remote))
+        .rejects.toThrow(`Unknown customer ${customer.stripeCustomerId}`);
+    });
+  });
+
+  describe('recordRefund', () => {
+    it('marks partial and full refunds', async () => {
+      prisma.payment.findUnique.mockResolvedValue({ id: 'payment-1' });
+
+      await paymentService.recordRefund({ paymentId: 'pi_1', amountRefunded: 1000, fullyRefunded: false });
+      await paymentService.recordRefund({ paymentId: 'pi_1', amountRefunded: 4900, fullyRefunded: true });
+
+      expect(prisma.payment.update.mock.calls.map(([{ data }]) => [data.refundAmount, data.status])).toEqual([
+        [1000, 'PARTIALLY_REFUNDED'],
+        [4900, 'REFUNDED'],
+      ]);
+    });
+
+    it('ignores refunds of payments not on record', async () => {
+      prisma.payment.findUnique.mockResolvedValue(null);
+
+      await expect(paymentService.recordRefund({ paymentId: 'pi_other', amountRefunded: 100, fullyRefunded: true }))
+        .resolves.toBeNull();
+      expect(prisma.payment.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPaymentHistory', () => {
+    it('caps the page size', async () => {
+      prisma.payment.findMany.mockResolvedValue([]);
+
+      await paymentService.getPaymentHistory('user-1', 500);
+
+      expect(prisma.payment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { customer: { userId: 'user-1' } },
+        take: 100,
+      }));
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { PaymentModelDelegate, PaymentPrismaClient } from '../store';
+
+export type MockDelegate = { [Method in keyof PaymentModelDelegate<unknown>]: jest.Mock };
+export type MockPrismaClient = { [Model in keyof PaymentPrismaClient]: MockDelegate };
+
+const MODELS: Array<keyof PaymentPrismaClient> = [
+  'customer',
+  'subscription',
+  'payment',
+  'paymentMethod',
+  'paymentWebhookEvent',
+];
+
+const METHODS: Array<keyof PaymentModelDelegate<unknown>> = [
+  'findUnique',
+  'findFirst',
+  'findMany',
+  'count',
+  'create',
+  'update',
+  'upsert',
+  'updateMany',
+  'delete',
+  'deleteMany',
+];
+
+/** A Prisma client whose model calls are all bare jest mocks. */
+export function createPrismaMock(): MockPrismaClient {
+  const delegate = () =>
+    Object.fromEntries(METHODS.map(method => [method, jest.fn()])) as MockDelegate;
+
+  return Object.fromEntries(MODELS.map(model => [model, delegate()])) as MockPrismaClient;
+}
@@ -0,0 +1,187 @@
+import { subscriptionService } from '../services/subscriptionService';
+import { InMemoryGateway } from '../gateway';
+import { stripeConfig } from '../config/stripe';
+import { configurePayments } from '../store';
+import { createPrismaMock, MockPrismaClient } from './prismaMock';
+
+describe('SubscriptionService', () => {
+  let prisma: MockPrismaClient;
+  let gateway: InMemoryGateway;
+  let customer: { id: string; userId: string; stripeCustomerId: string };
+
+  beforeEach(async () => {
+    prisma = createPrismaMock();
+    gateway = new InMemoryGateway();
+    configurePayments({ prisma, gateway });
+
+    const remote = await gateway.createCustomer('jane@example.com');
+    customer = { id: 'customer-1', userId: 'user-1', stripeCustomerId: remote.id };
+    prisma.customer.findUnique.mockResolvedValue(customer);
+    prisma.subscription.upsert.mockImplementation(({ create }) => Promise.resolve(create));
+  });
+
+  describe('createSubscription', () => {
+    it('starts a checkout priced by the community', async () => {
+      const session = await subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'month',
+        communityId: 'community-1',
+        amount: 1500,
+        currency: 'usd',
+      });
+
+      expect(session.url).toBe(`https://checkout.memory.test/${session.id}`);
+      expect(gateway.sessions.get(session.id)).toEqual(expect.objectContaining({
+        customerId: customer.stripeCustomerId,
+        price: { amount: 1500, currency: 'usd', interval: 'MONTH', name: 'Community membership' },
+        metadata: { userId: 'user-1', communityId: 'community-1' },
+      }));
+    });
+
+    it('uses the configured price of a platform tier', async () => {
+      stripeConfig.prices.PRO.YEAR = 'price_pro_yearly';
+      prisma.subscription.findFirst.mockResolvedValue(null);
+
+      const session = await subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'year',
+        tier: 'pro',
+      });
+
+      expect(gateway.sessions.get(session.id)).toEqual(expect.objectContaining({
+        price: { priceId: 'price_pro_yearly' },
+        metadata: { userId: 'user-1', tier: 'PRO' },
+      }));
+    });
+
+    it('rejects the tier the user already has', async () => {
+      prisma.subscription.findFirst.mockResolvedValue({ id: 'subscription-1', tier: 'PRO' });
+
+      await expect(subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'month',
+        tier: 'pro',
+      })).rejects.toThrow('Already subscribed');
+      expect(gateway.sessions.size).toBe(0);
+    });
+
+    it('rejects community checkouts without a price and unknown intervals', async () => {
+      await expect(subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'month',
+        communityId: 'community-1',
+      })).rejects.toThrow('Community subscriptions need an amount and currency');
+      await expect(subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'fortnight',
+        communityId: 'community-1',
+      })).rejects.toThrow('Invalid billing interval');
+    });
+  });
+
+  describe('syncFromGateway', () => {
+    it('records a new subscription for what the checkout was for', async () => {
+      const session = await subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'month',
+        communityId: 'community-1',
+        amount: 1500,
+        currency: 'usd',
+      });
+      gateway.simulateCheckoutCompleted(session.id);
+      const [remote] = [...gateway.subscriptions.values()];
+
+      const subscription = await subscriptionService.syncFromGateway(remote);
+
+      expect(prisma.customer.findUnique).toHaveBeenLastCalledWith({
+        where: { stripeCustomerId: customer.stripeCustomerId },
+      });
+      expect(prisma.subscription.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { stripeSubscriptionId: remote.id },
+      }));
+      expect(subscription).toEqual(expect.objectContaining({
+        customerId: 'customer-1',
+        stripeSubscriptionId: remote.id,
+        status: 'ACTIVE',
+        interval: 'MONTH',
+        tier: null,
+        communityId: 'community-1',
+      }));
+    });
+
+    it('updates the status of a subscription on record', async () => {
+      const session = await subscriptionService.createSubscription({
+        userId: 'user-1',
+        email: 'jane@example.com',
+        interval: 'month',
+        communityId: 'community-1',
+        amount: 1500,
+        currency: 'usd',
+      });
+      gateway.simulateCheckoutCompleted(session.id);
+      const [{ id }] = [...gateway.subscriptions.values()];
+      gateway.simulateSubscriptionStatus(id, 'PAST_DUE');
+
+      await subscriptionService.syncFromGateway(await gateway.getSubscription(id));
+
+      const { update } = prisma.subscription.upsert.mock.calls[0][0];
+      expect(update).toEqual(expect.objectContaining({ status: 'PAST_DUE' }));
+      expect(update).not.toHaveProperty('communityId');
+    });
+
+    it('rejects subscriptions of unknown customers', async () => {
+      const remote = await gateway.createCustomer('someone@example.com');
+      const id = await startSubscription(gateway, remote.id);
+      prisma.customer.findUnique.mockResolvedValue(null);
+
+      await expect(subscriptionService.syncFromGateway(await gateway.getSubscription(id)))
+        .rejects.toThrow(`Unknown customer ${remote.id}`);
+      expect(prisma.subscription.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelSubscription', () => {
+    it('cancels at the end of the period by default', async () => {
+      const id = await startSubscription(gateway, customer.stripeCustomerId);
+      prisma.subscription.findUnique.mockResolvedValue({ id: 'subscription-1', stripeSubscriptionId: id, customer });
+
+      await subscriptionService.cancelSubscription('subscription-1', 'user-1');
+
+      expect((await gateway.getSubscription(id)).cancelAtPeriodEnd).toBe(true);
+      expect(prisma.subscription.upsert.mock.calls[0][0].update).toEqual(expect.objectContaining({
+        status: 'ACTIVE',
+        cancelAtPeriodEnd: true,
+      }));
+    });
+
+    it('only lets the owner cancel', async () => {
+      prisma.subscription.findUnique.mockResolvedValue({
+        id: 'subscription-1',
+        stripeSubscriptionId: 'sub_1',
+        customer: { ...customer, userId: 'user-2' },
+      });
+
+      await expect(subscriptionService.cancelSubscription('subscription-1', 'user-1'))
+        .rejects.toThrow('Subscription not found');
+    });
+  });
+});
+
+// Check out a community membership on the gateway; returns the subscription id
+async function startSubscription(gateway: InMemoryGateway, customerId: string) {
+  const session = await gateway.createCheckoutSession({
+    customerId,
+    price: { amount: 1500, currency: 'usd', interval: 'MONTH', name: 'Membership' },
+    successUrl: 'https://app.test/success',
+    cancelUrl: 'https://app.test/cancel',
+    metadata: { userId: 'user-1', communityId: 'community-1' },
+  });
+  gateway.simulateCheckoutCompleted(session.id);
+  return [...gateway.subscriptions.keys()].pop()!;
+}
@@ -0,0 +1,239 @@
+import { retryDelay, WebhookService } from '../services/webhookService';
+import { InMemoryGateway, SignedWebhook } from '../gateway';
+import { configurePayments } from '../store';
+import { createPrismaMock, MockPrismaClient } from './prismaMock';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('WebhookService', () => {
+  const now = new Date('2030-01-01T12:00:00Z');
+  let prisma: MockPrismaClient;
+  let gateway: InMemoryGateway;
+  let webhookService: WebhookService;
+  let customer: { id: string; userId: string; stripeCustomerId: string };
+
+  // A stored event as handleWebhook records it
+  const stored = (webhook: SignedWebhook, overrides: Record<string, unknown> = {}) => ({
+    id: 'webhook-1',
+    provider: 'memory',
+    eventId: JSON.parse(webhook.payload).id,
+    type: JSON.parse(webhook.payload).type,
+    payload: webhook.payload,
+    status: 'FAILED',
+    attempts: 1,
+    ...overrides,
+  });
+
+  // Check out a community membership; returns the webhook for it
+  const checkout = async () => {
+    const session = await gateway.createCheckoutSession({
+      customerId: customer.stripeCustomerId,
+      price: { amount: 1500, currency: 'usd', interval: 'MONTH', name: 'Membership' },
+      successUrl: 'https://app.test/success',
+      cancelUrl: 'https://app.test/cancel',
+      metadata: { userId: 'user-1', communityId: 'community-1' },
+    });
+    return gateway.simulateCheckoutCompleted(session.id);
+  };
+
+  const lastUpdate = () => prisma.paymentWebhookEvent.update.mock.lastCall[0];
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    prisma = createPrismaMock();
+    gateway = new InMemoryGateway();
+    webhookService = new WebhookService();
+    configurePayments({ prisma, gateway });
+
+    const remote = await gateway.createCustomer('jane@example.com');
+    customer = { id: 'customer-1', userId: 'user-1', stripeCustomerId: remote.id };
+    prisma.customer.findUnique.mockResolvedValue(customer);
+    prisma.subscription.upsert.mockResolvedValue({ id: 'subscription-1' });
+    prisma.paymentWebhookEvent.findUnique.mockResolvedValue(null);
+    prisma.paymentWebhookEvent.create.mockImplementation(({ data }) => Promise.resolve({ ...data, attempts: 0 }));
+    prisma.paymentWebhookEvent.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('handleWebhook', () => {
+    it('records the event, applies it and marks it processed', async () => {
+      const webhook = await checkout();
+
+      const result = await webhookService.handleWebhook(webhook.payload, webhook.signature);
+
+      expect(prisma.paymentWebhookEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          provider: 'memory',
+          eventId: JSON.parse(webhook.payload).id,
+          type: 'customer.subscription.created',
+          payload: webhook.payload,
+        }),
+      });
+      expect(prisma.paymentWebhookEvent.updateMany).toHaveBeenCalledWith({
+        where: { id: expect.any(String), status: { in: ['RECEIVED', 'FAILED'] } },
+        data: { status: 'PROCESSING', attempts: { increment: 1 }, updatedAt: now },
+      });
+      expect(lastUpdate().data).toEqual(expect.objectContaining({ status: 'PROCESSED', processedAt: now }));
+      expect(result).toEqual(expect.objectContaining({ handled: true, subscriptionId: 'subscription-1' }));
+    });
+
+    it('acknowledges redeliveries of an event already on record without applying them', async () => {
+      const webhook = await checkout();
+      prisma.paymentWebhookEvent.findUnique.mockResolvedValue(stored(webhook, { status: 'PROCESSED' }));
+
+      const result = await webhookService.handleWebhook(webhook.payload, webhook.signature);
+
+      expect(result).toEqual(expect.objectContaining({ handled: false, duplicate: true }));
+      expect(prisma.paymentWebhookEvent.create).not.toHaveBeenCalled();
+      expect(prisma.subscription.upsert).not.toHaveBeenCalled();
+    });
+
+    it('treats losing the race to record the same event as a duplicate', async () => {
+      const webhook = await checkout();
+      prisma.paymentWebhookEvent.create.mockRejectedValue(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+      const result = await webhookService.handleWebhook(webhook.payload, webhook.signature);
+
+      expect(result.duplicate).toBe(true);
+      expect(prisma.paymentWebhookEvent.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('throws on other storage errors and bad signatures', async () => {
+      const webhook = await checkout();
+
+      await expect(webhookService.handleWebhook(webhook.payload, 'forged'))
+        .rejects.toThrow('Webhook signature verification failed');
+
+      prisma.paymentWebhookEvent.create.mockRejectedValue(new Error('Connection lost'));
+      await expect(webhookService.handleWebhook(webhook.payload, webhook.signature)).rejects.toThrow('Connection lost');
+    });
+
+    it('keeps a failed event and schedules a retry', async () => {
+      const webhook = await checkout();
+      prisma.customer.findUnique.mockResolvedValue(null);
+
+      const result = await webhookService.handleWebhook(webhook.payload, webhook.signature);
+
+      expect(result.error).toBe(`Unknown customer ${customer.stripeCustomerId}`);
+      expect(lastUpdate().data).toEqual(expect.objectContaining({
+        status: 'FAILED',
+        lastError: `Unknown customer ${customer.stripeCustomerId}`,
+        nextAttemptAt: new Date(now.getTime() + retryDelay(1)),
+      }));
+    });
+
+    it('fails the event when a listener throws', async () => {
+      const webhook = await checkout();
+      webhookService.onProcessed(() => {
+        throw new Error('Membership sync failed');
+      });
+
+      const result = await webhookService.handleWebhook(webhook.payload, webhook.signature);
+
+      expect(result.error).toBe('Membership sync failed');
+      expect(lastUpdate().data.status).toBe('FAILED');
+    });
+  });
+
+  describe('retryDelay', () => {
+    it('doubles from one minute and caps at six hours', () => {
+      expect([1, 2, 3, 4].map(retryDelay)).toEqual([1, 2, 4, 8].map(minutes => minutes * MINUTE_MS));
+      expect(retryDelay(20)).toBe(6 * 60 * MINUTE_MS);
+    });
+  });
+
+  describe('retryDueEvents', () => {
+    it('releases stale claims and retries due events with the current subscription state', async () => {
+      const webhook = await checkout();
+      const [subscription] = [...gateway.subscriptions.values()];
+      gateway.simulateSubscriptionStatus(subscription.id, 'PAST_DUE');
+      prisma.paymentWebhookEvent.findMany.mockResolvedValue([stored(webhook)]);
+
+      const result = await webhookService.retryDueEvents();
+
+      const staleBefore = new Date(now.getTime() - 10 * MINUTE_MS);
+      expect(prisma.paymentWebhookEvent.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { status: 'PROCESSING', updatedAt: { lt: staleBefore } },
+        data: { status: 'FAILED', lastError: 'Processing timed out', nextAttemptAt: now, updatedAt: now },
+      });
+      expect(prisma.paymentWebhookEvent.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          OR: [
+            { status: 'FAILED', nextAttemptAt: { lte: now } },
+            { status: 'RECEIVED', createdAt: { lt: staleBefore } },
+          ],
+        },
+      }));
+      // A retry must not roll the subscription back to the state in the event
+      expect(prisma.subscription.upsert.mock.calls[0][0].update.status).toBe('PAST_DUE');
+      expect(result).toEqual({ attempted: 1, processed: 1 });
+    });
+
+    it('skips events another worker claimed first', async () => {
+      const webhook = await checkout();
+      prisma.paymentWebhookEvent.findMany.mockResolvedValue([stored(webhook)]);
+      prisma.paymentWebhookEvent.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const result = await webhookService.retryDueEvents();
+
+      expect(prisma.subscription.upsert).not.toHaveBeenCalled();
+      expect(result).toEqual({ attempted: 1, processed: 0 });
+    });
+
+    it('gives up on an event after its last attempt fails', async () => {
+      const webhook = await checkout();
+      prisma.customer.findUnique.mockResolvedValue(null);
+      prisma.paymentWebhookEvent.findMany.mockResolvedValue([
+        stored(webhook, { id: 'webhook-1', attempts: 4 }),
+        stored(webhook, { id: 'webhook-2', attempts: 5 }),
+      ]);
+
+      const result = await webhookService.retryDueEvents();
+
+      const [fifth, sixth] = prisma.paymentWebhookEvent.update.mock.calls.map(([call]) => call);
+      expect(fifth).toEqual({
+        where: { id: 'webhook-1' },
+        data: expect.objectContaining({ status: 'FAILED', nextAttemptAt: new Date(now.getTime() + retryDelay(5)) }),
+      });
+      expect(sixth).toEqual({
+        where: { id: 'webhook-2' },
+        data: expect.objectContaining({ status: 'DEAD', nextAttemptAt: null }),
+      });
+      expect(result).toEqual({ attempted: 2, processed: 0 });
+    });
+  });
+
+  describe('replayEvent', () => {
+    it('processes a stored event again whatever its state', async () => {
+      const webhook = await checkout();
+      prisma.paymentWebhookEvent.findUnique.mockResolvedValue(stored(webhook, { status: 'DEAD', attempts: 6 }));
+
+      const result = await webhookService.replayEvent('webhook-1');
+
+      expect(prisma.paymentWebhookEvent.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'webhook-1', status: { in: ['RECEIVED', 'FAILED', 'DEAD', 'PROCESSED'] } },
+      }));
+      expect(lastUpdate().data.status).toBe('PROCESSED');
+      expect(result.subscriptionId).toBe('subscription-1');
+    });
+
+    it('refuses events being processed and unknown ids', async () => {
+      const webhook = await checkout();
+      prisma.paymentWebhookEvent.findUnique.mockResolvedValue(stored(webhook, { status: 'PROCESSING' }));
+      prisma.paymentWebhookEvent.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(webhookService.replayEvent('webhook-1')).rejects.toThrow('Webhook event is being processed');
+
+      prisma.paymentWebhookEvent.findUnique.mockResolvedValue(null);
+      await expect(webhookService.replayEvent('missing')).rejects.toThrow('Webhook event not found');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import Stripe from 'stripe';
+
+export type PlatformTier = 'BASIC' | 'PRO';
+export type PriceInterval = 'MONTH' | 'YEAR';
+
+export const stripeConfig = {
+  secretKey: process.env.STRIPE_SECRET_KEY || '',
+  webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+  apiVersion: '2023-10-16' as const,
+  successUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
+  cancelUrl: `${process.env.FRONTEND_URL || 'http://localhost:3000'}/billing/cancel`,
+  // Stripe price ids for the platform subscription tiers
+  prices: {
+    BASIC: {
+      MONTH: process.env.STRIPE_PRICE_BASIC_MONTHLY || '',
+      YEAR: process.env.STRIPE_PRICE_BASIC_YEARLY || '',
+    },
+    PRO: {
+      MONTH: process.env.STRIPE_PRICE_PRO_MONTHLY || '',
+      YEAR: process.env.STRIPE_PRICE_PRO_YEARLY || '',
+    },
+  } as Record<PlatformTier, Record<PriceInterval, string>>,
+};
+
+let stripeClient: Stripe | null = null;
+
+export function getStripeClient(): Stripe {
+  if (!stripeClient) {
+    if (!stripeConfig.secretKey) {
+      throw new Error('STRIPE_SECRET_KEY is not configured');
+    }
+    stripeClient = new Stripe(stripeConfig.secretKey, { apiVersion: stripeConfig.apiVersion });
+  }
+  return stripeClient;
+}
+
+export function getTierPriceId(tier: PlatformTier, interval: PriceInterval): string {
+  const priceId = stripeConfig.prices[tier]?.[interval];
+  if (!priceId) {
+    throw new Error(`No price configured for ${tier} ${interval.toLowerCase()}ly`);
+  }
+  return priceId;
+}
@@ -0,0 +1,24 @@
+import { PaymentGateway } from './types';
+import { StripeGateway } from './stripeGateway';
+import { InMemoryGateway } from './memoryGateway';
+
+export * from './types';
+export { StripeGateway } from './stripeGateway';
+export { InMemoryGateway, SignedWebhook } from './memoryGateway';
+
+let gateway: PaymentGateway | null = null;
+
+/**
+ * The active gateway. Defaults to Stripe; set PAYMENT_GATEWAY=memory to run
+ * without a Stripe account.
+ */
+export function getGateway(): PaymentGateway {
+  if (!gateway) {
+    gateway = process.env.PAYMENT_GATEWAY === 'memory' ? new InMemoryGateway() : new StripeGateway();
+  }
+  return gateway;
+}
+
+export function setGateway(next: PaymentGateway | null) {
+  gateway = next;
+}
@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import {
+  BillingInterval,
+  CreateCheckoutInput,
+  CreatePaymentIntentInput,
+  GatewayCheckoutSession,
+  GatewayCustomer,
+  GatewayPayment,
+  GatewayPaymentMethod,
+  GatewaySubscription,
+  PaymentEvent,
+  PaymentGateway,
+  SubscriptionStatus,
+} from './types';
+
+export interface SignedWebhook {
+  payload: string;
+  signature: string;
+}
+
+// An event as emitted, before it is given an id
+type NewEvent = {
+  [K in PaymentEvent['kind']]: Omit<Extract<PaymentEvent, { kind: K }>, 'id'>;
+}[PaymentEvent['kind']];
+
+const PERIOD_DAYS: Record<BillingInterval, number> = {
+  DAY: 1,
+  WEEK: 7,
+  MONTH: 30,
+  YEAR: 365,
+};
+
+/**
+ * Gateway that keeps everything in memory. Used by tests and local
+ * development (PAYMENT_GATEWAY=memory). The `simulate*` helpers change
+ * provider-side state and return a signed webhook to feed to
+ * `webhookService.handleWebhook`, the way the provider would.
+ */
+export class InMemoryGateway implements PaymentGateway {
+  readonly name = 'memory';
+
+  readonly customers = new Map<string, GatewayCustomer & { defaultPaymentMethodId: string | null }>();
+  readonly sessions = new Map<string, CreateCheckoutInput>();
+  readonly subscriptions = new Map<string, GatewaySubscription>();
+  readonly payments = new Map<string, GatewayPayment>();
+  readonly paymentMethods = new Map<string, GatewayPaymentMethod>();
+  private readonly events = new Map<string, PaymentEvent>();
+  private sequence = 0;
+
+  constructor(private readonly webhookSecret: string = 'whsec_memory') {}
+
+  async createCustomer(email: string): Promise<GatewayCustomer> {
+    const customer = { id: this.nextId('cus'), email, defaultPaymentMethodId: null };
+    this.customers.set(customer.id, customer);
+    return { id: customer.id, email };
+  }
+
+  async createCheckoutSession(input: CreateCheckoutInput): Promise<GatewayCheckoutSession> {
+    this.requireCustomer(input.customerId);
+    const id = this.nextId('cs');
+    this.sessions.set(id, input);
+    return { id, url: `https://checkout.memory.test/${id}` };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<string> {
+    this.requireCustomer(customerId);
+    return `https://billing.memory.test/${customerId}?return_url=${encodeURIComponent(returnUrl)}`;
+  }
+
+  async getSubscription(subscriptionId: string): Promise<GatewaySubscription> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`No such subscription: ${subscriptionId}`);
+    }
+    return { ...subscription };
+  }
+
+  async cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<GatewaySubscription> {
+    const subscription = await this.getSubscription(subscriptionId);
+    const updated = atPeriodEnd
+      ? { ...subscription, cancelAtPeriodEnd: true }
+      : { ...subscription, status: 'CANCELED' as SubscriptionStatus, canceledAt: new Date() };
+    this.subscriptions.set(subscriptionId, updated);
+    return { ...updated };
+  }
+
+  async createPaymentIntent(input: CreatePaymentIntentInput): Promise<GatewayPayment> {
+    this.requireCustomer(input.customerId);
+    const id = this.nextId('pi');
+    const payment: GatewayPayment = {
+      id,
+      customerId: input.customerId,
+      amount: input.amount,
+      currency: input.currency.toLowerCase(),
+      status: 'PENDING',
+      description: input.description || null,
+      paymentMethodId: null,
+      failureReason: null,
+      clientSecret: `${id}_secret`,
+      metadata: input.metadata,
+    };
+    this.payments.set(id, payment);
+    return { ...payment };
+  }
+
+  async attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<GatewayPaymentMethod> {
+    this.requireCustomer(customerId);
+    const method: GatewayPaymentMethod = {
+      id: paymentMethodId,
+      customerId,
+      type: 'card',
+      card: { brand: 'visa', last4: '4242', expMonth: 12, expYear: new Date().getFullYear() + 3 },
+    };
+    this.paymentMethods.set(paymentMethodId, method);
+    return { ...method };
+  }
+
+  async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+    if (!this.paymentMethods.delete(paymentMethodId)) {
+      throw new Error(`No such payment method: ${paymentMethodId}`);
+    }
+  }
+
+  async setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void> {
+    this.requireCustomer(customerId).defaultPaymentMethodId = paymentMethodId;
+  }
+
+  async parseWebhook(payload: Buffer | string, signature: string): Promise<PaymentEvent> {
+    const body = payload.toString();
+    if (signature !== this.sign(body)) {
+      throw new Error('Webhook signature verification failed');
+    }
+    return this.decodeWebhook(body);
+  }
+
+  async decodeWebhook(payload: string): Promise<PaymentEvent> {
+    const { id } = JSON.parse(payload);
+    const event = this.events.get(id);
+    if (!event) {
+      throw new Error(`No such event: ${id}`);
+    }
+    return event;
+  }
+
+  /** Finish a checkout as if the customer paid; creates the subscription. */
+  simulateCheckoutCompleted(sessionId: string, status: SubscriptionStatus = 'ACTIVE'): SignedWebhook {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`No such checkout session: ${sessionId}`);
+    }
+
+    const interval = 'priceId' in session.price ? 'MONTH' : session.price.interval;
+    const now = new Date();
+    const subscription: GatewaySubscription = {
+      id: this.nextId('sub'),
+      customerId: session.customerId,
+      priceId: 'priceId' in session.price ? session.price.priceId : this.nextId('price'),
+      status,
+      interval,
+      currentPeriodStart: now,
+      currentPeriodEnd: new Date(now.getTime() + PERIOD_DAYS[interval] * 24 * 60 * 60 * 1000),
+      cancelAtPeriodEnd: false,
+      canceledAt: null,
+      trialStart: null,
+      trialEnd: null,
+      metadata: { ...session.metadata },
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    this.sessions.delete(sessionId);
+
+    return this.emit({ kind: 'subscription', type: 'customer.subscription.created', subscription: { ...subscription } });
+  }
+
+  simulateSubscriptionStatus(subscriptionId: string, status: SubscriptionStatus): SignedWebhook {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error(`No such subscription: ${subscriptionId}`);
+    }
+
+    const updated = {
+      ...subscription,
+      status,
+      canceledAt: status === 'CANCELED' ? new Date() : subscription.canceledAt,
+    };
+    this.subscriptions.set(subscriptionId, updated);
+
+    const type = status === 'CANCELED' ? 'customer.subscription.deleted' : 'customer.subscription.updated';
+    return this.emit({ kind: 'subscription', type, subscription: { ...updated } });
+  }
+
+  simulatePaymentSucceeded(paymentId: string, paymentMethodId = 'pm_memory_card'): SignedWebhook {
+    const payment = this.updatePayment(paymentId, { status: 'SUCCEEDED', paymentMethodId });
+    return this.emit({ kind: 'payment', type: 'payment_intent.succeeded', payment });
+  }
+
+  simulatePaymentFailed(paymentId: string, reason = 'Your card was declined.'): SignedWebhook {
+    const payment = this.updatePayment(paymentId, { status: 'FAILED', failureReason: reason });
+    return this.emit({ kind: 'payment', type: 'payment_intent.payment_failed', payment });
+  }
+
+  simulateRefund(paymentId: string, amount?: number): SignedWebhook {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`No such payment: ${paymentId}`);
+    }
+    const amountRefunded = amount ?? payment.amount;
+    return this.emit({
+      kind: 'refund',
+      type: 'charge.refunded',
+      refund: { paymentId, amountRefunded, fullyRefunded: amountRefunded >= payment.amount },
+    });
+  }
+
+  private emit(event: NewEvent): SignedWebhook {
+    const id = this.nextId('evt');
+    this.events.set(id, { ...event, id } as PaymentEvent);
+    const payload = JSON.stringify({ id, type: event.type });
+    return { payload, signature: this.sign(payload) };
+  }
+
+  private updatePayment(paymentId: string, changes: Partial<GatewayPayment>): GatewayPayment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) {
+      throw new Error(`No such payment: ${paymentId}`);
+    }
+    const updated = { ...payment, ...changes };
+    this.payments.set(paymentId, updated);
+    return { ...updated };
+  }
+
+  private requireCustomer(customerId: string) {
+    const customer = this.customers.get(customerId);
+    if (!customer) {
+      throw new Error(`No such customer: ${customerId}`);
+    }
+    return customer;
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_memory_${this.sequence}`;
+  }
+}
@@ -0,0 +1,232 @@
+import Stripe from 'stripe';
+import { getStripeClient, stripeConfig } from '../config/stripe';
+import {
+  BillingInterval,
+  CreateCheckoutInput,
+  CreatePaymentIntentInput,
+  GatewayCheckoutSession,
+  GatewayCustomer,
+  GatewayPayment,
+  GatewayPaymentMethod,
+  GatewaySubscription,
+  PaymentEvent,
+  PaymentGateway,
+  PaymentStatus,
+  SubscriptionStatus,
+} from './types';
+
+const PAYMENT_INTENT_STATUS: Record<Stripe.PaymentIntent.Status, PaymentStatus> = {
+  requires_payment_method: 'PENDING',
+  requires_confirmation: 'PENDING',
+  requires_action: 'PENDING',
+  requires_capture: 'PROCESSING',
+  processing: 'PROCESSING',
+  succeeded: 'SUCCEEDED',
+  canceled: 'CANCELED',
+};
+
+const SUBSCRIPTION_EVENTS = [
+  'customer.subscription.created',
+  'customer.subscription.updated',
+  'customer.subscription.deleted',
+  'customer.subscription.paused',
+  'customer.subscription.resumed',
+];
+
+const PAYMENT_EVENTS = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'payment_intent.processing',
+  'payment_intent.canceled',
+];
+
+function toDate(seconds: number | null | undefined): Date | null {
+  return seconds ? new Date(seconds * 1000) : null;
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  return typeof value === 'string' ? value : value.id;
+}
+
+function toSubscription(subscription: Stripe.Subscription): GatewaySubscription {
+  const price = subscription.items.data[0]?.price;
+  return {
+    id: subscription.id,
+    customerId: idOf(subscription.customer)!,
+    priceId: price?.id || '',
+    status: subscription.status.toUpperCase() as SubscriptionStatus,
+    interval: (price?.recurring?.interval || 'month').toUpperCase() as BillingInterval,
+    currentPeriodStart: toDate(subscription.current_period_start)!,
+    currentPeriodEnd: toDate(subscription.current_period_end)!,
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    canceledAt: toDate(subscription.canceled_at),
+    trialStart: toDate(subscription.trial_start),
+    trialEnd: toDate(subscription.trial_end),
+    metadata: subscription.metadata,
+  };
+}
+
+function toPayment(intent: Stripe.PaymentIntent, failed = false): GatewayPayment {
+  return {
+    id: intent.id,
+    customerId: idOf(intent.customer)!,
+    amount: intent.amount,
+    currency: intent.currency,
+    status: failed ? 'FAILED' : PAYMENT_INTENT_STATUS[intent.status],
+    description: intent.description,
+    paymentMethodId: idOf(intent.payment_method),
+    failureReason: intent.last_payment_error?.message || null,
+    clientSecret: intent.client_secret,
+    metadata: intent.metadata,
+  };
+}
+
+function toPaymentMethod(method: Stripe.PaymentMethod): GatewayPaymentMethod {
+  return {
+    id: method.id,
+    customerId: idOf(method.customer),
+    type: method.type,
+    card: method.card
+      ? {
+          brand: method.card.brand,
+          last4: method.card.last4,
+          expMonth: method.card.exp_month,
+          expYear: method.card.exp_year,
+        }
+      : null,
+  };
+}
+
+export class StripeGateway implements PaymentGateway {
+  readonly name = 'stripe';
+
+  constructor(private readonly stripe: Stripe = getStripeClient()) {}
+
+  async createCustomer(email: string, metadata: Record<string, string>): Promise<GatewayCustomer> {
+    const customer = await this.stripe.customers.create({ email, metadata });
+    return { id: customer.id, email };
+  }
+
+  async createCheckoutSession(input: CreateCheckoutInput): Promise<GatewayCheckoutSession> {
+    const lineItem: Stripe.Checkout.SessionCreateParams.LineItem = 'priceId' in input.price
+      ? { price: input.price.priceId, quantity: 1 }
+      : {
+          quantity: 1,
+          price_data: {
+            currency: input.price.currency.toLowerCase(),
+            unit_amount: input.price.amount,
+            recurring: {
+              interval: input.price.interval.toLowerCase() as Stripe.Checkout.SessionCreateParams.LineItem.PriceData.Recurring.Interval,
+            },
+            product_data: { name: input.price.name },
+          },
+        };
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: 'subscription',
+      customer: input.customerId,
+      line_items: [lineItem],
+      success_url: input.successUrl,
+      cancel_url: input.cancelUrl,
+      metadata: input.metadata,
+      // Copied onto the subscription so webhooks know what it is for
+      subscription_data: { metadata: input.metadata },
+    });
+
+    if (!session.url) {
+      throw new Error('Checkout session has no URL');
+    }
+    return { id: session.id, url: session.url };
+  }
+
+  async createPortalSession(customerId: string, returnUrl: string): Promise<string> {
+    const session = await this.stripe.billingPortal.sessions.create({
+      customer: customerId,
+      return_url: returnUrl,
+    });
+    return session.url;
+  }
+
+  async getSubscription(subscriptionId: string): Promise<GatewaySubscription> {
+    return toSubscription(await this.stripe.subscriptions.retrieve(subscriptionId));
+  }
+
+  async cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<GatewaySubscription> {
+    const subscription = atPeriodEnd
+      ? await this.stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true })
+      : await this.stripe.subscriptions.cancel(subscriptionId);
+    return toSubscription(subscription);
+  }
+
+  async createPaymentIntent(input: CreatePaymentIntentInput): Promise<GatewayPayment> {
+    const intent = await this.stripe.paymentIntents.create({
+      customer: input.customerId,
+      amount: input.amount,
+      currency: input.currency.toLowerCase(),
+      description: input.description,
+      metadata: input.metadata,
+      automatic_payment_methods: { enabled: true },
+    });
+    return toPayment(intent);
+  }
+
+  async attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<GatewayPaymentMethod> {
+    const method = await this.stripe.paymentMethods.attach(paymentMethodId, { customer: customerId });
+    return toPaymentMethod(method);
+  }
+
+  async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+    await this.stripe.paymentMethods.detach(paymentMethodId);
+  }
+
+  async setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void> {
+    await this.stripe.customers.update(customerId, {
+      invoice_settings: { default_payment_method: paymentMethodId },
+    });
+  }
+
+  async parseWebhook(payload: Buffer | string, signature: string): Promise<PaymentEvent> {
+    if (!stripeConfig.webhookSecret) {
+      throw new Error('STRIPE_WEBHOOK_SECRET is not configured');
+    }
+    return this.toEvent(this.stripe.webhooks.constructEvent(payload, signature, stripeConfig.webhookSecret));
+  }
+
+  async decodeWebhook(payload: string): Promise<PaymentEvent> {
+    return this.toEvent(JSON.parse(payload) as Stripe.Event);
+  }
+
+  private toEvent(event: Stripe.Event): PaymentEvent {
+    const base = { id: event.id, type: event.type };
+
+    if (SUBSCRIPTION_EVENTS.includes(event.type)) {
+      return { ...base, kind: 'subscription', subscription: toSubscription(event.data.object as Stripe.Subscription) };
+    }
+
+    if (PAYMENT_EVENTS.includes(event.type)) {
+      const failed = event.type === 'payment_intent.payment_failed';
+      return { ...base, kind: 'payment', payment: toPayment(event.data.object as Stripe.PaymentIntent, failed) };
+    }
+
+    if (event.type === 'charge.refunded') {
+      const charge = event.data.object as Stripe.Charge;
+      const paymentId = idOf(charge.payment_intent);
+      if (paymentId) {
+        return {
+          ...base,
+          kind: 'refund',
+          refund: { paymentId, amountRefunded: charge.amount_refunded, fullyRefunded: charge.refunded },
+        };
+      }
+    }
+
+    if (event.type === 'payment_method.detached') {
+      return { ...base, kind: 'payment_method_detached', paymentMethodId: (event.data.object as Stripe.PaymentMethod).id };
+    }
+
+    return { ...base, kind: 'ignored' };
+  }
+}
@@ -0,0 +1,143 @@
+// Provider-neutral shapes used by the payment services. Adapters translate
+// their provider's objects into these so persistence never sees Stripe types.
+
+export type SubscriptionStatus =
+  | 'ACTIVE'
+  | 'CANCELED'
+  | 'INCOMPLETE'
+  | 'INCOMPLETE_EXPIRED'
+  | 'PAST_DUE'
+  | 'TRIALING'
+  | 'UNPAID'
+  | 'PAUSED';
+
+export type PaymentStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'CANCELED'
+  | 'REFUNDED'
+  | 'PARTIALLY_REFUNDED';
+
+export type BillingInterval = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
+
+export interface GatewayCustomer {
+  id: string;
+  email: string;
+}
+
+export interface GatewaySubscription {
+  id: string;
+  customerId: string;
+  priceId: string;
+  status: SubscriptionStatus;
+  interval: BillingInterval;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  canceledAt: Date | null;
+  trialStart: Date | null;
+  trialEnd: Date | null;
+  metadata: Record<string, string>;
+}
+
+export interface GatewayPayment {
+  id: string;
+  customerId: string;
+  amount: number;
+  currency: string;
+  status: PaymentStatus;
+  description: string | null;
+  paymentMethodId: string | null;
+  failureReason: string | null;
+  clientSecret: string | null;
+  metadata: Record<string, string>;
+}
+
+export interface GatewayPaymentMethod {
+  id: string;
+  customerId: string | null;
+  type: string;
+  card: {
+    brand: string;
+    last4: string;
+    expMonth: number;
+    expYear: number;
+  } | null;
+}
+
+export interface GatewayCheckoutSession {
+  id: string;
+  url: string;
+}
+
+/**
+ * What to charge in a checkout: either a price the provider already knows
+ * (platform tiers) or an ad-hoc recurring price (community memberships).
+ */
+export type CheckoutPrice =
+  | { priceId: string }
+  | { amount: number; currency: string; interval: BillingInterval; name: string };
+
+export interface CreateCheckoutInput {
+  customerId: string;
+  price: CheckoutPrice;
+  successUrl: string;
+  cancelUrl: string;
+  metadata: Record<string, string>;
+}
+
+export interface CreatePaymentIntentInput {
+  customerId: string;
+  amount: number;
+  currency: string;
+  description?: string;
+  metadata: Record<string, string>;
+}
+
+export interface GatewayRefund {
+  paymentId: string;
+  amountRefunded: number;
+  fullyRefunded: boolean;
+}
+
+/**
+ * A verified webhook event reduced to the parts the services act on.
+ * Events the services do not care about come through as `ignored`.
+ */
+export type PaymentEvent =
+  | { id: string; type: string; kind: 'subscription'; subscription: GatewaySubscription }
+  | { id: string; type: string; kind: 'payment'; payment: GatewayPayment }
+  | { id: string; type: string; kind: 'refund'; refund: GatewayRefund }
+  | { id: string; type: string; kind: 'payment_method_detached'; paymentMethodId: string }
+  | { id: string; type: string; kind: 'ignored' };
+
+export interface PaymentGateway {
+  readonly name: string;
+
+  createCustomer(email: string, metadata: Record<string, string>): Promise<GatewayCustomer>;
+  createCheckoutSession(input: CreateCheckoutInput): Promise<GatewayCheckoutSession>;
+  createPortalSession(customerId: string, returnUrl: string): Promise<string>;
+
+  getSubscription(subscriptionId: string): Promise<GatewaySubscription>;
+  cancelSubscription(subscriptionId: string, atPeriodEnd: boolean): Promise<GatewaySubscription>;
+
+  createPaymentIntent(input: CreatePaymentIntentInput): Promise<GatewayPayment>;
+
+  attachPaymentMethod(customerId: string, paymentMethodId: string): Promise<GatewayPaymentMethod>;
+  detachPaymentMethod(paymentMethodId: string): Promise<void>;
+  setDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void>;
+
+  /**
+   * Verify a webhook signature and decode the event. Throws if the
+   * signature does not match.
+   */
+  parseWebhook(payload: Buffer | string, signature: string): Promise<PaymentEvent>;
+
+  /**
+   * Decode a payload that was verified when it arrived. Used to replay
+   * stored events after the signature's timestamp tolerance has passed.
+   */
+  decodeWebhook(payload: string): Promise<PaymentEvent>;
+}
@@ -1,7 +1,9 @@
 // Payment package exports
 export * from './config/stripe';
+export * from './gateway';
+export * from './store';
 export * from './services/customerService';
 export * from './services/paymentMethodService';
 export * from './services/paymentService';
 export * from './services/subscriptionService';
-export * from './services/webhookService';
\ No newline at end of file
+export * from './services/webhookService';
@@ -1,7 +1,43 @@
-// Customer service placeholder
-export const customerService = {
-  // Placeholder implementation
-  async createCustomer(data: any) {
-    return { id: 'placeholder', ...data };
+import { randomUUID } from 'crypto';
+import { getGateway } from '../gateway';
+import { getPrisma } from '../store';
+
+export class CustomerService {
+  async getCustomerByUserId(userId: string) {
+    return await getPrisma().customer.findUnique({ where: { userId } });
   }
-};
\ No newline at end of file
+
+  /**
+   * Find the billing customer for a user, creating it with the gateway on
+   * first use.
+   */
+  async getOrCreateCustomer(userId: string, email: string) {
+    const existing = await this.getCustomerByUserId(userId);
+    if (existing) {
+      return existing;
+    }
+
+    const remote = await getGateway().createCustomer(email, { userId });
+
+    return await getPrisma().customer.create({
+      data: {
+        id: randomUUID(),
+        userId,
+        stripeCustomerId: remote.id,
+        email,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  async createPortalSession(userId: string, returnUrl: string): Promise<string> {
+    const customer = await this.getCustomerByUserId(userId);
+    if (!customer) {
+      throw new Error('No billing account');
+    }
+
+    return await getGateway().createPortalSession(customer.stripeCustomerId, returnUrl);
+  }
+}
+
+export const customerService = new CustomerService();
@@ -1,7 +1,71 @@
-// Payment method service placeholder
-export const paymentMethodService = {
-  // Placeholder implementation
-  async createPaymentMethod(data: any) {
-    return { id: 'placeholder', ...data };
+import { randomUUID } from 'crypto';
+import { getGateway } from '../gateway';
+import { getPrisma } from '../store';
+import { customerService } from './customerService';
+
+export class PaymentMethodService {
+  async listPaymentMethods(userId: string) {
+    return await getPrisma().paymentMethod.findMany({
+      where: { customer: { userId } },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+    });
   }
-};
\ No newline at end of file
+
+  /**
+   * Attach a payment method collected on the client. The first method a
+   * customer adds becomes the default.
+   */
+  async addPaymentMethod(userId: string, paymentMethodId: string, setAsDefault: boolean = false) {
+    const prisma = getPrisma();
+    const customer = await customerService.getCustomerByUserId(userId);
+    if (!customer) {
+      throw new Error('No billing account');
+    }
+
+    const remote = await getGateway().attachPaymentMethod(customer.stripeCustomerId, paymentMethodId);
+    const existingCount = await prisma.paymentMethod.count({ where: { customerId: customer.id } });
+    const isDefault = setAsDefault || existingCount === 0;
+
+    if (isDefault) {
+      await getGateway().setDefaultPaymentMethod(customer.stripeCustomerId, remote.id);
+      await prisma.paymentMethod.updateMany({
+        where: { customerId: customer.id, isDefault: true },
+        data: { isDefault: false, updatedAt: new Date() },
+      });
+    }
+
+    return await prisma.paymentMethod.create({
+      data: {
+        id: randomUUID(),
+        customerId: customer.id,
+        stripePaymentMethodId: remote.id,
+        type: remote.type,
+        card: remote.card,
+        isDefault,
+        updatedAt: new Date(),
+      },
+    });
+  }
+
+  async removePaymentMethod(id: string, userId: string) {
+    const prisma = getPrisma();
+    const method = await prisma.paymentMethod.findUnique({
+      where: { id },
+      include: { customer: true },
+    });
+
+    if (!method || method.customer.userId !== userId) {
+      throw new Error('Payment method not found');
+    }
+
+    await getGateway().detachPaymentMethod(method.stripePaymentMethodId);
+    await prisma.paymentMethod.delete({ where: { id } });
+  }
+
+  /** Drop a payment method removed on the gateway side. */
+  async handleDetached(stripePaymentMethodId: string) {
+    await getPrisma().paymentMethod.deleteMany({ where: { stripePaymentMethodId } });
+  }
+}
+
+export const paymentMethodService = new PaymentMethodService();
@@ -1,7 +1,119 @@
-// Payment service placeholder
-export const paymentService = {
-  // Placeholder implementation
-  async createPayment(data: any) {
-    return { id: 'placeholder', ...data };
+import { randomUUID } from 'crypto';
+import { getGateway } from '../gateway';
+import { GatewayPayment, GatewayRefund } from '../gateway/types';
+import { getPrisma } from '../store';
+import { customerService } from './customerService';
+
+export interface CreatePaymentInput {
+  userId: string;
+  email: string;
+  amount: number; // cents
+  currency?: string;
+  description?: string;
+  courseId?: string;
+  metadata?: Record<string, string>;
+}
+
+export class PaymentService {
+  /**
+   * Create a one-time payment. The client confirms it with the returned
+   * secret; the outcome arrives by webhook.
+   */
+  async createPaymentIntent(input: CreatePaymentInput) {
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new Error('Invalid amount');
+    }
+
+    const customer = await customerService.getOrCreateCustomer(input.userId, input.email);
+    const metadata = {
+      ...input.metadata,
+      userId: input.userId,
+      ...(input.courseId ? { courseId: input.courseId } : {}),
+    };
+
+    const remote = await getGateway().createPaymentIntent({
+      customerId: customer.stripeCustomerId,
+      amount: input.amount,
+      currency: input.currency || 'usd',
+      description: input.description,
+      metadata,
+    });
+
+    const payment = await getPrisma().payment.create({
+      data: {
+        id: randomUUID(),
+        customerId: customer.id,
+        stripePaymentId: remote.id,
+        amount: remote.amount,
+        currency: remote.currency,
+        status: remote.status,
+        description: remote.description,
+        courseId: input.courseId,
+        metadata,
+        updatedAt: new Date(),
+      },
+    });
+
+    return { payment, clientSecret: remote.clientSecret };
   }
-};
\ No newline at end of file
+
+  async getPaymentHistory(userId: string, limit: number = 10) {
+    return await getPrisma().payment.findMany({
+      where: { customer: { userId } },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  /** Write the gateway's view of a payment to the database. */
+  async syncFromGateway(remote: GatewayPayment) {
+    const prisma = getPrisma();
+    const customer = await prisma.customer.findUnique({ where: { stripeCustomerId: remote.customerId } });
+    if (!customer) {
+      throw new Error(`Unknown customer ${remote.customerId}`);
+    }
+
+    const fields = {
+      status: remote.status,
+      paymentMethodId: remote.paymentMethodId,
+      failureReason: remote.failureReason,
+      updatedAt: new Date(),
+    };
+
+    return await prisma.payment.upsert({
+      where: { stripePaymentId: remote.id },
+      update: fields,
+      create: {
+        ...fields,
+        id: randomUUID(),
+        customerId: customer.id,
+        stripePaymentId: remote.id,
+        amount: remote.amount,
+        currency: remote.currency,
+        description: remote.description,
+        courseId: remote.metadata.courseId || null,
+        metadata: remote.metadata,
+      },
+    });
+  }
+
+  async recordRefund(refund: GatewayRefund) {
+    const prisma = getPrisma();
+    const payment = await prisma.payment.findUnique({ where: { stripePaymentId: refund.paymentId } });
+    if (!payment) {
+      return null;
+    }
+
+    return await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        refunded: true,
+        refundAmount: refund.amountRefunded,
+        status: refund.fullyRefunded ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
+        updatedAt: new Date(),
+      },
+    });
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -1,7 +1,145 @@
-// Subscription service placeholder
-export const subscriptionService = {
-  // Placeholder implementation
-  async createSubscription(data: any) {
-    return { id: 'placeholder', ...data };
+import { randomUUID } from 'crypto';
+import { getGateway } from '../gateway';
+import { GatewaySubscription } from '../gateway/types';
+import { getTierPriceId, PlatformTier, PriceInterval, stripeConfig } from '../config/stripe';
+import { getPrisma } from '../store';
+import { customerService } from './customerService';
+
+export interface CreateSubscriptionInput {
+  userId: string;
+  email: string;
+  interval: string;
+  // Platform plan
+  tier?: string;
+  // Paid community membership, priced by the community
+  communityId?: string;
+  amount?: number; // cents
+  currency?: string;
+  description?: string;
+}
+
+// Subscriptions that still entitle the customer to what they pay for
+const CURRENT_STATUSES = ['ACTIVE', 'TRIALING', 'PAST_DUE'];
+
+function toInterval(interval: string): PriceInterval {
+  const normalized = interval.toUpperCase();
+  if (normalized !== 'MONTH' && normalized !== 'YEAR') {
+    throw new Error('Invalid billing interval');
   }
-};
\ No newline at end of file
+  return normalized;
+}
+
+export class SubscriptionService {
+  /**
+   * Start a checkout for a platform tier or a community membership. The
+   * subscription row is written when the gateway reports it via webhook.
+   */
+  async createSubscription(input: CreateSubscriptionInput): Promise<{ id: string; url: string }> {
+    const interval = toInterval(input.interval);
+    const customer = await customerService.getOrCreateCustomer(input.userId, input.email);
+    const metadata: Record<string, string> = { userId: input.userId };
+
+    let price;
+    if (input.communityId) {
+      if (!input.amount || !input.currency) {
+        throw new Error('Community subscriptions need an amount and currency');
+      }
+      price = {
+        amount: input.amount,
+        currency: input.currency,
+        interval,
+        name: input.description || 'Community membership',
+      };
+      metadata.communityId = input.communityId;
+    } else if (input.tier) {
+      const tier = input.tier.toUpperCase() as PlatformTier;
+      const current = await this.getUserSubscription(input.userId);
+      if (current && current.tier === tier) {
+        throw new Error('Already subscribed');
+      }
+      price = { priceId: getTierPriceId(tier, interval) };
+      metadata.tier = tier;
+    } else {
+      throw new Error('A tier or community is required');
+    }
+
+    return await getGateway().createCheckoutSession({
+      customerId: customer.stripeCustomerId,
+      price,
+      successUrl: stripeConfig.successUrl,
+      cancelUrl: stripeConfig.cancelUrl,
+      metadata,
+    });
+  }
+
+  /** The user's current platform subscription, if any. */
+  async getUserSubscription(userId: string) {
+    return await getPrisma().subscription.findFirst({
+      where: {
+        customer: { userId },
+        communityId: null,
+        status: { in: CURRENT_STATUSES },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Cancel a subscription owned by the user. By default access continues to
+   * the end of the paid period.
+   */
+  async cancelSubscription(subscriptionId: string, userId: string, atPeriodEnd: boolean = true) {
+    const subscription = await getPrisma().subscription.findUnique({
+      where: { id: subscriptionId },
+      include: { customer: true },
+    });
+
+    if (!subscription || subscription.customer.userId !== userId) {
+      throw new Error('Subscription not found');
+    }
+
+    const remote = await getGateway().cancelSubscription(subscription.stripeSubscriptionId, atPeriodEnd);
+    return await this.syncFromGateway(remote);
+  }
+
+  /**
+   * Write the gateway's view of a subscription to the database. What the
+   * subscription is for comes from the metadata set at checkout.
+   */
+  async syncFromGateway(remote: GatewaySubscription) {
+    const prisma = getPrisma();
+    const customer = await prisma.customer.findUnique({ where: { stripeCustomerId: remote.customerId } });
+    if (!customer) {
+      throw new Error(`Unknown customer ${remote.customerId}`);
+    }
+
+    const fields = {
+      stripePriceId: remote.priceId,
+      status: remote.status,
+      interval: remote.interval,
+      currentPeriodStart: remote.currentPeriodStart,
+      currentPeriodEnd: remote.currentPeriodEnd,
+      cancelAtPeriodEnd: remote.cancelAtPeriodEnd,
+      canceledAt: remote.canceledAt,
+      trialStart: remote.trialStart,
+      trialEnd: remote.trialEnd,
+      metadata: remote.metadata,
+      updatedAt: new Date(),
+    };
+
+    return await prisma.subscription.upsert({
+      where: { stripeSubscriptionId: remote.id },
+      update: fields,
+      create: {
+        ...fields,
+        id: randomUUID(),
+        customerId: customer.id,
+        stripeSubscriptionId: remote.id,
+        tier: remote.metadata.tier || null,
+        communityId: remote.metadata.communityId || null,
+      },
+    });
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
@@ -1,7 +1,274 @@
-// Webhook service placeholder
-export const webhookService = {
-  // Placeholder implementation
-  async handleWebhook(data: any) {
-    return { success: true, data };
+import { randomUUID } from 'crypto';
+import { getGateway } from '../gateway';
+import { PaymentEvent } from '../gateway/types';
+import { getPrisma } from '../store';
+import { subscriptionService } from './subscriptionService';
+import { paymentService } from './paymentService';
+import { paymentMethodService } from './paymentMethodService';
+
+export interface WebhookResult {
+  eventId: string;
+  type: string;
+  handled: boolean;
+  // Set when the event was already received; nothing was done
+  duplicate?: boolean;
+  // Set when processing failed and a retry was scheduled
+  error?: string;
+  // Local ids of the records the event changed
+  subscriptionId?: string;
+  paymentId?: string;
+}
+
+export type WebhookListener = (result: WebhookResult) => Promise<void> | void;
+
+export interface ListWebhookEventsOptions {
+  status?: string[];
+  type?: string;
+  page?: number;
+  limit?: number;
+}
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// A claim older than this belongs to a worker that died mid-processing
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+const RETRYABLE_STATUSES = ['RECEIVED', 'FAILED'];
+
+/** Delay before the next attempt: 1, 2, 4, 8… minutes, capped at six hours. */
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+function isUniqueViolation(error: any) {
+  return error?.code === 'P2002';
+}
+
+export class WebhookService {
+  private listeners: WebhookListener[] = [];
+
+  /**
+   * Run a callback after each event is applied. A listener that throws
+   * fails the event, so it is retried along with the payment changes.
+   */
+  onProcessed(listener: WebhookListener) {
+    this.listeners.push(listener);
   }
-};
\ No newline at end of file
+
+  /**
+   * Verify, record and apply a gateway webhook. Each provider event is
+   * processed once; redeliveries of an event already on record are
+   * acknowledged without doing anything. Failures are kept and retried by
+   * `retryDueEvents`, so only a bad signature or a storage error throws.
+   */
+  async handleWebhook(payload: Buffer | string, signature: string): Promise<WebhookResult> {
+    const gateway = getGateway();
+    const event = await gateway.parseWebhook(payload, signature);
+    const prisma = getPrisma();
+
+    const duplicate = { eventId: event.id, type: event.type, handled: false, duplicate: true };
+    const existing = await prisma.paymentWebhookEvent.findUnique({
+      where: { provider_eventId: { provider: gateway.name, eventId: event.id } },
+    });
+    if (existing) {
+      return duplicate;
+    }
+
+    let record;
+    try {
+      record = await prisma.paymentWebhookEvent.create({
+        data: {
+          id: randomUUID(),
+          provider: gateway.name,
+          eventId: event.id,
+          type: event.type,
+          payload: payload.toString(),
+          updatedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      // The same event delivered twice at once: the other request has it
+      if (isUniqueViolation(error)) {
+        return duplicate;
+      }
+      throw error;
+    }
+
+    return await this.process(record, RETRYABLE_STATUSES, event);
+  }
+
+  /** Retry failed events whose backoff has elapsed. Run from cron. */
+  async retryDueEvents(limit: number = 50) {
+    const prisma = getPrisma();
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - STALE_CLAIM_MS);
+
+    await prisma.paymentWebhookEvent.updateMany({
+      where: { status: 'PROCESSING', updatedAt: { lt: staleBefore } },
+      data: { status: 'FAILED', lastError: 'Processing timed out', nextAttemptAt: now, updatedAt: now },
+    });
+
+    const due = await prisma.paymentWebhookEvent.findMany({
+      where: {
+        OR: [
+          { status: 'FAILED', nextAttemptAt: { lte: now } },
+          // Recorded but never picked up, e.g. the process stopped right after
+          { status: 'RECEIVED', createdAt: { lt: staleBefore } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    let processed = 0;
+    for (const record of due) {
+      const result = await this.process(record, RETRYABLE_STATUSES);
+      if (!result.error && !result.duplicate) {
+        processed += 1;
+      }
+    }
+
+    return { attempted: due.length, processed };
+  }
+
+  /**
+   * Process a stored event again regardless of its state, e.g. after fixing
+   * the cause of a failure.
+   */
+  async replayEvent(id: string) {
+    const record = await getPrisma().paymentWebhookEvent.findUnique({ where: { id } });
+    if (!record) {
+      throw new Error('Webhook event not found');
+    }
+
+    const result = await this.process(record, ['RECEIVED', 'FAILED', 'DEAD', 'PROCESSED']);
+    if (result.duplicate) {
+      throw new Error('Webhook event is being processed');
+    }
+    return result;
+  }
+
+  async listEvents(options: ListWebhookEventsOptions = {}) {
+    const prisma = getPrisma();
+    const page = Math.max(options.page || 1, 1);
+    const limit = Math.min(Math.max(options.limit || 20, 1), 100);
+    const where = {
+      ...(options.status?.length ? { status: { in: options.status } } : {}),
+      ...(options.type ? { type: options.type } : {}),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.paymentWebhookEvent.findMany({
+        where,
+        select: {
+          id: true,
+          provider: true,
+          eventId: true,
+          type: true,
+          status: true,
+          attempts: true,
+          lastError: true,
+          nextAttemptAt: true,
+          processedAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.paymentWebhookEvent.count({ where }),
+    ]);
+
+    return { events, total, page, limit };
+  }
+
+  async getEvent(id: string) {
+    return await getPrisma().paymentWebhookEvent.findUnique({ where: { id } });
+  }
+
+  // Claim the event, apply it and record the outcome. The claim is a
+  // conditional update so two workers never process the same event.
+  private async process(record: any, fromStatuses: string[], event?: PaymentEvent): Promise<WebhookResult> {
+    const prisma = getPrisma();
+    const claimed = await prisma.paymentWebhookEvent.updateMany({
+      where: { id: record.id, status: { in: fromStatuses } },
+      data: { status: 'PROCESSING', attempts: { increment: 1 }, updatedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return { eventId: record.eventId, type: record.type, handled: false, duplicate: true };
+    }
+
+    const attempts = record.attempts + 1;
+    try {
+      const decoded = event || await getGateway().decodeWebhook(record.payload);
+      const result = await this.apply(decoded, attempts > 1);
+      for (const listener of this.listeners) {
+        await listener(result);
+      }
+
+      await prisma.paymentWebhookEvent.update({
+        where: { id: record.id },
+        data: {
+          status: 'PROCESSED',
+          processedAt: new Date(),
+          lastError: null,
+          nextAttemptAt: null,
+          updatedAt: new Date(),
+        },
+      });
+      return result;
+    } catch (error: any) {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      const message = error?.message || String(error);
+      console.error(`Payment webhook ${record.eventId} failed (attempt ${attempts}):`, error);
+
+      await prisma.paymentWebhookEvent.update({
+        where: { id: record.id },
+        data: {
+          status: exhausted ? 'DEAD' : 'FAILED',
+          lastError: message,
+          nextAttemptAt: exhausted ? null : new Date(Date.now() + retryDelay(attempts)),
+          updatedAt: new Date(),
+        },
+      });
+      return { eventId: record.eventId, type: record.type, handled: false, error: message };
+    }
+  }
+
+  private async apply(event: PaymentEvent, isRetry: boolean): Promise<WebhookResult> {
+    const result: WebhookResult = { eventId: event.id, type: event.type, handled: true };
+
+    switch (event.kind) {
+      case 'subscription': {
+        // A late retry must not roll back newer changes, so use current state
+        const remote = isRetry
+          ? await getGateway().getSubscription(event.subscription.id)
+          : event.subscription;
+        const subscription = await subscriptionService.syncFromGateway(remote);
+        result.subscriptionId = subscription.id;
+        break;
+      }
+      case 'payment': {
+        const payment = await paymentService.syncFromGateway(event.payment);
+        result.paymentId = payment.id;
+        break;
+      }
+      case 'refund': {
+        const payment = await paymentService.recordRefund(event.refund);
+        result.paymentId = payment?.id;
+        break;
+      }
+      case 'payment_method_detached':
+        await paymentMethodService.handleDetached(event.paymentMethodId);
+        break;
+      default:
+        result.handled = false;
+    }
+
+    return result;
+  }
+}
+
+export const webhookService = new WebhookService();
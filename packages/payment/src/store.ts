@@ -0,0 +1,95 @@
+import { PaymentGateway } from './gateway/types';
+import { setGateway } from './gateway';
+
+export interface CustomerRecord {
+  id: string;
+  userId: string;
+  stripeCustomerId: string;
+  email: string;
+}
+
+export interface SubscriptionRecord {
+  id: string;
+  customerId: string;
+  stripeSubscriptionId: string;
+  status: string;
+  tier: string | null;
+  communityId: string | null;
+  // Only loaded when the query includes it
+  customer: CustomerRecord;
+}
+
+export interface PaymentRecord {
+  id: string;
+  customerId: string;
+  stripePaymentId: string;
+  amount: number;
+  currency: string;
+  status: string;
+  courseId: string | null;
+}
+
+export interface PaymentMethodRecord {
+  id: string;
+  customerId: string;
+  stripePaymentMethodId: string;
+  isDefault: boolean;
+  // Only loaded when the query includes it
+  customer: CustomerRecord;
+}
+
+export interface PaymentWebhookEventRecord {
+  id: string;
+  provider: string;
+  eventId: string;
+  type: string;
+  payload: string;
+  status: string;
+  attempts: number;
+}
+
+/** The calls the payment services make on a Prisma model. */
+export interface PaymentModelDelegate<Row> {
+  findUnique(args: object): Promise<Row | null>;
+  findFirst(args: object): Promise<Row | null>;
+  findMany(args: object): Promise<Row[]>;
+  count(args: object): Promise<number>;
+  create(args: object): Promise<Row>;
+  update(args: object): Promise<Row>;
+  upsert(args: object): Promise<Row>;
+  updateMany(args: object): Promise<{ count: number }>;
+  delete(args: object): Promise<Row>;
+  deleteMany(args: object): Promise<{ count: number }>;
+}
+
+/** The models of the API's Prisma client the payment services use. */
+export interface PaymentPrismaClient {
+  customer: PaymentModelDelegate<CustomerRecord>;
+  subscription: PaymentModelDelegate<SubscriptionRecord>;
+  payment: PaymentModelDelegate<PaymentRecord>;
+  paymentMethod: PaymentModelDelegate<PaymentMethodRecord>;
+  paymentWebhookEvent: PaymentModelDelegate<PaymentWebhookEventRecord>;
+}
+
+// The Prisma client is generated inside the API, so the package cannot import
+// it. The API hands its instance over with `configurePayments` at startup.
+let prismaClient: PaymentPrismaClient | null = null;
+
+export interface PaymentOptions {
+  prisma: PaymentPrismaClient;
+  gateway?: PaymentGateway;
+}
+
+export function configurePayments(options: PaymentOptions) {
+  prismaClient = options.prisma;
+  if (options.gateway) {
+    setGateway(options.gateway);
+  }
+}
+
+export function getPrisma(): PaymentPrismaClient {
+  if (!prismaClient) {
+    throw new Error('Payments are not configured: call configurePayments({ prisma }) first');
+  }
+  return prismaClient;
+}